@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "PileRefusal" ADD COLUMN "localId" TEXT;
+ALTER TABLE "PileRefusal" ADD COLUMN "deviceId" TEXT;
@@ -0,0 +1,15 @@
+-- AlterTable
+ALTER TABLE "ProductionEntry" ADD COLUMN "revision" INTEGER NOT NULL DEFAULT 1;
+
+-- AlterTable
+ALTER TABLE "QCInspection" ADD COLUMN "revision" INTEGER NOT NULL DEFAULT 1;
+
+-- AlterTable
+ALTER TABLE "PileRefusal" ADD COLUMN "revision" INTEGER NOT NULL DEFAULT 1;
+
+-- AlterTable
+ALTER TABLE "SyncQueue" ADD COLUMN "recordId" TEXT;
+ALTER TABLE "SyncQueue" ADD COLUMN "baseRevision" INTEGER;
+ALTER TABLE "SyncQueue" ADD COLUMN "userId" TEXT;
+ALTER TABLE "SyncQueue" ADD COLUMN "resolution" TEXT;
+ALTER TABLE "SyncQueue" ADD COLUMN "resolvedBy" TEXT;
@@ -0,0 +1,44 @@
+-- CreateTable
+CREATE TABLE "Pile" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "pileId" TEXT NOT NULL,
+    "block" TEXT,
+    "row" INTEGER NOT NULL,
+    "pileNumber" INTEGER NOT NULL,
+    "pileType" TEXT NOT NULL DEFAULT 'interior',
+    "status" TEXT NOT NULL DEFAULT 'planned',
+    "drivenAt" DATETIME,
+    "inspectedAt" DATETIME,
+    "projectId" TEXT NOT NULL,
+    "productionEntryId" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "Pile_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "Pile_productionEntryId_fkey" FOREIGN KEY ("productionEntryId") REFERENCES "ProductionEntry" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "_PileToQCInspection" (
+    "A" TEXT NOT NULL,
+    "B" TEXT NOT NULL,
+    CONSTRAINT "_PileToQCInspection_A_fkey" FOREIGN KEY ("A") REFERENCES "Pile" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "_PileToQCInspection_B_fkey" FOREIGN KEY ("B") REFERENCES "QCInspection" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- AlterTable
+ALTER TABLE "PileRefusal" ADD COLUMN "pileRecordId" TEXT REFERENCES "Pile" ("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Pile_projectId_pileId_key" ON "Pile"("projectId", "pileId");
+
+-- CreateIndex
+CREATE INDEX "Pile_projectId_status_idx" ON "Pile"("projectId", "status");
+
+-- CreateIndex
+CREATE INDEX "Pile_projectId_row_idx" ON "Pile"("projectId", "row");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "_PileToQCInspection_AB_unique" ON "_PileToQCInspection"("A", "B");
+
+-- CreateIndex
+CREATE INDEX "_PileToQCInspection_B_index" ON "_PileToQCInspection"("B");
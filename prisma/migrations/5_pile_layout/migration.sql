@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Pile" ADD COLUMN "easting" REAL;
+ALTER TABLE "Pile" ADD COLUMN "northing" REAL;
@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "RackingSystemRevision" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "revision" INTEGER NOT NULL,
+    "interiorTolerances" TEXT,
+    "exteriorTolerances" TEXT,
+    "motorTolerances" TEXT,
+    "rackingSystemId" TEXT NOT NULL,
+    "createdById" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "RackingSystemRevision_rackingSystemId_fkey" FOREIGN KEY ("rackingSystemId") REFERENCES "RackingSystem" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- AlterTable
+ALTER TABLE "RackingSystem" ADD COLUMN "revision" INTEGER NOT NULL DEFAULT 1;
+
+-- AlterTable
+ALTER TABLE "QCInspection" ADD COLUMN "toleranceRevisionId" TEXT REFERENCES "RackingSystemRevision" ("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RackingSystemRevision_rackingSystemId_revision_key" ON "RackingSystemRevision"("rackingSystemId", "revision");
+
+-- Existing profiles become revision 1
+INSERT INTO "RackingSystemRevision" ("id", "revision", "interiorTolerances", "exteriorTolerances", "motorTolerances", "rackingSystemId")
+SELECT 'rev1_' || "id", 1, "interiorTolerances", "exteriorTolerances", "motorTolerances", "id" FROM "RackingSystem";
@@ -0,0 +1,37 @@
+-- CreateTable
+CREATE TABLE "SamplingPlan" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "category" TEXT NOT NULL,
+    "method" TEXT NOT NULL DEFAULT 'ansi_z14',
+    "inspectionLevel" TEXT,
+    "aql" REAL,
+    "percentage" REAL,
+    "acceptNumber" INTEGER,
+    "projectId" TEXT NOT NULL,
+    "createdById" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "SamplingPlan_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "SamplingLot" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "block" TEXT NOT NULL DEFAULT '',
+    "lotSize" INTEGER NOT NULL,
+    "sampleSize" INTEGER NOT NULL,
+    "acceptNumber" INTEGER NOT NULL,
+    "sampledPileIds" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'sampling',
+    "escalatedAt" DATETIME,
+    "planId" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "SamplingLot_planId_fkey" FOREIGN KEY ("planId") REFERENCES "SamplingPlan" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SamplingPlan_projectId_category_key" ON "SamplingPlan"("projectId", "category");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SamplingLot_planId_block_key" ON "SamplingLot"("planId", "block");
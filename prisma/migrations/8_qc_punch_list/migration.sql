@@ -0,0 +1,16 @@
+-- AlterTable
+ALTER TABLE "QCIssue" ADD COLUMN "assignedAt" DATETIME;
+ALTER TABLE "QCIssue" ADD COLUMN "correctedById" TEXT;
+ALTER TABLE "QCIssue" ADD COLUMN "correctionNotes" TEXT;
+ALTER TABLE "QCIssue" ADD COLUMN "verifiedById" TEXT;
+ALTER TABLE "QCIssue" ADD COLUMN "verificationInspectionId" TEXT;
+
+-- CreateTable
+CREATE TABLE "QCIssuePhoto" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "url" TEXT NOT NULL,
+    "caption" TEXT,
+    "issueId" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "QCIssuePhoto_issueId_fkey" FOREIGN KEY ("issueId") REFERENCES "QCIssue" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
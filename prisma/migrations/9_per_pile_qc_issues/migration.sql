@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "QCIssue" ADD COLUMN "inspectionItemId" TEXT REFERENCES "QCInspectionItem" ("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "QCIssue" ADD COLUMN "measurementType" TEXT;
+ALTER TABLE "QCIssue" ADD COLUMN "measuredValue" REAL;
+ALTER TABLE "QCIssue" ADD COLUMN "limitValue" REAL;
+ALTER TABLE "QCIssue" ADD COLUMN "deviation" REAL;
+ALTER TABLE "QCIssue" ADD COLUMN "unit" TEXT;
+
+-- CreateIndex
+CREATE INDEX "QCIssue_projectId_pileId_idx" ON "QCIssue"("projectId", "pileId");
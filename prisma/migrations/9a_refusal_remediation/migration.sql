@@ -0,0 +1,39 @@
+-- AlterTable
+ALTER TABLE "PileRefusal" ADD COLUMN "redriveDepth" REAL;
+
+-- CreateTable
+CREATE TABLE "RefusalTransition" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "fromStatus" TEXT NOT NULL,
+    "toStatus" TEXT NOT NULL,
+    "effectiveDate" DATETIME NOT NULL,
+    "notes" TEXT,
+    "remediationMethod" TEXT,
+    "redriveDepth" REAL,
+    "refusalId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "RefusalTransition_refusalId_fkey" FOREIGN KEY ("refusalId") REFERENCES "PileRefusal" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "RefusalApproval" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "decision" TEXT NOT NULL,
+    "remediationMethod" TEXT,
+    "reference" TEXT,
+    "notes" TEXT,
+    "refusalId" TEXT NOT NULL,
+    "engineerId" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "RefusalApproval_refusalId_fkey" FOREIGN KEY ("refusalId") REFERENCES "PileRefusal" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- AlterTable
+ALTER TABLE "RefusalPhoto" ADD COLUMN "transitionId" TEXT REFERENCES "RefusalTransition" ("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- CreateIndex
+CREATE INDEX "RefusalTransition_refusalId_createdAt_idx" ON "RefusalTransition"("refusalId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "RefusalApproval_refusalId_createdAt_idx" ON "RefusalApproval"("refusalId", "createdAt");
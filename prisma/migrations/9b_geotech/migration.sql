@@ -0,0 +1,64 @@
+-- CreateTable
+CREATE TABLE "BoringLog" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "easting" REAL,
+    "northing" REAL,
+    "nearPileId" TEXT,
+    "totalDepth" REAL NOT NULL,
+    "refusalDepth" REAL,
+    "refusalMaterial" TEXT,
+    "groundwaterDepth" REAL,
+    "drilledAt" DATETIME,
+    "notes" TEXT,
+    "projectId" TEXT NOT NULL,
+    "createdById" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "BoringLog_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "BoringStratum" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "topDepth" REAL NOT NULL,
+    "bottomDepth" REAL NOT NULL,
+    "material" TEXT NOT NULL,
+    "description" TEXT,
+    "boringId" TEXT NOT NULL,
+    CONSTRAINT "BoringStratum_boringId_fkey" FOREIGN KEY ("boringId") REFERENCES "BoringLog" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "PileLoadTest" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "pileId" TEXT NOT NULL,
+    "pileRecordId" TEXT,
+    "testType" TEXT NOT NULL,
+    "designLoad" REAL NOT NULL,
+    "testLoad" REAL NOT NULL,
+    "displacement" REAL NOT NULL,
+    "allowableDisplacement" REAL NOT NULL,
+    "result" TEXT NOT NULL,
+    "testedAt" DATETIME NOT NULL,
+    "notes" TEXT,
+    "boringId" TEXT,
+    "projectId" TEXT NOT NULL,
+    "createdById" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "PileLoadTest_pileRecordId_fkey" FOREIGN KEY ("pileRecordId") REFERENCES "Pile" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "PileLoadTest_boringId_fkey" FOREIGN KEY ("boringId") REFERENCES "BoringLog" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "PileLoadTest_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- AlterTable
+ALTER TABLE "PileRefusal" ADD COLUMN "boringId" TEXT REFERENCES "BoringLog" ("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "BoringLog_projectId_name_key" ON "BoringLog"("projectId", "name");
+
+-- CreateIndex
+CREATE INDEX "BoringStratum_boringId_topDepth_idx" ON "BoringStratum"("boringId", "topDepth");
+
+-- CreateIndex
+CREATE INDEX "PileLoadTest_projectId_pileId_idx" ON "PileLoadTest"("projectId", "pileId");
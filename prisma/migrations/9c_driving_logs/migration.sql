@@ -0,0 +1,51 @@
+-- AlterTable
+ALTER TABLE "Project" ADD COLUMN "refusalBlowCount" INTEGER NOT NULL DEFAULT 10;
+ALTER TABLE "Project" ADD COLUMN "refusalBlowDepth" REAL NOT NULL DEFAULT 25;
+
+-- AlterTable
+ALTER TABLE "ProductionEntry" ADD COLUMN "source" TEXT NOT NULL DEFAULT 'manual';
+
+-- CreateTable
+CREATE TABLE "PileDrivingLog" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "pileId" TEXT NOT NULL,
+    "pileRecordId" TEXT,
+    "driveStart" DATETIME NOT NULL,
+    "driveEnd" DATETIME NOT NULL,
+    "rigId" TEXT,
+    "targetDepth" REAL NOT NULL,
+    "finalEmbedment" REAL NOT NULL,
+    "totalBlows" INTEGER NOT NULL DEFAULT 0,
+    "penetrationRate" REAL NOT NULL,
+    "source" TEXT NOT NULL DEFAULT 'manual',
+    "notes" TEXT,
+    "refusalStatus" TEXT,
+    "refusalId" TEXT,
+    "productionEntryId" TEXT,
+    "projectId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "PileDrivingLog_pileRecordId_fkey" FOREIGN KEY ("pileRecordId") REFERENCES "Pile" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "PileDrivingLog_refusalId_fkey" FOREIGN KEY ("refusalId") REFERENCES "PileRefusal" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "PileDrivingLog_productionEntryId_fkey" FOREIGN KEY ("productionEntryId") REFERENCES "ProductionEntry" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "PileDrivingLog_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "PileDrivingInterval" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "fromDepth" REAL NOT NULL,
+    "toDepth" REAL NOT NULL,
+    "blows" INTEGER NOT NULL,
+    "logId" TEXT NOT NULL,
+    CONSTRAINT "PileDrivingInterval_logId_fkey" FOREIGN KEY ("logId") REFERENCES "PileDrivingLog" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PileDrivingLog_projectId_pileId_driveStart_key" ON "PileDrivingLog"("projectId", "pileId", "driveStart");
+
+-- CreateIndex
+CREATE INDEX "PileDrivingLog_projectId_refusalStatus_idx" ON "PileDrivingLog"("projectId", "refusalStatus");
+
+-- CreateIndex
+CREATE INDEX "PileDrivingInterval_logId_fromDepth_idx" ON "PileDrivingInterval"("logId", "fromDepth");
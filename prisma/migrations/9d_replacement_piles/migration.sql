@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "Pile" ADD COLUMN "offsetDistance" REAL;
+ALTER TABLE "Pile" ADD COLUMN "offsetDirection" TEXT;
+
+-- AlterTable
+ALTER TABLE "PileRefusal" ADD COLUMN "replacementRecordId" TEXT REFERENCES "Pile" ("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AlterTable
+ALTER TABLE "RefusalTransition" ADD COLUMN "replacementPileId" TEXT;
+ALTER TABLE "RefusalTransition" ADD COLUMN "offsetDistance" REAL;
+ALTER TABLE "RefusalTransition" ADD COLUMN "offsetDirection" TEXT;
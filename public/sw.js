@@ -0,0 +1,223 @@
+// SolarTrack service worker. Precaches the app shell so the app opens with no
+// signal, keeps the last company payload for read-only use offline, and uses
+// Background Sync to flush the IndexedDB sync queue once a connection returns.
+
+const SHELL_CACHE = 'solartrack-shell-v1';
+const STATIC_CACHE = 'solartrack-static-v1';
+const DATA_CACHE = 'solartrack-data-v1';
+const CACHES = [SHELL_CACHE, STATIC_CACHE, DATA_CACHE];
+
+const SHELL_URLS = [
+  '/manifest.json',
+  '/logo.svg',
+  '/icons/icon-96.png',
+  '/icons/icon-192.png',
+  '/icons/icon-512.png',
+];
+
+// Read-only API payloads served from cache when the network is unreachable
+const CACHED_API_PATHS = ['/api/companies', '/api/auth/session'];
+
+const SYNC_TAG = 'sync-queue';
+const DB_NAME = 'SolarConstructionDB';
+const BATCH_SIZE = 20;
+
+// The page's JS and CSS chunks appear in its HTML as /_next/static/ URLs, or
+// as static/ paths inside the inline RSC payload
+const STATIC_ASSET_PATTERN = /(?:\/_next\/)?static\/(?:chunks|css|media)\/[^"'\s\\)]+/g;
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    precacheShell().then(() => self.skipWaiting())
+  );
+});
+
+// Cache the shell page and every build asset it references, so the app can
+// start with no signal after a single online visit
+async function precacheShell() {
+  const shell = await caches.open(SHELL_CACHE);
+  await shell.addAll(SHELL_URLS);
+
+  const response = await fetch('/', { cache: 'no-cache' });
+  if (!response.ok) throw new Error(`Shell fetch failed (${response.status})`);
+  const html = await response.clone().text();
+  await shell.put('/', response);
+
+  const assets = new Set();
+  for (const match of html.matchAll(STATIC_ASSET_PATTERN)) {
+    assets.add(`/_next/${match[0].replace(/^\/_next\//, '')}`);
+  }
+  await cacheAssets([...assets]);
+}
+
+// Asset misses are tolerated: a stray match must not block the install
+async function cacheAssets(urls) {
+  const cache = await caches.open(STATIC_CACHE);
+  await Promise.all(urls.map(async url => {
+    if (await cache.match(url)) return;
+    try {
+      await cache.add(url);
+    } catch (error) {
+      console.warn('Could not precache', url, error);
+    }
+  }));
+}
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(key => !CACHES.includes(key)).map(key => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('fetch', (event) => {
+  const request = event.request;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin) return;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirst(request, SHELL_CACHE, '/'));
+  } else if (url.pathname.startsWith('/_next/static/')) {
+    // Build assets are content-hashed, so a cached copy is never stale
+    event.respondWith(cacheFirst(request, STATIC_CACHE));
+  } else if (CACHED_API_PATHS.includes(url.pathname)) {
+    event.respondWith(networkFirst(request, DATA_CACHE));
+  } else if (SHELL_URLS.includes(url.pathname) || url.pathname.startsWith('/icons/')) {
+    event.respondWith(cacheFirst(request, SHELL_CACHE));
+  }
+});
+
+async function cacheFirst(request, cacheName) {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(cacheName);
+    cache.put(request, response.clone());
+  }
+  return response;
+}
+
+// Serve fresh data when we can, remembering it; fall back to the last copy.
+// Cached API responses carry X-Cached-At so the UI can say how old they are.
+async function networkFirst(request, cacheName, fallbackUrl) {
+  const cache = await caches.open(cacheName);
+  const key = fallbackUrl || request.url;
+
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      const headers = new Headers(response.headers);
+      headers.set('X-Cached-At', new Date().toISOString());
+      const body = await response.clone().blob();
+      await cache.put(key, new Response(body, { status: response.status, statusText: response.statusText, headers }));
+    }
+    return response;
+  } catch (error) {
+    const cached = await cache.match(key);
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+self.addEventListener('message', (event) => {
+  // Signing out must not leave the previous user's data readable offline
+  if (event.data && event.data.type === 'clear-data') {
+    event.waitUntil(caches.delete(DATA_CACHE));
+  }
+  // Chunks the page has loaded, including ones the shell HTML doesn't list
+  if (event.data && event.data.type === 'cache-assets' && Array.isArray(event.data.urls)) {
+    const urls = event.data.urls.filter(url => typeof url === 'string' && url.startsWith('/_next/static/'));
+    event.waitUntil(cacheAssets(urls));
+  }
+});
+
+self.addEventListener('sync', (event) => {
+  if (event.tag === SYNC_TAG) {
+    event.waitUntil(flushSyncQueue());
+  }
+});
+
+// An open window runs its own replayer; hand the flush to it so the same
+// items are never sent twice. With no window open, replay here.
+async function flushSyncQueue() {
+  const windows = await self.clients.matchAll({ type: 'window' });
+  if (windows.length > 0) {
+    windows.forEach(client => client.postMessage({ type: 'flush-sync-queue' }));
+    return;
+  }
+
+  const db = await openDatabase();
+  try {
+    const now = Date.now();
+    const due = (await getAll(db, 'syncQueue'))
+      .filter(item => item.status === 'pending')
+      .filter(item => !item.nextAttemptAt || new Date(item.nextAttemptAt).getTime() <= now)
+      .slice(0, BATCH_SIZE);
+    if (due.length === 0) return;
+
+    // A network error rejects here, and the browser reschedules the sync
+    const response = await fetch('/api/sync', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        deviceId: due[0].payload.deviceId,
+        items: due.map(item => ({
+          localId: item.payload.localId,
+          entity: item.entity,
+          action: item.action,
+          payload: item.payload,
+        })),
+      }),
+    });
+    if (!response.ok) throw new Error(`Sync failed (${response.status})`);
+
+    const { results } = await response.json();
+    const byLocalId = new Map(results.map(result => [result.localId, result]));
+    const syncedAt = new Date().toISOString();
+
+    for (const item of due) {
+      const result = byLocalId.get(item.payload.localId);
+      if (!result) continue;
+      if (result.success || result.conflict) {
+        await putItem(db, { ...item, status: 'synced', syncedAt, lastError: undefined });
+      } else if (result.retryable === false) {
+        await putItem(db, { ...item, status: 'failed', attempts: (item.attempts || 0) + 1, lastError: result.error || 'Rejected by server' });
+      }
+      // Anything else stays pending for the app's replayer and its backoff
+    }
+  } finally {
+    db.close();
+  }
+}
+
+function openDatabase() {
+  return new Promise((resolve, reject) => {
+    // No version: the app owns the schema and creates the stores
+    const request = indexedDB.open(DB_NAME);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function getAll(db, storeName) {
+  return new Promise((resolve, reject) => {
+    if (!db.objectStoreNames.contains(storeName)) return resolve([]);
+    const request = db.transaction(storeName, 'readonly').objectStore(storeName).getAll();
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function putItem(db, item) {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction('syncQueue', 'readwrite');
+    transaction.objectStore('syncQueue').put(item);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { tenantDb, isNotFoundError } from '@/lib/db';
+import { getCurrentUser, publicUserSelect } from '@/lib/auth';
+import { can } from '@/lib/permissions';
+
+export const dynamic = 'force-dynamic';
+
+// GET - People assigned to a project
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!can(user.role, 'project:assign')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const db = tenantDb(user.companyId);
+
+    const { searchParams } = new URL(request.url);
+    const projectId = searchParams.get('projectId');
+
+    if (!projectId) {
+      return NextResponse.json({ error: 'projectId required' }, { status: 400 });
+    }
+
+    const assignments = await db.userProjectAssignment.findMany({
+      where: { projectId },
+      include: { user: { select: publicUserSelect } },
+      orderBy: { assignedAt: 'asc' }
+    });
+
+    return NextResponse.json({ assignments });
+  } catch (error) {
+    console.error('Get assignments error:', error);
+    return NextResponse.json({ error: 'Failed to fetch assignments' }, { status: 500 });
+  }
+}
+
+// POST - Assign a user to a project
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!can(user.role, 'project:assign')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const db = tenantDb(user.companyId);
+
+    const data = await request.json();
+
+    if (!data.projectId || !data.userId) {
+      return NextResponse.json({ error: 'projectId and userId required' }, { status: 400 });
+    }
+
+    const existing = await db.userProjectAssignment.findFirst({
+      where: { projectId: data.projectId, userId: data.userId },
+      include: { user: { select: publicUserSelect } }
+    });
+
+    if (existing) {
+      return NextResponse.json({ assignment: existing });
+    }
+
+    const assignment = await db.userProjectAssignment.create({
+      data: {
+        projectId: data.projectId,
+        userId: data.userId,
+      },
+      include: { user: { select: publicUserSelect } }
+    });
+
+    return NextResponse.json({ assignment }, { status: 201 });
+  } catch (error) {
+    if (isNotFoundError(error)) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+    console.error('Create assignment error:', error);
+    return NextResponse.json({ error: 'Failed to assign user' }, { status: 500 });
+  }
+}
+
+// DELETE - Remove a user from a project
+export async function DELETE(request: NextRequest) {
+  try {
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!can(user.role, 'project:assign')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const db = tenantDb(user.companyId);
+
+    const { searchParams } = new URL(request.url);
+    const projectId = searchParams.get('projectId');
+    const userId = searchParams.get('userId');
+
+    if (!projectId || !userId) {
+      return NextResponse.json({ error: 'projectId and userId required' }, { status: 400 });
+    }
+
+    await db.userProjectAssignment.deleteMany({ where: { projectId, userId } });
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Delete assignment error:', error);
+    return NextResponse.json({ error: 'Failed to remove assignment' }, { status: 500 });
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { verifyPassword, createSession, setSessionCookie, publicUserSelect } from '@/lib/auth';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: NextRequest) {
+  try {
+    const data = await request.json();
+    const email = String(data.email || '').trim().toLowerCase();
+    const password = String(data.password || '');
+
+    if (!email || !password) {
+      return NextResponse.json({ error: 'Email and password required' }, { status: 400 });
+    }
+
+    const user = await db.user.findUnique({ where: { email } });
+
+    // Same response for unknown email and wrong password
+    if (!user || !user.isActive || !(await verifyPassword(password, user.password))) {
+      return NextResponse.json({ error: 'Invalid email or password' }, { status: 401 });
+    }
+
+    const { token, expiresAt } = await createSession(user.id, request.headers.get('user-agent'));
+    const publicUser = await db.user.findUnique({ where: { id: user.id }, select: publicUserSelect });
+
+    const response = NextResponse.json({ user: publicUser });
+    setSessionCookie(response, token, expiresAt);
+    return response;
+  } catch (error) {
+    console.error('Login error:', error);
+    return NextResponse.json({ error: 'Failed to log in' }, { status: 500 });
+  }
+}
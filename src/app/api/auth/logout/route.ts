@@ -0,0 +1,16 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { destroySession, clearSessionCookie } from '@/lib/auth';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: NextRequest) {
+  try {
+    await destroySession(request);
+    const response = NextResponse.json({ success: true });
+    clearSessionCookie(response);
+    return response;
+  } catch (error) {
+    console.error('Logout error:', error);
+    return NextResponse.json({ error: 'Failed to log out' }, { status: 500 });
+  }
+}
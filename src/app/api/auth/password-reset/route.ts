@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { createPasswordResetToken, resetPassword } from '@/lib/auth';
+import { sendMail } from '@/lib/mail';
+
+export const dynamic = 'force-dynamic';
+
+const MIN_PASSWORD_LENGTH = 8;
+
+// POST - Request a reset link
+export async function POST(request: NextRequest) {
+  try {
+    const data = await request.json();
+    const email = String(data.email || '').trim().toLowerCase();
+
+    if (!email) {
+      return NextResponse.json({ error: 'Email required' }, { status: 400 });
+    }
+
+    const user = await db.user.findUnique({ where: { email } });
+
+    // Always report success so the endpoint cannot be used to probe for accounts
+    if (user && user.isActive) {
+      const token = await createPasswordResetToken(user.id);
+      const resetUrl = `${request.nextUrl.origin}/?resetToken=${token}`;
+      await sendMail({
+        to: user.email,
+        subject: 'SolarTrack Pro password reset',
+        text: `Hi ${user.name},\n\nUse the link below to choose a new password. It expires in 1 hour.\n\n${resetUrl}\n\nIf you did not request this, you can ignore this email.`,
+      });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Password reset request error:', error);
+    return NextResponse.json({ error: 'Failed to request password reset' }, { status: 500 });
+  }
+}
+
+// PUT - Complete a reset with the emailed token
+export async function PUT(request: NextRequest) {
+  try {
+    const data = await request.json();
+
+    if (!data.token || !data.password) {
+      return NextResponse.json({ error: 'token and password required' }, { status: 400 });
+    }
+
+    if (String(data.password).length < MIN_PASSWORD_LENGTH) {
+      return NextResponse.json({ error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` }, { status: 400 });
+    }
+
+    const ok = await resetPassword(String(data.token), String(data.password));
+    if (!ok) {
+      return NextResponse.json({ error: 'Reset link is invalid or has expired' }, { status: 400 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Password reset error:', error);
+    return NextResponse.json({ error: 'Failed to reset password' }, { status: 500 });
+  }
+}
@@ -0,0 +1,17 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    return NextResponse.json({ user });
+  } catch (error) {
+    console.error('Get session error:', error);
+    return NextResponse.json({ error: 'Failed to get session' }, { status: 500 });
+  }
+}
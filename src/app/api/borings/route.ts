@@ -0,0 +1,166 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { tenantDb, isNotFoundError } from '@/lib/db';
+import { getCurrentUser } from '@/lib/auth';
+import { can } from '@/lib/permissions';
+import { assertProjectAccess, projectScope } from '@/lib/project-access';
+import { projectPileIdFormat } from '@/lib/piles';
+import { relinkBorings, validateBoring } from '@/lib/geotech';
+
+export const dynamic = 'force-dynamic';
+
+const BORING_INCLUDE = {
+  strata: { orderBy: { topDepth: 'asc' } },
+  refusals: { select: { id: true, pileId: true, refusalReason: true, achievedDepth: true, targetDepth: true } },
+  loadTests: { select: { id: true, pileId: true, testType: true, result: true } },
+} as const;
+
+// GET - A project's boring logs with their strata and linked refusals and load tests
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const db = tenantDb(user.companyId);
+
+    const { searchParams } = new URL(request.url);
+    const projectId = searchParams.get('projectId');
+    if (!projectId) {
+      return NextResponse.json({ error: 'projectId required' }, { status: 400 });
+    }
+
+    const borings = await db.boringLog.findMany({
+      where: { projectId, project: projectScope(user) },
+      include: BORING_INCLUDE,
+      orderBy: { name: 'asc' }
+    });
+
+    return NextResponse.json({ borings });
+  } catch (error) {
+    console.error('Get borings error:', error);
+    return NextResponse.json({ error: 'Failed to fetch borings' }, { status: 500 });
+  }
+}
+
+// POST - Log a boring and re-link the project's refusals and load tests
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!can(user.role, 'geotech:manage')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const db = tenantDb(user.companyId);
+
+    const data = await request.json();
+    await assertProjectAccess(db, user, data.projectId);
+
+    const { fields, strata, errors } = validateBoring(data, await projectPileIdFormat(db, data.projectId));
+    if (!errors.length && await db.boringLog.findFirst({ where: { projectId: data.projectId, name: fields.name } })) {
+      errors.push(`Boring ${fields.name} already exists on this project`);
+    }
+    if (errors.length > 0) {
+      return NextResponse.json({ error: errors.join('; '), errors }, { status: 422 });
+    }
+
+    const created = await db.boringLog.create({
+      data: {
+        ...fields,
+        projectId: data.projectId,
+        createdById: user.id,
+        strata: { create: strata },
+      }
+    });
+    await relinkBorings(db, data.projectId);
+
+    const boring = await db.boringLog.findFirst({ where: { id: created.id }, include: BORING_INCLUDE });
+    return NextResponse.json({ boring }, { status: 201 });
+  } catch (error) {
+    if (isNotFoundError(error)) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+    console.error('Create boring error:', error);
+    return NextResponse.json({ error: 'Failed to save boring' }, { status: 500 });
+  }
+}
+
+// PUT - Replace a boring's details and strata
+export async function PUT(request: NextRequest) {
+  try {
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!can(user.role, 'geotech:manage')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const db = tenantDb(user.companyId);
+
+    const data = await request.json();
+    const existing = await db.boringLog.findFirstOrThrow({ where: { id: data.id } });
+    await assertProjectAccess(db, user, existing.projectId);
+
+    const { fields, strata, errors } = validateBoring(data, await projectPileIdFormat(db, existing.projectId));
+    if (!errors.length && await db.boringLog.findFirst({ where: { projectId: existing.projectId, name: fields.name, id: { not: existing.id } } })) {
+      errors.push(`Boring ${fields.name} already exists on this project`);
+    }
+    if (errors.length > 0) {
+      return NextResponse.json({ error: errors.join('; '), errors }, { status: 422 });
+    }
+
+    await db.boringStratum.deleteMany({ where: { boringId: existing.id } });
+    await db.boringLog.update({
+      where: { id: existing.id },
+      data: { ...fields, strata: { create: strata } }
+    });
+    await relinkBorings(db, existing.projectId);
+
+    const boring = await db.boringLog.findFirst({ where: { id: existing.id }, include: BORING_INCLUDE });
+    return NextResponse.json({ boring });
+  } catch (error) {
+    if (isNotFoundError(error)) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+    console.error('Update boring error:', error);
+    return NextResponse.json({ error: 'Failed to save boring' }, { status: 500 });
+  }
+}
+
+// DELETE - Remove a boring; its refusals and load tests move to the next nearest
+export async function DELETE(request: NextRequest) {
+  try {
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!can(user.role, 'geotech:manage')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const db = tenantDb(user.companyId);
+
+    const { searchParams } = new URL(request.url);
+    const id = searchParams.get('id');
+    if (!id) {
+      return NextResponse.json({ error: 'Boring ID is required' }, { status: 400 });
+    }
+
+    const boring = await db.boringLog.findFirstOrThrow({ where: { id } });
+    await assertProjectAccess(db, user, boring.projectId);
+    await db.boringLog.delete({ where: { id } });
+    await relinkBorings(db, boring.projectId);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (isNotFoundError(error)) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+    console.error('Delete boring error:', error);
+    return NextResponse.json({ error: 'Failed to delete boring' }, { status: 500 });
+  }
+}
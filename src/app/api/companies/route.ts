@@ -1,25 +1,26 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { db } from '@/lib/db';
+import { db, tenantDb } from '@/lib/db';
+import { getCurrentUser, publicUserSelect } from '@/lib/auth';
+import { can } from '@/lib/permissions';
+import { projectScope } from '@/lib/project-access';
 
 export const dynamic = 'force-dynamic';
 
 export async function GET(request: NextRequest) {
   try {
-    const { searchParams } = new URL(request.url);
-    const userId = searchParams.get('userId');
-    
-    console.log('[Companies API] GET request, userId:', userId);
-    
-    if (!userId) {
-      return NextResponse.json({ error: 'userId required' }, { status: 400 });
+    const sessionUser = await getCurrentUser(request);
+    if (!sessionUser) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    const user = await db.user.findUnique({
-      where: { id: userId },
-      include: {
+    const user = await tenantDb(sessionUser.companyId).user.findUnique({
+      where: { id: sessionUser.id },
+      select: {
+        ...publicUserSelect,
         company: {
           include: {
             projects: {
+              where: projectScope(sessionUser),
               include: {
                 productionEntries: { orderBy: { date: 'desc' }, take: 60 },
                 inspections: { 
@@ -28,11 +29,14 @@ export async function GET(request: NextRequest) {
                   include: { user: { select: { id: true, name: true } } }
                 },
                 qcIssues: { where: { status: 'open' } },
-                refusals: true, // Fetch ALL refusals for analytics
+                // Fetch ALL refusals for analytics, with any replacement pile
+                refusals: {
+                  include: { replacementPile: { select: { id: true, pileId: true, status: true, offsetDistance: true, offsetDirection: true, drivenAt: true } } }
+                },
                 rackingSystem: true,
               }
             },
-            users: true,
+            users: { select: publicUserSelect },
             subcontractors: true,
             crews: true,
             rackingSystems: true,
@@ -42,20 +46,26 @@ export async function GET(request: NextRequest) {
     });
 
     if (!user) {
-      console.log('[Companies API] User not found:', userId);
       return NextResponse.json({ error: 'User not found' }, { status: 404 });
     }
 
-    console.log('[Companies API] User found, company:', user.company?.name);
     return NextResponse.json({ user, company: user.company });
-  } catch (error: any) {
-    console.error('[Companies API] Error:', error);
-    return NextResponse.json({ error: 'Failed to fetch company data', message: error.message, stack: error.stack?.split('\n').slice(0, 5) }, { status: 500 });
+  } catch (error) {
+    console.error('Get company error:', error);
+    return NextResponse.json({ error: 'Failed to fetch company data' }, { status: 500 });
   }
 }
 
 export async function POST(request: NextRequest) {
   try {
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!can(user.role, 'company:update')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
     const data = await request.json();
     
     const company = await db.company.create({
@@ -76,10 +86,18 @@ export async function POST(request: NextRequest) {
 
 export async function PUT(request: NextRequest) {
   try {
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!can(user.role, 'company:update')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
     const data = await request.json();
     
-    const company = await db.company.update({
-      where: { id: data.id },
+    const company = await tenantDb(user.companyId).company.update({
+      where: { id: user.companyId },
       data: {
         name: data.name,
         logo: data.logo,
@@ -0,0 +1,143 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { tenantDb } from '@/lib/db';
+import { getCurrentUser } from '@/lib/auth';
+import { can } from '@/lib/permissions';
+import { projectScope } from '@/lib/project-access';
+import { EDITABLE_FIELDS, editableFields, isVersionedEntity, recordDelegate } from '@/lib/conflicts';
+import { transitionRefusal } from '@/lib/refusal-remediation';
+import { refreshSamplingPlan } from '@/lib/sampling';
+
+export const dynamic = 'force-dynamic';
+
+// GET - Offline edits that collided with newer server versions
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!can(user.role, 'conflict:resolve')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const db = tenantDb(user.companyId);
+
+    const rows = await db.syncQueue.findMany({
+      where: { status: 'conflict' },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    const userIds = [...new Set(rows.map((row: any) => row.userId).filter(Boolean))] as string[];
+    const users = await db.user.findMany({
+      where: { id: { in: userIds } },
+      select: { id: true, name: true }
+    });
+    const userNames = new Map(users.map((u: any) => [u.id, u.name]));
+
+    const conflicts: Record<string, unknown>[] = [];
+    for (const row of rows) {
+      if (!isVersionedEntity(row.entity) || !row.recordId) continue;
+
+      const fields = EDITABLE_FIELDS[row.entity];
+      const payload = JSON.parse(row.payload);
+      const current = await recordDelegate(db, row.entity).findFirst({ where: { id: row.recordId } });
+
+      conflicts.push({
+        id: row.id,
+        entity: row.entity,
+        action: row.action,
+        recordId: row.recordId,
+        baseRevision: row.baseRevision,
+        reason: row.error,
+        createdAt: row.createdAt,
+        submittedBy: userNames.get(row.userId) || 'Unknown',
+        fields,
+        deviceVersion: Object.fromEntries(fields.filter(f => payload[f] !== undefined).map(f => [f, payload[f]])),
+        serverVersion: current
+          ? { ...Object.fromEntries(fields.map(f => [f, current[f]])), revision: current.revision, updatedAt: current.updatedAt }
+          : null,
+      });
+    }
+
+    return NextResponse.json({ conflicts });
+  } catch (error) {
+    console.error('Get conflicts error:', error);
+    return NextResponse.json({ error: 'Failed to fetch conflicts' }, { status: 500 });
+  }
+}
+
+// PUT - Resolve a conflict by keeping the server version, applying the device
+// version, or applying a field-by-field merge
+export async function PUT(request: NextRequest) {
+  try {
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!can(user.role, 'conflict:resolve')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const db = tenantDb(user.companyId);
+
+    const data = await request.json();
+    const resolution = data.resolution;
+
+    if (!['server', 'device', 'merge'].includes(resolution)) {
+      return NextResponse.json({ error: 'resolution must be server, device or merge' }, { status: 400 });
+    }
+
+    const conflict = await db.syncQueue.findFirst({ where: { id: data.id, status: 'conflict' } });
+    if (!conflict || !isVersionedEntity(conflict.entity) || !conflict.recordId) {
+      return NextResponse.json({ error: 'Conflict not found' }, { status: 404 });
+    }
+
+    const delegate = recordDelegate(db, conflict.entity);
+    const current = await delegate.findFirst({ where: { id: conflict.recordId, project: projectScope(user) } });
+
+    if (resolution !== 'server') {
+      if (!current) {
+        return NextResponse.json({ error: 'Record no longer exists on the server' }, { status: 409 });
+      }
+
+      if (resolution === 'device' && conflict.action === 'delete') {
+        await delegate.delete({ where: { id: conflict.recordId } });
+      } else if (conflict.entity === 'refusal') {
+        // Refusal edits are whole remediation steps, so the device's step is
+        // replayed against the current refusal; one that no longer fits the
+        // workflow leaves the conflict open
+        if (resolution === 'merge') {
+          return NextResponse.json({ error: 'Remediation steps cannot be merged - keep the server version or use the device step' }, { status: 400 });
+        }
+        const result = await transitionRefusal(user.companyId, current, conflict.userId || user.id, JSON.parse(conflict.payload));
+        if (!result.refusal) {
+          return NextResponse.json({ error: result.errors.join('; '), errors: result.errors }, { status: result.conflict ? 409 : 422 });
+        }
+      } else {
+        const source = resolution === 'device' ? JSON.parse(conflict.payload) : (data.fields || {});
+        await delegate.update({
+          where: { id: conflict.recordId },
+          data: { ...await editableFields(db, conflict.entity, conflict.recordId, source), revision: { increment: 1 } }
+        });
+        if (conflict.entity === 'inspection') {
+          await refreshSamplingPlan(db, current.projectId, current.category);
+        }
+      }
+    }
+
+    const resolved = await db.syncQueue.update({
+      where: { id: conflict.id },
+      data: {
+        status: 'resolved',
+        resolution,
+        resolvedBy: user.id,
+        syncedAt: new Date(),
+      }
+    });
+
+    return NextResponse.json({ conflict: resolved });
+  } catch (error) {
+    console.error('Resolve conflict error:', error);
+    return NextResponse.json({ error: 'Failed to resolve conflict' }, { status: 500 });
+  }
+}
@@ -1,20 +1,28 @@
-import { NextResponse } from 'next/server';
-import { db } from '@/lib/db';
+import { NextRequest, NextResponse } from 'next/server';
+import { tenantDb } from '@/lib/db';
+import { getCurrentUser, publicUserSelect } from '@/lib/auth';
 
 export const dynamic = 'force-dynamic';
 
-export async function GET() {
+export async function GET(request: NextRequest) {
   try {
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const db = tenantDb(user.companyId);
+
     const companyCount = await db.company.count();
     const userCount = await db.user.count();
     const projectCount = await db.project.count();
 
-    const firstUser = await db.user.findFirst();
+    const firstUser = await db.user.findFirst({ select: publicUserSelect });
     const firstCompany = await db.company.findFirst();
 
     // Test the full query that companies route uses
     const fullUserQuery = await db.user.findUnique({
-      where: { id: 'demo-admin-user' },
+      where: { id: user.id },
       include: {
         company: {
           include: {
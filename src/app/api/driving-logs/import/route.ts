@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { tenantDb, isNotFoundError } from '@/lib/db';
+import { getCurrentUser } from '@/lib/auth';
+import { can } from '@/lib/permissions';
+import { assertProjectAccess } from '@/lib/project-access';
+import { DEFAULT_PILE_ID_FORMAT } from '@/lib/pile-ids';
+import { meetsRefusalCriterion, parseDrivingLogCsv, projectRefusalCriterion, saveDrivingLogs } from '@/lib/driving-logs';
+
+export const dynamic = 'force-dynamic';
+
+// Largest export accepted, in characters
+const MAX_CONTENT_LENGTH = 20 * 1024 * 1024;
+
+// POST - Read a pile driver's CSV export and, unless dryRun is set, save its
+// drives. Files with errors are refused; drives already logged are skipped.
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!can(user.role, 'driving-log:create')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const db = tenantDb(user.companyId);
+
+    const data = await request.json();
+    await assertProjectAccess(db, user, data.projectId);
+
+    if (typeof data.content !== 'string' || data.content.length === 0) {
+      return NextResponse.json({ error: 'content required' }, { status: 400 });
+    }
+    if (data.content.length > MAX_CONTENT_LENGTH) {
+      return NextResponse.json({ error: 'Driving log file is too large' }, { status: 400 });
+    }
+
+    const project = await db.project.findFirstOrThrow({ where: { id: data.projectId } });
+    const criterion = projectRefusalCriterion(project);
+    const { logs, errors } = parseDrivingLogCsv(data.content, project.pileIdFormat || DEFAULT_PILE_ID_FORMAT, {
+      targetDepth: Number(data.targetDepth) || null,
+    });
+    const summary = {
+      logCount: logs.length,
+      proposedCount: logs.filter(log => meetsRefusalCriterion(log, criterion)).length,
+      errors,
+    };
+
+    if (data.dryRun) {
+      return NextResponse.json(summary);
+    }
+    if (errors.length > 0) {
+      return NextResponse.json({ ...summary, error: 'Fix the errors before importing' }, { status: 422 });
+    }
+    if (logs.length === 0) {
+      return NextResponse.json({ ...summary, error: 'File has no drives' }, { status: 422 });
+    }
+
+    const result = await saveDrivingLogs(db, project.id, user.id, logs, criterion, 'import');
+    return NextResponse.json({
+      ...summary,
+      created: result.logs.length,
+      skipped: result.skipped.length,
+      proposed: result.proposed,
+      driven: result.driven,
+    });
+  } catch (error) {
+    if (isNotFoundError(error)) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+    console.error('Import driving logs error:', error);
+    return NextResponse.json({ error: 'Failed to import driving logs' }, { status: 500 });
+  }
+}
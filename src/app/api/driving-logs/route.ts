@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { tenantDb, isNotFoundError } from '@/lib/db';
+import { getCurrentUser } from '@/lib/auth';
+import { can } from '@/lib/permissions';
+import { assertProjectAccess, projectScope } from '@/lib/project-access';
+import { DEFAULT_PILE_ID_FORMAT } from '@/lib/pile-ids';
+import { dismissProposedRefusal, projectRefusalCriterion, saveDrivingLogs, validateDrivingLog } from '@/lib/driving-logs';
+
+export const dynamic = 'force-dynamic';
+
+const LOG_INCLUDE = {
+  intervals: { orderBy: { fromDepth: 'asc' } },
+  refusal: { select: { id: true, status: true } },
+} as const;
+
+// GET - A project's driving logs, newest drive first
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const db = tenantDb(user.companyId);
+
+    const { searchParams } = new URL(request.url);
+    const projectId = searchParams.get('projectId');
+    const pileId = searchParams.get('pileId');
+    if (!projectId) {
+      return NextResponse.json({ error: 'projectId required' }, { status: 400 });
+    }
+
+    const logs = await db.pileDrivingLog.findMany({
+      where: { projectId, project: projectScope(user), ...(pileId ? { pileId } : {}) },
+      include: LOG_INCLUDE,
+      orderBy: { driveStart: 'desc' }
+    });
+
+    return NextResponse.json({ logs });
+  } catch (error) {
+    console.error('Get driving logs error:', error);
+    return NextResponse.json({ error: 'Failed to fetch driving logs' }, { status: 500 });
+  }
+}
+
+// POST - Record one drive. Returns whether it proposed a refusal.
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!can(user.role, 'driving-log:create')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const db = tenantDb(user.companyId);
+
+    const data = await request.json();
+    await assertProjectAccess(db, user, data.projectId);
+
+    const project = await db.project.findFirstOrThrow({ where: { id: data.projectId } });
+    const { fields, errors } = validateDrivingLog(data, project.pileIdFormat || DEFAULT_PILE_ID_FORMAT);
+    if (errors.length > 0) {
+      return NextResponse.json({ error: errors.join('; '), errors }, { status: 422 });
+    }
+
+    const result = await saveDrivingLogs(db, project.id, user.id, [fields], projectRefusalCriterion(project), 'manual');
+    if (result.logs.length === 0) {
+      return NextResponse.json({ error: `A drive of ${fields.pileId} starting at that time is already logged` }, { status: 409 });
+    }
+
+    const log = await db.pileDrivingLog.findFirst({ where: { id: result.logs[0].id }, include: LOG_INCLUDE });
+    return NextResponse.json({ log, proposed: result.proposed > 0, driven: result.driven > 0 }, { status: 201 });
+  } catch (error) {
+    if (isNotFoundError(error)) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+    console.error('Create driving log error:', error);
+    return NextResponse.json({ error: 'Failed to save driving log' }, { status: 500 });
+  }
+}
+
+// PUT - Dismiss a proposed refusal; the pile then counts as driven. Proposals
+// are confirmed by logging the refusal with its drivingLogId.
+export async function PUT(request: NextRequest) {
+  try {
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!can(user.role, 'refusal:approve')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const db = tenantDb(user.companyId);
+
+    const data = await request.json();
+    if (data.refusalStatus !== 'dismissed') {
+      return NextResponse.json({ error: 'refusalStatus must be dismissed' }, { status: 400 });
+    }
+
+    const current = await db.pileDrivingLog.findFirstOrThrow({ where: { id: data.id, project: projectScope(user) } });
+    const result = await dismissProposedRefusal(db, current);
+    if (!result.log) {
+      return NextResponse.json({ error: result.errors.join('; '), errors: result.errors }, { status: 422 });
+    }
+
+    const log = await db.pileDrivingLog.findFirst({ where: { id: current.id }, include: LOG_INCLUDE });
+    return NextResponse.json({ log });
+  } catch (error) {
+    if (isNotFoundError(error)) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+    console.error('Update driving log error:', error);
+    return NextResponse.json({ error: 'Failed to update driving log' }, { status: 500 });
+  }
+}
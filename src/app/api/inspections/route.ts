@@ -1,15 +1,30 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { db } from '@/lib/db';
+import { tenantDb, isNotFoundError } from '@/lib/db';
+import { getCurrentUser } from '@/lib/auth';
+import { can } from '@/lib/permissions';
+import { assertProjectAccess, projectScope } from '@/lib/project-access';
+import { parsePhotos } from '@/lib/photos';
+import { checkPileIds, linkInspectionPiles } from '@/lib/piles';
+import { evaluateInspection, inspectionStatus } from '@/lib/tolerances';
+import { refreshSamplingPlan } from '@/lib/sampling';
+import { openInspectionIssues } from '@/lib/qc-issues';
 
 export async function GET(request: NextRequest) {
   try {
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const db = tenantDb(user.companyId);
+
     const { searchParams } = new URL(request.url);
     const projectId = searchParams.get('projectId');
     const inspectionId = searchParams.get('inspectionId');
     
     if (inspectionId) {
-      const inspection = await db.qCInspection.findUnique({
-        where: { id: inspectionId },
+      const inspection = await db.qCInspection.findFirst({
+        where: { id: inspectionId, project: projectScope(user) },
         include: {
           items: true,
           issues: true,
@@ -23,7 +38,7 @@ export async function GET(request: NextRequest) {
 
     if (projectId) {
       const inspections = await db.qCInspection.findMany({
-        where: { projectId },
+        where: { projectId, project: projectScope(user) },
         orderBy: { date: 'desc' },
         include: {
           items: true,
@@ -43,7 +58,31 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!can(user.role, 'inspection:create')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const db = tenantDb(user.companyId);
+
     const data = await request.json();
+    await assertProjectAccess(db, user, data.projectId);
+
+    const pileIdErrors = await checkPileIds(db, data.projectId, data.pileIds);
+    if (pileIdErrors.length > 0) {
+      return NextResponse.json({ error: pileIdErrors.slice(0, 5).join('; '), errors: pileIdErrors }, { status: 422 });
+    }
+
+    // Limits and pass/fail come from the racking system profile, not the client
+    const pileType = data.pileType || 'interior';
+    const evaluation = await evaluateInspection(db, data.projectId, pileType, data.items);
+    if (evaluation.errors.length > 0) {
+      return NextResponse.json({ error: evaluation.errors.join('; '), errors: evaluation.errors }, { status: 422 });
+    }
+    const status = inspectionStatus(evaluation.items, data.status);
     
     const inspection = await db.qCInspection.create({
       data: {
@@ -51,50 +90,38 @@ export async function POST(request: NextRequest) {
         category: data.category,
         scope: data.scope || 'individual',
         scopeCount: data.scopeCount,
+        scopePercentage: data.scopePercentage,
         area: data.area,
         pileIds: data.pileIds,
-        pileType: data.pileType || 'interior',
-        status: data.status || 'pass',
+        pileType,
+        toleranceRevisionId: evaluation.toleranceRevisionId,
+        status,
         notes: data.notes,
         projectId: data.projectId,
-        userId: data.userId,
+        userId: user.id,
         syncStatus: 'synced',
-        items: {
-          create: data.items?.map((item: any) => ({
-            name: item.name,
-            pileId: item.pileId,
-            measurementType: item.measurementType,
-            measuredValue: item.measuredValue,
-            minValue: item.minValue,
-            maxValue: item.maxValue,
-            unit: item.unit,
-            passed: item.passed,
-            notes: item.notes,
-          })) || []
-        }
+        items: { create: evaluation.items },
+        photos: { create: parsePhotos(data.photos) },
       },
       include: {
         items: true
       }
     });
+    await linkInspectionPiles(db, inspection);
+    await refreshSamplingPlan(db, inspection.projectId, inspection.category);
 
-    // Create issue if failed
-    if (data.status === 'fail') {
-      await db.qCIssue.create({
-        data: {
-          status: 'open',
-          description: data.issueDescription || `${data.category} inspection failed in ${data.area}`,
-          category: data.category,
-          projectId: data.projectId,
-          inspectionId: inspection.id,
-          assignedToType: data.assignedToType,
-          assignedToId: data.assignedToId,
-        }
-      });
-    }
+    // Open punch list issues for each failed pile / measurement
+    await openInspectionIssues(db, inspection, {
+      description: data.issueDescription,
+      assignedToType: data.assignedToType,
+      assignedToId: data.assignedToId,
+    });
 
     return NextResponse.json({ inspection });
   } catch (error) {
+    if (isNotFoundError(error)) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
     console.error('Create inspection error:', error);
     return NextResponse.json({ error: 'Failed to create inspection' }, { status: 500 });
   }
@@ -102,18 +129,49 @@ export async function POST(request: NextRequest) {
 
 export async function PUT(request: NextRequest) {
   try {
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!can(user.role, 'inspection:update')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const db = tenantDb(user.companyId);
+
     const data = await request.json();
     
+    const current = await db.qCInspection.findFirstOrThrow({
+      where: { id: data.id, project: projectScope(user) },
+      include: { items: true }
+    });
+    if (data.revision !== undefined && current.revision !== data.revision) {
+      return NextResponse.json({ error: 'Inspection was changed by someone else', current }, { status: 409 });
+    }
+    // A measured inspection keeps the status its tolerances gave it
+    const status = data.status === undefined ? undefined : inspectionStatus(current.items, data.status);
+    
     const inspection = await db.qCInspection.update({
-      where: { id: data.id },
+      where: {
+        id: data.id,
+        project: projectScope(user),
+        ...(data.revision !== undefined ? { revision: data.revision } : {}),
+      },
       data: {
-        status: data.status,
+        revision: { increment: 1 },
+        status,
         notes: data.notes,
       }
     });
+    if (inspection.status !== current.status) {
+      await refreshSamplingPlan(db, inspection.projectId, inspection.category);
+    }
 
     return NextResponse.json({ inspection });
   } catch (error) {
+    if (isNotFoundError(error)) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
     console.error('Update inspection error:', error);
     return NextResponse.json({ error: 'Failed to update inspection' }, { status: 500 });
   }
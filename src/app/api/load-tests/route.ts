@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { tenantDb, isNotFoundError } from '@/lib/db';
+import { getCurrentUser } from '@/lib/auth';
+import { can } from '@/lib/permissions';
+import { assertProjectAccess, projectScope } from '@/lib/project-access';
+import { projectPileIdFormat } from '@/lib/piles';
+import { linkNearestBoring, validateLoadTest } from '@/lib/geotech';
+
+export const dynamic = 'force-dynamic';
+
+// GET - A project's pile load tests, newest first
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const db = tenantDb(user.companyId);
+
+    const { searchParams } = new URL(request.url);
+    const projectId = searchParams.get('projectId');
+    if (!projectId) {
+      return NextResponse.json({ error: 'projectId required' }, { status: 400 });
+    }
+
+    const loadTests = await db.pileLoadTest.findMany({
+      where: { projectId, project: projectScope(user) },
+      include: { boring: { select: { id: true, name: true } } },
+      orderBy: { testedAt: 'desc' }
+    });
+
+    return NextResponse.json({ loadTests });
+  } catch (error) {
+    console.error('Get load tests error:', error);
+    return NextResponse.json({ error: 'Failed to fetch load tests' }, { status: 500 });
+  }
+}
+
+// POST - Record a load test. Pass or fail is worked out from the loads and
+// displacements.
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!can(user.role, 'load-test:create')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const db = tenantDb(user.companyId);
+
+    const data = await request.json();
+    await assertProjectAccess(db, user, data.projectId);
+
+    const { fields, errors } = validateLoadTest(data, await projectPileIdFormat(db, data.projectId));
+    if (errors.length > 0) {
+      return NextResponse.json({ error: errors.join('; '), errors }, { status: 422 });
+    }
+
+    const pile = await db.pile.findFirst({ where: { projectId: data.projectId, pileId: fields.pileId }, select: { id: true } });
+    const created = await db.pileLoadTest.create({
+      data: {
+        ...fields,
+        pileRecordId: pile?.id ?? null,
+        projectId: data.projectId,
+        createdById: user.id,
+      }
+    });
+    await linkNearestBoring(db, 'pileLoadTest', created);
+
+    const loadTest = await db.pileLoadTest.findFirst({
+      where: { id: created.id },
+      include: { boring: { select: { id: true, name: true } } }
+    });
+    return NextResponse.json({ loadTest }, { status: 201 });
+  } catch (error) {
+    if (isNotFoundError(error)) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+    console.error('Create load test error:', error);
+    return NextResponse.json({ error: 'Failed to save load test' }, { status: 500 });
+  }
+}
+
+// DELETE - Remove a load test entered in error
+export async function DELETE(request: NextRequest) {
+  try {
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!can(user.role, 'geotech:manage')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const db = tenantDb(user.companyId);
+
+    const { searchParams } = new URL(request.url);
+    const id = searchParams.get('id');
+    if (!id) {
+      return NextResponse.json({ error: 'Load test ID is required' }, { status: 400 });
+    }
+
+    const loadTest = await db.pileLoadTest.findFirstOrThrow({ where: { id } });
+    await assertProjectAccess(db, user, loadTest.projectId);
+    await db.pileLoadTest.delete({ where: { id } });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (isNotFoundError(error)) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+    console.error('Delete load test error:', error);
+    return NextResponse.json({ error: 'Failed to delete load test' }, { status: 500 });
+  }
+}
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { tenantDb, isNotFoundError } from '@/lib/db';
+import { getCurrentUser } from '@/lib/auth';
+import { can } from '@/lib/permissions';
+import { assertProjectAccess } from '@/lib/project-access';
+import { DEFAULT_PILE_ID_FORMAT } from '@/lib/pile-ids';
+import { applyLayout, validateLayout } from '@/lib/pile-layout';
+import { registryPileCount } from '@/lib/piles';
+import { relinkBorings } from '@/lib/geotech';
+
+export const dynamic = 'force-dynamic';
+
+// Largest layout file accepted, in characters
+const MAX_CONTENT_LENGTH = 20 * 1024 * 1024;
+
+// POST - Validate a pile layout file and, unless dryRun is set, write it to the
+// project's pile registry. Files with errors or duplicate pile IDs are refused.
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!can(user.role, 'project:update')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const db = tenantDb(user.companyId);
+
+    const data = await request.json();
+    await assertProjectAccess(db, user, data.projectId);
+
+    if (data.format !== 'csv' && data.format !== 'geojson') {
+      return NextResponse.json({ error: 'format must be csv or geojson' }, { status: 400 });
+    }
+    if (typeof data.content !== 'string' || data.content.length === 0) {
+      return NextResponse.json({ error: 'content required' }, { status: 400 });
+    }
+    if (data.content.length > MAX_CONTENT_LENGTH) {
+      return NextResponse.json({ error: 'Layout file is too large' }, { status: 400 });
+    }
+
+    const project = await db.project.findFirstOrThrow({ where: { id: data.projectId } });
+    const { piles, ...report } = validateLayout(data.format, data.content, {
+      pileIdFormat: project.pileIdFormat || DEFAULT_PILE_ID_FORMAT,
+      totalPiles: project.totalPiles,
+    });
+    const summary = { ...report, pileCount: piles.length };
+
+    if (data.dryRun) {
+      return NextResponse.json(summary);
+    }
+    if (report.errors.length > 0 || report.duplicates.length > 0) {
+      return NextResponse.json({ ...summary, error: 'Fix the errors and duplicates before importing' }, { status: 422 });
+    }
+    if (piles.length === 0) {
+      return NextResponse.json({ ...summary, error: 'Layout has no piles' }, { status: 422 });
+    }
+
+    const result = await applyLayout(db, project.id, piles);
+    // Surveyed positions may have moved which boring is nearest
+    await relinkBorings(db, project.id);
+
+    const { registryPiles, warnings } = await registryPileCount(db, project);
+
+    return NextResponse.json({ ...summary, ...result, registryPiles, warnings: [...report.warnings, ...warnings] });
+  } catch (error) {
+    if (isNotFoundError(error)) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+    console.error('Import pile layout error:', error);
+    return NextResponse.json({ error: 'Failed to import pile layout' }, { status: 500 });
+  }
+}
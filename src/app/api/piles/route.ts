@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { tenantDb, isNotFoundError } from '@/lib/db';
+import { getCurrentUser } from '@/lib/auth';
+import { can } from '@/lib/permissions';
+import { assertProjectAccess, projectScope } from '@/lib/project-access';
+import { PILE_STATUSES, createPiles, planPiles, registryPileCount } from '@/lib/piles';
+import { DEFAULT_PILE_ID_FORMAT } from '@/lib/pile-ids';
+
+export const dynamic = 'force-dynamic';
+
+// Largest layout a single request may generate
+const MAX_PILES = 100000;
+
+// GET - Pile registry for a project, with counts per lifecycle status
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const db = tenantDb(user.companyId);
+
+    const { searchParams } = new URL(request.url);
+    const projectId = searchParams.get('projectId');
+    const status = searchParams.get('status');
+
+    if (!projectId) {
+      return NextResponse.json({ error: 'projectId required' }, { status: 400 });
+    }
+
+    const piles = await db.pile.findMany({
+      where: { projectId, project: projectScope(user), ...(status ? { status } : {}) },
+      select: {
+        id: true, pileId: true, block: true, row: true, pileNumber: true,
+        pileType: true, status: true, drivenAt: true, inspectedAt: true,
+        easting: true, northing: true, offsetDistance: true, offsetDirection: true,
+        replacementFor: { select: { pileId: true } },
+      },
+      orderBy: [{ block: 'asc' }, { row: 'asc' }, { pileNumber: 'asc' }]
+    });
+
+    const counts = Object.fromEntries(PILE_STATUSES.map(s => [s, 0]));
+    for (const pile of piles) counts[pile.status] = (counts[pile.status] || 0) + 1;
+
+    return NextResponse.json({ piles, counts });
+  } catch (error) {
+    console.error('Get piles error:', error);
+    return NextResponse.json({ error: 'Failed to fetch piles' }, { status: 500 });
+  }
+}
+
+// POST - Generate the registry from a block/row/pile layout. Piles that
+// already exist are kept as they are.
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!can(user.role, 'project:update')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const db = tenantDb(user.companyId);
+
+    const data = await request.json();
+    await assertProjectAccess(db, user, data.projectId);
+
+    const rows = Number(data.rows);
+    const pilesPerRow = Number(data.pilesPerRow);
+    const motorPile = data.motorPile ? Number(data.motorPile) : null;
+    const blocks: string[] = Array.isArray(data.blocks)
+      ? data.blocks.map((b: unknown) => String(b).trim()).filter(Boolean)
+      : [];
+
+    if (!Number.isInteger(rows) || rows < 1 || !Number.isInteger(pilesPerRow) || pilesPerRow < 1) {
+      return NextResponse.json({ error: 'rows and pilesPerRow must be positive whole numbers' }, { status: 400 });
+    }
+    if (rows * pilesPerRow * Math.max(blocks.length, 1) > MAX_PILES) {
+      return NextResponse.json({ error: `A layout can have at most ${MAX_PILES} piles` }, { status: 400 });
+    }
+
+    const project = await db.project.findFirstOrThrow({ where: { id: data.projectId } });
+    const planned = planPiles(project.pileIdFormat || DEFAULT_PILE_ID_FORMAT, { blocks, rows, pilesPerRow, motorPile });
+    const result = await createPiles(db, project.id, planned);
+
+    return NextResponse.json({ ...result, ...await registryPileCount(db, project) }, { status: 201 });
+  } catch (error) {
+    if (isNotFoundError(error)) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+    console.error('Generate piles error:', error);
+    return NextResponse.json({ error: 'Failed to generate piles' }, { status: 500 });
+  }
+}
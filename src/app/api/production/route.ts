@@ -1,16 +1,27 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { db } from '@/lib/db';
+import { tenantDb, isNotFoundError } from '@/lib/db';
+import { getCurrentUser } from '@/lib/auth';
+import { can } from '@/lib/permissions';
+import { assertProjectAccess, projectScope } from '@/lib/project-access';
+import { parsePhotos } from '@/lib/photos';
+import { checkPileIds, linkProductionPiles, parsePileIds } from '@/lib/piles';
 
 export async function GET(request: NextRequest) {
   try {
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const db = tenantDb(user.companyId);
+
     const { searchParams } = new URL(request.url);
     const projectId = searchParams.get('projectId');
-    const companyId = searchParams.get('companyId');
     const startDate = searchParams.get('startDate');
     const endDate = searchParams.get('endDate');
     
     if (projectId) {
-      const where: any = { projectId };
+      const where: any = { projectId, project: projectScope(user) };
       if (startDate || endDate) {
         where.date = {};
         if (startDate) where.date.gte = new Date(startDate);
@@ -31,29 +42,26 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ entries });
     }
 
-    if (companyId) {
-      // Get all production for company
-      const company = await db.company.findUnique({
-        where: { id: companyId },
-        include: {
-          projects: {
-            include: {
-              productionEntries: {
-                orderBy: { date: 'desc' },
-                include: {
-                  user: { select: { id: true, name: true } },
-                }
+    // No project given - get all production for the caller's company
+    const company = await db.company.findUnique({
+      where: { id: user.companyId },
+      include: {
+        projects: {
+          where: projectScope(user),
+          include: {
+            productionEntries: {
+              orderBy: { date: 'desc' },
+              include: {
+                user: { select: { id: true, name: true } },
               }
             }
           }
         }
-      });
-      
-      const allEntries = company?.projects.flatMap(p => p.productionEntries) || [];
-      return NextResponse.json({ entries: allEntries });
-    }
+      }
+    });
 
-    return NextResponse.json({ error: 'projectId or companyId required' }, { status: 400 });
+    const allEntries = company?.projects.flatMap(p => p.productionEntries) || [];
+    return NextResponse.json({ entries: allEntries });
   } catch (error) {
     console.error('Get production error:', error);
     return NextResponse.json({ error: 'Failed to fetch production data' }, { status: 500 });
@@ -62,30 +70,51 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!can(user.role, 'production:create')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const db = tenantDb(user.companyId);
+
     const data = await request.json();
+    await assertProjectAccess(db, user, data.projectId);
+
+    const pileIdErrors = await checkPileIds(db, data.projectId, data.pileIds);
+    if (pileIdErrors.length > 0) {
+      return NextResponse.json({ error: pileIdErrors.slice(0, 5).join('; '), errors: pileIdErrors }, { status: 422 });
+    }
     
     const entry = await db.productionEntry.create({
       data: {
         date: new Date(data.date),
-        piles: data.piles || 0,
+        piles: data.piles || parsePileIds(data.pileIds).length,
         rackingTables: data.rackingTables || 0,
         modules: data.modules || 0,
         notes: data.notes,
         projectId: data.projectId,
-        userId: data.userId,
+        userId: user.id,
         crewId: data.crewId,
         subcontractorId: data.subcontractorId,
         syncStatus: 'synced',
         localId: data.localId,
         deviceId: data.deviceId,
+        photos: { create: parsePhotos(data.photos) },
       },
       include: {
         user: { select: { id: true, name: true } },
       }
     });
+    await linkProductionPiles(db, entry, data.pileIds);
 
     return NextResponse.json({ entry });
   } catch (error) {
+    if (isNotFoundError(error)) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
     console.error('Create production entry error:', error);
     return NextResponse.json({ error: 'Failed to create production entry' }, { status: 500 });
   }
@@ -93,11 +122,34 @@ export async function POST(request: NextRequest) {
 
 export async function PUT(request: NextRequest) {
   try {
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!can(user.role, 'production:update')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const db = tenantDb(user.companyId);
+
     const data = await request.json();
     
+    // When the client says which revision it edited, refuse to overwrite a newer one
+    if (data.revision !== undefined) {
+      const current = await db.productionEntry.findFirst({ where: { id: data.id, project: projectScope(user) } });
+      if (current && current.revision !== data.revision) {
+        return NextResponse.json({ error: 'Entry was changed by someone else', current }, { status: 409 });
+      }
+    }
+    
     const entry = await db.productionEntry.update({
-      where: { id: data.id },
+      where: {
+        id: data.id,
+        project: projectScope(user),
+        ...(data.revision !== undefined ? { revision: data.revision } : {}),
+      },
       data: {
+        revision: { increment: 1 },
         date: new Date(data.date),
         piles: data.piles,
         rackingTables: data.rackingTables,
@@ -110,6 +162,9 @@ export async function PUT(request: NextRequest) {
 
     return NextResponse.json({ entry });
   } catch (error) {
+    if (isNotFoundError(error)) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
     console.error('Update production entry error:', error);
     return NextResponse.json({ error: 'Failed to update production entry' }, { status: 500 });
   }
@@ -117,6 +172,16 @@ export async function PUT(request: NextRequest) {
 
 export async function DELETE(request: NextRequest) {
   try {
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!can(user.role, 'production:delete')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const db = tenantDb(user.companyId);
+
     const { searchParams } = new URL(request.url);
     const id = searchParams.get('id');
     
@@ -124,9 +189,12 @@ export async function DELETE(request: NextRequest) {
       return NextResponse.json({ error: 'id required' }, { status: 400 });
     }
 
-    await db.productionEntry.delete({ where: { id } });
+    await db.productionEntry.delete({ where: { id, project: projectScope(user) } });
     return NextResponse.json({ success: true });
   } catch (error) {
+    if (isNotFoundError(error)) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
     console.error('Delete production entry error:', error);
     return NextResponse.json({ error: 'Failed to delete production entry' }, { status: 500 });
   }
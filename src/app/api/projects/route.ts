@@ -1,17 +1,28 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { db } from '@/lib/db';
+import { tenantDb, isNotFoundError } from '@/lib/db';
+import { getCurrentUser } from '@/lib/auth';
+import { can } from '@/lib/permissions';
+import { projectScope } from '@/lib/project-access';
+import { DEFAULT_PILE_ID_FORMAT, pileIdExample, validatePileIdFormat } from '@/lib/pile-ids';
+import { validateRefusalCriterion } from '@/lib/driving-logs';
 
 export const dynamic = 'force-dynamic';
 
 export async function GET(request: NextRequest) {
   try {
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const db = tenantDb(user.companyId);
+
     const { searchParams } = new URL(request.url);
     const projectId = searchParams.get('projectId');
-    const companyId = searchParams.get('companyId');
     
     if (projectId) {
-      const project = await db.project.findUnique({
-        where: { id: projectId },
+      const project = await db.project.findFirst({
+        where: { id: projectId, ...projectScope(user) },
         include: {
           productionEntries: {
             orderBy: { date: 'desc' },
@@ -19,28 +30,27 @@ export async function GET(request: NextRequest) {
           },
           inspections: { orderBy: { date: 'desc' }, include: { items: true, user: { select: { name: true } } } },
           qcIssues: { orderBy: { openedAt: 'desc' } },
-          refusals: { orderBy: { dateDiscovered: 'desc' } },
+          refusals: {
+            orderBy: { dateDiscovered: 'desc' },
+            include: { replacementPile: { select: { id: true, pileId: true, status: true, offsetDistance: true, offsetDirection: true, drivenAt: true } } }
+          },
           rackingSystem: true,
         }
       });
       return NextResponse.json({ project });
     }
 
-    if (companyId) {
-      const projects = await db.project.findMany({
-        where: { companyId },
-        include: {
-          productionEntries: { orderBy: { date: 'desc' }, take: 30 },
-          inspections: true,
-          qcIssues: { where: { status: 'open' } },
-          refusals: { where: { status: 'open' } },
-        },
-        orderBy: { createdAt: 'desc' }
-      });
-      return NextResponse.json({ projects });
-    }
-
-    return NextResponse.json({ error: 'companyId or projectId required' }, { status: 400 });
+    const projects = await db.project.findMany({
+      where: projectScope(user),
+      include: {
+        productionEntries: { orderBy: { date: 'desc' }, take: 30 },
+        inspections: true,
+        qcIssues: { where: { status: 'open' } },
+        refusals: { where: { status: 'open' } },
+      },
+      orderBy: { createdAt: 'desc' }
+    });
+    return NextResponse.json({ projects });
   } catch (error) {
     console.error('Get projects error:', error);
     return NextResponse.json({ error: 'Failed to fetch projects' }, { status: 500 });
@@ -49,7 +59,28 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!can(user.role, 'project:create')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const db = tenantDb(user.companyId);
+
     const data = await request.json();
+
+    const pileIdFormat = data.pileIdFormat || DEFAULT_PILE_ID_FORMAT;
+    const errors = [
+      ...validatePileIdFormat(pileIdFormat),
+      ...(data.refusalBlowCount !== undefined || data.refusalBlowDepth !== undefined
+        ? validateRefusalCriterion(data.refusalBlowCount ?? 10, data.refusalBlowDepth ?? 25)
+        : []),
+    ];
+    if (errors.length > 0) {
+      return NextResponse.json({ error: errors.join('; '), errors }, { status: 422 });
+    }
     
     const project = await db.project.create({
       data: {
@@ -65,14 +96,20 @@ export async function POST(request: NextRequest) {
         plannedPilesPerDay: data.plannedPilesPerDay || 0,
         plannedRackingPerDay: data.plannedRackingPerDay || 0,
         plannedModulesPerDay: data.plannedModulesPerDay || 0,
-        pileIdFormat: data.pileIdFormat || '{Row}-{Pile}',
+        pileIdFormat,
+        pileIdExample: pileIdExample(pileIdFormat),
+        refusalBlowCount: data.refusalBlowCount,
+        refusalBlowDepth: data.refusalBlowDepth,
         rackingSystemId: data.rackingSystemId,
-        companyId: data.companyId,
+        companyId: user.companyId,
       }
     });
 
     return NextResponse.json({ project });
   } catch (error) {
+    if (isNotFoundError(error)) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
     console.error('Create project error:', error);
     return NextResponse.json({ error: 'Failed to create project' }, { status: 500 });
   }
@@ -80,7 +117,37 @@ export async function POST(request: NextRequest) {
 
 export async function PUT(request: NextRequest) {
   try {
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!can(user.role, 'project:update')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const db = tenantDb(user.companyId);
+
     const data = await request.json();
+
+    if (data.pileIdFormat !== undefined) {
+      const formatErrors = validatePileIdFormat(data.pileIdFormat);
+      if (formatErrors.length > 0) {
+        return NextResponse.json({ error: formatErrors.join('; '), errors: formatErrors }, { status: 422 });
+      }
+      // Registry pile IDs were built from the old format
+      const current = await db.project.findFirstOrThrow({ where: { id: data.id }, select: { pileIdFormat: true } });
+      const piles = await db.pile.count({ where: { projectId: data.id } });
+      if (piles > 0 && data.pileIdFormat !== current.pileIdFormat) {
+        return NextResponse.json({ error: `The pile ID format can't change once the project has ${piles} piles` }, { status: 409 });
+      }
+    }
+    if (data.refusalBlowCount !== undefined || data.refusalBlowDepth !== undefined) {
+      const current = await db.project.findFirstOrThrow({ where: { id: data.id }, select: { refusalBlowCount: true, refusalBlowDepth: true } });
+      const criterionErrors = validateRefusalCriterion(data.refusalBlowCount ?? current.refusalBlowCount, data.refusalBlowDepth ?? current.refusalBlowDepth);
+      if (criterionErrors.length > 0) {
+        return NextResponse.json({ error: criterionErrors.join('; '), errors: criterionErrors }, { status: 422 });
+      }
+    }
     
     const project = await db.project.update({
       where: { id: data.id },
@@ -98,6 +165,9 @@ export async function PUT(request: NextRequest) {
         plannedRackingPerDay: data.plannedRackingPerDay,
         plannedModulesPerDay: data.plannedModulesPerDay,
         pileIdFormat: data.pileIdFormat,
+        pileIdExample: data.pileIdFormat !== undefined ? pileIdExample(data.pileIdFormat) : undefined,
+        refusalBlowCount: data.refusalBlowCount,
+        refusalBlowDepth: data.refusalBlowDepth,
         rackingSystemId: data.rackingSystemId,
         actualStartDate: data.actualStartDate ? new Date(data.actualStartDate) : null,
         actualEndDate: data.actualEndDate ? new Date(data.actualEndDate) : null,
@@ -106,6 +176,9 @@ export async function PUT(request: NextRequest) {
 
     return NextResponse.json({ project });
   } catch (error) {
+    if (isNotFoundError(error)) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
     console.error('Update project error:', error);
     return NextResponse.json({ error: 'Failed to update project' }, { status: 500 });
   }
@@ -113,6 +186,16 @@ export async function PUT(request: NextRequest) {
 
 export async function DELETE(request: NextRequest) {
   try {
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!can(user.role, 'project:delete')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const db = tenantDb(user.companyId);
+
     const { searchParams } = new URL(request.url);
     const id = searchParams.get('id');
     
@@ -123,6 +206,9 @@ export async function DELETE(request: NextRequest) {
     await db.project.delete({ where: { id } });
     return NextResponse.json({ success: true });
   } catch (error) {
+    if (isNotFoundError(error)) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
     console.error('Delete project error:', error);
     return NextResponse.json({ error: 'Failed to delete project' }, { status: 500 });
   }
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { tenantDb, isNotFoundError } from '@/lib/db';
+import { getCurrentUser } from '@/lib/auth';
+import { can, type Permission } from '@/lib/permissions';
+import { assertProjectAccess, projectScope } from '@/lib/project-access';
+import { assignIssue, correctIssue, issueFilters, issueNames, reinspectIssue } from '@/lib/qc-issues';
+
+export const dynamic = 'force-dynamic';
+
+// Who may take each punch list action
+const ACTION_PERMISSIONS: Record<string, Permission> = {
+  assign: 'qc-issue:assign',
+  correct: 'qc-issue:correct',
+  reinspect: 'qc-issue:verify',
+};
+
+// GET - Punch list, oldest first, filtered by project, category, status,
+// assignee and age
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const db = tenantDb(user.companyId);
+
+    const { searchParams } = new URL(request.url);
+    const { where, errors } = issueFilters(searchParams);
+    if (errors.length > 0) {
+      return NextResponse.json({ error: errors.join('; '), errors }, { status: 422 });
+    }
+
+    const issues = await db.qCIssue.findMany({
+      where: { ...where, project: projectScope(user) },
+      orderBy: { openedAt: 'asc' },
+      include: {
+        photos: true,
+        project: { select: { id: true, name: true } },
+        inspection: { select: { id: true, date: true, area: true, pileIds: true, status: true } },
+      }
+    });
+
+    return NextResponse.json({ issues: await issueNames(db, issues) });
+  } catch (error) {
+    console.error('Get QC issues error:', error);
+    return NextResponse.json({ error: 'Failed to fetch QC issues' }, { status: 500 });
+  }
+}
+
+// PUT - Move an issue along: assign, correct (with photos) or reinspect
+export async function PUT(request: NextRequest) {
+  try {
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const data = await request.json();
+    const permission = ACTION_PERMISSIONS[data.action];
+    if (!permission) {
+      return NextResponse.json({ error: 'action must be assign, correct or reinspect' }, { status: 400 });
+    }
+    if (!can(user.role, permission)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const db = tenantDb(user.companyId);
+
+    const issue = await db.qCIssue.findFirstOrThrow({ where: { id: data.id } });
+    await assertProjectAccess(db, user, issue.projectId);
+
+    const result = data.action === 'assign' ? await assignIssue(db, issue, data)
+      : data.action === 'correct' ? await correctIssue(db, issue, user.id, data)
+      : await reinspectIssue(db, issue, user.id, data);
+    if (!result.issue) {
+      return NextResponse.json({ error: result.errors.join('; '), errors: result.errors }, { status: 422 });
+    }
+
+    const [updated] = await issueNames(db, [result.issue]);
+    return NextResponse.json({ issue: updated });
+  } catch (error) {
+    if (isNotFoundError(error)) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+    console.error('Update QC issue error:', error);
+    return NextResponse.json({ error: 'Failed to update QC issue' }, { status: 500 });
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { tenantDb } from '@/lib/db';
+import { getCurrentUser } from '@/lib/auth';
+import { exportLibrary } from '@/lib/tolerance-library';
+
+export const dynamic = 'force-dynamic';
+
+// GET - Download racking systems as a tolerance library file. Exports one
+// system when `id` is given, otherwise all of the company's systems.
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const db = tenantDb(user.companyId);
+
+    const { searchParams } = new URL(request.url);
+    const id = searchParams.get('id');
+
+    const systems = await db.rackingSystem.findMany({
+      where: id ? { id } : {},
+      orderBy: [{ manufacturer: 'asc' }, { name: 'asc' }]
+    });
+    if (id && systems.length === 0) {
+      return NextResponse.json({ error: 'Racking system not found' }, { status: 404 });
+    }
+
+    const filename = id
+      ? `${systems[0].manufacturer}-${systems[0].name}`.replace(/[^A-Za-z0-9.-]+/g, '_')
+      : 'tolerance-library';
+
+    return new NextResponse(JSON.stringify(exportLibrary(systems), null, 2), {
+      headers: {
+        'Content-Type': 'application/json',
+        'Content-Disposition': `attachment; filename="${filename}.json"`
+      }
+    });
+  } catch (error) {
+    console.error('Export racking systems error:', error);
+    return NextResponse.json({ error: 'Failed to export racking systems' }, { status: 500 });
+  }
+}
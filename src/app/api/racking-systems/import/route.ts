@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { tenantDb, tenantTransaction, isNotFoundError } from '@/lib/db';
+import { getCurrentUser } from '@/lib/auth';
+import { can } from '@/lib/permissions';
+import { planLibraryImport } from '@/lib/tolerance-library';
+import { createRackingSystem, updateRackingSystem } from '@/lib/racking-systems';
+
+export const dynamic = 'force-dynamic';
+
+// Largest library file accepted, in characters
+const MAX_CONTENT_LENGTH = 1024 * 1024;
+
+// POST - Validate a tolerance library file and diff it against the company's
+// racking systems. Unless dryRun is set, matching systems are updated (as a
+// new revision when a tolerance changes) and the rest are created, all in one
+// transaction so a failure leaves the library as it was.
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!can(user.role, 'racking:manage')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const db = tenantDb(user.companyId);
+
+    const data = await request.json();
+    if (typeof data.content !== 'string' || data.content.length === 0) {
+      return NextResponse.json({ error: 'content required' }, { status: 400 });
+    }
+    if (data.content.length > MAX_CONTENT_LENGTH) {
+      return NextResponse.json({ error: 'Library file is too large' }, { status: 400 });
+    }
+
+    const { plans, errors } = await planLibraryImport(db, data.content);
+    const summary = {
+      errors,
+      systems: plans.map(({ name, manufacturer, action, changes, errors }) => ({ name, manufacturer, action, changes, errors })),
+    };
+
+    if (data.dryRun) {
+      return NextResponse.json(summary);
+    }
+    if (errors.length > 0 || plans.some(plan => plan.errors.length > 0)) {
+      return NextResponse.json({ ...summary, error: 'Fix the errors before importing' }, { status: 422 });
+    }
+
+    const { created, updated } = await tenantTransaction(user.companyId, async tx => {
+      let created = 0;
+      let updated = 0;
+      for (const plan of plans) {
+        if (plan.action === 'create') {
+          await createRackingSystem(tx, user.companyId, user.id, plan.details, plan.profiles);
+          created++;
+        } else if (plan.action === 'update') {
+          const current = await tx.rackingSystem.findFirstOrThrow({ where: { id: plan.existingId } });
+          await updateRackingSystem(tx, user.id, current, plan.details, plan.profiles);
+          updated++;
+        }
+      }
+      return { created, updated };
+    });
+
+    return NextResponse.json({ ...summary, created, updated, unchanged: plans.length - created - updated });
+  } catch (error: any) {
+    // A system was edited or deleted after the import was checked
+    if (error?.code === 'P2002' || isNotFoundError(error)) {
+      return NextResponse.json({ error: 'Racking systems were changed by someone else - check the file again' }, { status: 409 });
+    }
+    console.error('Import racking systems error:', error);
+    return NextResponse.json({ error: 'Failed to import racking systems' }, { status: 500 });
+  }
+}
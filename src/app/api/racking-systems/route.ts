@@ -0,0 +1,160 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { tenantDb, isNotFoundError } from '@/lib/db';
+import { getCurrentUser } from '@/lib/auth';
+import { can } from '@/lib/permissions';
+import { validateProfiles } from '@/lib/tolerances';
+import { createRackingSystem, updateRackingSystem } from '@/lib/racking-systems';
+
+export const dynamic = 'force-dynamic';
+
+// GET - Racking systems, or one system with its revision history
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const db = tenantDb(user.companyId);
+
+    const { searchParams } = new URL(request.url);
+    const id = searchParams.get('id');
+
+    if (id) {
+      const rackingSystem = await db.rackingSystem.findFirst({
+        where: { id },
+        include: {
+          revisions: {
+            orderBy: { revision: 'desc' },
+            include: { _count: { select: { inspections: true } } }
+          },
+          _count: { select: { projects: true } }
+        }
+      });
+      if (!rackingSystem) {
+        return NextResponse.json({ error: 'Racking system not found' }, { status: 404 });
+      }
+      return NextResponse.json({ rackingSystem });
+    }
+
+    const rackingSystems = await db.rackingSystem.findMany({
+      orderBy: { name: 'asc' },
+      include: { _count: { select: { projects: true } } }
+    });
+    return NextResponse.json({ rackingSystems });
+  } catch (error) {
+    console.error('Get racking systems error:', error);
+    return NextResponse.json({ error: 'Failed to fetch racking systems' }, { status: 500 });
+  }
+}
+
+// POST - Create a racking system; its profiles become revision 1
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!can(user.role, 'racking:manage')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const db = tenantDb(user.companyId);
+
+    const data = await request.json();
+    if (!data.name?.trim() || !data.manufacturer?.trim()) {
+      return NextResponse.json({ error: 'Name and manufacturer are required' }, { status: 400 });
+    }
+
+    const { profiles, errors } = validateProfiles(data);
+    if (errors.length > 0) {
+      return NextResponse.json({ error: errors.join('; '), errors }, { status: 422 });
+    }
+
+    const rackingSystem = await createRackingSystem(db, user.companyId, user.id, data, profiles);
+
+    return NextResponse.json({ rackingSystem }, { status: 201 });
+  } catch (error) {
+    console.error('Create racking system error:', error);
+    return NextResponse.json({ error: 'Failed to create racking system' }, { status: 500 });
+  }
+}
+
+// PUT - Update a racking system. A change to any tolerance writes a new
+// revision; inspections graded earlier keep their own revision and items.
+export async function PUT(request: NextRequest) {
+  try {
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!can(user.role, 'racking:manage')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const db = tenantDb(user.companyId);
+
+    const data = await request.json();
+    const current = await db.rackingSystem.findFirstOrThrow({ where: { id: data.id } });
+
+    const { profiles, errors } = validateProfiles(data);
+    if (errors.length > 0) {
+      return NextResponse.json({ error: errors.join('; '), errors }, { status: 422 });
+    }
+
+    const result = await updateRackingSystem(db, user.id, current, data, profiles);
+
+    return NextResponse.json(result);
+  } catch (error: any) {
+    if (isNotFoundError(error)) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+    // Two edits raced for the same revision number
+    if (error?.code === 'P2002') {
+      return NextResponse.json({ error: 'Racking system was changed by someone else' }, { status: 409 });
+    }
+    console.error('Update racking system error:', error);
+    return NextResponse.json({ error: 'Failed to update racking system' }, { status: 500 });
+  }
+}
+
+// DELETE - Remove a racking system that no project or inspection refers to
+export async function DELETE(request: NextRequest) {
+  try {
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!can(user.role, 'racking:manage')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const db = tenantDb(user.companyId);
+
+    const { searchParams } = new URL(request.url);
+    const id = searchParams.get('id');
+    if (!id) {
+      return NextResponse.json({ error: 'Racking system ID is required' }, { status: 400 });
+    }
+
+    const [projects, inspections] = await Promise.all([
+      db.project.count({ where: { rackingSystemId: id } }),
+      db.qCInspection.count({ where: { toleranceRevision: { rackingSystemId: id } } }),
+    ]);
+    if (projects > 0 || inspections > 0) {
+      return NextResponse.json({
+        error: `In use by ${projects} project(s) and ${inspections} inspection(s)`
+      }, { status: 409 });
+    }
+
+    await db.rackingSystem.delete({ where: { id } });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (isNotFoundError(error)) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+    console.error('Delete racking system error:', error);
+    return NextResponse.json({ error: 'Failed to delete racking system' }, { status: 500 });
+  }
+}
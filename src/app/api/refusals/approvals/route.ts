@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { tenantDb, isNotFoundError } from '@/lib/db';
+import { getCurrentUser } from '@/lib/auth';
+import { can } from '@/lib/permissions';
+import { projectScope } from '@/lib/project-access';
+import { approveRemediation } from '@/lib/refusal-remediation';
+
+export const dynamic = 'force-dynamic';
+
+// POST - An engineer approves or rejects a refusal's remediation plan
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!can(user.role, 'refusal:engineer-approve')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const db = tenantDb(user.companyId);
+
+    const data = await request.json();
+    const refusal = await db.pileRefusal.findFirstOrThrow({ where: { id: data.refusalId, project: projectScope(user) } });
+
+    const result = await approveRemediation(user.companyId, refusal, user, data);
+    if (!result.approval) {
+      return NextResponse.json({ error: result.errors.join('; '), errors: result.errors }, { status: 422 });
+    }
+
+    return NextResponse.json({ approval: result.approval, refusal: result.refusal }, { status: 201 });
+  } catch (error) {
+    if (isNotFoundError(error)) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+    console.error('Approve remediation error:', error);
+    return NextResponse.json({ error: 'Failed to record approval' }, { status: 500 });
+  }
+}
@@ -1,25 +1,50 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { db } from '@/lib/db';
+import { tenantDb, isNotFoundError } from '@/lib/db';
+import { getCurrentUser } from '@/lib/auth';
+import { can } from '@/lib/permissions';
+import { assertProjectAccess, projectScope } from '@/lib/project-access';
+import { parsePhotos } from '@/lib/photos';
+import { linkRefusalPile, refusalPileFields } from '@/lib/piles';
+import { refusalHistory, refusalTransition, transitionRefusal } from '@/lib/refusal-remediation';
+import { linkNearestBoring } from '@/lib/geotech';
+import { confirmProposedRefusal } from '@/lib/driving-logs';
 
 export const dynamic = 'force-dynamic';
 
+// Replacement pile driven at an offset, shown next to the refusal
+const REPLACEMENT_SELECT = { select: { id: true, pileId: true, status: true, offsetDistance: true, offsetDirection: true, drivenAt: true } };
+
 export async function GET(request: NextRequest) {
   try {
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const db = tenantDb(user.companyId);
+
     const { searchParams } = new URL(request.url);
     const projectId = searchParams.get('projectId');
     const refusalId = searchParams.get('id');
     
     if (refusalId) {
-      const refusal = await db.pileRefusal.findUnique({
-        where: { id: refusalId },
-        include: { project: true, reportedByUser: { select: { id: true, name: true } } }
+      const refusal = await db.pileRefusal.findFirst({
+        where: { id: refusalId, project: projectScope(user) },
+        include: {
+          project: true,
+          reportedByUser: { select: { id: true, name: true } },
+          photos: { where: { transitionId: null } },
+          boring: { include: { strata: { orderBy: { topDepth: 'asc' } } } },
+          replacementPile: REPLACEMENT_SELECT,
+        }
       });
-      return NextResponse.json({ refusal });
+      return NextResponse.json({ refusal: refusal && { ...refusal, ...await refusalHistory(db, refusal.id) } });
     }
 
     if (projectId) {
       const refusals = await db.pileRefusal.findMany({
-        where: { projectId },
+        where: { projectId, project: projectScope(user) },
+        include: { replacementPile: REPLACEMENT_SELECT },
         orderBy: { dateDiscovered: 'desc' }
       });
       return NextResponse.json({ refusals });
@@ -34,14 +59,27 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!can(user.role, 'refusal:create')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const db = tenantDb(user.companyId);
+
     const data = await request.json();
+    await assertProjectAccess(db, user, data.projectId);
+
+    const pile = await refusalPileFields(db, data.projectId, data.pileId);
+    if (!pile.fields) {
+      return NextResponse.json({ error: pile.error, errors: [pile.error] }, { status: 422 });
+    }
     
     const refusal = await db.pileRefusal.create({
       data: {
-        pileId: data.pileId,
-        block: data.block,
-        row: data.row,
-        pileNumber: data.pileNumber,
+        ...pile.fields,
         dateDiscovered: new Date(data.dateDiscovered),
         targetDepth: data.targetDepth,
         achievedDepth: data.achievedDepth,
@@ -49,33 +87,62 @@ export async function POST(request: NextRequest) {
         refusalNotes: data.refusalNotes,
         status: 'open',
         projectId: data.projectId,
-        reportedBy: data.userId,
+        reportedBy: user.id,
+        photos: { create: parsePhotos(data.photos) },
       }
     });
+    await linkRefusalPile(db, refusal);
+    await linkNearestBoring(db, 'pileRefusal', refusal);
+    if (data.drivingLogId) await confirmProposedRefusal(db, data.drivingLogId, refusal);
 
     return NextResponse.json({ refusal });
   } catch (error) {
+    if (isNotFoundError(error)) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
     console.error('Create refusal error:', error);
     return NextResponse.json({ error: 'Failed to create refusal' }, { status: 500 });
   }
 }
 
+// PUT - Move a refusal one step through its remediation, with the evidence
+// the step needs
 export async function PUT(request: NextRequest) {
   try {
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const db = tenantDb(user.companyId);
+
     const data = await request.json();
-    
-    const refusal = await db.pileRefusal.update({
-      where: { id: data.id },
-      data: {
-        status: data.status,
-        remediationMethod: data.remediationMethod,
-        remediationDate: data.remediationDate ? new Date(data.remediationDate) : null,
-        engineerApproval: data.engineerApproval,
-      }
-    });
+    const current = await db.pileRefusal.findFirstOrThrow({ where: { id: data.id, project: projectScope(user) } });
 
-    return NextResponse.json({ refusal });
+    // Field steps need refusal:update; planning and sign-off need refusal:approve
+    const rule = refusalTransition(current.status, data.status);
+    if (!can(user.role, rule?.permission ?? 'refusal:update')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    if (data.revision !== undefined && current.revision !== data.revision) {
+      return NextResponse.json({ error: 'Refusal was changed by someone else', current }, { status: 409 });
+    }
+
+    const result = await transitionRefusal(user.companyId, current, user.id, data);
+    if (result.conflict) {
+      const latest = await db.pileRefusal.findFirst({ where: { id: current.id } });
+      return NextResponse.json({ error: result.errors.join('; '), current: latest }, { status: 409 });
+    }
+    if (!result.refusal) {
+      return NextResponse.json({ error: result.errors.join('; '), errors: result.errors }, { status: 422 });
+    }
+
+    return NextResponse.json({ refusal: result.refusal });
   } catch (error) {
+    if (isNotFoundError(error)) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
     console.error('Update refusal error:', error);
     return NextResponse.json({ error: 'Failed to update refusal' }, { status: 500 });
   }
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { db } from '@/lib/db';
+import { tenantDb, TenantDb } from '@/lib/db';
+import { getCurrentUser } from '@/lib/auth';
+import { canAccessProject } from '@/lib/project-access';
 
 export const dynamic = 'force-dynamic';
 
@@ -28,6 +30,16 @@ interface ReportData {
     openIssues: number;
     refusals: number;
   };
+  // As-built: every refused pile replaced by one driven at an offset
+  replacements?: {
+    originalPileId: string;
+    refusalStatus: string;
+    replacementPileId: string;
+    offsetDistance: number | null;
+    offsetDirection: string | null;
+    status: string;
+    drivenAt: Date | null;
+  }[];
   forecast: {
     projectedDate: Date | null;
     daysVariance: number | null;
@@ -40,6 +52,13 @@ interface ReportData {
 
 export async function GET(request: NextRequest) {
   try {
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const db = tenantDb(user.companyId);
+
     const { searchParams } = new URL(request.url);
     const projectId = searchParams.get('projectId');
     const reportType = searchParams.get('type') || 'daily';
@@ -74,7 +93,11 @@ export async function GET(request: NextRequest) {
     }
 
     if (projectId) {
-      const reportData = await generateProjectReport(projectId, startDate, endDate, includeQC);
+      if (!(await canAccessProject(db, user, projectId))) {
+        return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+      }
+
+      const reportData = await generateProjectReport(db, projectId, startDate, endDate, includeQC);
       
       if (format === 'csv') {
         const csv = generateCSV(reportData, includeQC);
@@ -102,7 +125,7 @@ function subDays(date: Date, days: number): Date {
   return result;
 }
 
-async function generateProjectReport(projectId: string, startDate: Date, endDate: Date, includeQC: boolean): Promise<ReportData> {
+async function generateProjectReport(db: TenantDb, projectId: string, startDate: Date, endDate: Date, includeQC: boolean): Promise<ReportData> {
   const project = await db.project.findUnique({
     where: { id: projectId },
     include: {
@@ -162,6 +185,22 @@ async function generateProjectReport(projectId: string, startDate: Date, endDate
     };
   }
 
+  const replacements = includeQC
+    ? (await db.pileRefusal.findMany({
+        where: { projectId, replacementRecordId: { not: null } },
+        include: { replacementPile: true },
+        orderBy: { pileId: 'asc' }
+      })).map((refusal: any) => ({
+        originalPileId: refusal.pileId,
+        refusalStatus: refusal.status,
+        replacementPileId: refusal.replacementPile.pileId,
+        offsetDistance: refusal.replacementPile.offsetDistance,
+        offsetDirection: refusal.replacementPile.offsetDirection,
+        status: refusal.replacementPile.status,
+        drivenAt: refusal.replacementPile.drivenAt,
+      }))
+    : undefined;
+
   return {
     project: {
       id: project.id,
@@ -180,6 +219,7 @@ async function generateProjectReport(projectId: string, startDate: Date, endDate
       dailyAverage,
     },
     qc: qcData,
+    replacements,
     forecast,
     period: { startDate, endDate },
   };
@@ -254,6 +294,15 @@ function generateCSV(report: ReportData, includeQC: boolean): string {
     lines.push(`Open Refusals,${report.qc.refusals}`);
     lines.push('');
   }
+
+  if (includeQC && report.replacements && report.replacements.length > 0) {
+    lines.push('REPLACEMENT PILES');
+    lines.push('Original Pile,Refusal Status,Replacement Pile,Offset (mm),Direction,Replacement Status,Driven');
+    for (const r of report.replacements) {
+      lines.push(`${r.originalPileId},${r.refusalStatus},${r.replacementPileId},${r.offsetDistance ?? ''},${r.offsetDirection ?? ''},${r.status},${r.drivenAt ? formatDate(r.drivenAt) : ''}`);
+    }
+    lines.push('');
+  }
   
   // Production Entries
   lines.push('DAILY PRODUCTION');
@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { tenantDb, isNotFoundError } from '@/lib/db';
+import { getCurrentUser } from '@/lib/auth';
+import { can } from '@/lib/permissions';
+import { assertProjectAccess, projectScope } from '@/lib/project-access';
+import { evaluateSamplingPlan, samplingCoverage, saveSamplingPlan, validateSamplingPlan } from '@/lib/sampling';
+
+export const dynamic = 'force-dynamic';
+
+// GET - A project's sampling plans with the coverage of each lot
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const db = tenantDb(user.companyId);
+
+    const { searchParams } = new URL(request.url);
+    const projectId = searchParams.get('projectId');
+    if (!projectId) {
+      return NextResponse.json({ error: 'projectId required' }, { status: 400 });
+    }
+
+    const plans = await db.samplingPlan.findMany({
+      where: { projectId, project: projectScope(user) },
+      orderBy: { category: 'asc' }
+    });
+
+    const samplingPlans: any[] = [];
+    for (const plan of plans) {
+      samplingPlans.push({ ...plan, lots: await samplingCoverage(db, plan) });
+    }
+
+    return NextResponse.json({ samplingPlans });
+  } catch (error) {
+    console.error('Get sampling plans error:', error);
+    return NextResponse.json({ error: 'Failed to fetch sampling plans' }, { status: 500 });
+  }
+}
+
+// POST - Create or replace the plan for a category and draw new samples
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!can(user.role, 'project:update')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const db = tenantDb(user.companyId);
+
+    const data = await request.json();
+    await assertProjectAccess(db, user, data.projectId);
+
+    const { settings, errors } = validateSamplingPlan(data);
+    if (errors.length > 0) {
+      return NextResponse.json({ error: errors.join('; '), errors }, { status: 422 });
+    }
+
+    const result = await saveSamplingPlan(db, data.projectId, user.id, settings);
+    if (!result.plan) {
+      return NextResponse.json({ error: result.errors.join('; '), errors: result.errors }, { status: 422 });
+    }
+
+    const samplingPlan = { ...result.plan, lots: await evaluateSamplingPlan(db, result.plan) };
+    return NextResponse.json({ samplingPlan }, { status: 201 });
+  } catch (error) {
+    if (isNotFoundError(error)) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+    console.error('Save sampling plan error:', error);
+    return NextResponse.json({ error: 'Failed to save sampling plan' }, { status: 500 });
+  }
+}
+
+// DELETE - Stop sampling a category
+export async function DELETE(request: NextRequest) {
+  try {
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!can(user.role, 'project:update')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const db = tenantDb(user.companyId);
+
+    const { searchParams } = new URL(request.url);
+    const id = searchParams.get('id');
+    if (!id) {
+      return NextResponse.json({ error: 'Sampling plan ID is required' }, { status: 400 });
+    }
+
+    const plan = await db.samplingPlan.findFirstOrThrow({ where: { id } });
+    await assertProjectAccess(db, user, plan.projectId);
+    await db.samplingPlan.delete({ where: { id } });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (isNotFoundError(error)) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+    console.error('Delete sampling plan error:', error);
+    return NextResponse.json({ error: 'Failed to delete sampling plan' }, { status: 500 });
+  }
+}
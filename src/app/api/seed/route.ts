@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server';
 import { db } from '@/lib/db';
+import { hashPassword } from '@/lib/auth';
 
 export const dynamic = 'force-dynamic';
 
@@ -19,11 +20,12 @@ export async function POST() {
     });
 
     const adminId = 'demo-admin-user';
+    const demoPassword = await hashPassword('demo123');
     const users = await Promise.all([
-      db.user.create({ data: { id: adminId, email: 'admin@solardynamics.com', name: 'John Martinez', password: 'demo123', role: 'admin', companyId: company.id } }),
-      db.user.create({ data: { id: 'demo-pm-user', email: 'pm@solardynamics.com', name: 'Sarah Chen', password: 'demo123', role: 'pm', companyId: company.id } }),
-      db.user.create({ data: { id: 'demo-installer-user', email: 'foreman@solardynamics.com', name: 'Mike Rodriguez', password: 'demo123', role: 'installer', companyId: company.id } }),
-      db.user.create({ data: { id: 'demo-inspector-user', email: 'inspector@solardynamics.com', name: 'Lisa Thompson', password: 'demo123', role: 'inspector', companyId: company.id } }),
+      db.user.create({ data: { id: adminId, email: 'admin@solardynamics.com', name: 'John Martinez', password: demoPassword, role: 'admin', companyId: company.id } }),
+      db.user.create({ data: { id: 'demo-pm-user', email: 'pm@solardynamics.com', name: 'Sarah Chen', password: demoPassword, role: 'pm', companyId: company.id } }),
+      db.user.create({ data: { id: 'demo-installer-user', email: 'foreman@solardynamics.com', name: 'Mike Rodriguez', password: demoPassword, role: 'installer', companyId: company.id } }),
+      db.user.create({ data: { id: 'demo-inspector-user', email: 'inspector@solardynamics.com', name: 'Lisa Thompson', password: demoPassword, role: 'inspector', companyId: company.id } }),
     ]);
 
     const subcontractors = await Promise.all([
@@ -1,16 +1,34 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { db } from '@/lib/db';
+import { tenantDb, TenantDb, isNotFoundError } from '@/lib/db';
+import { getCurrentUser, SessionUser } from '@/lib/auth';
+import { can } from '@/lib/permissions';
+import { assertProjectAccess, projectScope } from '@/lib/project-access';
+import { isVersionedEntity, updateAtRevision, deleteAtRevision, recordConflict, VersionedEntity } from '@/lib/conflicts';
+import { parsePhotos } from '@/lib/photos';
+import { evaluateInspection, inspectionStatus } from '@/lib/tolerances';
+import { refreshSamplingPlan } from '@/lib/sampling';
+import { openInspectionIssues } from '@/lib/qc-issues';
+import { refusalTransition, transitionRefusal } from '@/lib/refusal-remediation';
+import { linkNearestBoring } from '@/lib/geotech';
+import { confirmProposedRefusal } from '@/lib/driving-logs';
+import { checkPileIds, linkInspectionPiles, linkProductionPiles, linkRefusalPile, parsePileIds, refusalPileFields } from '@/lib/piles';
 
 export async function GET(request: NextRequest) {
   try {
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const db = tenantDb(user.companyId);
+
     const { searchParams } = new URL(request.url);
-    const companyId = searchParams.get('companyId');
     const deviceId = searchParams.get('deviceId');
     
     // Get pending sync items
     const pendingItems = await db.syncQueue.findMany({
       where: {
-        companyId: companyId || undefined,
+        companyId: user.companyId,
         status: 'pending'
       }
     });
@@ -24,27 +42,57 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const db = tenantDb(user.companyId);
+
     const data = await request.json();
-    const results = [];
+    const results: Record<string, unknown>[] = [];
     
-    for (const item of data.items) {
+    // Each item succeeds or fails on its own. `retryable: false` tells the
+    // client the item will never be accepted as sent and should stop retrying.
+    for (const item of data.items || []) {
       try {
         let result;
         
+        // Edits to existing records go through the revision check
+        if (item.action === 'update' || item.action === 'delete') {
+          result = await syncChange(db, item, user);
+          results.push({ localId: item.localId, ...result });
+          continue;
+        }
+        
         switch (item.entity) {
           case 'production':
-            result = await syncProductionEntry(item);
+            result = can(user.role, 'production:create')
+              ? await syncProductionEntry(db, item, user)
+              : { success: false, error: 'Forbidden', retryable: false };
             break;
           case 'inspection':
-            result = await syncInspection(item);
+            result = can(user.role, 'inspection:create')
+              ? await syncInspection(db, item, user)
+              : { success: false, error: 'Forbidden', retryable: false };
+            break;
+          case 'refusal':
+            result = can(user.role, 'refusal:create')
+              ? await syncRefusal(db, item, user)
+              : { success: false, error: 'Forbidden', retryable: false };
             break;
           default:
-            result = { success: false, error: 'Unknown entity type' };
+            result = { success: false, error: 'Unknown entity type', retryable: false };
         }
         
         results.push({ localId: item.localId, ...result });
       } catch (error: any) {
-        results.push({ localId: item.localId, success: false, error: error.message });
+        if (isNotFoundError(error)) {
+          results.push({ localId: item.localId, success: false, error: 'Project not found or not assigned', retryable: false });
+        } else {
+          console.error('Sync item error:', error);
+          results.push({ localId: item.localId, success: false, error: error.message, retryable: true });
+        }
       }
     }
     
@@ -55,7 +103,9 @@ export async function POST(request: NextRequest) {
   }
 }
 
-async function syncProductionEntry(item: any) {
+async function syncProductionEntry(db: TenantDb, item: any, user: SessionUser) {
+  await assertProjectAccess(db, user, item.payload.projectId);
+
   // Check for duplicate by localId and deviceId
   const existing = await db.productionEntry.findFirst({
     where: {
@@ -67,28 +117,37 @@ async function syncProductionEntry(item: any) {
   if (existing) {
     return { success: true, duplicate: true, id: existing.id };
   }
+
+  const pileIdErrors = await checkPileIds(db, item.payload.projectId, item.payload.pileIds);
+  if (pileIdErrors.length > 0) {
+    return { success: false, error: pileIdErrors.slice(0, 5).join('; '), retryable: false };
+  }
   
   const entry = await db.productionEntry.create({
     data: {
       date: new Date(item.payload.date),
-      piles: item.payload.piles || 0,
+      piles: item.payload.piles || parsePileIds(item.payload.pileIds).length,
       rackingTables: item.payload.rackingTables || 0,
       modules: item.payload.modules || 0,
       notes: item.payload.notes,
       projectId: item.payload.projectId,
-      userId: item.payload.userId,
+      userId: user.id,
       crewId: item.payload.crewId,
       subcontractorId: item.payload.subcontractorId,
       syncStatus: 'synced',
       localId: item.payload.localId,
       deviceId: item.payload.deviceId,
+      photos: { create: parsePhotos(item.payload.photos) },
     }
   });
+  await linkProductionPiles(db, entry, item.payload.pileIds);
   
   return { success: true, id: entry.id };
 }
 
-async function syncInspection(item: any) {
+async function syncInspection(db: TenantDb, item: any, user: SessionUser) {
+  await assertProjectAccess(db, user, item.payload.projectId);
+
   // Check for duplicate
   const existing = await db.qCInspection.findFirst({
     where: {
@@ -100,32 +159,157 @@ async function syncInspection(item: any) {
   if (existing) {
     return { success: true, duplicate: true, id: existing.id };
   }
+
+  const pileIdErrors = await checkPileIds(db, item.payload.projectId, item.payload.pileIds);
+  if (pileIdErrors.length > 0) {
+    return { success: false, error: pileIdErrors.slice(0, 5).join('; '), retryable: false };
+  }
+
+  const pileType = item.payload.pileType || 'interior';
+  const evaluation = await evaluateInspection(db, item.payload.projectId, pileType, item.payload.items);
+  if (evaluation.errors.length > 0) {
+    return { success: false, error: evaluation.errors.join('; '), retryable: false };
+  }
   
   const inspection = await db.qCInspection.create({
     data: {
       date: new Date(item.payload.date),
       category: item.payload.category,
+      scope: item.payload.scope || 'individual',
+      scopeCount: item.payload.scopeCount,
+      scopePercentage: item.payload.scopePercentage,
       area: item.payload.area,
-      status: item.payload.status || 'pass',
+      pileIds: item.payload.pileIds,
+      pileType,
+      toleranceRevisionId: evaluation.toleranceRevisionId,
+      status: inspectionStatus(evaluation.items, item.payload.status),
       notes: item.payload.notes,
       projectId: item.payload.projectId,
-      userId: item.payload.userId,
+      userId: user.id,
       syncStatus: 'synced',
       localId: item.payload.localId,
       deviceId: item.payload.deviceId,
-      items: {
-        create: item.payload.items?.map((i: any) => ({
-          name: i.name,
-          measuredValue: i.measuredValue,
-          minValue: i.minValue,
-          maxValue: i.maxValue,
-          unit: i.unit,
-          passed: i.passed,
-          notes: i.notes,
-        })) || []
-      }
+      items: { create: evaluation.items },
+      photos: { create: parsePhotos(item.payload.photos) },
     }
   });
+  await linkInspectionPiles(db, inspection);
+  await refreshSamplingPlan(db, inspection.projectId, inspection.category);
+
+  // Same follow-up as an online submission
+  await openInspectionIssues(db, inspection, {
+    description: item.payload.issueDescription,
+    assignedToType: item.payload.assignedToType,
+    assignedToId: item.payload.assignedToId,
+  });
   
   return { success: true, id: inspection.id };
 }
+
+async function syncRefusal(db: TenantDb, item: any, user: SessionUser) {
+  await assertProjectAccess(db, user, item.payload.projectId);
+
+  const existing = await db.pileRefusal.findFirst({
+    where: {
+      localId: item.payload.localId,
+      deviceId: item.payload.deviceId
+    }
+  });
+  
+  if (existing) {
+    return { success: true, duplicate: true, id: existing.id };
+  }
+  
+  const pile = await refusalPileFields(db, item.payload.projectId, item.payload.pileId);
+  if (!pile.fields) {
+    return { success: false, error: pile.error, retryable: false };
+  }
+  
+  const refusal = await db.pileRefusal.create({
+    data: {
+      ...pile.fields,
+      dateDiscovered: new Date(item.payload.dateDiscovered),
+      targetDepth: item.payload.targetDepth,
+      achievedDepth: item.payload.achievedDepth,
+      refusalReason: item.payload.refusalReason,
+      refusalNotes: item.payload.refusalNotes,
+      status: 'open',
+      projectId: item.payload.projectId,
+      reportedBy: user.id,
+      localId: item.payload.localId,
+      deviceId: item.payload.deviceId,
+      photos: { create: parsePhotos(item.payload.photos) },
+    }
+  });
+  await linkRefusalPile(db, refusal);
+  await linkNearestBoring(db, 'pileRefusal', refusal);
+  if (item.payload.drivingLogId) await confirmProposedRefusal(db, item.payload.drivingLogId, refusal);
+  
+  return { success: true, id: refusal.id };
+}
+
+const CHANGE_PERMISSIONS = {
+  production: { update: 'production:update', delete: 'production:delete' },
+  inspection: { update: 'inspection:update', delete: null },
+  refusal: { update: 'refusal:update', delete: null },
+} as const;
+
+async function syncChange(db: TenantDb, item: any, user: SessionUser) {
+  const entity = item.entity as VersionedEntity;
+  const action = item.action as 'update' | 'delete';
+  if (!isVersionedEntity(entity)) {
+    return { success: false, error: 'Unknown entity type', retryable: false };
+  }
+
+  const permission = CHANGE_PERMISSIONS[entity][action];
+  if (!permission || !can(user.role, permission)) {
+    return { success: false, error: 'Forbidden', retryable: false };
+  }
+
+  const { id, baseRevision } = item.payload;
+  if (!id || typeof baseRevision !== 'number') {
+    return { success: false, error: 'id and baseRevision required', retryable: false };
+  }
+
+  const scope = { project: projectScope(user) };
+  let applied: boolean;
+  if (entity === 'refusal' && action === 'update') {
+    // Refusal edits are remediation steps and get the workflow's checks
+    const current = await db.pileRefusal.findFirst({ where: { id, revision: baseRevision, ...scope } });
+    const rule = current && refusalTransition(current.status, item.payload.status);
+    if (rule && !can(user.role, rule.permission)) {
+      return { success: false, error: 'Forbidden', retryable: false };
+    }
+    const result = current ? await transitionRefusal(user.companyId, current, user.id, item.payload) : null;
+    if (result && !result.refusal && !result.conflict) {
+      return { success: false, error: result.errors.join('; '), retryable: false };
+    }
+    applied = Boolean(result?.refusal);
+  } else {
+    applied = action === 'update'
+      ? await updateAtRevision(db, entity, id, baseRevision, item.payload, scope)
+      : await deleteAtRevision(db, entity, id, baseRevision, scope);
+  }
+
+  if (applied && entity === 'inspection' && action === 'update') {
+    // A new status can move the category's sampling lots on
+    const inspection = await db.qCInspection.findFirst({ where: { id }, select: { projectId: true, category: true } });
+    if (inspection) await refreshSamplingPlan(db, inspection.projectId, inspection.category);
+  }
+  if (applied) return { success: true, id };
+
+  // Someone else got there first - park the device's version for review
+  const conflict = await recordConflict(db, user, {
+    entity,
+    action,
+    recordId: id,
+    baseRevision,
+    payload: item.payload,
+    deviceId: item.payload.deviceId,
+  });
+  if (!conflict) {
+    return { success: false, error: 'Not found', retryable: false };
+  }
+
+  return { success: false, conflict: true, conflictId: conflict.id, error: 'Conflicts with a newer server version - sent for review', retryable: false };
+}
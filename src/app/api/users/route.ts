@@ -1,17 +1,26 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { db } from '@/lib/db';
+import { tenantDb, isNotFoundError } from '@/lib/db';
+import { getCurrentUser, hashPassword, publicUserSelect } from '@/lib/auth';
+import { can } from '@/lib/permissions';
 
 // GET - Fetch users
 export async function GET(request: NextRequest) {
   try {
+    const currentUser = await getCurrentUser(request);
+    if (!currentUser) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const db = tenantDb(currentUser.companyId);
+
     const { searchParams } = new URL(request.url);
     const id = searchParams.get('id');
-    const companyId = searchParams.get('companyId');
     
     if (id) {
       const user = await db.user.findUnique({
         where: { id },
-        include: {
+        select: {
+          ...publicUserSelect,
           company: true
         }
       });
@@ -23,13 +32,9 @@ export async function GET(request: NextRequest) {
       return NextResponse.json(user);
     }
     
-    // Build filter
-    const where: Record<string, unknown> = {};
-    if (companyId) where.companyId = companyId;
-    
     const users = await db.user.findMany({
-      where,
-      include: {
+      select: {
+        ...publicUserSelect,
         company: true
       }
     });
@@ -44,23 +49,39 @@ export async function GET(request: NextRequest) {
 // POST - Create a user
 export async function POST(request: NextRequest) {
   try {
+    const currentUser = await getCurrentUser(request);
+    if (!currentUser) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!can(currentUser.role, 'user:manage')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const db = tenantDb(currentUser.companyId);
+
     const data = await request.json();
     
+    if (!data.email || !data.password) {
+      return NextResponse.json({ error: 'Email and password are required' }, { status: 400 });
+    }
+    
     const user = await db.user.create({
       data: {
-        email: data.email,
+        email: String(data.email).trim().toLowerCase(),
         name: data.name,
-        password: data.password,
+        password: await hashPassword(data.password),
         role: data.role || 'installer',
-        phone: data.phone,
-        avatar: data.avatar,
-        companyId: data.companyId,
-        active: data.active ?? true,
-      }
+        companyId: currentUser.companyId,
+        isActive: data.isActive ?? true,
+      },
+      select: publicUserSelect
     });
     
     return NextResponse.json(user, { status: 201 });
   } catch (error) {
+    if (isNotFoundError(error)) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
     console.error('Error creating user:', error);
     return NextResponse.json({ error: 'Failed to create user' }, { status: 500 });
   }
@@ -69,6 +90,16 @@ export async function POST(request: NextRequest) {
 // PUT - Update a user
 export async function PUT(request: NextRequest) {
   try {
+    const currentUser = await getCurrentUser(request);
+    if (!currentUser) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!can(currentUser.role, 'user:manage')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const db = tenantDb(currentUser.companyId);
+
     const data = await request.json();
     
     const user = await db.user.update({
@@ -76,15 +107,18 @@ export async function PUT(request: NextRequest) {
       data: {
         email: data.email,
         name: data.name,
-        phone: data.phone,
-        avatar: data.avatar,
         role: data.role,
-        active: data.active,
-      }
+        isActive: data.isActive,
+        ...(data.password ? { password: await hashPassword(data.password) } : {}),
+      },
+      select: publicUserSelect
     });
     
     return NextResponse.json(user);
   } catch (error) {
+    if (isNotFoundError(error)) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
     console.error('Error updating user:', error);
     return NextResponse.json({ error: 'Failed to update user' }, { status: 500 });
   }
@@ -93,6 +127,16 @@ export async function PUT(request: NextRequest) {
 // DELETE - Delete a user
 export async function DELETE(request: NextRequest) {
   try {
+    const currentUser = await getCurrentUser(request);
+    if (!currentUser) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!can(currentUser.role, 'user:manage')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const db = tenantDb(currentUser.companyId);
+
     const { searchParams } = new URL(request.url);
     const id = searchParams.get('id');
     
@@ -106,6 +150,9 @@ export async function DELETE(request: NextRequest) {
     
     return NextResponse.json({ success: true });
   } catch (error) {
+    if (isNotFoundError(error)) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
     console.error('Error deleting user:', error);
     return NextResponse.json({ error: 'Failed to delete user' }, { status: 500 });
   }
@@ -11,18 +11,85 @@ import {
   Zap, Target, Award, Activity, Database, RefreshCw, Moon, MoreVertical,
   Layers, Grid3X3, CircleDot, Play, Pause, Check, FileSpreadsheet, AlertCircle,
   Edit, Archive, PlayCircle, Ban, RotateCcw, Trash2, Copy, ChevronDown,
-  Hammer, Wrench, Eye, FileWarning, Mic, MicOff, ChevronLeft, ChevronRight as ChevronRightIcon, List, Image as ImageIcon
+  Hammer, Wrench, Eye, FileWarning, Mic, MicOff, ChevronLeft, ChevronRight as ChevronRightIcon, List, Image as ImageIcon, LogOut,
+  Hand, LassoSelect, ZoomIn, ZoomOut, Maximize2, Bluetooth, Usb
 } from 'lucide-react'
+import { can } from '@/lib/permissions'
+import { isOnline, type SyncEntity } from '@/lib/offline'
+import { syncReplayer, type SyncSnapshot } from '@/lib/sync'
+import { registerServiceWorker, clearOfflineData } from '@/lib/service-worker'
+import { MEASUREMENTS, parseToleranceProfile, type MeasurementType } from '@/lib/tolerances'
+import { createInstrumentDrivers, parseInstrumentLog, readingValueAs, type InstrumentDriver, type InstrumentReading } from '@/lib/instruments'
+import { nextTransitions, type RefusalTransitionRule } from '@/lib/refusal-remediation'
+import { refusalZones, riskBand, RISK_BAND_RATIOS } from '@/lib/refusal-zones'
+import { LOAD_TEST_TYPES, STRATUM_MATERIALS, stratumAt } from '@/lib/geotech'
+import { OFFSET_DIRECTIONS } from '@/lib/piles'
+import { DRIVING_LOG_CSV_HEADERS, blowsPer } from '@/lib/driving-logs'
+import { DEFAULT_PILE_ID_FORMAT, PILE_ID_FORMAT_PRESETS, compilePileIdFormat, formatPileId, invalidPileIds, parsePileId, pileIdExample, validatePileId, validatePileIdFormat, type PileIdComponents } from '@/lib/pile-ids'
 
 // Types
 interface User {
   id: string
   email: string
   name: string
-  role: 'admin' | 'pm' | 'installer' | 'inspector' | 'executive'
+  role: 'admin' | 'pm' | 'installer' | 'inspector' | 'engineer' | 'executive'
   companyId: string
 }
 
+interface Pile {
+  id: string
+  pileId: string
+  block?: string | null
+  row: number
+  pileNumber: number
+  pileType: 'interior' | 'exterior' | 'motor'
+  status: 'planned' | 'driven' | 'inspected' | 'accepted' | 'refused'
+  drivenAt?: string | null
+  inspectedAt?: string | null
+  easting?: number | null
+  northing?: number | null
+  offsetDistance?: number | null
+  offsetDirection?: string | null
+  replacementFor?: { pileId: string }[] // Refusals this pile replaces
+}
+
+// Pile ID components the quick-mode steppers don't step
+interface PileIdParts {
+  block: string
+  inverter: number
+  tracker: number
+}
+
+interface HeatMapCell {
+  pileId: string
+  status: string
+  date?: string | null
+  inspector?: string
+  pileType?: string
+}
+
+interface SiteMapPoint {
+  pileId: string
+  block?: string | null
+  x: number // easting
+  y: number // northing
+  status: string
+}
+
+interface SyncConflict {
+  id: string
+  entity: SyncEntity
+  action: 'update' | 'delete'
+  recordId: string
+  baseRevision: number
+  reason?: string
+  createdAt: string
+  submittedBy: string
+  fields: string[]
+  deviceVersion: Record<string, any>
+  serverVersion: (Record<string, any> & { revision: number; updatedAt: string }) | null
+}
+
 interface Company {
   id: string
   name: string
@@ -52,6 +119,9 @@ interface Project {
   plannedRackingPerDay: number
   plannedModulesPerDay: number
   pileIdFormat?: string
+  pileIdExample?: string
+  refusalBlowCount?: number
+  refusalBlowDepth?: number
   rackingSystemId?: string
   rackingSystem?: RackingSystem
   productionEntries: ProductionEntry[]
@@ -67,6 +137,7 @@ interface ProductionEntry {
   rackingTables: number
   modules: number
   notes?: string
+  revision?: number
   user?: { id: string; name: string }
   crew?: { id: string; name: string }
   subcontractor?: { id: string; name: string }
@@ -83,6 +154,7 @@ interface QCInspection {
   area?: string
   status: 'pass' | 'fail' | 'pending'
   notes?: string
+  revision?: number
   user?: { id: string; name: string }
   items?: QCInspectionItem[]
 }
@@ -105,6 +177,46 @@ interface QCIssue {
   category: string
   pileId?: string
   openedAt: string
+  measurementType?: string | null
+  measuredValue?: number | null
+  limitValue?: number | null
+  deviation?: number | null
+  unit?: string | null
+  assignedToType?: 'crew' | 'subcontractor' | null
+  assignedToId?: string | null
+  assigneeName?: string | null
+  correctedAt?: string | null
+  correctedByName?: string | null
+  correctionNotes?: string | null
+  verifiedAt?: string | null
+  verifiedByName?: string | null
+  photos?: { id: string; url: string; caption?: string | null }[]
+  project?: { id: string; name: string }
+  inspection?: { id: string; date: string; area?: string | null } | null
+}
+
+interface SamplingLot {
+  id: string
+  block: string
+  lotSize: number
+  sampleSize: number
+  acceptNumber: number
+  status: 'sampling' | 'accepted' | 'escalated'
+  failures: number
+  required: number
+  inspected: number
+  remainingPileIds: string[]
+}
+
+interface SamplingPlan {
+  id: string
+  category: string
+  method: 'ansi_z14' | 'percentage'
+  inspectionLevel?: string | null
+  aql?: number | null
+  percentage?: number | null
+  acceptNumber?: number | null
+  lots: SamplingLot[]
 }
 
 interface PileRefusal {
@@ -122,6 +234,116 @@ interface PileRefusal {
   remediationMethod?: string
   remediationDate?: string
   engineerApproval?: string
+  redriveDepth?: number | null
+  boringId?: string | null
+  replacementPile?: ReplacementPile | null
+  revision?: number
+}
+
+// Pile driven at an offset in place of a refused one
+interface ReplacementPile {
+  id: string
+  pileId: string
+  status: string
+  offsetDistance?: number | null
+  offsetDirection?: string | null
+  drivenAt?: string | null
+}
+
+interface BoringStratum {
+  id?: string
+  topDepth: number
+  bottomDepth: number
+  material: string
+  description?: string | null
+}
+
+interface BoringLog {
+  id: string
+  name: string
+  easting?: number | null
+  northing?: number | null
+  nearPileId?: string | null
+  totalDepth: number
+  refusalDepth?: number | null
+  refusalMaterial?: string | null
+  groundwaterDepth?: number | null
+  drilledAt?: string | null
+  notes?: string | null
+  strata: BoringStratum[]
+  refusals?: { id: string; pileId: string; refusalReason: string; achievedDepth: number; targetDepth: number }[]
+  loadTests?: { id: string; pileId: string; testType: string; result: string }[]
+}
+
+interface PileLoadTest {
+  id: string
+  pileId: string
+  testType: string
+  designLoad: number
+  testLoad: number
+  displacement: number
+  allowableDisplacement: number
+  result: 'pass' | 'fail'
+  testedAt: string
+  notes?: string | null
+  boring?: { id: string; name: string } | null
+}
+
+interface DrivingInterval {
+  id?: string
+  fromDepth: number
+  toDepth: number
+  blows: number
+}
+
+// One drive of one pile, keyed in or imported from the pile driver
+interface PileDrivingLog {
+  id: string
+  pileId: string
+  driveStart: string
+  driveEnd: string
+  rigId?: string | null
+  targetDepth: number
+  finalEmbedment: number
+  totalBlows: number
+  penetrationRate: number
+  source: 'manual' | 'import'
+  notes?: string | null
+  refusalStatus?: 'proposed' | 'confirmed' | 'dismissed' | null
+  refusal?: { id: string; status: string } | null
+  intervals: DrivingInterval[]
+}
+
+// One recorded remediation step, with its evidence
+interface RefusalTransitionRecord {
+  id: string
+  fromStatus: string
+  toStatus: string
+  effectiveDate: string
+  notes?: string | null
+  remediationMethod?: string | null
+  redriveDepth?: number | null
+  replacementPileId?: string | null
+  offsetDistance?: number | null
+  offsetDirection?: string | null
+  userName?: string | null
+  photos: { id: string; url: string; caption?: string | null }[]
+  createdAt: string
+}
+
+interface RefusalApprovalRecord {
+  id: string
+  decision: 'approved' | 'rejected'
+  remediationMethod?: string | null
+  reference?: string | null
+  notes?: string | null
+  engineerName?: string | null
+  createdAt: string
+}
+
+interface RefusalHistory {
+  transitions: RefusalTransitionRecord[]
+  approvals: RefusalApprovalRecord[]
 }
 
 interface Subcontractor {
@@ -144,9 +366,41 @@ interface RackingSystem {
   interiorTolerances?: string
   exteriorTolerances?: string
   motorTolerances?: string
+  revision?: number
+}
+
+interface RackingSystemRevision {
+  id: string
+  revision: number
+  createdAt: string
+  _count?: { inspections: number }
 }
 
-type View = 'company' | 'project' | 'production' | 'inspection' | 'refusal' | 'reports' | 'analytics' | 'settings' | 'newProject'
+// Tolerance profile fields, as validated by lib/tolerances
+const TOLERANCE_FIELDS = [
+  { key: 'embedDepthMin', label: 'Embed Depth Min', unit: 'mm' },
+  { key: 'embedDepthMax', label: 'Embed Depth Max', unit: 'mm' },
+  { key: 'nsPlumbMax', label: 'N-S Plumb Max', unit: 'deg' },
+  { key: 'ewPlumbMax', label: 'E-W Plumb Max', unit: 'deg' },
+  { key: 'twistMax', label: 'Twist Max', unit: 'deg' },
+  { key: 'spacingMin', label: 'Spacing Min', unit: 'mm' },
+  { key: 'spacingMax', label: 'Spacing Max', unit: 'mm' },
+]
+
+// Refusal reasons with icons/emoji for quick recognition
+const REFUSAL_REASONS = [
+  { value: 'bedrock', label: 'Bedrock', emoji: '🪨', description: 'Hit solid rock' },
+  { value: 'cobble', label: 'Cobble', emoji: '🪨', description: 'Large rocks/boulders' },
+  { value: 'soft_soil', label: 'Soft Soil', emoji: '💧', description: 'Soil too soft/loose' },
+  { value: 'obstruction', label: 'Obstruction', emoji: '⚠️', description: 'Debris/underground object' },
+  { value: 'groundwater', label: 'Groundwater', emoji: '🌊', description: 'Water table reached' },
+  { value: 'other', label: 'Other', emoji: '❓', description: 'Other reason' }
+]
+
+// Remembered so manifest shortcuts can open straight into the last project
+const LAST_PROJECT_KEY = 'lastProjectId'
+
+type View = 'company' | 'project' | 'production' | 'inspection' | 'punchList' | 'refusal' | 'driving' | 'geotech' | 'reports' | 'analytics' | 'team' | 'conflicts' | 'settings' | 'newProject'
 
 // Photo interface for documentation
 interface Photo {
@@ -430,7 +684,57 @@ function PhotoCapture({ photos, onAddPhoto, onRemovePhoto, context, darkMode }:
   )
 }
 
-const DEMO_ADMIN_ID = 'demo-admin-user'
+// Post a new record, or keep it on the device for background sync when the
+// network is unavailable. Queued records count as saved.
+async function postOrQueue(entity: SyncEntity, url: string, body: Record<string, unknown>): Promise<{ ok: boolean; queued: boolean; error?: string }> {
+  const queue = async () => {
+    await syncReplayer.queue(entity, body)
+    toast.info('Offline - saved on this device and will sync when you reconnect')
+    return { ok: true, queued: true }
+  }
+
+  if (!isOnline()) return queue()
+
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    })
+    if (response.ok) return { ok: true, queued: false }
+    const data = await response.json().catch(() => null)
+    return { ok: false, queued: false, error: data?.error }
+  } catch {
+    // Connection dropped mid-request
+    return queue()
+  }
+}
+
+// Edit a server record at the revision the UI last saw. Offline edits are
+// queued and checked against that revision when they replay; a 409 means
+// someone else changed the record first.
+async function putOrQueue(entity: SyncEntity, url: string, id: string, revision: number | undefined, fields: Record<string, unknown>): Promise<{ ok: boolean; queued: boolean; conflict: boolean; error?: string }> {
+  const queue = async () => {
+    await syncReplayer.queue(entity, { ...fields, id, baseRevision: revision ?? 1 }, 'update')
+    toast.info('Offline - change saved on this device and will sync when you reconnect')
+    return { ok: true, queued: true, conflict: false }
+  }
+
+  if (!isOnline()) return queue()
+
+  try {
+    const response = await fetch(url, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ...fields, id, revision })
+    })
+    if (response.ok) return { ok: true, queued: false, conflict: false }
+    const data = await response.json().catch(() => null)
+    return { ok: false, queued: false, conflict: response.status === 409, error: data?.error }
+  } catch {
+    return queue()
+  }
+}
 
 export default function SolarConstructionApp() {
   // Theme state
@@ -447,6 +751,10 @@ export default function SolarConstructionApp() {
   const [currentView, setCurrentView] = useState<View>('company')
   const [sidebarOpen, setSidebarOpen] = useState(false)
   const [isOnline, setIsOnline] = useState(true)
+  const [syncState, setSyncState] = useState<SyncSnapshot>({ pending: 0, failed: [], conflicts: 0, syncing: false, lastSyncedAt: null })
+  const [syncPanelOpen, setSyncPanelOpen] = useState(false)
+  const [cachedAt, setCachedAt] = useState<string | null>(null) // Set when showing the service worker's offline copy
+  const [inspectionPileIds, setInspectionPileIds] = useState<string[] | null>(null) // Lasso selection from the site map
   
   // Modal state
   const [editProjectModal, setEditProjectModal] = useState(false)
@@ -484,7 +792,7 @@ export default function SolarConstructionApp() {
   // Fetch data
   const fetchData = useCallback(async () => {
     try {
-      const response = await fetch(`/api/companies?userId=${DEMO_ADMIN_ID}`, {
+      const response = await fetch('/api/companies', {
         cache: 'no-store',
         headers: { 'Cache-Control': 'no-cache' }
       })
@@ -492,13 +800,14 @@ export default function SolarConstructionApp() {
         const data = await response.json()
         setCompany(data.company)
         setUser(data.user)
+        setCachedAt(response.headers.get('X-Cached-At'))
       } else {
         setCompany(null)
         setUser(null)
       }
     } catch (error) {
+      // Network failure - keep whatever is already on screen
       console.error('Failed to fetch data:', error)
-      setCompany(null)
     } finally {
       setLoading(false)
     }
@@ -528,6 +837,20 @@ export default function SolarConstructionApp() {
     }
   }
 
+  // Sign out and drop cached data
+  const logout = async () => {
+    try {
+      await fetch('/api/auth/logout', { method: 'POST' })
+    } catch (error) {
+      console.error('Logout error:', error)
+    }
+    clearOfflineData()
+    setUser(null)
+    setCompany(null)
+    setSelectedProject(null)
+    setCurrentView('company')
+  }
+
   // Project actions
   const updateProjectStatus = async (projectId: string, status: string) => {
     try {
@@ -546,7 +869,9 @@ export default function SolarConstructionApp() {
 
   // Initial load
   useEffect(() => {
+    registerServiceWorker()
     fetchData()
+    setIsOnline(navigator.onLine)
     const handleOnline = () => setIsOnline(true)
     const handleOffline = () => setIsOnline(false)
     window.addEventListener('online', handleOnline)
@@ -557,6 +882,56 @@ export default function SolarConstructionApp() {
     }
   }, [fetchData])
 
+  // Replay the offline queue while signed in
+  const signedIn = !!user
+  useEffect(() => {
+    if (!signedIn) return
+    const unsubscribe = syncReplayer.subscribe(setSyncState)
+    syncReplayer.start()
+    return () => {
+      unsubscribe()
+      syncReplayer.stop()
+    }
+  }, [signedIn])
+
+  // Pull fresh data once queued items land on the server
+  useEffect(() => {
+    if (syncState.lastSyncedAt) fetchData()
+  }, [syncState.lastSyncedAt, fetchData])
+
+  useEffect(() => {
+    if (syncState.conflicts > 0) {
+      toast.warning('An offline change conflicted with a newer update and was sent to a project manager for review')
+    }
+  }, [syncState.conflicts])
+
+  useEffect(() => {
+    if (selectedProject) localStorage.setItem(LAST_PROJECT_KEY, selectedProject.id)
+  }, [selectedProject?.id])
+
+  // Manifest shortcuts (/?action=production|inspection) open the matching
+  // form on the last project used, or the first active one
+  useEffect(() => {
+    if (!user || !company) return
+    const action = new URLSearchParams(window.location.search).get('action')
+    if (!action) return
+    window.history.replaceState(null, '', window.location.pathname)
+
+    const allowed = (action === 'production' && can(user.role, 'production:create'))
+      || (action === 'inspection' && can(user.role, 'inspection:create'))
+    if (!allowed) return
+
+    const lastProjectId = localStorage.getItem(LAST_PROJECT_KEY)
+    const project = company.projects.find(p => p.id === lastProjectId)
+      || company.projects.find(p => p.status === 'active')
+    if (!project) {
+      toast.info('Select a project first')
+      return
+    }
+    setSelectedProject(project)
+    setCurrentView(action as View)
+  }, [user, company])
+
   // Click outside to close dropdown
   useEffect(() => {
     const handleClickOutside = () => setActiveDropdown(null)
@@ -580,38 +955,29 @@ export default function SolarConstructionApp() {
     )
   }
 
-  // No company - need to seed
-  if (!company) {
+  // Not signed in - show login (and demo setup)
+  if (!user || !company) {
     return (
-      <div className={`min-h-screen flex items-center justify-center p-4 ${darkMode ? 'bg-slate-900' : 'bg-gradient-to-br from-slate-50 to-slate-100'}`}>
-        <div className={`rounded-3xl shadow-xl p-8 max-w-md w-full text-center ${darkMode ? 'bg-slate-800' : 'bg-white'}`}>
-          <div className="w-20 h-20 bg-gradient-to-br from-orange-400 to-orange-600 rounded-2xl flex items-center justify-center mx-auto mb-6">
-            <Sun className="w-12 h-12 text-white" />
-          </div>
-          <h1 className={`text-2xl font-bold mb-2 ${darkMode ? 'text-white' : 'text-slate-800'}`}>Welcome to SolarTrack Pro</h1>
-          <p className={`mb-6 ${darkMode ? 'text-slate-400' : 'text-slate-600'}`}>Construction Production & QC Platform</p>
-          <button
-            onClick={seedDatabase}
-            disabled={seeding}
-            className="w-full bg-gradient-to-r from-orange-500 to-orange-600 text-white py-4 px-6 rounded-xl font-semibold text-lg hover:from-orange-600 hover:to-orange-700 transition-all disabled:opacity-50 flex items-center justify-center gap-2"
-          >
-            {seeding ? (
-              <>
-                <RefreshCw className="w-5 h-5 animate-spin" />
-                Setting Up Demo...
-              </>
-            ) : (
-              <>
-                <Database className="w-5 h-5" />
-                Load Demo Data
-              </>
-            )}
-          </button>
-        </div>
-      </div>
+      <>
+        <Toaster position="top-center" />
+        <LoginScreen
+          darkMode={darkMode}
+          seeding={seeding}
+          onSeed={seedDatabase}
+          onLoggedIn={fetchData}
+        />
+      </>
     )
   }
 
+  // What the signed-in role may do - the API enforces the same matrix
+  const canCreateProject = can(user.role, 'project:create')
+  const canManageProjects = can(user.role, 'project:update')
+  const canInputProduction = can(user.role, 'production:create')
+  const canInspect = can(user.role, 'inspection:create')
+  const canAssignTeam = can(user.role, 'project:assign')
+  const canResolveConflicts = can(user.role, 'conflict:resolve')
+
   const companyStats = calculateCompanyStats(company)
   const todayProduction = getTodayProduction(company.projects)
   const weekProduction = getWeekProduction(company.projects)
@@ -650,6 +1016,26 @@ export default function SolarConstructionApp() {
               <div className={`w-2 h-2 rounded-full ${isOnline ? 'bg-green-500' : 'bg-red-500'}`} />
               {isOnline ? 'Online' : 'Offline'}
             </div>
+
+            {cachedAt && (
+              <span className={`hidden sm:inline text-xs ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>
+                Data from {format(new Date(cachedAt), 'MMM d, h:mm a')}
+              </span>
+            )}
+            
+            {(syncState.pending > 0 || syncState.failed.length > 0) && (
+              <button
+                onClick={() => setSyncPanelOpen(!syncPanelOpen)}
+                className={`px-2 py-1 rounded-full text-xs font-medium flex items-center gap-1 ${
+                  syncState.failed.length > 0 ? 'bg-red-100 text-red-700' : 'bg-yellow-100 text-yellow-700'
+                }`}
+              >
+                <RefreshCw className={`w-3 h-3 ${syncState.syncing ? 'animate-spin' : ''}`} />
+                {syncState.pending > 0 && `${syncState.pending} pending`}
+                {syncState.pending > 0 && syncState.failed.length > 0 && ' • '}
+                {syncState.failed.length > 0 && `${syncState.failed.length} failed`}
+              </button>
+            )}
             
             <button
               onClick={toggleDarkMode}
@@ -663,10 +1049,27 @@ export default function SolarConstructionApp() {
               <span className={`text-sm ${darkMode ? 'text-slate-200' : 'text-slate-700'}`}>{user?.name}</span>
               <span className="text-xs px-2 py-0.5 bg-orange-100 text-orange-700 rounded-full capitalize">{user?.role}</span>
             </div>
+            
+            <button
+              onClick={logout}
+              title="Sign out"
+              className={`p-2 rounded-lg ${darkMode ? 'hover:bg-slate-700 text-slate-300' : 'hover:bg-slate-100 text-slate-600'}`}
+            >
+              <LogOut className="w-5 h-5" />
+            </button>
           </div>
         </div>
       </header>
 
+      {/* Sync Queue Panel */}
+      {syncPanelOpen && (
+        <SyncQueuePanel
+          syncState={syncState}
+          darkMode={darkMode}
+          onClose={() => setSyncPanelOpen(false)}
+        />
+      )}
+
       {/* Mobile Sidebar Overlay */}
       {sidebarOpen && (
         <div className="fixed inset-0 bg-black/50 z-40 lg:hidden" onClick={() => setSidebarOpen(false)} />
@@ -688,16 +1091,34 @@ export default function SolarConstructionApp() {
             onClick={() => { setCurrentView('company'); setSidebarOpen(false) }} />
           <NavItem icon={Target} label="Project Dashboard" active={currentView === 'project'} darkMode={darkMode}
             onClick={() => { if (selectedProject) setCurrentView('project'); setSidebarOpen(false) }} disabled={!selectedProject} />
-          <NavItem icon={Plus} label="Input Production" active={currentView === 'production'} darkMode={darkMode}
-            onClick={() => { if (selectedProject) setCurrentView('production'); setSidebarOpen(false) }} disabled={!selectedProject} />
-          <NavItem icon={CheckCircle} label="QC Inspection" active={currentView === 'inspection'} darkMode={darkMode}
-            onClick={() => { if (selectedProject) setCurrentView('inspection'); setSidebarOpen(false) }} disabled={!selectedProject} />
+          {canInputProduction && (
+            <NavItem icon={Plus} label="Input Production" active={currentView === 'production'} darkMode={darkMode}
+              onClick={() => { if (selectedProject) setCurrentView('production'); setSidebarOpen(false) }} disabled={!selectedProject} />
+          )}
+          {canInspect && (
+            <NavItem icon={CheckCircle} label="QC Inspection" active={currentView === 'inspection'} darkMode={darkMode}
+              onClick={() => { if (selectedProject) setCurrentView('inspection'); setSidebarOpen(false) }} disabled={!selectedProject} />
+          )}
+          <NavItem icon={List} label="Punch List" active={currentView === 'punchList'} darkMode={darkMode}
+            onClick={() => { setCurrentView('punchList'); setSidebarOpen(false) }} />
           <NavItem icon={AlertCircle} label="Refusals" active={currentView === 'refusal'} darkMode={darkMode}
             onClick={() => { if (selectedProject) setCurrentView('refusal'); setSidebarOpen(false) }} disabled={!selectedProject} />
+          <NavItem icon={Hammer} label="Driving Logs" active={currentView === 'driving'} darkMode={darkMode}
+            onClick={() => { if (selectedProject) setCurrentView('driving'); setSidebarOpen(false) }} disabled={!selectedProject} />
+          <NavItem icon={Layers} label="Geotech" active={currentView === 'geotech'} darkMode={darkMode}
+            onClick={() => { if (selectedProject) setCurrentView('geotech'); setSidebarOpen(false) }} disabled={!selectedProject} />
           <NavItem icon={BarChart3} label="Analytics" active={currentView === 'analytics'} darkMode={darkMode}
             onClick={() => { if (selectedProject) setCurrentView('analytics'); setSidebarOpen(false) }} disabled={!selectedProject} />
           <NavItem icon={FileText} label="Reports" active={currentView === 'reports'} darkMode={darkMode}
             onClick={() => { if (selectedProject) setCurrentView('reports'); setSidebarOpen(false) }} disabled={!selectedProject} />
+          {canAssignTeam && (
+            <NavItem icon={Users} label="Project Team" active={currentView === 'team'} darkMode={darkMode}
+              onClick={() => { if (selectedProject) setCurrentView('team'); setSidebarOpen(false) }} disabled={!selectedProject} />
+          )}
+          {canResolveConflicts && (
+            <NavItem icon={Copy} label="Sync Conflicts" active={currentView === 'conflicts'} darkMode={darkMode}
+              onClick={() => { setCurrentView('conflicts'); setSidebarOpen(false) }} />
+          )}
           <NavItem icon={Settings} label="Settings" active={currentView === 'settings'} darkMode={darkMode}
             onClick={() => { setCurrentView('settings'); setSidebarOpen(false) }} />
         </nav>
@@ -713,6 +1134,8 @@ export default function SolarConstructionApp() {
             weekProduction={weekProduction}
             monthProduction={monthProduction}
             darkMode={darkMode}
+            canCreateProject={canCreateProject}
+            canManageProjects={canManageProjects}
             activeDropdown={activeDropdown}
             setActiveDropdown={setActiveDropdown}
             onSelectProject={(project) => { setSelectedProject(project); setCurrentView('project') }}
@@ -726,6 +1149,8 @@ export default function SolarConstructionApp() {
           <ProjectDashboard
             project={selectedProject}
             darkMode={darkMode}
+            canInputProduction={canInputProduction}
+            canInspect={canInspect}
             onInputProduction={() => setCurrentView('production')}
             onCreateInspection={() => setCurrentView('inspection')}
             onViewRefusals={() => setCurrentView('refusal')}
@@ -733,33 +1158,70 @@ export default function SolarConstructionApp() {
           />
         )}
         
-        {currentView === 'production' && selectedProject && (
+        {currentView === 'production' && selectedProject && canInputProduction && (
           <ProductionInput
             project={selectedProject}
             crews={company.crews}
             subcontractors={company.subcontractors}
-            userId={user?.id || DEMO_ADMIN_ID}
             darkMode={darkMode}
             onSuccess={() => { toast.success('Production entry saved!'); fetchData() }}
           />
         )}
         
-        {currentView === 'inspection' && selectedProject && (
+        {currentView === 'inspection' && selectedProject && canInspect && (
           <QCInspectionForm
             project={selectedProject}
             rackingSystems={company.rackingSystems}
-            userId={user?.id || DEMO_ADMIN_ID}
             darkMode={darkMode}
+            canManageSampling={can(user.role, 'project:update')}
+            selectedPileIds={inspectionPileIds}
+            onClearSelection={() => setInspectionPileIds(null)}
             onSuccess={() => { toast.success('Inspection saved!'); fetchData() }}
           />
         )}
 
+        {currentView === 'punchList' && (
+          <PunchListView
+            company={company}
+            project={selectedProject}
+            darkMode={darkMode}
+            canAssign={can(user.role, 'qc-issue:assign')}
+            canCorrect={can(user.role, 'qc-issue:correct')}
+            canVerify={can(user.role, 'qc-issue:verify')}
+            onChanged={fetchData}
+          />
+        )}
+
         {currentView === 'refusal' && selectedProject && (
           <RefusalModule
             project={selectedProject}
-            userId={user?.id || DEMO_ADMIN_ID}
             darkMode={darkMode}
+            canLog={can(user.role, 'refusal:create')}
+            canUpdate={can(user.role, 'refusal:update')}
+            canApprove={can(user.role, 'refusal:approve')}
+            canEngineerApprove={can(user.role, 'refusal:engineer-approve')}
             onSuccess={() => { toast.success('Refusal logged!'); fetchData() }}
+            onChanged={fetchData}
+          />
+        )}
+        
+        {currentView === 'driving' && selectedProject && (
+          <DrivingLogView
+            project={selectedProject}
+            darkMode={darkMode}
+            canLog={can(user.role, 'driving-log:create')}
+            canReportRefusal={can(user.role, 'refusal:create')}
+            canDismiss={can(user.role, 'refusal:approve')}
+            onChanged={fetchData}
+          />
+        )}
+        
+        {currentView === 'geotech' && selectedProject && (
+          <GeotechView
+            project={selectedProject}
+            darkMode={darkMode}
+            canManage={can(user.role, 'geotech:manage')}
+            canTest={can(user.role, 'load-test:create')}
           />
         )}
         
@@ -784,10 +1246,26 @@ export default function SolarConstructionApp() {
           <AnalyticsDashboard
             project={selectedProject}
             darkMode={darkMode}
+            onStartBatchInspection={canInspect ? (pileIds) => { setInspectionPileIds(pileIds); setCurrentView('inspection') } : undefined}
+          />
+        )}
+
+        {currentView === 'team' && selectedProject && canAssignTeam && (
+          <ProjectTeamView
+            project={selectedProject}
+            users={company.users}
+            darkMode={darkMode}
           />
         )}
 
-        {currentView === 'newProject' && (
+        {currentView === 'conflicts' && canResolveConflicts && (
+          <ConflictReviewView
+            darkMode={darkMode}
+            onResolved={fetchData}
+          />
+        )}
+
+        {currentView === 'newProject' && canCreateProject && (
           <NewProjectForm
             company={company}
             darkMode={darkMode}
@@ -807,7 +1285,7 @@ export default function SolarConstructionApp() {
       </main>
 
       {/* Floating Action Button for New Project */}
-      {currentView === 'company' && (
+      {currentView === 'company' && canCreateProject && (
         <button
           onClick={() => setCurrentView('newProject')}
           className="fixed bottom-24 lg:bottom-8 right-4 w-14 h-14 bg-gradient-to-r from-orange-500 to-orange-600 text-white rounded-full shadow-lg flex items-center justify-center hover:from-orange-600 hover:to-orange-700 transition-all z-30"
@@ -823,17 +1301,21 @@ export default function SolarConstructionApp() {
             onClick={() => setCurrentView('company')} />
           <BottomNavItem icon={Target} label="Project" active={currentView === 'project'} darkMode={darkMode}
             onClick={() => selectedProject && setCurrentView('project')} disabled={!selectedProject} />
-          <BottomNavItem icon={Plus} label="Add" active={currentView === 'production'} darkMode={darkMode}
-            onClick={() => selectedProject && setCurrentView('production')} disabled={!selectedProject} highlight />
-          <BottomNavItem icon={CheckCircle} label="QC" active={currentView === 'inspection'} darkMode={darkMode}
-            onClick={() => selectedProject && setCurrentView('inspection')} disabled={!selectedProject} />
+          {canInputProduction && (
+            <BottomNavItem icon={Plus} label="Add" active={currentView === 'production'} darkMode={darkMode}
+              onClick={() => selectedProject && setCurrentView('production')} disabled={!selectedProject} highlight />
+          )}
+          {canInspect && (
+            <BottomNavItem icon={CheckCircle} label="QC" active={currentView === 'inspection'} darkMode={darkMode}
+              onClick={() => selectedProject && setCurrentView('inspection')} disabled={!selectedProject} />
+          )}
           <BottomNavItem icon={FileText} label="Reports" active={currentView === 'reports'} darkMode={darkMode}
             onClick={() => selectedProject && setCurrentView('reports')} disabled={!selectedProject} />
         </div>
       </nav>
 
       {/* Edit Project Modal */}
-      {editProjectModal && projectToEdit && (
+      {editProjectModal && projectToEdit && canManageProjects && (
         <EditProjectModal
           project={projectToEdit}
           rackingSystems={company.rackingSystems}
@@ -841,11 +1323,16 @@ export default function SolarConstructionApp() {
           onClose={() => { setEditProjectModal(false); setProjectToEdit(null) }}
           onSave={async (data) => {
             try {
-              await fetch('/api/projects', {
+              const response = await fetch('/api/projects', {
                 method: 'PUT',
                 headers: { 'Content-Type': 'application/json' },
                 body: JSON.stringify(data)
               })
+              if (!response.ok) {
+                const result = await response.json().catch(() => null)
+                toast.error(result?.error || 'Failed to update project')
+                return
+              }
               toast.success('Project updated!')
               setEditProjectModal(false)
               setProjectToEdit(null)
@@ -860,89 +1347,317 @@ export default function SolarConstructionApp() {
   )
 }
 
-// Navigation Item Component
-function NavItem({ icon: Icon, label, active, onClick, disabled, darkMode }: {
-  icon: any; label: string; active: boolean; onClick: () => void; disabled?: boolean; darkMode: boolean
+// Login Screen Component - sign in, password reset and demo setup
+function LoginScreen({ darkMode, seeding, onSeed, onLoggedIn }: {
+  darkMode: boolean; seeding: boolean; onSeed: () => void; onLoggedIn: () => void;
 }) {
-  return (
-    <button onClick={onClick} disabled={disabled}
-      className={`w-full flex items-center gap-3 px-3 py-2.5 rounded-xl transition-all ${
-        active ? 'bg-orange-50 text-orange-600 font-medium' :
-        disabled ? 'text-slate-300 cursor-not-allowed' :
-        darkMode ? 'text-slate-300 hover:bg-slate-700' : 'text-slate-600 hover:bg-slate-50'
-      }`}>
-      <Icon className="w-5 h-5" />
-      {label}
-    </button>
-  )
-}
+  const [mode, setMode] = useState<'login' | 'forgot' | 'reset'>('login')
+  const [email, setEmail] = useState('')
+  const [password, setPassword] = useState('')
+  const [resetToken, setResetToken] = useState<string | null>(null)
+  const [loading, setLoading] = useState(false)
 
-// Bottom Navigation Item
-function BottomNavItem({ icon: Icon, label, active, onClick, disabled, highlight, darkMode }: {
-  icon: any; label: string; active: boolean; onClick: () => void; disabled?: boolean; highlight?: boolean; darkMode: boolean
-}) {
-  return (
-    <button onClick={onClick} disabled={disabled} className={`flex flex-col items-center gap-1 px-3 py-1 ${disabled ? 'opacity-30' : ''}`}>
-      <div className={`p-2 rounded-xl ${
-        highlight ? 'bg-gradient-to-r from-orange-500 to-orange-600 text-white -mt-4 shadow-lg' :
-        active ? 'text-orange-600' : darkMode ? 'text-slate-400' : 'text-slate-500'
-      }`}>
-        <Icon className="w-5 h-5" />
-      </div>
-      <span className={`text-xs ${active ? 'text-orange-600 font-medium' : darkMode ? 'text-slate-400' : 'text-slate-500'}`}>{label}</span>
-    </button>
-  )
-}
+  // Reset links from mail land on /?resetToken=...
+  useEffect(() => {
+    const token = new URLSearchParams(window.location.search).get('resetToken')
+    if (token) {
+      setResetToken(token)
+      setMode('reset')
+    }
+  }, [])
 
-// Company Dashboard Component
-function CompanyDashboard({
-  company, stats, todayProduction, weekProduction, monthProduction, darkMode,
-  activeDropdown, setActiveDropdown, onSelectProject, onEditProject, onUpdateStatus, onNewProject
-}: {
-  company: Company; stats: any; todayProduction: any; weekProduction: any; monthProduction: any; darkMode: boolean;
-  activeDropdown: string | null; setActiveDropdown: (id: string | null) => void;
-  onSelectProject: (project: Project) => void; onEditProject: (project: Project) => void;
-  onUpdateStatus: (projectId: string, status: string) => void; onNewProject: () => void;
-}) {
-  const allProjects = company.projects || []
-  
-  return (
-    <div className="p-4 lg:p-6 space-y-6">
-      <div>
-        <h2 className={`text-2xl font-bold ${darkMode ? 'text-white' : 'text-slate-800'}`}>Company Dashboard</h2>
-        <p className={darkMode ? 'text-slate-400' : 'text-slate-600'}>Executive overview across all projects</p>
-      </div>
+  const login = async () => {
+    if (!email || !password) {
+      toast.error('Enter email and password')
+      return
+    }
+    setLoading(true)
+    try {
+      const response = await fetch('/api/auth/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email, password })
+      })
+      if (response.ok) {
+        setPassword('')
+        onLoggedIn()
+      } else {
+        const data = await response.json()
+        toast.error(data.error || 'Login failed')
+      }
+    } catch {
+      toast.error('Login failed')
+    } finally {
+      setLoading(false)
+    }
+  }
 
-      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
-        <StatCard title="Active Projects" value={stats.activeProjects} icon={Building2} color="blue" darkMode={darkMode} />
-        <StatCard title="Modules Installed" value={formatNumber(stats.totalModules)} icon={Sun} color="orange" darkMode={darkMode} />
-        <StatCard title="Company Progress" value={`${stats.overallProgress}%`} icon={TrendingUp} color="green" darkMode={darkMode} />
-        <StatCard title="Open Issues" value={stats.openIssues} icon={AlertTriangle} color={stats.openIssues > 5 ? 'red' : 'yellow'} darkMode={darkMode} />
-      </div>
+  const requestReset = async () => {
+    if (!email) {
+      toast.error('Enter your email')
+      return
+    }
+    setLoading(true)
+    try {
+      await fetch('/api/auth/password-reset', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email })
+      })
+      toast.success('If that account exists, a reset link has been sent')
+      setMode('login')
+    } catch {
+      toast.error('Failed to request reset')
+    } finally {
+      setLoading(false)
+    }
+  }
 
-      <div className={`rounded-2xl border p-4 lg:p-6 ${darkMode ? 'bg-slate-800 border-slate-700' : 'bg-white border-slate-200'}`}>
-        <h3 className={`font-semibold mb-4 ${darkMode ? 'text-white' : 'text-slate-800'}`}>Production Summary</h3>
-        <div className="grid grid-cols-3 gap-4">
-          {[{ label: 'Today', data: todayProduction }, { label: 'This Week', data: weekProduction }, { label: 'This Month', data: monthProduction }].map(({ label, data }) => (
-            <div key={label} className={`text-center p-4 rounded-xl ${darkMode ? 'bg-slate-700' : 'bg-slate-50'}`}>
-              <p className={`text-xs mb-1 ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>{label}</p>
-              <p className={`text-2xl font-bold ${darkMode ? 'text-white' : 'text-slate-800'}`}>{formatNumber(data.modules)}</p>
-              <p className={`text-xs ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>modules</p>
-            </div>
-          ))}
-        </div>
-      </div>
+  const submitReset = async () => {
+    setLoading(true)
+    try {
+      const response = await fetch('/api/auth/password-reset', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token: resetToken, password })
+      })
+      const data = await response.json()
+      if (response.ok) {
+        toast.success('Password updated - please sign in')
+        window.history.replaceState(null, '', window.location.pathname)
+        setResetToken(null)
+        setPassword('')
+        setMode('login')
+      } else {
+        toast.error(data.error || 'Failed to reset password')
+      }
+    } catch {
+      toast.error('Failed to reset password')
+    } finally {
+      setLoading(false)
+    }
+  }
 
-      <div>
-        <div className="flex items-center justify-between mb-4">
-          <h3 className={`font-semibold ${darkMode ? 'text-white' : 'text-slate-800'}`}>All Projects</h3>
+  const inputClass = `w-full px-4 py-3 rounded-xl border ${darkMode ? 'bg-slate-700 border-slate-600 text-white' : 'bg-white border-slate-200'}`
+
+  return (
+    <div className={`min-h-screen flex items-center justify-center p-4 ${darkMode ? 'bg-slate-900' : 'bg-gradient-to-br from-slate-50 to-slate-100'}`}>
+      <div className={`rounded-3xl shadow-xl p-8 max-w-md w-full ${darkMode ? 'bg-slate-800' : 'bg-white'}`}>
+        <div className="text-center">
+          <div className="w-20 h-20 bg-gradient-to-br from-orange-400 to-orange-600 rounded-2xl flex items-center justify-center mx-auto mb-6">
+            <Sun className="w-12 h-12 text-white" />
+          </div>
+          <h1 className={`text-2xl font-bold mb-2 ${darkMode ? 'text-white' : 'text-slate-800'}`}>Welcome to SolarTrack Pro</h1>
+          <p className={`mb-6 ${darkMode ? 'text-slate-400' : 'text-slate-600'}`}>
+            {mode === 'login' && 'Sign in to continue'}
+            {mode === 'forgot' && 'We will email you a reset link'}
+            {mode === 'reset' && 'Choose a new password'}
+          </p>
+        </div>
+
+        <div className="space-y-3">
+          {mode !== 'reset' && (
+            <input type="email" value={email} onChange={(e) => setEmail(e.target.value)}
+              placeholder="Email" autoComplete="email" className={inputClass} />
+          )}
+          {mode !== 'forgot' && (
+            <input type="password" value={password} onChange={(e) => setPassword(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter') { if (mode === 'login') { login() } else { submitReset() } } }}
+              placeholder={mode === 'reset' ? 'New password (min 8 characters)' : 'Password'}
+              autoComplete={mode === 'reset' ? 'new-password' : 'current-password'} className={inputClass} />
+          )}
+
+          <button
+            onClick={mode === 'login' ? login : mode === 'forgot' ? requestReset : submitReset}
+            disabled={loading}
+            className="w-full bg-gradient-to-r from-orange-500 to-orange-600 text-white py-4 px-6 rounded-xl font-semibold text-lg hover:from-orange-600 hover:to-orange-700 transition-all disabled:opacity-50 flex items-center justify-center gap-2"
+          >
+            {loading && <RefreshCw className="w-5 h-5 animate-spin" />}
+            {mode === 'login' && 'Sign In'}
+            {mode === 'forgot' && 'Send Reset Link'}
+            {mode === 'reset' && 'Update Password'}
+          </button>
+
+          <button
+            onClick={() => setMode(mode === 'login' ? 'forgot' : 'login')}
+            className={`w-full text-sm ${darkMode ? 'text-slate-400 hover:text-slate-200' : 'text-slate-500 hover:text-slate-700'}`}
+          >
+            {mode === 'login' ? 'Forgot password?' : 'Back to sign in'}
+          </button>
+        </div>
+
+        {mode === 'login' && (
+          <div className={`mt-6 pt-6 border-t ${darkMode ? 'border-slate-700' : 'border-slate-200'}`}>
+            <button
+              onClick={onSeed}
+              disabled={seeding}
+              className={`w-full py-3 px-6 rounded-xl font-medium flex items-center justify-center gap-2 disabled:opacity-50 ${
+                darkMode ? 'bg-slate-700 text-slate-200 hover:bg-slate-600' : 'bg-slate-100 text-slate-700 hover:bg-slate-200'
+              }`}
+            >
+              {seeding ? (
+                <>
+                  <RefreshCw className="w-5 h-5 animate-spin" />
+                  Setting Up Demo...
+                </>
+              ) : (
+                <>
+                  <Database className="w-5 h-5" />
+                  Load Demo Data
+                </>
+              )}
+            </button>
+            <p className={`mt-3 text-xs text-center ${darkMode ? 'text-slate-500' : 'text-slate-400'}`}>
+              Demo login: admin@solardynamics.com / demo123
+            </p>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+// Sync Queue Panel - offline items waiting to upload and items that failed
+function SyncQueuePanel({ syncState, darkMode, onClose }: {
+  syncState: SyncSnapshot; darkMode: boolean; onClose: () => void;
+}) {
+  const entityLabels: Record<SyncEntity, string> = { production: 'Production', inspection: 'QC Inspection', refusal: 'Refusal' }
+
+  const describe = (payload: any) =>
+    payload.pileId || payload.area || (payload.date ? format(new Date(payload.date), 'MMM d, yyyy') : 'Entry')
+
+  return (
+    <div className={`fixed top-16 right-4 w-80 max-w-[calc(100vw-2rem)] rounded-2xl shadow-xl border z-50 ${darkMode ? 'bg-slate-800 border-slate-700' : 'bg-white border-slate-200'}`}>
+      <div className={`p-4 border-b flex items-center justify-between ${darkMode ? 'border-slate-700' : 'border-slate-200'}`}>
+        <span className={`font-semibold ${darkMode ? 'text-white' : 'text-slate-800'}`}>Offline Queue</span>
+        <button onClick={onClose}>
+          <X className={`w-5 h-5 ${darkMode ? 'text-slate-400' : 'text-slate-500'}`} />
+        </button>
+      </div>
+
+      <div className="p-4 space-y-3 max-h-96 overflow-y-auto">
+        <div className="flex items-center justify-between">
+          <span className={`text-sm ${darkMode ? 'text-slate-300' : 'text-slate-600'}`}>
+            {syncState.pending} waiting to sync
+          </span>
           <button
-            onClick={onNewProject}
-            className="flex items-center gap-1 text-sm text-orange-600 hover:text-orange-700"
+            onClick={() => syncReplayer.flush()}
+            disabled={syncState.syncing || syncState.pending === 0}
+            className="text-sm text-orange-600 hover:text-orange-700 flex items-center gap-1 disabled:opacity-50"
           >
-            <Plus className="w-4 h-4" /> New Project
+            <RefreshCw className={`w-4 h-4 ${syncState.syncing ? 'animate-spin' : ''}`} /> Sync now
           </button>
         </div>
+
+        {syncState.failed.map(item => (
+          <div key={item.id} className={`p-3 rounded-xl ${darkMode ? 'bg-slate-700' : 'bg-red-50'}`}>
+            <p className={`text-sm font-medium ${darkMode ? 'text-white' : 'text-slate-800'}`}>
+              {entityLabels[item.entity]} • {describe(item.payload)}
+            </p>
+            <p className="text-xs text-red-600 mt-1">{item.lastError || 'Sync failed'}</p>
+            <div className="flex gap-2 mt-2">
+              <button onClick={() => syncReplayer.retry(item.id)}
+                className="px-3 py-1 rounded-lg text-xs font-medium bg-orange-100 text-orange-700 hover:bg-orange-200">
+                Retry
+              </button>
+              <button onClick={() => syncReplayer.discard(item.id)}
+                className={`px-3 py-1 rounded-lg text-xs font-medium ${darkMode ? 'bg-slate-600 text-slate-200 hover:bg-slate-500' : 'bg-white text-slate-600 hover:bg-slate-100'}`}>
+                Discard
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+// Navigation Item Component
+function NavItem({ icon: Icon, label, active, onClick, disabled, darkMode }: {
+  icon: any; label: string; active: boolean; onClick: () => void; disabled?: boolean; darkMode: boolean
+}) {
+  return (
+    <button onClick={onClick} disabled={disabled}
+      className={`w-full flex items-center gap-3 px-3 py-2.5 rounded-xl transition-all ${
+        active ? 'bg-orange-50 text-orange-600 font-medium' :
+        disabled ? 'text-slate-300 cursor-not-allowed' :
+        darkMode ? 'text-slate-300 hover:bg-slate-700' : 'text-slate-600 hover:bg-slate-50'
+      }`}>
+      <Icon className="w-5 h-5" />
+      {label}
+    </button>
+  )
+}
+
+// Bottom Navigation Item
+function BottomNavItem({ icon: Icon, label, active, onClick, disabled, highlight, darkMode }: {
+  icon: any; label: string; active: boolean; onClick: () => void; disabled?: boolean; highlight?: boolean; darkMode: boolean
+}) {
+  return (
+    <button onClick={onClick} disabled={disabled} className={`flex flex-col items-center gap-1 px-3 py-1 ${disabled ? 'opacity-30' : ''}`}>
+      <div className={`p-2 rounded-xl ${
+        highlight ? 'bg-gradient-to-r from-orange-500 to-orange-600 text-white -mt-4 shadow-lg' :
+        active ? 'text-orange-600' : darkMode ? 'text-slate-400' : 'text-slate-500'
+      }`}>
+        <Icon className="w-5 h-5" />
+      </div>
+      <span className={`text-xs ${active ? 'text-orange-600 font-medium' : darkMode ? 'text-slate-400' : 'text-slate-500'}`}>{label}</span>
+    </button>
+  )
+}
+
+// Company Dashboard Component
+function CompanyDashboard({
+  company, stats, todayProduction, weekProduction, monthProduction, darkMode,
+  canCreateProject, canManageProjects, activeDropdown, setActiveDropdown, onSelectProject, onEditProject, onUpdateStatus, onNewProject
+}: {
+  company: Company; stats: any; todayProduction: any; weekProduction: any; monthProduction: any; darkMode: boolean;
+  canCreateProject: boolean; canManageProjects: boolean;
+  activeDropdown: string | null; setActiveDropdown: (id: string | null) => void;
+  onSelectProject: (project: Project) => void; onEditProject: (project: Project) => void;
+  onUpdateStatus: (projectId: string, status: string) => void; onNewProject: () => void;
+}) {
+  const allProjects = company.projects || []
+  
+  return (
+    <div className="p-4 lg:p-6 space-y-6">
+      <div>
+        <h2 className={`text-2xl font-bold ${darkMode ? 'text-white' : 'text-slate-800'}`}>Company Dashboard</h2>
+        <p className={darkMode ? 'text-slate-400' : 'text-slate-600'}>Executive overview across all projects</p>
+      </div>
+
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+        <StatCard title="Active Projects" value={stats.activeProjects} icon={Building2} color="blue" darkMode={darkMode} />
+        <StatCard title="Modules Installed" value={formatNumber(stats.totalModules)} icon={Sun} color="orange" darkMode={darkMode} />
+        <StatCard title="Company Progress" value={`${stats.overallProgress}%`} icon={TrendingUp} color="green" darkMode={darkMode} />
+        <StatCard title="Open Issues" value={stats.openIssues} icon={AlertTriangle} color={stats.openIssues > 5 ? 'red' : 'yellow'} darkMode={darkMode} />
+      </div>
+
+      <div className={`rounded-2xl border p-4 lg:p-6 ${darkMode ? 'bg-slate-800 border-slate-700' : 'bg-white border-slate-200'}`}>
+        <h3 className={`font-semibold mb-4 ${darkMode ? 'text-white' : 'text-slate-800'}`}>Production Summary</h3>
+        <div className="grid grid-cols-3 gap-4">
+          {[{ label: 'Today', data: todayProduction }, { label: 'This Week', data: weekProduction }, { label: 'This Month', data: monthProduction }].map(({ label, data }) => (
+            <div key={label} className={`text-center p-4 rounded-xl ${darkMode ? 'bg-slate-700' : 'bg-slate-50'}`}>
+              <p className={`text-xs mb-1 ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>{label}</p>
+              <p className={`text-2xl font-bold ${darkMode ? 'text-white' : 'text-slate-800'}`}>{formatNumber(data.modules)}</p>
+              <p className={`text-xs ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>modules</p>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-4">
+          <h3 className={`font-semibold ${darkMode ? 'text-white' : 'text-slate-800'}`}>All Projects</h3>
+          {canCreateProject && (
+            <button
+              onClick={onNewProject}
+              className="flex items-center gap-1 text-sm text-orange-600 hover:text-orange-700"
+            >
+              <Plus className="w-4 h-4" /> New Project
+            </button>
+          )}
+        </div>
         <div className="space-y-3">
           {allProjects.map(project => {
             const progress = calculateProjectProgress(project)
@@ -966,48 +1681,50 @@ function CompanyDashboard({
                     }`}>
                       {project.status === 'on-hold' ? 'On Hold' : project.status}
                     </span>
-                    <div className="relative">
-                      <button
-                        onClick={(e) => { e.stopPropagation(); setActiveDropdown(activeDropdown === project.id ? null : project.id) }}
-                        className={`p-1.5 rounded-lg ${darkMode ? 'hover:bg-slate-700 text-slate-400' : 'hover:bg-slate-100 text-slate-500'}`}
-                      >
-                        <MoreVertical className="w-4 h-4" />
-                      </button>
-                      {activeDropdown === project.id && (
-                        <div onClick={(e) => e.stopPropagation()} className={`absolute right-0 top-8 w-48 rounded-xl shadow-lg border z-50 ${
-                          darkMode ? 'bg-slate-700 border-slate-600' : 'bg-white border-slate-200'
-                        }`}>
-                          <button onClick={() => { onEditProject(project); setActiveDropdown(null) }}
-                            className={`w-full flex items-center gap-2 px-4 py-2.5 text-left text-sm ${darkMode ? 'text-slate-200 hover:bg-slate-600' : 'text-slate-700 hover:bg-slate-50'}`}>
-                            <Edit className="w-4 h-4" /> Edit Project
-                          </button>
-                          {project.status === 'active' && (
-                            <button onClick={() => onUpdateStatus(project.id, 'on-hold')}
-                              className={`w-full flex items-center gap-2 px-4 py-2.5 text-left text-sm ${darkMode ? 'text-slate-200 hover:bg-slate-600' : 'text-slate-700 hover:bg-slate-50'}`}>
-                              <Ban className="w-4 h-4" /> Put On Hold
-                            </button>
-                          )}
-                          {project.status === 'active' && (
-                            <button onClick={() => onUpdateStatus(project.id, 'completed')}
-                              className={`w-full flex items-center gap-2 px-4 py-2.5 text-left text-sm ${darkMode ? 'text-slate-200 hover:bg-slate-600' : 'text-slate-700 hover:bg-slate-50'}`}>
-                              <CheckCircle className="w-4 h-4" /> Mark Complete
-                            </button>
-                          )}
-                          {(project.status === 'completed' || project.status === 'archived') && (
-                            <button onClick={() => onUpdateStatus(project.id, 'active')}
-                              className={`w-full flex items-center gap-2 px-4 py-2.5 text-left text-sm ${darkMode ? 'text-slate-200 hover:bg-slate-600' : 'text-slate-700 hover:bg-slate-50'}`}>
-                              <RotateCcw className="w-4 h-4" /> Reopen Project
-                            </button>
-                          )}
-                          {project.status !== 'archived' && project.status !== 'completed' && (
-                            <button onClick={() => onUpdateStatus(project.id, 'archived')}
+                    {canManageProjects && (
+                      <div className="relative">
+                        <button
+                          onClick={(e) => { e.stopPropagation(); setActiveDropdown(activeDropdown === project.id ? null : project.id) }}
+                          className={`p-1.5 rounded-lg ${darkMode ? 'hover:bg-slate-700 text-slate-400' : 'hover:bg-slate-100 text-slate-500'}`}
+                        >
+                          <MoreVertical className="w-4 h-4" />
+                        </button>
+                        {activeDropdown === project.id && (
+                          <div onClick={(e) => e.stopPropagation()} className={`absolute right-0 top-8 w-48 rounded-xl shadow-lg border z-50 ${
+                            darkMode ? 'bg-slate-700 border-slate-600' : 'bg-white border-slate-200'
+                          }`}>
+                            <button onClick={() => { onEditProject(project); setActiveDropdown(null) }}
                               className={`w-full flex items-center gap-2 px-4 py-2.5 text-left text-sm ${darkMode ? 'text-slate-200 hover:bg-slate-600' : 'text-slate-700 hover:bg-slate-50'}`}>
-                              <Archive className="w-4 h-4" /> Archive Project
+                              <Edit className="w-4 h-4" /> Edit Project
                             </button>
-                          )}
-                        </div>
-                      )}
-                    </div>
+                            {project.status === 'active' && (
+                              <button onClick={() => onUpdateStatus(project.id, 'on-hold')}
+                                className={`w-full flex items-center gap-2 px-4 py-2.5 text-left text-sm ${darkMode ? 'text-slate-200 hover:bg-slate-600' : 'text-slate-700 hover:bg-slate-50'}`}>
+                                <Ban className="w-4 h-4" /> Put On Hold
+                              </button>
+                            )}
+                            {project.status === 'active' && (
+                              <button onClick={() => onUpdateStatus(project.id, 'completed')}
+                                className={`w-full flex items-center gap-2 px-4 py-2.5 text-left text-sm ${darkMode ? 'text-slate-200 hover:bg-slate-600' : 'text-slate-700 hover:bg-slate-50'}`}>
+                                <CheckCircle className="w-4 h-4" /> Mark Complete
+                              </button>
+                            )}
+                            {(project.status === 'completed' || project.status === 'archived') && (
+                              <button onClick={() => onUpdateStatus(project.id, 'active')}
+                                className={`w-full flex items-center gap-2 px-4 py-2.5 text-left text-sm ${darkMode ? 'text-slate-200 hover:bg-slate-600' : 'text-slate-700 hover:bg-slate-50'}`}>
+                                <RotateCcw className="w-4 h-4" /> Reopen Project
+                              </button>
+                            )}
+                            {project.status !== 'archived' && project.status !== 'completed' && (
+                              <button onClick={() => onUpdateStatus(project.id, 'archived')}
+                                className={`w-full flex items-center gap-2 px-4 py-2.5 text-left text-sm ${darkMode ? 'text-slate-200 hover:bg-slate-600' : 'text-slate-700 hover:bg-slate-50'}`}>
+                                <Archive className="w-4 h-4" /> Archive Project
+                              </button>
+                            )}
+                          </div>
+                        )}
+                      </div>
+                    )}
                   </div>
                 </div>
                 
@@ -1050,8 +1767,8 @@ function CompanyDashboard({
 }
 
 // Project Dashboard Component
-function ProjectDashboard({ project, darkMode, onInputProduction, onCreateInspection, onViewRefusals, onViewReports }: {
-  project: Project; darkMode: boolean;
+function ProjectDashboard({ project, darkMode, canInputProduction, canInspect, onInputProduction, onCreateInspection, onViewRefusals, onViewReports }: {
+  project: Project; darkMode: boolean; canInputProduction: boolean; canInspect: boolean;
   onInputProduction: () => void; onCreateInspection: () => void; onViewRefusals: () => void; onViewReports: () => void;
 }) {
   const progress = calculateProjectProgress(project)
@@ -1209,8 +1926,8 @@ function ProjectDashboard({ project, darkMode, onInputProduction, onCreateInspec
 
       {/* Action Buttons */}
       <div className="grid grid-cols-2 lg:grid-cols-4 gap-3">
-        <ActionButton icon={Plus} label="Input Production" onClick={onInputProduction} primary />
-        <ActionButton icon={CheckCircle} label="QC Inspection" onClick={onCreateInspection} darkMode={darkMode} />
+        {canInputProduction && <ActionButton icon={Plus} label="Input Production" onClick={onInputProduction} primary />}
+        {canInspect && <ActionButton icon={CheckCircle} label="QC Inspection" onClick={onCreateInspection} darkMode={darkMode} />}
         <ActionButton icon={AlertCircle} label={`Refusals${openRefusals > 0 ? ` (${openRefusals})` : ''}`} onClick={onViewRefusals} darkMode={darkMode} />
         <ActionButton icon={FileText} label="Reports" onClick={onViewReports} darkMode={darkMode} />
       </div>
@@ -1256,8 +1973,8 @@ function ActionButton({ icon: Icon, label, onClick, primary, darkMode }: {
 }
 
 // Production Input Component
-function ProductionInput({ project, crews, subcontractors, userId, darkMode, onSuccess }: {
-  project: Project; crews: Crew[]; subcontractors: Subcontractor[]; userId: string; darkMode: boolean; onSuccess: () => void;
+function ProductionInput({ project, crews, subcontractors, darkMode, onSuccess }: {
+  project: Project; crews: Crew[]; subcontractors: Subcontractor[]; darkMode: boolean; onSuccess: () => void;
 }) {
   const [date, setDate] = useState(format(new Date(), 'yyyy-MM-dd'))
   const [piles, setPiles] = useState('')
@@ -1266,24 +1983,26 @@ function ProductionInput({ project, crews, subcontractors, userId, darkMode, onS
   const [crewId, setCrewId] = useState('')
   const [subcontractorId, setSubcontractorId] = useState('')
   const [notes, setNotes] = useState('')
+  const [drivenPileIds, setDrivenPileIds] = useState('')
   const [photos, setPhotos] = useState<Photo[]>([])
   const [loading, setLoading] = useState(false)
 
+  const pileIdList = drivenPileIds.split(',').map(s => s.trim()).filter(Boolean)
+  const pileIdErrors = invalidPileIds(project.pileIdFormat || DEFAULT_PILE_ID_FORMAT, pileIdList)
+
   const handleSubmit = async () => {
-    if (!piles && !racking && !modules) { toast.error('Please enter at least one value'); return }
+    if (!piles && !racking && !modules && pileIdList.length === 0) { toast.error('Please enter at least one value'); return }
+    if (pileIdErrors.length > 0) { toast.error(pileIdErrors[0]); return }
     setLoading(true)
     try {
-      const response = await fetch('/api/production', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          date, piles: parseInt(piles) || 0, rackingTables: parseInt(racking) || 0, modules: parseInt(modules) || 0,
-          projectId: project.id, userId, crewId: crewId || null, subcontractorId: subcontractorId || null, 
-          notes: notes || null,
-          photos: photos.length > 0 ? JSON.stringify(photos) : null,
-        })
+      const response = await postOrQueue('production', '/api/production', {
+        date, piles: parseInt(piles) || pileIdList.length, rackingTables: parseInt(racking) || 0, modules: parseInt(modules) || 0,
+        projectId: project.id, crewId: crewId || null, subcontractorId: subcontractorId || null, 
+        notes: notes || null,
+        pileIds: pileIdList.length > 0 ? JSON.stringify(pileIdList) : null,
+        photos: photos.length > 0 ? JSON.stringify(photos) : null,
       })
-      if (response.ok) { setPiles(''); setRacking(''); setModules(''); setNotes(''); setPhotos([]); onSuccess() }
+      if (response.ok) { setPiles(''); setRacking(''); setModules(''); setNotes(''); setDrivenPileIds(''); setPhotos([]); onSuccess() }
       else { toast.error('Failed to save entry') }
     } catch { toast.error('Failed to save entry') }
     finally { setLoading(false) }
@@ -1322,6 +2041,14 @@ function ProductionInput({ project, crews, subcontractors, userId, darkMode, onS
           ))}
         </div>
 
+        <div>
+          <label className={`block text-sm font-medium mb-2 ${darkMode ? 'text-slate-300' : 'text-slate-700'}`}>Pile IDs Driven (Optional)</label>
+          <input type="text" value={drivenPileIds} onChange={(e) => setDrivenPileIds(e.target.value)} placeholder={`e.g., ${project.pileIdExample || pileIdExample(project.pileIdFormat || DEFAULT_PILE_ID_FORMAT)}`}
+            className={`w-full px-4 py-3 border rounded-xl focus:outline-none focus:ring-2 focus:ring-orange-500 ${pileIdErrors.length > 0 ? 'border-red-500' : darkMode ? 'border-slate-600' : 'border-slate-200'} ${darkMode ? 'bg-slate-700 text-white' : ''}`} />
+          <PileIdErrors errors={pileIdErrors} darkMode={darkMode} />
+          <p className={`text-xs mt-1 ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>Marks these piles as driven in the pile registry</p>
+        </div>
+
         <div className="grid grid-cols-2 gap-4">
           <div>
             <label className={`block text-sm font-medium mb-2 ${darkMode ? 'text-slate-300' : 'text-slate-700'}`}>Crew (Optional)</label>
@@ -1370,86 +2097,536 @@ function ProductionInput({ project, crews, subcontractors, userId, darkMode, onS
   )
 }
 
-// QC Inspection Form Component - Redesigned for field use
-function QCInspectionForm({ project, rackingSystems, userId, darkMode, onSuccess }: {
-  project: Project; rackingSystems: RackingSystem[]; userId: string; darkMode: boolean; onSuccess: () => void;
+// Pile ID at the quick-mode steppers. The row arrows step {Tracker} in
+// formats that have no {Row}.
+function rowStepToken(format: string): 'Row' | 'Tracker' {
+  const { tokens } = compilePileIdFormat(format)
+  return tokens.includes('Tracker') && !tokens.includes('Row') ? 'Tracker' : 'Row'
+}
+
+function stepperPileId(format: string, parts: PileIdParts, row: number, pile: number) {
+  const tracker = rowStepToken(format) === 'Tracker' ? row : parts.tracker
+  return formatPileId(format, { ...parts, row, pile, tracker })
+}
+
+// Spoken IDs come through as e.g. "35 dash 22" or "inverter 3 tracker 12 pile 4"
+function parseSpokenPileId(format: string, transcript: string): Required<PileIdComponents> | null {
+  const spoken = parsePileId(format, transcript.replace(/\s*(?:dash|minus|hyphen)\s*/gi, '-').replace(/\s+/g, ''))
+  if (spoken) return spoken
+  const numbers = (transcript.match(/\d+/g) || []).map(Number)
+  const numeric = compilePileIdFormat(format).tokens.filter(token => token !== 'Block')
+  if (numbers.length !== numeric.length) return null
+  const components: Required<PileIdComponents> = { block: null, row: null, pile: null, inverter: null, tracker: null }
+  numeric.forEach((token, index) => { components[token.toLowerCase() as 'row'] = numbers[index] })
+  return components
+}
+
+// Pile ID Parts Component - block / inverter / tracker inputs for formats that use them
+function PileIdPartsInput({ format, parts, darkMode, onChange }: {
+  format: string; parts: PileIdParts; darkMode: boolean; onChange: (parts: PileIdParts) => void
 }) {
-  // Mode state
-  const [mode, setMode] = useState<'quick' | 'detailed' | 'batch'>('quick')
-  
-  // Quick mode state - minimal input
-  const [currentRow, setCurrentRow] = useState(1)
-  const [currentPile, setCurrentPile] = useState(1)
-  const [pileType, setPileType] = useState<'interior' | 'exterior' | 'motor'>('interior')
-  const [category, setCategory] = useState<'piles' | 'racking' | 'modules'>('piles')
-  
-  // Batch mode state
-  const [batchStartRow, setBatchStartRow] = useState(1)
-  const [batchEndRow, setBatchEndRow] = useState(10)
-  const [batchStatus, setBatchStatus] = useState<'pass' | 'fail'>('pass')
-  
-  // Detailed mode state
-  const [pileIds, setPileIds] = useState('')
-  const [area, setArea] = useState('')
-  const [notes, setNotes] = useState('')
-  
-  // Voice input state
-  const [isListening, setIsListening] = useState(false)
-  const [voiceTarget, setVoiceTarget] = useState<'pile' | 'notes' | null>(null)
-  const recognitionRef = useRef<any>(null)
-  
-  // Stats
-  const [inspectedCount, setInspectedCount] = useState(0)
-  const [passCount, setPassCount] = useState(0)
-  const [failCount, setFailCount] = useState(0)
-  const [loading, setLoading] = useState(false)
-  const [lastAction, setLastAction] = useState<{pileId: string, status: string} | null>(null)
-  
-  // Photos for current inspection
-  const [photos, setPhotos] = useState<Photo[]>([])
-  
-  // Get pile ID format from project
-  const pileIdFormat = project.pileIdFormat || '{Row}-{Pile}'
-  
-  // Generate current pile ID based on format
-  const generatePileId = (row: number, pile: number) => {
-    return pileIdFormat
-      .replace('{Row}', String(row))
-      .replace('{Pile}', String(pile))
-      .replace('{Block}', 'A') // Default block
-  }
-  
-  const currentPileId = generatePileId(currentRow, currentPile)
-  
-  // Quick inspection save
-  const quickInspect = async (status: 'pass' | 'fail') => {
-    setLoading(true)
+  const { tokens } = compilePileIdFormat(format)
+  const fields = [
+    tokens.includes('Block') && { key: 'block' as const, label: 'Block' },
+    tokens.includes('Inverter') && { key: 'inverter' as const, label: 'Inverter' },
+    tokens.includes('Tracker') && rowStepToken(format) === 'Row' && { key: 'tracker' as const, label: 'Tracker' },
+  ].filter((field): field is { key: keyof PileIdParts; label: string } => Boolean(field))
+  if (fields.length === 0) return null
+
+  return (
+    <div className="flex items-center justify-center gap-3 mt-2">
+      {fields.map(field => (
+        <label key={field.key} className={`flex items-center gap-1.5 text-sm ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>
+          {field.label}
+          <input type={field.key === 'block' ? 'text' : 'number'} min={1} value={parts[field.key]}
+            onChange={(e) => onChange({ ...parts, [field.key]: field.key === 'block' ? e.target.value.toUpperCase() : Math.max(1, parseInt(e.target.value) || 1) })}
+            className={`w-16 px-2 py-1 border rounded text-center ${darkMode ? 'bg-slate-700 border-slate-600 text-white' : 'border-slate-200'}`} />
+        </label>
+      ))}
+    </div>
+  )
+}
+
+// Pile ID errors under a text input, one per ID
+function PileIdErrors({ errors, darkMode }: { errors: string[]; darkMode: boolean }) {
+  if (errors.length === 0) return null
+  return (
+    <ul className={`text-xs mt-1 space-y-0.5 ${darkMode ? 'text-red-400' : 'text-red-600'}`}>
+      {errors.slice(0, 5).map(error => <li key={error}>{error}</li>)}
+      {errors.length > 5 && <li>and {errors.length - 5} more</li>}
+    </ul>
+  )
+}
+
+// Instrument Panel Component - connect a digital level / tape or load its log
+function InstrumentPanel({ darkMode, target, onReading, onLog }: {
+  darkMode: boolean; target: string | null;
+  onReading: (reading: InstrumentReading) => boolean; onLog: (readings: InstrumentReading[]) => void;
+}) {
+  const [drivers] = useState(() => createInstrumentDrivers())
+  const [driverId, setDriverId] = useState(() => drivers.find(driver => driver.supported())?.id ?? 'simulated')
+  const [status, setStatus] = useState<'idle' | 'connecting' | 'connected'>('idle')
+  const [lastReading, setLastReading] = useState<{ reading: InstrumentReading; applied: boolean } | null>(null)
+  const connectedRef = useRef<InstrumentDriver | null>(null)
+  const onReadingRef = useRef(onReading)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  // Drivers outlive renders; always hand readings to the latest callback
+  useEffect(() => { onReadingRef.current = onReading })
+
+  useEffect(() => () => { connectedRef.current?.disconnect() }, [])
+
+  const connect = async () => {
+    const driver = drivers.find(d => d.id === driverId)!
+    setStatus('connecting')
     try {
-      const response = await fetch('/api/inspections', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          date: new Date().toISOString(),
-          category,
-          scope: 'individual',
-          pileType,
-          pileIds: JSON.stringify([currentPileId]),
-          area: `Row ${currentRow}`,
-          status,
-          notes: null,
-          projectId: project.id,
-          userId,
-          items: [],
-          photos: photos.length > 0 ? JSON.stringify(photos) : null,
-        })
-      })
-      
-      if (response.ok) {
-        setInspectedCount(c => c + 1)
-        if (status === 'pass') setPassCount(c => c + 1)
-        else setFailCount(c => c + 1)
-        setLastAction({ pileId: currentPileId, status })
-        
+      await driver.connect(
+        reading => setLastReading({ reading, applied: onReadingRef.current(reading) }),
+        () => { connectedRef.current = null; setStatus('idle') }
+      )
+      connectedRef.current = driver
+      setStatus('connected')
+      toast.success(`${driver.label} connected`)
+    } catch (error: any) {
+      setStatus('idle')
+      // Closing the browser's device picker is not an error
+      if (error?.name !== 'NotFoundError') toast.error(error?.message || 'Could not connect')
+    }
+  }
+
+  const disconnect = async () => {
+    await connectedRef.current?.disconnect()
+    connectedRef.current = null
+    setStatus('idle')
+  }
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0]
+    e.target.value = ''
+    if (!selected) return
+
+    const { readings, errors } = parseInstrumentLog(await selected.text(), selected.name)
+    if (errors.length > 0) toast.error(errors.slice(0, 3).join('; '))
+    if (readings.length > 0) onLog(readings)
+  }
+
+  const buttonClass = `px-3 py-2 rounded-lg text-sm font-medium flex items-center gap-1.5 disabled:opacity-50 ${darkMode ? 'bg-slate-600 text-slate-200 hover:bg-slate-500' : 'bg-white border border-slate-200 text-slate-600 hover:bg-slate-100'}`
+
+  return (
+    <div className={`rounded-xl p-3 space-y-2 ${darkMode ? 'bg-slate-700' : 'bg-slate-50'}`}>
+      <div className="flex flex-wrap items-center gap-2">
+        {driverId === 'bluetooth' ? <Bluetooth className="w-4 h-4 text-blue-500" /> : <Usb className="w-4 h-4 text-blue-500" />}
+        <select value={driverId} onChange={(e) => setDriverId(e.target.value)} disabled={status !== 'idle'}
+          className={`flex-1 min-w-0 px-2 py-2 border rounded-lg text-sm ${darkMode ? 'bg-slate-700 border-slate-600 text-white' : 'border-slate-200'}`}>
+          {drivers.map(driver => (
+            <option key={driver.id} value={driver.id} disabled={!driver.supported()}>
+              {driver.label}{driver.supported() ? '' : ' (not supported in this browser)'}
+            </option>
+          ))}
+        </select>
+        {status === 'connected' ? (
+          <button onClick={disconnect} className={buttonClass}><X className="w-4 h-4" />Disconnect</button>
+        ) : (
+          <button onClick={connect} disabled={status === 'connecting'} className={buttonClass}>
+            {status === 'connecting' ? <RefreshCw className="w-4 h-4 animate-spin" /> : <Zap className="w-4 h-4" />}Connect
+          </button>
+        )}
+        <input ref={fileInputRef} type="file" accept=".csv,.txt" onChange={handleFile} className="hidden" />
+        <button onClick={() => fileInputRef.current?.click()} className={buttonClass}><Upload className="w-4 h-4" />Log</button>
+      </div>
+      <p className={`text-xs ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>
+        {status === 'connected' ? <span className="text-green-600 font-medium">● Listening</span> : 'Instrument not connected'}
+        {target && ` • next reading → ${target}`}
+        {lastReading && (
+          <span className={lastReading.applied ? '' : 'text-amber-600'}>
+            {` • last: ${lastReading.reading.measurementType?.replace('_', ' ') ?? ''} ${lastReading.reading.value}${lastReading.reading.unit ?? ''}`}
+            {!lastReading.applied && ' (not used)'}
+          </span>
+        )}
+      </p>
+    </div>
+  )
+}
+
+// Sampling Plan Panel Component - sample per block, coverage and escalation
+function SamplingPlanPanel({ project, category, darkMode, canManage, refreshKey, onInspectLot }: {
+  project: Project; category: string; darkMode: boolean; canManage: boolean; refreshKey: number;
+  onInspectLot: (lot: SamplingLot, label: string) => void;
+}) {
+  const [plans, setPlans] = useState<SamplingPlan[]>([])
+  const [editing, setEditing] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [method, setMethod] = useState<'ansi_z14' | 'percentage'>('ansi_z14')
+  const [inspectionLevel, setInspectionLevel] = useState('II')
+  const [aql, setAql] = useState('2.5')
+  const [percentage, setPercentage] = useState('10')
+  const [acceptNumber, setAcceptNumber] = useState('0')
+
+  const fetchPlans = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/sampling-plans?projectId=${project.id}`, { cache: 'no-store' })
+      if (response.ok) {
+        const data = await response.json()
+        setPlans(data.samplingPlans)
+      }
+    } catch (error) {
+      console.error('Failed to fetch sampling plans:', error)
+    }
+  }, [project.id])
+
+  useEffect(() => {
+    fetchPlans()
+  }, [fetchPlans, refreshKey])
+
+  const plan = plans.find(p => p.category === category)
+
+  const startEditing = () => {
+    setMethod(plan?.method ?? 'ansi_z14')
+    setInspectionLevel(plan?.inspectionLevel ?? 'II')
+    setAql(String(plan?.aql ?? 2.5))
+    setPercentage(String(plan?.percentage ?? 10))
+    setAcceptNumber(String(plan?.acceptNumber ?? 0))
+    setEditing(true)
+  }
+
+  const save = async () => {
+    setSaving(true)
+    try {
+      const response = await fetch('/api/sampling-plans', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          projectId: project.id, category, method,
+          inspectionLevel, aql: parseFloat(aql),
+          percentage: parseFloat(percentage), acceptNumber: parseInt(acceptNumber)
+        })
+      })
+      const data = await response.json()
+      if (response.ok) {
+        toast.success('Sampling plan saved - new samples drawn')
+        setEditing(false)
+        fetchPlans()
+      } else {
+        toast.error(data.error || 'Failed to save sampling plan')
+      }
+    } catch {
+      toast.error('Failed to save sampling plan')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const remove = async () => {
+    if (!plan) return
+    const response = await fetch(`/api/sampling-plans?id=${plan.id}`, { method: 'DELETE' })
+    if (response.ok) {
+      setEditing(false)
+      fetchPlans()
+    } else {
+      toast.error('Failed to remove sampling plan')
+    }
+  }
+
+  if (!plan && !canManage) return null
+
+  const inputClass = `w-full px-3 py-2 border rounded-lg text-sm ${darkMode ? 'bg-slate-700 border-slate-600 text-white' : 'border-slate-200'}`
+  const labelClass = `block text-xs font-medium mb-1 ${darkMode ? 'text-slate-300' : 'text-slate-700'}`
+  const statusClass = {
+    sampling: darkMode ? 'bg-slate-600 text-slate-200' : 'bg-slate-100 text-slate-600',
+    accepted: 'bg-green-100 text-green-700',
+    escalated: 'bg-red-100 text-red-700',
+  }
+  const lotLabel = (lot: SamplingLot) => lot.block ? `Block ${lot.block}` : 'All piles'
+
+  return (
+    <div className={`rounded-xl p-3 space-y-3 ${darkMode ? 'bg-slate-700' : 'bg-slate-50'}`}>
+      <div className="flex items-center justify-between gap-2">
+        <div>
+          <p className={`text-sm font-medium capitalize ${darkMode ? 'text-white' : 'text-slate-800'}`}>{category} sampling plan</p>
+          <p className={`text-xs ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>
+            {!plan ? 'No sampling plan - batch inspections are not tracked against a sample'
+              : plan.method === 'ansi_z14' ? `ANSI Z1.4 level ${plan.inspectionLevel}, AQL ${plan.aql}`
+              : `${plan.percentage}% per block, accept ${plan.acceptNumber}`}
+          </p>
+        </div>
+        {canManage && !editing && (
+          <button onClick={startEditing} className={`px-3 py-1.5 rounded-lg text-sm ${darkMode ? 'bg-slate-600 text-slate-200 hover:bg-slate-500' : 'bg-white border border-slate-200 text-slate-600 hover:bg-slate-100'}`}>
+            {plan ? 'Edit' : 'Set Up'}
+          </button>
+        )}
+      </div>
+
+      {editing && (
+        <div className="space-y-2">
+          <div className="grid grid-cols-3 gap-2">
+            <div>
+              <label className={labelClass}>Method</label>
+              <select value={method} onChange={(e) => setMethod(e.target.value as any)} className={inputClass}>
+                <option value="ansi_z14">ANSI Z1.4</option>
+                <option value="percentage">Fixed %</option>
+              </select>
+            </div>
+            {method === 'ansi_z14' ? (
+              <>
+                <div>
+                  <label className={labelClass}>Level</label>
+                  <select value={inspectionLevel} onChange={(e) => setInspectionLevel(e.target.value)} className={inputClass}>
+                    {['I', 'II', 'III'].map(level => <option key={level} value={level}>{level}</option>)}
+                  </select>
+                </div>
+                <div>
+                  <label className={labelClass}>AQL %</label>
+                  <select value={aql} onChange={(e) => setAql(e.target.value)} className={inputClass}>
+                    {['0.65', '1', '1.5', '2.5', '4', '6.5'].map(value => <option key={value} value={value}>{value}</option>)}
+                  </select>
+                </div>
+              </>
+            ) : (
+              <>
+                <div>
+                  <label className={labelClass}>Sample %</label>
+                  <input type="number" min="1" max="100" value={percentage} onChange={(e) => setPercentage(e.target.value)} className={inputClass} />
+                </div>
+                <div>
+                  <label className={labelClass}>Accept #</label>
+                  <input type="number" min="0" value={acceptNumber} onChange={(e) => setAcceptNumber(e.target.value)} className={inputClass} />
+                </div>
+              </>
+            )}
+          </div>
+          <p className={`text-xs ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>
+            Saving draws a new random sample for every block and clears earlier escalations.
+          </p>
+          <div className="flex gap-2">
+            <button onClick={save} disabled={saving} className="flex-1 py-2 rounded-lg text-sm font-medium bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50">
+              {saving ? 'Drawing...' : 'Save & Draw Samples'}
+            </button>
+            {plan && (
+              <button onClick={remove} className="px-3 py-2 rounded-lg text-sm text-red-600 hover:bg-red-50">Remove</button>
+            )}
+            <button onClick={() => setEditing(false)} className={`px-3 py-2 rounded-lg text-sm ${darkMode ? 'text-slate-300' : 'text-slate-600'}`}>Cancel</button>
+          </div>
+        </div>
+      )}
+
+      {plan && plan.lots.length > 0 && (
+        <div className="space-y-2 max-h-64 overflow-y-auto">
+          {plan.lots.map(lot => (
+            <div key={lot.id} className={`p-2 rounded-lg text-sm ${darkMode ? 'bg-slate-800' : 'bg-white border border-slate-200'}`}>
+              <div className="flex items-center justify-between gap-2">
+                <span className={`font-medium ${darkMode ? 'text-white' : 'text-slate-800'}`}>{lotLabel(lot)}</span>
+                <span className={`px-2 py-0.5 rounded-full text-xs font-medium capitalize ${statusClass[lot.status]}`}>
+                  {lot.status === 'escalated' ? '100% inspection' : lot.status}
+                </span>
+              </div>
+              <div className={`flex items-center justify-between gap-2 mt-1 text-xs ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>
+                <span>
+                  Sample {lot.sampleSize} of {lot.lotSize} • accept {lot.acceptNumber} • <span className={lot.failures > lot.acceptNumber ? 'text-red-600 font-medium' : ''}>{lot.failures} failed</span>
+                </span>
+                <span>{lot.inspected}/{lot.required} inspected</span>
+              </div>
+              <div className={`h-1.5 rounded-full mt-1 ${darkMode ? 'bg-slate-600' : 'bg-slate-200'}`}>
+                <div className={`h-1.5 rounded-full ${lot.status === 'escalated' ? 'bg-red-500' : 'bg-green-500'}`}
+                  style={{ width: `${lot.required > 0 ? (lot.inspected / lot.required) * 100 : 0}%` }} />
+              </div>
+              {lot.remainingPileIds.length > 0 && (
+                <button onClick={() => onInspectLot(lot, `${lotLabel(lot)} ${lot.status === 'escalated' ? '100%' : 'sample'}`)}
+                  className="mt-2 text-xs font-medium text-blue-600 hover:underline">
+                  Inspect {lot.remainingPileIds.length} remaining →
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+// QC Inspection Form Component - Redesigned for field use
+function QCInspectionForm({ project, rackingSystems, darkMode, canManageSampling, selectedPileIds, onClearSelection, onSuccess }: {
+  project: Project; rackingSystems: RackingSystem[]; darkMode: boolean; canManageSampling?: boolean;
+  selectedPileIds?: string[] | null; onClearSelection?: () => void; onSuccess: () => void;
+}) {
+  // Mode state - a site map selection opens straight into batch mode
+  const [mode, setMode] = useState<'quick' | 'detailed' | 'batch'>(selectedPileIds?.length ? 'batch' : 'quick')
+  
+  // Quick mode state - minimal input
+  const [currentRow, setCurrentRow] = useState(1)
+  const [currentPile, setCurrentPile] = useState(1)
+  const [idParts, setIdParts] = useState<PileIdParts>({ block: 'A', inverter: 1, tracker: 1 })
+  const [pileType, setPileType] = useState<'interior' | 'exterior' | 'motor'>('interior')
+  const [category, setCategory] = useState<'piles' | 'racking' | 'modules'>('piles')
+  
+  // Batch mode state
+  const [batchStartRow, setBatchStartRow] = useState(1)
+  const [batchEndRow, setBatchEndRow] = useState(10)
+  const [batchStatus, setBatchStatus] = useState<'pass' | 'fail'>('pass')
+  const [batchBlock, setBatchBlock] = useState('')
+  const [overrides, setOverrides] = useState<Record<string, 'pass' | 'fail' | 'skip'>>({})
+  const [layoutPiles, setLayoutPiles] = useState<Pile[] | null>(null)
+  const [sample, setSample] = useState<{ label: string; pileIds: string[]; percentage: number } | null>(null)
+  const [samplingRefresh, setSamplingRefresh] = useState(0)
+  
+  // Detailed mode state
+  const [pileIds, setPileIds] = useState('')
+  const [area, setArea] = useState('')
+  const [notes, setNotes] = useState('')
+  const [readings, setReadings] = useState<Record<string, Partial<Record<MeasurementType, string>>>>({})
+  const [activeCell, setActiveCell] = useState<{ pileId: string; type: MeasurementType } | null>(null)
+  
+  // Voice input state
+  const [isListening, setIsListening] = useState(false)
+  const [voiceTarget, setVoiceTarget] = useState<'pile' | 'notes' | null>(null)
+  const recognitionRef = useRef<any>(null)
+  
+  // Stats
+  const [inspectedCount, setInspectedCount] = useState(0)
+  const [passCount, setPassCount] = useState(0)
+  const [failCount, setFailCount] = useState(0)
+  const [loading, setLoading] = useState(false)
+  const [lastAction, setLastAction] = useState<{pileId: string, status: string} | null>(null)
+  
+  // Photos for current inspection
+  const [photos, setPhotos] = useState<Photo[]>([])
+  
+  // Get pile ID format from project
+  const pileIdFormat = project.pileIdFormat || DEFAULT_PILE_ID_FORMAT
+  const rowLabel = rowStepToken(pileIdFormat)
+  
+  const currentPileId = stepperPileId(pileIdFormat, idParts, currentRow, currentPile)
+  
+  // A spoken pile ID moves the steppers to it
+  const applySpokenPileId = (spoken: Required<PileIdComponents>) => {
+    const row = rowLabel === 'Tracker' ? spoken.tracker : spoken.row
+    if (row !== null) setCurrentRow(row)
+    if (spoken.pile !== null) setCurrentPile(spoken.pile)
+    setIdParts(parts => ({
+      block: spoken.block ?? parts.block,
+      inverter: spoken.inverter ?? parts.inverter,
+      tracker: rowLabel === 'Tracker' ? parts.tracker : spoken.tracker ?? parts.tracker,
+    }))
+  }
+  
+  // Tolerance limits for the selected pile type. The server grades the
+  // readings again on save; these only drive the live indicators.
+  const rackingSystem = project.rackingSystem || rackingSystems.find(rs => rs.id === project.rackingSystemId)
+  const toleranceProfile = parseToleranceProfile(rackingSystem?.[`${pileType}Tolerances` as const])
+  const measurementTypes = Object.keys(MEASUREMENTS) as MeasurementType[]
+  
+  const measurementLimits = (type: MeasurementType) => {
+    const spec = MEASUREMENTS[type]
+    const max = toleranceProfile?.[spec.max]
+    const min = spec.min ? toleranceProfile?.[spec.min] : max === undefined ? undefined : -max
+    return typeof min === 'number' && typeof max === 'number' ? { min, max } : null
+  }
+  
+  // null while the cell is empty or has no limits
+  const readingPassed = (type: MeasurementType, value: string | undefined) => {
+    const limits = measurementLimits(type)
+    const measured = parseFloat(value ?? '')
+    if (!limits || !Number.isFinite(measured)) return null
+    return measured >= limits.min && measured <= limits.max
+  }
+  
+  const detailedPileIds = pileIds.split(',').map(id => id.trim()).filter(Boolean)
+  const pileIdErrors = invalidPileIds(pileIdFormat, detailedPileIds)
+  const measurementItems = detailedPileIds.flatMap(pileId => measurementTypes
+    .filter(type => readingPassed(type, readings[pileId]?.[type]) !== null)
+    .map(type => ({
+      pileId,
+      measurementType: type,
+      measuredValue: parseFloat(readings[pileId]![type]!),
+      unit: MEASUREMENTS[type].unit,
+      passed: readingPassed(type, readings[pileId]![type])
+    }))
+  )
+  const measuredStatus = measurementItems.length === 0 ? null
+    : measurementItems.every(item => item.passed) ? 'pass' : 'fail'
+  
+  const setReading = (pileId: string, type: MeasurementType, value: string) => {
+    setReadings(current => ({ ...current, [pileId]: { ...current[pileId], [type]: value } }))
+  }
+  
+  // Instrument readings go to the pile they name, else the selected cell's
+  // pile (or the current pile). Readings that don't name their measurement
+  // fill the selected cell and move down to the next pile.
+  const applyReading = (reading: InstrumentReading) => {
+    const pileId = reading.pileId || activeCell?.pileId || detailedPileIds[0] || currentPileId
+    const type = reading.measurementType || activeCell?.type
+    if (!type || !measurementLimits(type)) return false
+    const value = readingValueAs(reading, type)
+    if (value === null) return false
+
+    setPileIds(current => {
+      const ids = current.split(',').map(id => id.trim()).filter(Boolean)
+      return ids.includes(pileId) ? current : [...ids, pileId].join(', ')
+    })
+    setReading(pileId, type, String(value))
+    if (!reading.measurementType && activeCell) {
+      const next = detailedPileIds[detailedPileIds.indexOf(activeCell.pileId) + 1]
+      if (next) setActiveCell({ pileId: next, type })
+    }
+    return true
+  }
+
+  const applyLog = (logReadings: InstrumentReading[]) => {
+    const applied = logReadings.filter(applyReading).length
+    const skipped = logReadings.length - applied
+    toast.success(`${applied} readings loaded${skipped > 0 ? `, ${skipped} skipped` : ''}`)
+  }
+
+  const readingTarget = activeCell ? `${activeCell.pileId} • ${activeCell.type.replace('_', ' ')}`
+    : detailedPileIds[0] || currentPileId
+
+  // Detailed inspection save - with readings the server decides pass/fail
+  const detailedInspect = async (status: 'pass' | 'fail') => {
+    if (pileIdErrors.length > 0) { toast.error(pileIdErrors[0]); return }
+    setLoading(true)
+    try {
+      const result = await postOrQueue('inspection', '/api/inspections', {
+        date: new Date().toISOString(),
+        category, pileType,
+        pileIds: detailedPileIds.length > 0 ? JSON.stringify(detailedPileIds) : null,
+        area, status, notes: notes || null,
+        projectId: project.id,
+        items: measurementItems.map(({ passed: _passed, ...item }) => item)
+      })
+      if (!result.ok) {
+        toast.error(result.error || 'Failed to save')
+        return
+      }
+      toast.success('Inspection saved!')
+      setPileIds(''); setNotes(''); setArea(''); setReadings({}); setActiveCell(null)
+      onSuccess()
+    } catch { toast.error('Failed to save') }
+    finally { setLoading(false) }
+  }
+  
+  // Quick inspection save
+  const quickInspect = async (status: 'pass' | 'fail') => {
+    setLoading(true)
+    try {
+      const response = await postOrQueue('inspection', '/api/inspections', {
+        date: new Date().toISOString(),
+        category,
+        scope: 'individual',
+        pileType,
+        pileIds: JSON.stringify([currentPileId]),
+        area: `${rowLabel} ${currentRow}`,
+        status,
+        notes: null,
+        projectId: project.id,
+        items: [],
+        photos: photos.length > 0 ? JSON.stringify(photos) : null,
+      })
+      
+      if (response.ok) {
+        setInspectedCount(c => c + 1)
+        if (status === 'pass') setPassCount(c => c + 1)
+        else setFailCount(c => c + 1)
+        setLastAction({ pileId: currentPileId, status })
+        
         // Auto-advance to next pile
         setCurrentPile(p => p + 1)
         setPhotos([]) // Clear photos after submission
@@ -1469,44 +2646,101 @@ function QCInspectionForm({ project, rackingSystems, userId, darkMode, onSuccess
   }
   
   // Batch inspection
-  const batchInspect = async () => {
-    setLoading(true)
-    const pileIdsList = []
-    for (let r = batchStartRow; r <= batchEndRow; r++) {
-      for (let p = 1; p <= 10; p++) { // Assume 10 piles per row
-        pileIdsList.push(generatePileId(r, p))
+  // A sampling lot picked below takes precedence over a site map selection
+  const batchPileIds = sample?.pileIds ?? selectedPileIds
+  const clearBatchSelection = () => {
+    if (sample) setSample(null)
+    else onClearSelection?.()
+  }
+  
+  // Pile registry - batch ranges resolve to the piles that actually exist
+  const fetchLayout = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/piles?projectId=${project.id}`, { cache: 'no-store' })
+      if (response.ok) {
+        const data = await response.json()
+        setLayoutPiles(data.piles)
       }
+    } catch (error) {
+      console.error('Failed to fetch piles:', error)
+    }
+  }, [project.id])
+  
+  useEffect(() => {
+    fetchLayout()
+  }, [fetchLayout])
+  
+  const layoutBlocks = useMemo(() => Array.from(new Set((layoutPiles || []).map(pile => pile.block).filter((block): block is string => !!block))).sort(), [layoutPiles])
+  const rangePileIds = (layoutPiles || [])
+    .filter(pile => (!batchBlock || pile.block === batchBlock) && pile.row >= batchStartRow && pile.row <= batchEndRow)
+    .map(pile => pile.pileId)
+  const batchTargets = batchPileIds?.length ? batchPileIds : rangePileIds
+  
+  // Piles with a failed inspection or an open refusal are not swept up in the
+  // batch result; each gets its own call, skipped until one is made
+  const layoutById = useMemo(() => new Map((layoutPiles || []).map(pile => [pile.pileId, pile])), [layoutPiles])
+  const flaggedPiles = batchTargets
+    .map(pileId => layoutById.get(pileId))
+    .filter((pile): pile is Pile => pile?.status === 'inspected' || pile?.status === 'refused')
+  const pileResult = (pileId: string) => {
+    const pile = layoutById.get(pileId)
+    return pile?.status === 'inspected' || pile?.status === 'refused' ? overrides[pileId] ?? 'skip' : batchStatus
+  }
+  
+  const batchInspect = async () => {
+    const groups: Record<'pass' | 'fail', string[]> = { pass: [], fail: [] }
+    for (const pileId of batchTargets) {
+      const result = pileResult(pileId)
+      if (result !== 'skip') groups[result].push(pileId)
+    }
+    if (groups.pass.length + groups.fail.length === 0) {
+      toast.error('Every pile in the batch is skipped')
+      return
     }
+    const areaLabel = sample ? sample.label
+      : selectedPileIds?.length ? `Site map selection (${batchTargets.length} piles)`
+      : `${batchBlock ? `Block ${batchBlock} ` : ''}Rows ${batchStartRow}-${batchEndRow}`
     
+    setLoading(true)
     try {
-      const response = await fetch('/api/inspections', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
+      let saved = 0
+      // One inspection per result so overridden piles keep their own status
+      for (const status of ['pass', 'fail'] as const) {
+        const pileIdsList = groups[status]
+        if (pileIdsList.length === 0) continue
+        const response = await postOrQueue('inspection', '/api/inspections', {
           date: new Date().toISOString(),
           category,
-          scope: 'batch',
+          scope: sample ? 'percentage' : 'batch',
           scopeCount: pileIdsList.length,
+          scopePercentage: sample?.percentage ?? null,
           pileType,
           pileIds: JSON.stringify(pileIdsList),
-          area: `Rows ${batchStartRow}-${batchEndRow}`,
-          status: batchStatus,
+          area: areaLabel,
+          status,
           notes: null,
           projectId: project.id,
-          userId,
           items: []
         })
-      })
+        if (!response.ok) {
+          toast.error(response.error || 'Failed to save batch')
+          break
+        }
+        saved += pileIdsList.length
+        setInspectedCount(c => c + pileIdsList.length)
+        if (status === 'pass') setPassCount(c => c + pileIdsList.length)
+        else setFailCount(c => c + pileIdsList.length)
+      }
       
-      if (response.ok) {
-        const count = pileIdsList.length
-        setInspectedCount(c => c + count)
-        if (batchStatus === 'pass') setPassCount(c => c + count)
-        else setFailCount(c => c + count)
-        toast.success(`Marked ${count} piles as ${batchStatus}`)
+      if (saved > 0) {
+        const skipped = batchTargets.length - groups.pass.length - groups.fail.length
+        toast.success(`Marked ${saved} piles${skipped > 0 ? ` (${skipped} skipped)` : ''}`)
+        if (sample) setSample(null)
+        else onClearSelection?.()
+        setOverrides({})
+        setSamplingRefresh(n => n + 1)
+        fetchLayout()
         onSuccess()
-      } else {
-        toast.error('Failed to save batch')
       }
     } catch {
       toast.error('Failed to save batch')
@@ -1527,11 +2761,8 @@ function QCInspectionForm({ project, rackingSystems, userId, darkMode, onSuccess
         const transcript = event.results[0][0].transcript
         if (voiceTarget === 'pile') {
           // Parse spoken pile ID
-          const match = transcript.match(/(\d+)\s*(?:dash|minus|hyphen)?\s*(\d+)/i)
-          if (match) {
-            setCurrentRow(parseInt(match[1]))
-            setCurrentPile(parseInt(match[2]))
-          }
+          const spoken = parseSpokenPileId(pileIdFormat, transcript)
+          if (spoken) applySpokenPileId(spoken)
         } else if (voiceTarget === 'notes') {
           setNotes(transcript)
         }
@@ -1581,7 +2812,7 @@ function QCInspectionForm({ project, rackingSystems, userId, darkMode, onSuccess
     
     window.addEventListener('keydown', handleKeyDown)
     return () => window.removeEventListener('keydown', handleKeyDown)
-  }, [mode, currentRow, currentPile, category, pileType])
+  }, [mode, currentRow, currentPile, idParts, category, pileType])
   
   // Undo last action
   const undoLast = () => {
@@ -1649,12 +2880,13 @@ function QCInspectionForm({ project, rackingSystems, userId, darkMode, onSuccess
                 className={`p-1.5 rounded ${darkMode ? 'bg-slate-700 text-slate-400' : 'bg-slate-100 text-slate-500'}`}>
                 <ChevronLeft className="w-4 h-4" />
               </button>
-              <span className={`text-sm ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>Row #{currentRow}</span>
+              <span className={`text-sm ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>{rowLabel} #{currentRow}</span>
               <button onClick={() => setCurrentRow(r => r + 1)}
                 className={`p-1.5 rounded ${darkMode ? 'bg-slate-700 text-slate-400' : 'bg-slate-100 text-slate-500'}`}>
                 <ChevronRightIcon className="w-4 h-4" />
               </button>
             </div>
+            <PileIdPartsInput format={pileIdFormat} parts={idParts} darkMode={darkMode} onChange={setIdParts} />
           </div>
           
           {/* Voice input for pile */}
@@ -1665,7 +2897,7 @@ function QCInspectionForm({ project, rackingSystems, userId, darkMode, onSuccess
                 : darkMode ? 'bg-slate-700 text-slate-300 hover:bg-slate-600' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'
             }`}>
             {isListening && voiceTarget === 'pile' ? <MicOff className="w-5 h-5" /> : <Mic className="w-5 h-5" />}
-            {isListening && voiceTarget === 'pile' ? 'Listening...' : 'Speak Pile ID (e.g., "35-22")'}
+            {isListening && voiceTarget === 'pile' ? 'Listening...' : `Speak Pile ID (e.g., "${pileIdExample(pileIdFormat)}")`}
           </button>
           
           {/* Category and pile type */}
@@ -1738,7 +2970,42 @@ function QCInspectionForm({ project, rackingSystems, userId, darkMode, onSuccess
           <h3 className={`font-semibold ${darkMode ? 'text-white' : 'text-slate-800'}`}>Batch Inspection</h3>
           <p className={`text-sm ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>Mark multiple piles at once - useful when inspecting rows</p>
           
-          <div className="grid grid-cols-2 gap-4">
+          <SamplingPlanPanel
+            project={project}
+            category={category}
+            darkMode={darkMode}
+            canManage={!!canManageSampling}
+            refreshKey={samplingRefresh}
+            onInspectLot={(lot, label) => setSample({
+              label,
+              pileIds: lot.remainingPileIds,
+              percentage: Math.round(lot.required / lot.lotSize * 1000) / 10
+            })}
+          />
+          
+          {batchPileIds?.length ? (
+            <div className={`flex items-center justify-between p-3 rounded-xl ${darkMode ? 'bg-violet-900/30 text-violet-200' : 'bg-violet-50 text-violet-800'}`}>
+              <span className="text-sm">
+                <strong>{batchPileIds.length}</strong> piles {sample ? `left in ${sample.label}` : 'selected on the site map'}
+              </span>
+              <button onClick={clearBatchSelection} className="text-sm underline">Use rows instead</button>
+            </div>
+          ) : layoutPiles && layoutPiles.length === 0 ? (
+            <div className={`p-3 rounded-xl text-sm ${darkMode ? 'bg-amber-900/30 text-amber-200' : 'bg-amber-50 text-amber-800'}`}>
+              This project has no pile layout yet. Generate or import one under Settings to inspect by row range, or select piles on the site map.
+            </div>
+          ) : (
+          <div className={`grid gap-4 ${layoutBlocks.length > 0 ? 'grid-cols-3' : 'grid-cols-2'}`}>
+            {layoutBlocks.length > 0 && (
+              <div>
+                <label className={`block text-sm font-medium mb-1 ${darkMode ? 'text-slate-300' : 'text-slate-700'}`}>Block</label>
+                <select value={batchBlock} onChange={(e) => setBatchBlock(e.target.value)}
+                  className={`w-full px-3 py-3 border rounded-xl text-lg ${darkMode ? 'bg-slate-700 border-slate-600 text-white' : 'border-slate-200'}`}>
+                  <option value="">All</option>
+                  {layoutBlocks.map(block => <option key={block} value={block}>{block}</option>)}
+                </select>
+              </div>
+            )}
             <div>
               <label className={`block text-sm font-medium mb-1 ${darkMode ? 'text-slate-300' : 'text-slate-700'}`}>From Row</label>
               <input type="number" value={batchStartRow} onChange={(e) => setBatchStartRow(parseInt(e.target.value) || 1)}
@@ -1750,6 +3017,7 @@ function QCInspectionForm({ project, rackingSystems, userId, darkMode, onSuccess
                 className={`w-full px-4 py-3 border rounded-xl text-lg ${darkMode ? 'bg-slate-700 border-slate-600 text-white' : 'border-slate-200'}`} />
             </div>
           </div>
+          )}
           
           <div className="grid grid-cols-2 gap-3">
             <div>
@@ -1771,13 +3039,38 @@ function QCInspectionForm({ project, rackingSystems, userId, darkMode, onSuccess
             </div>
           </div>
           
+          {flaggedPiles.length > 0 && (
+            <div className={`p-3 rounded-xl space-y-2 ${darkMode ? 'bg-amber-900/30' : 'bg-amber-50'}`}>
+              <p className={`text-sm font-medium ${darkMode ? 'text-amber-200' : 'text-amber-800'}`}>
+                {flaggedPiles.length} piles need their own result
+              </p>
+              <div className="space-y-1 max-h-48 overflow-y-auto">
+                {flaggedPiles.map(pile => (
+                  <div key={pile.pileId} className="flex items-center justify-between gap-2 text-sm">
+                    <span className={darkMode ? 'text-slate-200' : 'text-slate-700'}>
+                      <strong>{pile.pileId}</strong> • {pile.status === 'refused' ? 'open refusal' : 'failed inspection'}
+                    </span>
+                    <select value={overrides[pile.pileId] ?? 'skip'}
+                      onChange={(e) => setOverrides(current => ({ ...current, [pile.pileId]: e.target.value as 'pass' | 'fail' | 'skip' }))}
+                      className={`px-2 py-1 border rounded-lg text-sm ${darkMode ? 'bg-slate-700 border-slate-600 text-white' : 'border-slate-200 bg-white'}`}>
+                      <option value="skip">Skip</option>
+                      <option value="pass">Pass</option>
+                      <option value="fail">Fail</option>
+                    </select>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+          
           <div className={`p-4 rounded-xl ${darkMode ? 'bg-slate-700' : 'bg-slate-50'}`}>
             <p className={darkMode ? 'text-slate-300' : 'text-slate-700'}>
-              This will mark <strong>{(batchEndRow - batchStartRow + 1) * 10} piles</strong> as <strong>{batchStatus}</strong>
+              This will mark <strong>{batchTargets.length - flaggedPiles.length} piles</strong> as <strong>{batchStatus}</strong>
+              {flaggedPiles.length > 0 && <> and apply {flaggedPiles.length} per-pile results</>}
             </p>
           </div>
           
-          <button onClick={batchInspect} disabled={loading}
+          <button onClick={batchInspect} disabled={loading || batchTargets.length === 0}
             className={`w-full py-4 rounded-xl font-bold text-lg transition-all disabled:opacity-50 ${
               batchStatus === 'pass' 
                 ? 'bg-gradient-to-r from-green-500 to-green-600 text-white hover:from-green-600 hover:to-green-700'
@@ -1817,15 +3110,82 @@ function QCInspectionForm({ project, rackingSystems, userId, darkMode, onSuccess
           <div>
             <label className={`block text-sm font-medium mb-1 ${darkMode ? 'text-slate-300' : 'text-slate-700'}`}>Pile IDs (comma-separated)</label>
             <div className="flex gap-2">
-              <input type="text" value={pileIds} onChange={(e) => setPileIds(e.target.value)} placeholder="e.g., 35-22, 35-23, 35-24"
-                className={`flex-1 px-4 py-3 border rounded-xl ${darkMode ? 'bg-slate-700 border-slate-600 text-white' : 'border-slate-200'}`} />
+              <input type="text" value={pileIds} onChange={(e) => setPileIds(e.target.value)} placeholder={`e.g., ${pileIdExample(pileIdFormat)}`}
+                className={`flex-1 px-4 py-3 border rounded-xl ${pileIdErrors.length > 0 ? 'border-red-500' : darkMode ? 'border-slate-600' : 'border-slate-200'} ${darkMode ? 'bg-slate-700 text-white' : ''}`} />
               <button onClick={() => startVoiceInput('pile')}
                 className={`p-3 rounded-xl ${isListening && voiceTarget === 'pile' ? 'bg-red-500 text-white' : darkMode ? 'bg-slate-700 text-slate-300' : 'bg-slate-100 text-slate-600'}`}>
                 {isListening && voiceTarget === 'pile' ? <MicOff className="w-5 h-5" /> : <Mic className="w-5 h-5" />}
               </button>
             </div>
+            <PileIdErrors errors={pileIdErrors} darkMode={darkMode} />
           </div>
           
+          <InstrumentPanel darkMode={darkMode} target={readingTarget} onReading={applyReading} onLog={applyLog} />
+          
+          {/* Measurement grid - one row per pile, graded live against the racking profile */}
+          {detailedPileIds.length > 0 && (
+            <div>
+              <div className="flex items-center justify-between mb-1">
+                <label className={`text-sm font-medium ${darkMode ? 'text-slate-300' : 'text-slate-700'}`}>Measurements</label>
+                <span className={`text-xs ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>
+                  {toleranceProfile ? `${rackingSystem!.name} • ${pileType}` : `No ${pileType} tolerance profile - readings cannot be graded`}
+                </span>
+              </div>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className={darkMode ? 'text-slate-400' : 'text-slate-500'}>
+                      <th className="text-left font-medium py-1 pr-2">Pile</th>
+                      {measurementTypes.map(type => {
+                        const limits = measurementLimits(type)
+                        return (
+                          <th key={type} className="text-left font-medium py-1 px-1 whitespace-nowrap">
+                            <span className="capitalize">{type.replace('_', ' ')}</span>
+                            <span className="block text-xs font-normal">
+                              {limits ? `${limits.min} to ${limits.max} ${MEASUREMENTS[type].unit}` : 'No limit'}
+                            </span>
+                          </th>
+                        )
+                      })}
+                      <th />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {detailedPileIds.map(pileId => {
+                      const results = measurementTypes.map(type => readingPassed(type, readings[pileId]?.[type]))
+                      const rowStatus = results.includes(false) ? 'fail' : results.includes(true) ? 'pass' : null
+                      return (
+                        <tr key={pileId}>
+                          <td className={`py-1 pr-2 font-medium whitespace-nowrap ${darkMode ? 'text-white' : 'text-slate-800'}`}>{pileId}</td>
+                          {measurementTypes.map((type, index) => (
+                            <td key={type} className="py-1 px-1">
+                              <input type="number" step="any" inputMode="decimal" value={readings[pileId]?.[type] ?? ''}
+                                onChange={(e) => setReading(pileId, type, e.target.value)}
+                                onFocus={() => setActiveCell({ pileId, type })}
+                                disabled={!measurementLimits(type)}
+                                className={`w-20 px-2 py-1.5 border-2 rounded-lg disabled:opacity-40 ${darkMode ? 'bg-slate-700 text-white' : ''} ${
+                                  activeCell?.pileId === pileId && activeCell.type === type ? 'ring-2 ring-blue-400' : ''
+                                } ${
+                                  results[index] === true ? 'border-green-500' : results[index] === false ? 'border-red-500' : darkMode ? 'border-slate-600' : 'border-slate-200'
+                                }`} />
+                            </td>
+                          ))}
+                          <td className="py-1 pl-1">
+                            {rowStatus && (
+                              <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${rowStatus === 'pass' ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'}`}>
+                                {rowStatus}
+                              </span>
+                            )}
+                          </td>
+                        </tr>
+                      )
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+          
           <div>
             <label className={`block text-sm font-medium mb-1 ${darkMode ? 'text-slate-300' : 'text-slate-700'}`}>Area / Row</label>
             <input type="text" value={area} onChange={(e) => setArea(e.target.value)} placeholder="e.g., Row 15, Block A"
@@ -1844,54 +3204,25 @@ function QCInspectionForm({ project, rackingSystems, userId, darkMode, onSuccess
             </div>
           </div>
           
-          <div className="grid grid-cols-2 gap-4 pt-2">
-            <button onClick={async () => {
-              setLoading(true)
-              try {
-                await fetch('/api/inspections', {
-                  method: 'POST',
-                  headers: { 'Content-Type': 'application/json' },
-                  body: JSON.stringify({
-                    date: new Date().toISOString(),
-                    category, pileType,
-                    pileIds: pileIds ? JSON.stringify(pileIds.split(',').map(s => s.trim())) : null,
-                    area, status: 'pass', notes: notes || null,
-                    projectId: project.id, userId, items: []
-                  })
-                })
-                toast.success('Inspection saved!')
-                setPileIds(''); setNotes(''); setArea('')
-                onSuccess()
-              } catch { toast.error('Failed to save') }
-              finally { setLoading(false) }
-            }} disabled={loading}
-              className="py-4 rounded-xl font-bold bg-green-500 text-white hover:bg-green-600 disabled:opacity-50">
-              Pass
-            </button>
-            <button onClick={async () => {
-              setLoading(true)
-              try {
-                await fetch('/api/inspections', {
-                  method: 'POST',
-                  headers: { 'Content-Type': 'application/json' },
-                  body: JSON.stringify({
-                    date: new Date().toISOString(),
-                    category, pileType,
-                    pileIds: pileIds ? JSON.stringify(pileIds.split(',').map(s => s.trim())) : null,
-                    area, status: 'fail', notes: notes || null,
-                    projectId: project.id, userId, items: []
-                  })
-                })
-                toast.success('Inspection saved!')
-                setPileIds(''); setNotes(''); setArea('')
-                onSuccess()
-              } catch { toast.error('Failed to save') }
-              finally { setLoading(false) }
-            }} disabled={loading}
-              className="py-4 rounded-xl font-bold bg-red-500 text-white hover:bg-red-600 disabled:opacity-50">
-              Fail
+          {measuredStatus ? (
+            <button onClick={() => detailedInspect(measuredStatus)} disabled={loading || pileIdErrors.length > 0}
+              className={`w-full py-4 rounded-xl font-bold text-white disabled:opacity-50 ${
+                measuredStatus === 'pass' ? 'bg-green-500 hover:bg-green-600' : 'bg-red-500 hover:bg-red-600'
+              }`}>
+              {loading ? 'Saving...' : `Save ${measurementItems.length} Reading${measurementItems.length !== 1 ? 's' : ''} - ${measuredStatus.toUpperCase()}`}
             </button>
-          </div>
+          ) : (
+            <div className="grid grid-cols-2 gap-4 pt-2">
+              <button onClick={() => detailedInspect('pass')} disabled={loading || pileIdErrors.length > 0}
+                className="py-4 rounded-xl font-bold bg-green-500 text-white hover:bg-green-600 disabled:opacity-50">
+                Pass
+              </button>
+              <button onClick={() => detailedInspect('fail')} disabled={loading || pileIdErrors.length > 0}
+                className="py-4 rounded-xl font-bold bg-red-500 text-white hover:bg-red-600 disabled:opacity-50">
+                Fail
+              </button>
+            </div>
+          )}
         </div>
       )}
       
@@ -1911,8 +3242,9 @@ function QCInspectionForm({ project, rackingSystems, userId, darkMode, onSuccess
 }
 
 // Refusal Module Component - Redesigned for field use
-function RefusalModule({ project, userId, darkMode, onSuccess }: {
-  project: Project; userId: string; darkMode: boolean; onSuccess: () => void;
+function RefusalModule({ project, darkMode, canLog, canUpdate, canApprove, canEngineerApprove, onSuccess, onChanged }: {
+  project: Project; darkMode: boolean; canLog: boolean; canUpdate: boolean; canApprove: boolean; canEngineerApprove: boolean;
+  onSuccess: () => void; onChanged: () => void;
 }) {
   // Mode state
   const [mode, setMode] = useState<'quick' | 'detailed'>('quick')
@@ -1920,6 +3252,7 @@ function RefusalModule({ project, userId, darkMode, onSuccess }: {
   // Quick mode state
   const [currentRow, setCurrentRow] = useState(1)
   const [currentPile, setCurrentPile] = useState(1)
+  const [idParts, setIdParts] = useState<PileIdParts>({ block: 'A', inverter: 1, tracker: 1 })
   const [targetDepth, setTargetDepth] = useState('1800') // Remember from last entry
   const [achievedDepth, setAchievedDepth] = useState('')
   const [refusalReason, setRefusalReason] = useState('bedrock')
@@ -1937,38 +3270,51 @@ function RefusalModule({ project, userId, darkMode, onSuccess }: {
   const [loading, setLoading] = useState(false)
   const [showList, setShowList] = useState(true)
   const [selectedRefusal, setSelectedRefusal] = useState<PileRefusal | null>(null)
+  const [history, setHistory] = useState<RefusalHistory | null>(null)
+  const [boring, setBoring] = useState<BoringLog | null>(null)
+  
+  // Remediation step and engineer approval forms
+  const [step, setStep] = useState<RefusalTransitionRule | null>(null)
+  const [stepDate, setStepDate] = useState(format(new Date(), 'yyyy-MM-dd'))
+  const [stepMethod, setStepMethod] = useState('')
+  const [stepDepth, setStepDepth] = useState('')
+  const [stepOffset, setStepOffset] = useState('')
+  const [stepDirection, setStepDirection] = useState('')
+  const [stepReplacementId, setStepReplacementId] = useState('')
+  const [stepNotes, setStepNotes] = useState('')
+  const [stepPhotos, setStepPhotos] = useState<Photo[]>([])
+  const [approvalReference, setApprovalReference] = useState('')
+  const [approvalMethod, setApprovalMethod] = useState('')
+  const [approvalNotes, setApprovalNotes] = useState('')
+  const [saving, setSaving] = useState(false)
   
   // Photos for documentation
   const [photos, setPhotos] = useState<Photo[]>([])
   
   // Get pile ID format from project
-  const pileIdFormat = project.pileIdFormat || '{Row}-{Pile}'
+  const pileIdFormat = project.pileIdFormat || DEFAULT_PILE_ID_FORMAT
+  const rowLabel = rowStepToken(pileIdFormat)
   
-  // Generate current pile ID
-  const generatePileId = (row: number, pile: number) => {
-    return pileIdFormat
-      .replace('{Row}', String(row))
-      .replace('{Pile}', String(pile))
-      .replace('{Block}', 'A')
-  }
+  const currentPileId = stepperPileId(pileIdFormat, idParts, currentRow, currentPile)
   
-  const currentPileId = generatePileId(currentRow, currentPile)
+  // A spoken pile ID moves the steppers to it
+  const applySpokenPileId = (spoken: Required<PileIdComponents>) => {
+    const row = rowLabel === 'Tracker' ? spoken.tracker : spoken.row
+    if (row !== null) setCurrentRow(row)
+    if (spoken.pile !== null) setCurrentPile(spoken.pile)
+    setIdParts(parts => ({
+      block: spoken.block ?? parts.block,
+      inverter: spoken.inverter ?? parts.inverter,
+      tracker: rowLabel === 'Tracker' ? parts.tracker : spoken.tracker ?? parts.tracker,
+    }))
+  }
+  const pileIdError = pileId ? validatePileId(pileIdFormat, pileId) : null
   
   // Calculate shortfall
   const shortfall = targetDepth && achievedDepth 
     ? parseFloat(targetDepth) - parseFloat(achievedDepth) 
     : 0
   
-  // Refusal reasons with icons/emoji for quick recognition
-  const refusalReasons = [
-    { value: 'bedrock', label: 'Bedrock', emoji: '🪨', description: 'Hit solid rock' },
-    { value: 'cobble', label: 'Cobble', emoji: '🪨', description: 'Large rocks/boulders' },
-    { value: 'soft_soil', label: 'Soft Soil', emoji: '💧', description: 'Soil too soft/loose' },
-    { value: 'obstruction', label: 'Obstruction', emoji: '⚠️', description: 'Debris/underground object' },
-    { value: 'groundwater', label: 'Groundwater', emoji: '🌊', description: 'Water table reached' },
-    { value: 'other', label: 'Other', emoji: '❓', description: 'Other reason' }
-  ]
-  
   // Quick submit
   const quickSubmit = async () => {
     if (!achievedDepth) {
@@ -1977,23 +3323,15 @@ function RefusalModule({ project, userId, darkMode, onSuccess }: {
     }
     setLoading(true)
     try {
-      const response = await fetch('/api/refusals', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          pileId: currentPileId,
-          block: 'A',
-          row: String(currentRow),
-          pileNumber: String(currentPile),
-          dateDiscovered: new Date().toISOString(),
-          targetDepth: parseFloat(targetDepth),
-          achievedDepth: parseFloat(achievedDepth),
-          refusalReason,
-          refusalNotes: null,
-          projectId: project.id,
-          userId,
-          photos: photos.length > 0 ? JSON.stringify(photos) : null,
-        })
+      const response = await postOrQueue('refusal', '/api/refusals', {
+        pileId: currentPileId,
+        dateDiscovered: new Date().toISOString(),
+        targetDepth: parseFloat(targetDepth),
+        achievedDepth: parseFloat(achievedDepth),
+        refusalReason,
+        refusalNotes: null,
+        projectId: project.id,
+        photos: photos.length > 0 ? JSON.stringify(photos) : null,
       })
       
       if (response.ok) {
@@ -2019,21 +3357,20 @@ function RefusalModule({ project, userId, darkMode, onSuccess }: {
       toast.error('Fill required fields')
       return
     }
+    if (pileIdError) {
+      toast.error(pileIdError)
+      return
+    }
     setLoading(true)
     try {
-      const response = await fetch('/api/refusals', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          pileId,
-          dateDiscovered: new Date().toISOString(),
-          targetDepth: parseFloat(targetDepth),
-          achievedDepth: parseFloat(achievedDepth),
-          refusalReason,
-          refusalNotes: refusalNotes || null,
-          projectId: project.id,
-          userId
-        })
+      const response = await postOrQueue('refusal', '/api/refusals', {
+        pileId,
+        dateDiscovered: new Date().toISOString(),
+        targetDepth: parseFloat(targetDepth),
+        achievedDepth: parseFloat(achievedDepth),
+        refusalReason,
+        refusalNotes: refusalNotes || null,
+        projectId: project.id
       })
       
       if (response.ok) {
@@ -2052,19 +3389,121 @@ function RefusalModule({ project, userId, darkMode, onSuccess }: {
     }
   }
   
-  // Update refusal status
-  const updateRefusalStatus = async (refusalId: string, newStatus: string) => {
+  // Remediation history of the selected refusal
+  const fetchHistory = useCallback(async (refusalId: string) => {
     try {
-      await fetch('/api/refusals', {
-        method: 'PUT',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ id: refusalId, status: newStatus })
+      const response = await fetch(`/api/refusals?id=${refusalId}`, { cache: 'no-store' })
+      if (response.ok) {
+        const data = await response.json()
+        setHistory(data.refusal ? { transitions: data.refusal.transitions, approvals: data.refusal.approvals } : null)
+        setBoring(data.refusal?.boring ?? null)
+      }
+    } catch (error) {
+      console.error('Failed to fetch refusal history:', error)
+    }
+  }, [])
+  
+  useEffect(() => {
+    setHistory(null)
+    setBoring(null)
+    setStep(null)
+    if (selectedRefusal) fetchHistory(selectedRefusal.id)
+  }, [selectedRefusal?.id, fetchHistory])
+  
+  // Steps this user can take from the selected refusal's status
+  const allowedSteps = selectedRefusal
+    ? nextTransitions(selectedRefusal.status).filter(rule => rule.permission === 'refusal:approve' ? canApprove : canUpdate)
+    : []
+  
+  // The engineer's latest decision on the current plan
+  const plannedAt = history?.transitions.filter(t => t.toStatus === 'remediation_planned').slice(-1)[0]?.createdAt
+  const currentApproval = history?.approvals.filter(a => !plannedAt || a.createdAt >= plannedAt).slice(-1)[0]
+  
+  const openStep = (rule: RefusalTransitionRule) => {
+    setStep(rule)
+    setStepDate(format(new Date(), 'yyyy-MM-dd'))
+    setStepMethod(selectedRefusal?.remediationMethod || '')
+    setStepDepth('')
+    setStepOffset('')
+    setStepDirection('')
+    setStepReplacementId('')
+    setStepNotes('')
+    setStepPhotos([])
+  }
+  
+  const stepReady = step !== null && stepDate !== ''
+    && (!step.method || stepMethod.trim() !== '')
+    && (!step.notes || stepNotes.trim() !== '')
+    && (!step.photos || stepPhotos.length > 0)
+    && (!step.redriveDepth || parseFloat(stepDepth) > 0)
+    && (stepOffset === '' || (parseFloat(stepOffset) > 0 && stepDirection !== ''))
+  
+  // Record a remediation step with its evidence
+  const submitStep = async (refusal: PileRefusal) => {
+    if (!step) return
+    setSaving(true)
+    try {
+      const result = await putOrQueue('refusal', '/api/refusals', refusal.id, refusal.revision, {
+        status: step.to,
+        remediationDate: stepDate,
+        remediationMethod: step.method ? stepMethod : undefined,
+        redriveDepth: step.redriveDepth ? parseFloat(stepDepth) : undefined,
+        ...(step.offset && stepOffset !== '' ? {
+          offsetDistance: parseFloat(stepOffset),
+          offsetDirection: stepDirection,
+          replacementPileId: stepReplacementId.trim() || undefined,
+        } : {}),
+        notes: stepNotes || null,
+        photos: stepPhotos.length > 0 ? JSON.stringify(stepPhotos) : null,
       })
-      toast.success('Status updated')
+      if (result.conflict) {
+        toast.error('This refusal was changed by someone else - reloaded the latest version')
+      } else if (!result.ok) {
+        toast.error(result.error || 'Failed to update')
+        return
+      } else if (!result.queued) {
+        toast.success(`${refusal.pileId}: ${step.label}`)
+      }
       setSelectedRefusal(null)
-      onSuccess()
+      onChanged()
     } catch {
       toast.error('Failed to update')
+    } finally {
+      setSaving(false)
+    }
+  }
+  
+  // Engineer sign-off on the planned remediation
+  const submitApproval = async (refusal: PileRefusal, decision: 'approved' | 'rejected') => {
+    setSaving(true)
+    try {
+      const response = await fetch('/api/refusals/approvals', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          refusalId: refusal.id,
+          decision,
+          remediationMethod: approvalMethod || null,
+          reference: approvalReference || null,
+          notes: approvalNotes || null,
+        })
+      })
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to record approval')
+        return
+      }
+      toast.success(decision === 'approved' ? 'Remediation plan approved' : 'Remediation plan rejected')
+      setApprovalReference('')
+      setApprovalMethod('')
+      setApprovalNotes('')
+      setSelectedRefusal({ ...refusal, ...data.refusal })
+      fetchHistory(refusal.id)
+      onChanged()
+    } catch {
+      toast.error('Failed to record approval')
+    } finally {
+      setSaving(false)
     }
   }
   
@@ -2080,11 +3519,8 @@ function RefusalModule({ project, userId, darkMode, onSuccess }: {
         const transcript = event.results[0][0].transcript.toLowerCase()
         
         if (voiceTarget === 'pile') {
-          const match = transcript.match(/(\d+)\s*(?:dash|minus|hyphen)?\s*(\d+)/)
-          if (match) {
-            setCurrentRow(parseInt(match[1]))
-            setCurrentPile(parseInt(match[2]))
-          }
+          const spoken = parseSpokenPileId(pileIdFormat, transcript)
+          if (spoken) applySpokenPileId(spoken)
         } else if (voiceTarget === 'depth') {
           const num = transcript.match(/\d+/)
           if (num) setAchievedDepth(num[0])
@@ -2135,7 +3571,7 @@ function RefusalModule({ project, userId, darkMode, onSuccess }: {
     
     window.addEventListener('keydown', handleKeyDown)
     return () => window.removeEventListener('keydown', handleKeyDown)
-  }, [mode, currentRow, currentPile, achievedDepth, targetDepth, refusalReason, selectedRefusal])
+  }, [mode, currentRow, currentPile, idParts, achievedDepth, targetDepth, refusalReason, selectedRefusal])
   
   // Stats
   const openRefusals = project.refusals?.filter(r => r.status === 'open').length || 0
@@ -2156,22 +3592,24 @@ function RefusalModule({ project, userId, darkMode, onSuccess }: {
       </div>
       
       {/* Mode selector */}
-      <div className="grid grid-cols-2 gap-2">
-        {[
-          { id: 'quick', label: 'Quick Log', icon: Zap },
-          { id: 'detailed', label: 'Detailed', icon: FileText }
-        ].map(({ id, label, icon: Icon }) => (
-          <button key={id} onClick={() => setMode(id as any)}
-            className={`py-3 px-4 rounded-xl font-medium flex items-center justify-center gap-2 transition-all ${
-              mode === id ? 'bg-orange-500 text-white' : darkMode ? 'bg-slate-700 text-slate-300 hover:bg-slate-600' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'
-            }`}>
-            <Icon className="w-4 h-4" /> {label}
-          </button>
-        ))}
-      </div>
+      {canLog && (
+        <div className="grid grid-cols-2 gap-2">
+          {[
+            { id: 'quick', label: 'Quick Log', icon: Zap },
+            { id: 'detailed', label: 'Detailed', icon: FileText }
+          ].map(({ id, label, icon: Icon }) => (
+            <button key={id} onClick={() => setMode(id as any)}
+              className={`py-3 px-4 rounded-xl font-medium flex items-center justify-center gap-2 transition-all ${
+                mode === id ? 'bg-orange-500 text-white' : darkMode ? 'bg-slate-700 text-slate-300 hover:bg-slate-600' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'
+              }`}>
+              <Icon className="w-4 h-4" /> {label}
+            </button>
+          ))}
+        </div>
+      )}
       
       {/* QUICK MODE */}
-      {mode === 'quick' && !selectedRefusal && (
+      {canLog && mode === 'quick' && !selectedRefusal && (
         <div className={`rounded-2xl border p-4 lg:p-6 space-y-4 ${darkMode ? 'bg-slate-800 border-slate-700' : 'bg-white border-slate-200'}`}>
           {/* Current pile */}
           <div className="text-center">
@@ -2194,12 +3632,13 @@ function RefusalModule({ project, userId, darkMode, onSuccess }: {
                 className={`p-1.5 rounded ${darkMode ? 'bg-slate-700 text-slate-400' : 'bg-slate-100 text-slate-500'}`}>
                 <ChevronLeft className="w-4 h-4" />
               </button>
-              <span className={`text-sm ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>Row #{currentRow}</span>
+              <span className={`text-sm ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>{rowLabel} #{currentRow}</span>
               <button onClick={() => setCurrentRow(r => r + 1)}
                 className={`p-1.5 rounded ${darkMode ? 'bg-slate-700 text-slate-400' : 'bg-slate-100 text-slate-500'}`}>
                 <ChevronRightIcon className="w-4 h-4" />
               </button>
             </div>
+            <PileIdPartsInput format={pileIdFormat} parts={idParts} darkMode={darkMode} onChange={setIdParts} />
           </div>
           
           {/* Voice input for pile */}
@@ -2247,7 +3686,7 @@ function RefusalModule({ project, userId, darkMode, onSuccess }: {
           <div>
             <label className={`block text-sm font-medium mb-2 ${darkMode ? 'text-slate-300' : 'text-slate-700'}`}>Reason (tap to select)</label>
             <div className="grid grid-cols-3 gap-2">
-              {refusalReasons.slice(0, 6).map(reason => (
+              {REFUSAL_REASONS.slice(0, 6).map(reason => (
                 <button key={reason.value} onClick={() => setRefusalReason(reason.value)}
                   className={`py-4 px-2 rounded-xl font-medium flex flex-col items-center gap-1 transition-all ${
                     refusalReason === reason.value 
@@ -2286,20 +3725,21 @@ function RefusalModule({ project, userId, darkMode, onSuccess }: {
       )}
       
       {/* DETAILED MODE */}
-      {mode === 'detailed' && !selectedRefusal && (
+      {canLog && mode === 'detailed' && !selectedRefusal && (
         <div className={`rounded-2xl border p-4 lg:p-6 space-y-4 ${darkMode ? 'bg-slate-800 border-slate-700' : 'bg-white border-slate-200'}`}>
           <h3 className={`font-semibold ${darkMode ? 'text-white' : 'text-slate-800'}`}>Detailed Refusal Log</h3>
           
           <div>
             <label className={`block text-sm font-medium mb-1 ${darkMode ? 'text-slate-300' : 'text-slate-700'}`}>Pile ID *</label>
             <div className="flex gap-2">
-              <input type="text" value={pileId} onChange={(e) => setPileId(e.target.value)} placeholder="e.g., 35-22"
-                className={`flex-1 px-4 py-3 border rounded-xl ${darkMode ? 'bg-slate-700 border-slate-600 text-white' : 'border-slate-200'}`} />
+              <input type="text" value={pileId} onChange={(e) => setPileId(e.target.value)} placeholder={`e.g., ${pileIdExample(pileIdFormat)}`}
+                className={`flex-1 px-4 py-3 border rounded-xl ${pileIdError ? 'border-red-500' : darkMode ? 'border-slate-600' : 'border-slate-200'} ${darkMode ? 'bg-slate-700 text-white' : ''}`} />
               <button onClick={() => startVoiceInput('pile')}
                 className={`p-3 rounded-xl ${isListening && voiceTarget === 'pile' ? 'bg-red-500 text-white' : darkMode ? 'bg-slate-700 text-slate-300' : 'bg-slate-100 text-slate-600'}`}>
                 <Mic className="w-5 h-5" />
               </button>
             </div>
+            <PileIdErrors errors={pileIdError ? [pileIdError] : []} darkMode={darkMode} />
           </div>
           
           <div className="grid grid-cols-2 gap-4">
@@ -2319,7 +3759,7 @@ function RefusalModule({ project, userId, darkMode, onSuccess }: {
             <label className={`block text-sm font-medium mb-1 ${darkMode ? 'text-slate-300' : 'text-slate-700'}`}>Reason</label>
             <select value={refusalReason} onChange={(e) => setRefusalReason(e.target.value)}
               className={`w-full px-4 py-3 border rounded-xl ${darkMode ? 'bg-slate-700 border-slate-600 text-white' : 'border-slate-200'}`}>
-              {refusalReasons.map(r => <option key={r.value} value={r.value}>{r.emoji} {r.label}</option>)}
+              {REFUSAL_REASONS.map(r => <option key={r.value} value={r.value}>{r.emoji} {r.label}</option>)}
             </select>
           </div>
           
@@ -2374,27 +3814,205 @@ function RefusalModule({ project, userId, darkMode, onSuccess }: {
             </div>
           </div>
           
-          {/* Status update buttons */}
+          {(selectedRefusal.remediationMethod || selectedRefusal.engineerApproval || selectedRefusal.redriveDepth != null || selectedRefusal.replacementPile) && (
+            <div className={`p-4 rounded-xl space-y-1 text-sm ${darkMode ? 'bg-slate-700 text-slate-300' : 'bg-slate-50 text-slate-600'}`}>
+              {selectedRefusal.remediationMethod && <p><span className="font-medium">Method:</span> {selectedRefusal.remediationMethod}</p>}
+              {selectedRefusal.engineerApproval && <p><span className="font-medium">Approved by:</span> {selectedRefusal.engineerApproval}</p>}
+              {selectedRefusal.redriveDepth != null && <p><span className="font-medium">Re-driven to:</span> {selectedRefusal.redriveDepth}mm</p>}
+              {selectedRefusal.replacementPile && (
+                <p>
+                  <span className="font-medium">Replaced by:</span> {selectedRefusal.replacementPile.pileId}, {selectedRefusal.replacementPile.offsetDistance}mm {selectedRefusal.replacementPile.offsetDirection} • <span className="capitalize">{selectedRefusal.replacementPile.status}</span>
+                </p>
+              )}
+            </div>
+          )}
+          
+          {/* Ground at the nearest boring, with the layer the pile stopped in */}
+          {boring && (
+            <div className={`p-4 rounded-xl border space-y-3 ${darkMode ? 'border-slate-700' : 'border-slate-200'}`}>
+              <div>
+                <p className={`text-sm font-medium ${darkMode ? 'text-white' : 'text-slate-800'}`}>Nearest boring {boring.name}</p>
+                <p className={`text-xs ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>
+                  {[
+                    boring.refusalDepth != null ? `Refusal material at ${boring.refusalDepth}mm${boring.refusalMaterial ? ` (${boring.refusalMaterial})` : ''}` : null,
+                    boring.groundwaterDepth != null ? `groundwater at ${boring.groundwaterDepth}mm` : null,
+                  ].filter(Boolean).join(' • ') || `Logged to ${boring.totalDepth}mm`}
+                </p>
+              </div>
+              <StrataColumn strata={boring.strata} markDepth={selectedRefusal.achievedDepth} darkMode={darkMode} />
+            </div>
+          )}
+          
+          {/* Engineer approval of the planned remediation */}
+          {selectedRefusal.status === 'remediation_planned' && (
+            <div className={`p-4 rounded-xl border space-y-3 ${darkMode ? 'border-slate-700' : 'border-slate-200'}`}>
+              <p className={`text-sm font-medium ${
+                currentApproval?.decision === 'approved' ? 'text-green-600' :
+                currentApproval?.decision === 'rejected' ? 'text-red-600' :
+                'text-yellow-600'
+              }`}>
+                {currentApproval
+                  ? `Engineer ${currentApproval.decision}${currentApproval.engineerName ? ` - ${currentApproval.engineerName}` : ''}${currentApproval.notes ? `: ${currentApproval.notes}` : ''}`
+                  : 'Awaiting engineer approval before extraction'}
+              </p>
+              {canEngineerApprove && (
+                <>
+                  <input type="text" value={approvalMethod} onChange={(e) => setApprovalMethod(e.target.value)}
+                    placeholder={selectedRefusal.remediationMethod ? `Method (${selectedRefusal.remediationMethod})` : 'Approved method'}
+                    className={`w-full px-3 py-2 border rounded-lg text-sm ${darkMode ? 'bg-slate-700 border-slate-600 text-white' : 'border-slate-200'}`} />
+                  <input type="text" value={approvalReference} onChange={(e) => setApprovalReference(e.target.value)} placeholder="Approval reference (letter, RFI)"
+                    className={`w-full px-3 py-2 border rounded-lg text-sm ${darkMode ? 'bg-slate-700 border-slate-600 text-white' : 'border-slate-200'}`} />
+                  <textarea value={approvalNotes} onChange={(e) => setApprovalNotes(e.target.value)} rows={2} placeholder="Notes (required to reject)"
+                    className={`w-full px-3 py-2 border rounded-lg text-sm ${darkMode ? 'bg-slate-700 border-slate-600 text-white' : 'border-slate-200'}`} />
+                  <div className="grid grid-cols-2 gap-3">
+                    <button disabled={saving} onClick={() => submitApproval(selectedRefusal, 'approved')}
+                      className="py-3 rounded-xl font-bold bg-green-500 text-white hover:bg-green-600 disabled:opacity-50">
+                      Approve Plan
+                    </button>
+                    <button disabled={saving || !approvalNotes.trim()} onClick={() => submitApproval(selectedRefusal, 'rejected')}
+                      className="py-3 rounded-xl font-bold bg-red-500 text-white hover:bg-red-600 disabled:opacity-50">
+                      Reject Plan
+                    </button>
+                  </div>
+                </>
+              )}
+            </div>
+          )}
+          
+          {/* Next remediation steps */}
+          {allowedSteps.length > 0 && (
+            <div>
+              <label className={`block text-sm font-medium mb-2 ${darkMode ? 'text-slate-300' : 'text-slate-700'}`}>Next Step</label>
+              <div className="grid grid-cols-2 gap-2">
+                {allowedSteps.map(rule => (
+                  <button key={rule.to} onClick={() => step?.to === rule.to ? setStep(null) : openStep(rule)}
+                    className={`py-3 px-4 rounded-xl font-medium transition-all ${step?.to === rule.to ? 'ring-2 ring-orange-500 ' : ''}${
+                      rule.to === 'remediation_planned' ? 'bg-yellow-100 text-yellow-700 hover:bg-yellow-200' :
+                      rule.to === 'extracted' ? 'bg-blue-100 text-blue-700 hover:bg-blue-200' :
+                      rule.to === 'reinstalled' ? 'bg-purple-100 text-purple-700 hover:bg-purple-200' :
+                      rule.to === 'verified' ? 'bg-green-100 text-green-700 hover:bg-green-200' :
+                      'bg-red-100 text-red-700 hover:bg-red-200'
+                    }`}>
+                    {rule.label}
+                  </button>
+                ))}
+              </div>
+              
+              {step && (
+                <div className={`mt-3 pt-3 border-t space-y-3 ${darkMode ? 'border-slate-700' : 'border-slate-200'}`}>
+                  <label className={`flex items-center gap-2 text-sm ${darkMode ? 'text-slate-300' : 'text-slate-600'}`}>
+                    Date done
+                    <input type="date" value={stepDate} max={format(new Date(), 'yyyy-MM-dd')} onChange={(e) => setStepDate(e.target.value)}
+                      className={`px-3 py-2 border rounded-lg text-sm ${darkMode ? 'bg-slate-700 border-slate-600 text-white' : 'border-slate-200'}`} />
+                  </label>
+                  {step.method && (
+                    <input type="text" value={stepMethod} onChange={(e) => setStepMethod(e.target.value)} placeholder="Remediation method, e.g. pre-drill and re-drive"
+                      className={`w-full px-3 py-2 border rounded-lg text-sm ${darkMode ? 'bg-slate-700 border-slate-600 text-white' : 'border-slate-200'}`} />
+                  )}
+                  {step.redriveDepth && (
+                    <label className={`flex items-center gap-2 text-sm ${darkMode ? 'text-slate-300' : 'text-slate-600'}`}>
+                      Depth reached on re-drive
+                      <input type="number" inputMode="numeric" value={stepDepth} onChange={(e) => setStepDepth(e.target.value)}
+                        className={`w-28 px-3 py-2 border rounded-lg text-sm ${darkMode ? 'bg-slate-700 border-slate-600 text-white' : 'border-slate-200'}`} />
+                      mm of {selectedRefusal.targetDepth}mm
+                    </label>
+                  )}
+                  {/* A pile that can't go back in its own hole is a new pile beside it */}
+                  {step.offset && (
+                    <div className="space-y-2">
+                      <label className={`flex flex-wrap items-center gap-2 text-sm ${darkMode ? 'text-slate-300' : 'text-slate-600'}`}>
+                        Driven
+                        <input type="number" inputMode="numeric" value={stepOffset} onChange={(e) => setStepOffset(e.target.value)} placeholder="0"
+                          className={`w-24 px-3 py-2 border rounded-lg text-sm ${darkMode ? 'bg-slate-700 border-slate-600 text-white' : 'border-slate-200'}`} />
+                        mm
+                        <select value={stepDirection} onChange={(e) => setStepDirection(e.target.value)}
+                          className={`px-3 py-2 border rounded-lg text-sm ${darkMode ? 'bg-slate-700 border-slate-600 text-white' : 'border-slate-200'}`}>
+                          <option value="">Direction</option>
+                          {OFFSET_DIRECTIONS.map(direction => <option key={direction} value={direction}>{direction}</option>)}
+                        </select>
+                        of the original
+                      </label>
+                      {stepOffset !== '' && (
+                        <input type="text" value={stepReplacementId} onChange={(e) => setStepReplacementId(e.target.value)}
+                          placeholder="Replacement pile ID (blank for the next free R suffix)"
+                          className={`w-full px-3 py-2 border rounded-lg text-sm ${darkMode ? 'bg-slate-700 border-slate-600 text-white' : 'border-slate-200'}`} />
+                      )}
+                      <p className={`text-xs ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>
+                        Leave the offset blank when the pile went back in its own hole
+                      </p>
+                    </div>
+                  )}
+                  {step.photos && (
+                    <PhotoCapture
+                      photos={stepPhotos}
+                      onAddPhoto={(photo) => setStepPhotos(prev => [...prev, photo])}
+                      onRemovePhoto={(photoId) => setStepPhotos(prev => prev.filter(p => p.id !== photoId))}
+                      context={selectedRefusal.pileId}
+                      darkMode={darkMode}
+                    />
+                  )}
+                  <textarea value={stepNotes} onChange={(e) => setStepNotes(e.target.value)} rows={2}
+                    placeholder={step.notes ? 'Reason (required)' : 'Notes'}
+                    className={`w-full px-3 py-2 border rounded-lg text-sm ${darkMode ? 'bg-slate-700 border-slate-600 text-white' : 'border-slate-200'}`} />
+                  <button disabled={saving || !stepReady} onClick={() => submitStep(selectedRefusal)}
+                    className="w-full py-3 rounded-xl font-bold bg-orange-500 text-white hover:bg-orange-600 disabled:opacity-50">
+                    {saving ? 'Saving...' : step.photos && stepPhotos.length === 0 ? 'Add a photo of the work' : `Record: ${step.label}`}
+                  </button>
+                </div>
+              )}
+            </div>
+          )}
+          
+          {/* Remediation history */}
           <div>
-            <label className={`block text-sm font-medium mb-2 ${darkMode ? 'text-slate-300' : 'text-slate-700'}`}>Update Status</label>
-            <div className="grid grid-cols-2 gap-2">
-              {[
-                { status: 'remediation_planned', label: 'Plan Set', color: 'yellow' },
-                { status: 'extracted', label: 'Extracted', color: 'blue' },
-                { status: 'reinstalled', label: 'Reinstalled', color: 'purple' },
-                { status: 'verified', label: 'Verified OK', color: 'green' }
-              ].map(({ status, label, color }) => (
-                <button key={status} onClick={() => updateRefusalStatus(selectedRefusal.id, status)}
-                  className={`py-3 px-4 rounded-xl font-medium transition-all ${
-                    color === 'yellow' ? 'bg-yellow-100 text-yellow-700 hover:bg-yellow-200' :
-                    color === 'blue' ? 'bg-blue-100 text-blue-700 hover:bg-blue-200' :
-                    color === 'purple' ? 'bg-purple-100 text-purple-700 hover:bg-purple-200' :
-                    'bg-green-100 text-green-700 hover:bg-green-200'
+            <label className={`block text-sm font-medium mb-2 ${darkMode ? 'text-slate-300' : 'text-slate-700'}`}>History</label>
+            {!history ? (
+              <p className={`text-sm ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>Loading history...</p>
+            ) : history.transitions.length === 0 && history.approvals.length === 0 ? (
+              <p className={`text-sm ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>No remediation steps recorded yet</p>
+            ) : (
+              <div className="space-y-2">
+                {[
+                  ...history.transitions.map(t => ({ kind: 'step' as const, at: t.createdAt, step: t })),
+                  ...history.approvals.map(a => ({ kind: 'approval' as const, at: a.createdAt, approval: a })),
+                ].sort((a, b) => a.at.localeCompare(b.at)).map(entry => entry.kind === 'step' ? (
+                  <div key={entry.step.id} className={`p-3 rounded-xl text-sm ${darkMode ? 'bg-slate-700 text-slate-300' : 'bg-slate-50 text-slate-600'}`}>
+                    <p className={`font-medium capitalize ${darkMode ? 'text-white' : 'text-slate-800'}`}>
+                      {entry.step.fromStatus.replace('_', ' ')} → {entry.step.toStatus.replace('_', ' ')}
+                    </p>
+                    <p className="text-xs">
+                      {format(new Date(entry.step.effectiveDate), 'MMM d, yyyy')}{entry.step.userName ? ` • ${entry.step.userName}` : ''}
+                    </p>
+                    {entry.step.remediationMethod && <p>Method: {entry.step.remediationMethod}</p>}
+                    {entry.step.redriveDepth != null && <p>Re-driven to {entry.step.redriveDepth}mm</p>}
+                    {entry.step.replacementPileId && (
+                      <p>Replacement pile {entry.step.replacementPileId} driven {entry.step.offsetDistance}mm {entry.step.offsetDirection}</p>
+                    )}
+                    {entry.step.notes && <p>{entry.step.notes}</p>}
+                    {entry.step.photos.length > 0 && (
+                      <div className="flex gap-2 overflow-x-auto mt-2">
+                        {entry.step.photos.map(photo => (
+                          <img key={photo.id} src={photo.url} alt={photo.caption || 'Remediation'} className="w-16 h-16 object-cover rounded-lg" />
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                ) : (
+                  <div key={entry.approval.id} className={`p-3 rounded-xl text-sm ${
+                    entry.approval.decision === 'approved' ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'
                   }`}>
-                  {label}
-                </button>
-              ))}
-            </div>
+                    <p className="font-medium">
+                      Engineer {entry.approval.decision}{entry.approval.engineerName ? ` - ${entry.approval.engineerName}` : ''}
+                    </p>
+                    <p className="text-xs">
+                      {format(new Date(entry.approval.createdAt), 'MMM d, yyyy')}{entry.approval.reference ? ` • Ref ${entry.approval.reference}` : ''}
+                    </p>
+                    {entry.approval.remediationMethod && <p>Method: {entry.approval.remediationMethod}</p>}
+                    {entry.approval.notes && <p>{entry.approval.notes}</p>}
+                  </div>
+                ))}
+              </div>
+            )}
           </div>
         </div>
       )}
@@ -2422,6 +4040,11 @@ function RefusalModule({ project, userId, darkMode, onSuccess }: {
                       <p className={`text-sm ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>
                         {refusal.achievedDepth}mm achieved • <span className="text-red-500 font-medium">{shortfallVal}mm short</span>
                       </p>
+                      {refusal.replacementPile && (
+                        <p className={`text-sm ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>
+                          Replaced by {refusal.replacementPile.pileId} ({refusal.replacementPile.offsetDistance}mm {refusal.replacementPile.offsetDirection})
+                        </p>
+                      )}
                     </div>
                     <span className={`px-2 py-1 rounded-full text-xs font-medium ${
                       refusal.status === 'open' ? 'bg-red-100 text-red-700' :
@@ -2450,14 +4073,25 @@ function RefusalModule({ project, userId, darkMode, onSuccess }: {
 }
 
 // Analytics Dashboard Component with Heat Maps
-function AnalyticsDashboard({ project, darkMode }: {
+function AnalyticsDashboard({ project, darkMode, onStartBatchInspection }: {
   project: Project
   darkMode: boolean
+  onStartBatchInspection?: (pileIds: string[]) => void
 }) {
-  const [activeView, setActiveView] = useState<'overview' | 'piles' | 'modules' | 'trends'>('overview')
-  const [selectedCell, setSelectedCell] = useState<{row: number, pile: number, status: string} | null>(null)
+  const [activeView, setActiveView] = useState<'overview' | 'piles' | 'zones' | 'modules' | 'trends'>('overview')
+  const [selectedCell, setSelectedCell] = useState<HeatMapCell | null>(null)
   const [zoomLevel, setZoomLevel] = useState(1)
   const [visibleRowStart, setVisibleRowStart] = useState(1)
+  const [piles, setPiles] = useState<Pile[]>([])
+
+  // As-built pile registry - the heat map falls back to inspection history
+  // for projects that haven't generated one
+  useEffect(() => {
+    fetch(`/api/piles?projectId=${project.id}`, { cache: 'no-store' })
+      .then(response => response.ok ? response.json() : { piles: [] })
+      .then(data => setPiles(data.piles))
+      .catch(error => console.error('Failed to fetch piles:', error))
+  }, [project.id])
 
   // Calculate analytics from project data
   const productionEntries = project.productionEntries || []
@@ -2522,36 +4156,156 @@ function AnalyticsDashboard({ project, darkMode }: {
     return map
   }, [inspections, refusals])
 
-  // Extract row/pile numbers from pile IDs (format: Row-Pile)
-  const pileGrid = useMemo(() => {
-    const rows = new Map<number, Set<number>>()
-    
-    // From inspections
+  // Generate pile cells for heat map
+  const pileIdFormat = project.pileIdFormat || DEFAULT_PILE_ID_FORMAT
+  const generatePileCells = (row: PileIdComponents, maxPiles: number) => {
+    const cells: HeatMapCell[] = []
+    for (let p = 1; p <= maxPiles; p++) {
+      const pileId = formatPileId(pileIdFormat, { ...row, pile: p })
+      const data = pileStatusMap.get(pileId)
+      const status = data?.status || 'not_started'
+      cells.push({
+        pileId,
+        status,
+        date: data?.date,
+        inspector: data?.inspector
+      })
+    }
+    return cells
+  }
+
+  // Heat map rows. With a pile registry every pile is shown in its real
+  // lifecycle state; otherwise rows are inferred from inspected pile IDs,
+  // parsed with the project's ID format.
+  const heatRows = useMemo(() => {
+    if (piles.length > 0) {
+      const rows = new Map<string, HeatMapCell[]>()
+      piles.forEach(pile => {
+        const label = pile.block ? `${pile.block}-R${pile.row}` : `R${pile.row}`
+        const inspection = pileStatusMap.get(pile.pileId)
+        // Tell a failed inspection apart from one still awaiting rework
+        const status = pile.status === 'inspected' && inspection?.status === 'fail' ? 'fail' : pile.status
+        if (!rows.has(label)) rows.set(label, [])
+        rows.get(label)!.push({
+          pileId: pile.pileId,
+          status,
+          date: pile.inspectedAt || pile.drivenAt,
+          inspector: inspection?.inspector,
+          pileType: pile.pileType,
+        })
+      })
+      return Array.from(rows, ([label, cells]) => ({ label, cells }))
+    }
+
+    const rowLabel = (row: PileIdComponents) => [
+      row.block ?? (row.inverter ? `INV${row.inverter}` : null),
+      row.row ? `R${row.row}` : row.tracker ? `T${row.tracker}` : null,
+    ].filter(Boolean).join('-') || 'All'
+
+    // Rows 1-10 of a plain Row-Pile layout are shown before anything is inspected
+    const { tokens } = compilePileIdFormat(pileIdFormat)
+    const rows = new Map<string, { row: PileIdComponents; maxPile: number }>()
+    if (tokens.every(token => token === 'Row' || token === 'Pile')) {
+      for (let r = 1; r <= 10; r++) rows.set(rowLabel({ row: r }), { row: { row: r }, maxPile: 15 })
+    }
     pileStatusMap.forEach((_, pileId) => {
-      const match = pileId.match(/(\d+)-(\d+)/)
-      if (match) {
-        const row = parseInt(match[1])
-        const pile = parseInt(match[2])
-        if (!rows.has(row)) rows.set(row, new Set())
-        rows.get(row)!.add(pile)
-      }
+      const parsed = parsePileId(pileIdFormat, pileId)
+      if (!parsed) return
+      const row = { ...parsed, pile: null }
+      const label = rowLabel(row)
+      rows.set(label, { row, maxPile: Math.max(rows.get(label)?.maxPile ?? 15, parsed.pile ?? 0) })
     })
-
-    // From refusals
-    refusals.forEach(ref => {
-      const match = ref.pileId.match(/(\d+)-(\d+)/)
-      if (match) {
-        const row = parseInt(match[1])
-        const pile = parseInt(match[2])
-        if (!rows.has(row)) rows.set(row, new Set())
-        rows.get(row)!.add(pile)
+    return Array.from(rows.values())
+      .sort((a, b) => (a.row.block ?? '').localeCompare(b.row.block ?? '', undefined, { numeric: true })
+        || (a.row.inverter ?? 0) - (b.row.inverter ?? 0)
+        || (a.row.row ?? a.row.tracker ?? 0) - (b.row.row ?? b.row.tracker ?? 0))
+      .map(({ row, maxPile }) => ({ label: rowLabel(row), cells: generatePileCells(row, maxPile) }))
+  }, [piles, pileStatusMap, pileIdFormat])
+
+  const maxPilesPerRow = Math.max(...heatRows.map(row => row.cells.length), 1)
+
+  // Site map - piles at their surveyed positions, coloured like the heat map
+  const [pileMapMode, setPileMapMode] = useState<'grid' | 'map'>('grid')
+  const [lassoPileIds, setLassoPileIds] = useState<string[]>([])
+  const mapPoints = useMemo(() => {
+    const cells = new Map(heatRows.flatMap(row => row.cells).map(cell => [cell.pileId, cell]))
+    return piles
+      .filter(pile => pile.easting != null && pile.northing != null)
+      .map(pile => ({
+        pileId: pile.pileId,
+        block: pile.block,
+        x: pile.easting!,
+        y: pile.northing!,
+        status: cells.get(pile.pileId)?.status || pile.status,
+      }))
+  }, [piles, heatRows])
+  const showMap = pileMapMode === 'map' && mapPoints.length > 0
+  const lassoSet = useMemo(() => new Set(lassoPileIds), [lassoPileIds])
+
+  // Refusal clusters and the predicted refusal risk of undriven piles.
+  // Refusals missing from the registry are placed by parsing their IDs.
+  const [selectedClusterId, setSelectedClusterId] = useState<number | null>(null)
+  const zones = useMemo(() => {
+    if (activeView !== 'zones') return null
+    return refusalZones(
+      piles.map(pile => ({
+        pileId: pile.pileId,
+        block: pile.block ?? null,
+        row: pile.row,
+        pileNumber: pile.pileNumber,
+        x: pile.easting ?? null,
+        y: pile.northing ?? null,
+        status: pile.status,
+      })),
+      refusals,
+      pileId => {
+        const parsed = parsePileId(pileIdFormat, pileId)
+        const row = parsed?.row ?? parsed?.tracker
+        if (!parsed || row == null || parsed.pile == null) return null
+        return { block: parsed.block ?? (parsed.inverter != null ? `INV${parsed.inverter}` : null), row, pileNumber: parsed.pile }
+      }
+    )
+  }, [activeView, piles, refusals, pileIdFormat])
+  const selectedCluster = zones?.clusters.find(cluster => cluster.id === selectedClusterId) ?? null
+  const clusterPileSet = useMemo(() => new Set(selectedCluster?.pileIds ?? []), [selectedCluster])
+  const riskPoints = useMemo(() => {
+    if (!zones || zones.mode !== 'coordinates') return []
+    return piles.map(pile => {
+      const risk = zones.pileRisk.get(pile.pileId)
+      return {
+        pileId: pile.pileId,
+        block: pile.block,
+        x: pile.easting!,
+        y: pile.northing!,
+        status: risk === undefined ? (pile.status === 'refused' ? 'refused' : 'driven') : `risk_${riskBand(risk, zones.baseRate)}`,
       }
     })
+  }, [zones, piles])
+  const clusterOf = (pileId: string) => zones?.clusters.find(cluster => cluster.pileIds.includes(pileId))?.id ?? null
+
+  // Inspection and refusal history of the selected pile. A replacement pile
+  // shows the refusal of the pile it replaces.
+  const selectedPile = selectedCell ? piles.find(pile => pile.pileId === selectedCell.pileId) : undefined
+  const selectedHistory = useMemo(() => {
+    if (!selectedCell) return null
+    return {
+      inspections: inspections
+        .filter(insp => {
+          try {
+            return insp.pileIds ? (JSON.parse(insp.pileIds) as string[]).includes(selectedCell.pileId) : false
+          } catch {
+            return false
+          }
+        })
+        .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()),
+      refusals: refusals.filter(ref => ref.pileId === selectedCell.pileId || ref.replacementPile?.pileId === selectedCell.pileId),
+    }
+  }, [selectedCell, inspections, refusals])
 
-    // Also include from production if we track by pile
-    
-    return { maxRow: Math.max(...Array.from(rows.keys()), 10), rows }
-  }, [pileStatusMap, refusals])
+  const selectPile = (pileId: string) => {
+    const cell = heatRows.flatMap(row => row.cells).find(c => c.pileId === pileId)
+    setSelectedCell(cell || { pileId, status: 'planned' })
+  }
 
   // Production trend data (last 14 days)
   const productionTrend = useMemo(() => {
@@ -2590,35 +4344,19 @@ function AnalyticsDashboard({ project, darkMode }: {
       case 'refusal': return 'bg-orange-500'
       case 'pending': return 'bg-yellow-400'
       case 'installed': return 'bg-blue-500'
+      case 'accepted': return 'bg-green-500'
+      case 'refused': return 'bg-orange-500'
+      case 'inspected': return 'bg-yellow-400'
+      case 'driven': return 'bg-blue-500'
       default: return 'bg-slate-300 dark:bg-slate-600'
     }
   }
 
-  // Generate pile cells for heat map
-  const generatePileCells = (rowNum: number, maxPiles: number) => {
-    const cells = []
-    for (let p = 1; p <= maxPiles; p++) {
-      const pileId = `${rowNum}-${p}`
-      const data = pileStatusMap.get(pileId)
-      const status = data?.status || 'not_started'
-      cells.push({
-        pileId,
-        row: rowNum,
-        pile: p,
-        status,
-        date: data?.date,
-        inspector: data?.inspector
-      })
-    }
-    return cells
-  }
 
   // Visible rows for virtualization
   const rowsPerPage = Math.ceil(20 / zoomLevel)
-  const visibleRows = []
-  for (let r = visibleRowStart; r < visibleRowStart + rowsPerPage && r <= pileGrid.maxRow; r++) {
-    visibleRows.push(r)
-  }
+  const totalRows = heatRows.length
+  const visibleRows = heatRows.slice(visibleRowStart - 1, visibleRowStart - 1 + rowsPerPage)
 
   return (
     <div className="p-4 lg:p-6 space-y-6">
@@ -2632,6 +4370,7 @@ function AnalyticsDashboard({ project, darkMode }: {
           {[
             { id: 'overview', label: 'Overview', icon: BarChart3 },
             { id: 'piles', label: 'Pile Map', icon: Grid3X3 },
+            { id: 'zones', label: 'Refusal Zones', icon: Target },
             { id: 'modules', label: 'Module Map', icon: Sun },
             { id: 'trends', label: 'Trends', icon: TrendingUp }
           ].map(({ id, label, icon: Icon }) => (
@@ -2803,41 +4542,51 @@ function AnalyticsDashboard({ project, darkMode }: {
               <div className="flex flex-wrap items-center gap-4">
                 <span className={`text-sm font-medium ${darkMode ? 'text-white' : 'text-slate-800'}`}>Legend:</span>
                 <div className="flex flex-wrap gap-3">
-                  <div className="flex items-center gap-1.5">
-                    <div className="w-4 h-4 rounded bg-slate-300 dark:bg-slate-600" />
-                    <span className={`text-xs ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>Not Started</span>
-                  </div>
-                  <div className="flex items-center gap-1.5">
-                    <div className="w-4 h-4 rounded bg-green-500" />
-                    <span className={`text-xs ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>Passed</span>
-                  </div>
-                  <div className="flex items-center gap-1.5">
-                    <div className="w-4 h-4 rounded bg-red-500" />
-                    <span className={`text-xs ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>Failed</span>
-                  </div>
-                  <div className="flex items-center gap-1.5">
-                    <div className="w-4 h-4 rounded bg-orange-500" />
-                    <span className={`text-xs ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>Refusal</span>
-                  </div>
-                  <div className="flex items-center gap-1.5">
-                    <div className="w-4 h-4 rounded bg-yellow-400" />
-                    <span className={`text-xs ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>Pending</span>
-                  </div>
+                  {(piles.length > 0
+                    ? [['planned', 'Planned'], ['driven', 'Driven'], ['inspected', 'Inspected'], ['fail', 'Failed QC'], ['accepted', 'Accepted'], ['refused', 'Refused']]
+                    : [['not_started', 'Not Started'], ['pass', 'Passed'], ['fail', 'Failed'], ['refusal', 'Refusal'], ['pending', 'Pending']]
+                  ).map(([status, label]) => (
+                    <div key={status} className="flex items-center gap-1.5">
+                      <div className={`w-4 h-4 rounded ${getStatusColor(status)}`} />
+                      <span className={`text-xs ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>{label}</span>
+                    </div>
+                  ))}
                 </div>
               </div>
               <div className="flex items-center gap-2">
-                <span className={`text-xs ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>Zoom:</span>
-                <button onClick={() => setZoomLevel(z => Math.max(0.5, z - 0.25))} 
-                  className={`w-8 h-8 rounded ${darkMode ? 'bg-slate-700 text-slate-300' : 'bg-slate-100 text-slate-600'}`}>−</button>
-                <span className={`text-sm w-12 text-center ${darkMode ? 'text-white' : 'text-slate-800'}`}>{zoomLevel.toFixed(2)}x</span>
-                <button onClick={() => setZoomLevel(z => Math.min(2, z + 0.25))}
-                  className={`w-8 h-8 rounded ${darkMode ? 'bg-slate-700 text-slate-300' : 'bg-slate-100 text-slate-600'}`}>+</button>
+                {mapPoints.length > 0 && (
+                  <div className={`flex rounded-lg p-0.5 mr-2 ${darkMode ? 'bg-slate-700' : 'bg-slate-100'}`}>
+                    {([['grid', 'Grid'], ['map', 'Site Map']] as const).map(([mode, label]) => (
+                      <button key={mode} onClick={() => setPileMapMode(mode)}
+                        className={`px-2 py-1 rounded-md text-xs font-medium ${
+                          pileMapMode === mode ? 'bg-orange-500 text-white' : darkMode ? 'text-slate-300' : 'text-slate-600'
+                        }`}>
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                )}
+                {!showMap && (
+                  <>
+                    <span className={`text-xs ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>Zoom:</span>
+                    <button onClick={() => setZoomLevel(z => Math.max(0.5, z - 0.25))} 
+                      className={`w-8 h-8 rounded ${darkMode ? 'bg-slate-700 text-slate-300' : 'bg-slate-100 text-slate-600'}`}>−</button>
+                    <span className={`text-sm w-12 text-center ${darkMode ? 'text-white' : 'text-slate-800'}`}>{zoomLevel.toFixed(2)}x</span>
+                    <button onClick={() => setZoomLevel(z => Math.min(2, z + 0.25))}
+                      className={`w-8 h-8 rounded ${darkMode ? 'bg-slate-700 text-slate-300' : 'bg-slate-100 text-slate-600'}`}>+</button>
+                  </>
+                )}
               </div>
             </div>
           </div>
 
           {/* Stats Bar */}
           <div className={`rounded-xl p-3 flex flex-wrap gap-4 justify-center ${darkMode ? 'bg-slate-800' : 'bg-slate-50'}`}>
+            {piles.length > 0 && (
+              <span className={`text-sm ${darkMode ? 'text-slate-300' : 'text-slate-600'}`}>
+                <strong className="text-blue-500">{piles.filter(p => p.status !== 'planned').length}</strong> of {piles.length} driven
+              </span>
+            )}
             <span className={`text-sm ${darkMode ? 'text-slate-300' : 'text-slate-600'}`}>
               <strong className={darkMode ? 'text-white' : 'text-slate-800'}>{totalInspections}</strong> inspected
             </span>
@@ -2852,69 +4601,97 @@ function AnalyticsDashboard({ project, darkMode }: {
             </span>
           </div>
 
+          {/* Site Map */}
+          {showMap && (
+            <div className={`rounded-2xl border p-4 space-y-3 ${darkMode ? 'bg-slate-800 border-slate-700' : 'bg-white border-slate-200'}`}>
+              <SiteMap
+                points={mapPoints}
+                darkMode={darkMode}
+                selectedPileId={selectedCell?.pileId}
+                highlighted={lassoSet}
+                onSelect={selectPile}
+                onLasso={onStartBatchInspection ? setLassoPileIds : undefined}
+              />
+              {lassoPileIds.length > 0 && onStartBatchInspection && (
+                <div className={`flex flex-wrap items-center justify-between gap-3 p-3 rounded-xl ${darkMode ? 'bg-violet-900/30' : 'bg-violet-50'}`}>
+                  <span className={`text-sm ${darkMode ? 'text-violet-200' : 'text-violet-800'}`}>
+                    <strong>{lassoPileIds.length}</strong> piles selected
+                  </span>
+                  <div className="flex gap-2">
+                    <button onClick={() => setLassoPileIds([])}
+                      className={`px-3 py-2 rounded-lg text-sm ${darkMode ? 'bg-slate-700 text-slate-300' : 'bg-white text-slate-600 border border-slate-200'}`}>
+                      Clear
+                    </button>
+                    <button onClick={() => onStartBatchInspection(lassoPileIds)}
+                      className="px-3 py-2 rounded-lg text-sm font-medium bg-violet-600 text-white hover:bg-violet-700 flex items-center gap-1.5">
+                      <CheckCircle className="w-4 h-4" />
+                      Start Batch QC
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+
           {/* Heat Map Grid */}
-          <div className={`rounded-2xl border p-4 overflow-x-auto ${darkMode ? 'bg-slate-800 border-slate-700' : 'bg-white border-slate-200'}`}>
-            <div className="min-w-max">
-              {/* Pile numbers header */}
-              <div className="flex mb-1 ml-12">
-                {Array.from({ length: 15 }, (_, i) => (
-                  <div key={i} className="w-6 text-center text-xs text-slate-400">{i + 1}</div>
-                ))}
-              </div>
+          {!showMap && (
+            <div className={`rounded-2xl border p-4 overflow-x-auto ${darkMode ? 'bg-slate-800 border-slate-700' : 'bg-white border-slate-200'}`}>
+              <div className="min-w-max">
+                {/* Pile numbers header */}
+                <div className="flex mb-1 ml-12">
+                  {Array.from({ length: maxPilesPerRow }, (_, i) => (
+                    <div key={i} className="w-6 text-center text-xs text-slate-400">{i + 1}</div>
+                  ))}
+                </div>
               
-              {/* Rows */}
-              {visibleRows.map(rowNum => {
-                const cells = generatePileCells(rowNum, 15)
-                return (
-                  <div key={rowNum} className="flex items-center mb-1">
-                    <div className={`w-10 text-right pr-2 text-xs font-medium ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>
-                      R{rowNum}
-                    </div>
-                    <div className="flex gap-0.5">
-                      {cells.map(cell => (
-                        <button
-                          key={cell.pileId}
-                          onClick={() => setSelectedCell(cell)}
-                          className={`${
-                            cell.status === 'pass' ? 'bg-green-500' :
-                            cell.status === 'fail' ? 'bg-red-500' :
-                            cell.status === 'refusal' ? 'bg-orange-500' :
-                            cell.status === 'pending' ? 'bg-yellow-400' :
-                            'bg-slate-300 dark:bg-slate-600'
-                          } rounded-sm transition-all hover:ring-2 hover:ring-blue-400 hover:ring-offset-1`}
-                          style={{ 
-                            width: `${24 * zoomLevel}px`, 
-                            height: `${24 * zoomLevel}px`
-                          }}
-                        />
-                      ))}
+                {/* Rows */}
+                {visibleRows.map(({ label, cells }) => {
+                  return (
+                    <div key={label} className="flex items-center mb-1">
+                      <div className={`w-10 text-right pr-2 text-xs font-medium ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>
+                        {label}
+                      </div>
+                      <div className="flex gap-0.5">
+                        {cells.map(cell => (
+                          <button
+                            key={cell.pileId}
+                            onClick={() => setSelectedCell(cell)}
+                            title={cell.pileId}
+                            className={`${getStatusColor(cell.status)} rounded-sm transition-all hover:ring-2 hover:ring-blue-400 hover:ring-offset-1`}
+                            style={{ 
+                              width: `${24 * zoomLevel}px`, 
+                              height: `${24 * zoomLevel}px`
+                            }}
+                          />
+                        ))}
+                      </div>
                     </div>
-                  </div>
-                )
-              })}
-            </div>
+                  )
+                })}
+              </div>
 
-            {/* Navigation */}
-            <div className="flex justify-center gap-2 mt-4">
-              <button 
-                onClick={() => setVisibleRowStart(r => Math.max(1, r - rowsPerPage))}
-                disabled={visibleRowStart === 1}
-                className={`px-4 py-2 rounded-lg ${darkMode ? 'bg-slate-700 text-slate-300 disabled:opacity-50' : 'bg-slate-100 text-slate-600 disabled:opacity-50'}`}
-              >
-                ← Previous
-              </button>
-              <span className={`px-4 py-2 ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>
-                Rows {visibleRowStart}-{Math.min(visibleRowStart + rowsPerPage - 1, pileGrid.maxRow)} of {pileGrid.maxRow}
-              </span>
-              <button 
-                onClick={() => setVisibleRowStart(r => Math.min(pileGrid.maxRow - rowsPerPage + 1, r + rowsPerPage))}
-                disabled={visibleRowStart + rowsPerPage > pileGrid.maxRow}
-                className={`px-4 py-2 rounded-lg ${darkMode ? 'bg-slate-700 text-slate-300 disabled:opacity-50' : 'bg-slate-100 text-slate-600 disabled:opacity-50'}`}
-              >
-                Next →
-              </button>
+              {/* Navigation */}
+              <div className="flex justify-center gap-2 mt-4">
+                <button 
+                  onClick={() => setVisibleRowStart(r => Math.max(1, r - rowsPerPage))}
+                  disabled={visibleRowStart === 1}
+                  className={`px-4 py-2 rounded-lg ${darkMode ? 'bg-slate-700 text-slate-300 disabled:opacity-50' : 'bg-slate-100 text-slate-600 disabled:opacity-50'}`}
+                >
+                  ← Previous
+                </button>
+                <span className={`px-4 py-2 ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>
+                  Rows {visibleRowStart}-{Math.min(visibleRowStart + rowsPerPage - 1, totalRows)} of {totalRows}
+                </span>
+                <button 
+                  onClick={() => setVisibleRowStart(r => Math.min(totalRows - rowsPerPage + 1, r + rowsPerPage))}
+                  disabled={visibleRowStart + rowsPerPage > totalRows}
+                  className={`px-4 py-2 rounded-lg ${darkMode ? 'bg-slate-700 text-slate-300 disabled:opacity-50' : 'bg-slate-100 text-slate-600 disabled:opacity-50'}`}
+                >
+                  Next →
+                </button>
+              </div>
             </div>
-          </div>
+          )}
 
           {/* Selected Cell Details */}
           {selectedCell && (
@@ -2951,7 +4728,57 @@ function AnalyticsDashboard({ project, darkMode }: {
                     <p className={`font-medium ${darkMode ? 'text-white' : 'text-slate-800'}`}>{selectedCell.inspector}</p>
                   </div>
                 )}
+                {selectedCell.pileType && (
+                  <div>
+                    <span className={`text-xs ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>Pile Type</span>
+                    <p className={`font-medium capitalize ${darkMode ? 'text-white' : 'text-slate-800'}`}>{selectedCell.pileType}</p>
+                  </div>
+                )}
+                {selectedPile?.offsetDistance != null && (
+                  <div>
+                    <span className={`text-xs ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>Replaces</span>
+                    <p className={`font-medium ${darkMode ? 'text-white' : 'text-slate-800'}`}>
+                      {selectedPile.replacementFor?.map(ref => ref.pileId).join(', ') || 'Refused pile'} • {selectedPile.offsetDistance}mm {selectedPile.offsetDirection}
+                    </p>
+                  </div>
+                )}
               </div>
+
+              {/* History */}
+              {selectedHistory && (selectedHistory.inspections.length > 0 || selectedHistory.refusals.length > 0) && (
+                <div className={`mt-4 pt-4 border-t space-y-2 ${darkMode ? 'border-slate-700' : 'border-slate-200'}`}>
+                  <span className={`text-xs ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>History</span>
+                  {selectedHistory.refusals.map(ref => (
+                    <div key={ref.id} className="flex items-center justify-between text-sm">
+                      <span className="flex items-center gap-2">
+                        <Ban className="w-4 h-4 text-orange-500" />
+                        <span className={darkMode ? 'text-slate-300' : 'text-slate-700'}>
+                          {ref.pileId === selectedCell.pileId ? 'Refusal' : `Refusal of ${ref.pileId}`} at {ref.achievedDepth}mm of {ref.targetDepth}mm • <span className="capitalize">{ref.refusalReason.replace('_', ' ')}</span>
+                          {ref.pileId === selectedCell.pileId && ref.replacementPile && ` • replaced by ${ref.replacementPile.pileId}`}
+                        </span>
+                      </span>
+                      <span className={`capitalize ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>
+                        {ref.status.replace('_', ' ')} • {format(new Date(ref.dateDiscovered), 'MMM d')}
+                      </span>
+                    </div>
+                  ))}
+                  {selectedHistory.inspections.map(insp => (
+                    <div key={insp.id} className="flex items-center justify-between text-sm">
+                      <span className="flex items-center gap-2">
+                        {insp.status === 'pass' ? <CheckCircle className="w-4 h-4 text-green-500" />
+                          : insp.status === 'fail' ? <XCircle className="w-4 h-4 text-red-500" />
+                          : <Clock className="w-4 h-4 text-yellow-500" />}
+                        <span className={`capitalize ${darkMode ? 'text-slate-300' : 'text-slate-700'}`}>
+                          {insp.category} inspection{insp.scope === 'batch' ? ' (batch)' : ''}
+                        </span>
+                      </span>
+                      <span className={darkMode ? 'text-slate-400' : 'text-slate-500'}>
+                        {insp.user?.name ? `${insp.user.name} • ` : ''}{format(new Date(insp.date), 'MMM d')}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
             </div>
           )}
         </div>
@@ -3063,33 +4890,132 @@ function AnalyticsDashboard({ project, darkMode }: {
       )}
 
       {/* TRENDS TAB */}
-      {activeView === 'trends' && (
+      {/* REFUSAL ZONES TAB */}
+      {activeView === 'zones' && zones && (
         <div className="space-y-6">
-          {/* Weekly Production */}
-          <div className={`rounded-2xl border p-4 lg:p-6 ${darkMode ? 'bg-slate-800 border-slate-700' : 'bg-white border-slate-200'}`}>
-            <h3 className={`font-semibold mb-4 ${darkMode ? 'text-white' : 'text-slate-800'}`}>Production vs Target</h3>
-            <div className="h-64">
-              <ResponsiveContainer width="100%" height="100%">
-                <LineChart data={productionTrend}>
-                  <CartesianGrid strokeDasharray="3 3" stroke={darkMode ? '#334155' : '#e2e8f0'} />
-                  <XAxis dataKey="date" tick={{ fontSize: 11 }} stroke={darkMode ? '#64748b' : '#94a3b8'} />
-                  <YAxis tick={{ fontSize: 11 }} stroke={darkMode ? '#64748b' : '#94a3b8'} />
-                  <Tooltip contentStyle={{ backgroundColor: darkMode ? '#1e293b' : 'white', border: `1px solid ${darkMode ? '#334155' : '#e2e8f0'}`, borderRadius: '8px' }} />
-                  <Legend />
-                  <Line type="monotone" dataKey="piles" stroke="#3b82f6" strokeWidth={2} name="Piles" dot={false} />
-                  <Line type="monotone" dataKey="modules" stroke="#f97316" strokeWidth={2} name="Modules" dot={false} />
-                  <Line type="monotone" dataKey="inspections" stroke="#10b981" strokeWidth={2} name="Inspections" dot={false} />
-                </LineChart>
-              </ResponsiveContainer>
+          <div className={`rounded-2xl border p-4 lg:p-6 space-y-3 ${darkMode ? 'bg-slate-800 border-slate-700' : 'bg-white border-slate-200'}`}>
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <h3 className={`font-semibold ${darkMode ? 'text-white' : 'text-slate-800'}`}>Refusal Clusters</h3>
+              <span className={`text-sm ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>
+                {zones.mode === 'coordinates' ? 'By surveyed position' : 'By row and pile number'} • {totalRefusals} refusals
+              </span>
             </div>
+            {zones.clusters.length === 0 ? (
+              <p className={`text-center py-6 ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>
+                No clusters - refusals so far are isolated
+              </p>
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                {zones.clusters.map(cluster => (
+                  <button key={cluster.id} onClick={() => setSelectedClusterId(selectedClusterId === cluster.id ? null : cluster.id)}
+                    className={`p-3 rounded-xl text-left transition-all ${
+                      selectedClusterId === cluster.id ? 'ring-2 ring-orange-500 ' : ''
+                    }${darkMode ? 'bg-slate-700 hover:bg-slate-600' : 'bg-slate-50 hover:bg-slate-100'}`}>
+                    <div className="flex items-start justify-between gap-2">
+                      <div>
+                        <p className={`font-medium ${darkMode ? 'text-white' : 'text-slate-800'}`}>Zone {cluster.id} • {cluster.pileIds.length} refusals</p>
+                        <p className={`text-xs ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>
+                          {cluster.blocks.length > 0 && `Block ${cluster.blocks.join(', ')} • `}
+                          Rows {cluster.rows[0]}{cluster.rows[1] !== cluster.rows[0] ? `-${cluster.rows[1]}` : ''} •
+                          Piles {cluster.piles[0]}{cluster.piles[1] !== cluster.piles[0] ? `-${cluster.piles[1]}` : ''}
+                        </p>
+                      </div>
+                      <span className="px-2 py-0.5 rounded-full text-xs font-medium capitalize bg-orange-100 text-orange-700">
+                        {cluster.reason.replace('_', ' ')}
+                      </span>
+                    </div>
+                    <p className="text-sm mt-2 text-red-500 font-medium">
+                      {cluster.avgShortfall}mm average shortfall <span className={`font-normal ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>(max {cluster.maxShortfall}mm)</span>
+                    </p>
+                    {selectedClusterId === cluster.id && (
+                      <p className={`text-xs mt-2 ${darkMode ? 'text-slate-300' : 'text-slate-600'}`}>{cluster.pileIds.join(', ')}</p>
+                    )}
+                  </button>
+                ))}
+              </div>
+            )}
           </div>
 
-          {/* Daily Averages */}
-          <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
-            <div className={`rounded-xl p-4 ${darkMode ? 'bg-slate-800' : 'bg-white border border-slate-200'}`}>
-              <p className={`text-sm ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>Avg Daily Piles</p>
-              <p className={`text-2xl font-bold ${darkMode ? 'text-white' : 'text-slate-800'}`}>{avgDailyPiles.toFixed(1)}</p>
-              <p className={`text-xs mt-1 ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>last 14 days</p>
+          <div className={`rounded-2xl border p-4 lg:p-6 space-y-3 ${darkMode ? 'bg-slate-800 border-slate-700' : 'bg-white border-slate-200'}`}>
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <h3 className={`font-semibold ${darkMode ? 'text-white' : 'text-slate-800'}`}>Refusal Risk - Undriven Rows</h3>
+              <span className={`text-sm ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>
+                Project rate {(zones.baseRate * 100).toFixed(1)}% of driven piles
+              </span>
+            </div>
+            <p className={`text-xs ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>
+              Interpolated from nearby driven piles. High is {RISK_BAND_RATIOS.high}× the project rate, elevated {RISK_BAND_RATIOS.elevated}×.
+            </p>
+
+            {riskPoints.length > 0 && (
+              <SiteMap
+                points={riskPoints}
+                darkMode={darkMode}
+                highlighted={clusterPileSet}
+                onSelect={(pileId) => setSelectedClusterId(clusterOf(pileId))}
+              />
+            )}
+
+            {zones.rows.length === 0 ? (
+              <p className={`text-center py-6 ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>
+                {piles.length === 0 ? 'Generate the pile registry to predict refusal risk for undriven rows' : 'Every pile has been driven'}
+              </p>
+            ) : (
+              <div className="space-y-2">
+                {zones.rows.slice(0, 20).map(row => (
+                  <div key={`${row.block ?? ''}-${row.row}`} className="flex items-center gap-3">
+                    <span className={`w-20 text-sm font-medium shrink-0 ${darkMode ? 'text-slate-300' : 'text-slate-700'}`}>
+                      {row.block ? `${row.block}-R${row.row}` : `R${row.row}`}
+                    </span>
+                    <div className={`flex-1 h-3 rounded-full overflow-hidden ${darkMode ? 'bg-slate-700' : 'bg-slate-100'}`}>
+                      <div className={`h-full ${row.band === 'high' ? 'bg-red-600' : row.band === 'elevated' ? 'bg-amber-400' : 'bg-slate-400'}`}
+                        style={{ width: `${Math.min(row.maxRisk * 100, 100)}%` }} />
+                    </div>
+                    <span className={`w-56 text-xs shrink-0 ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>
+                      {(row.maxRisk * 100).toFixed(0)}% peak • ~{row.expectedRefusals.toFixed(1)} of {row.undrivenPileIds.length} piles
+                    </span>
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-medium capitalize shrink-0 ${
+                      row.band === 'high' ? 'bg-red-100 text-red-700' :
+                      row.band === 'elevated' ? 'bg-amber-100 text-amber-700' :
+                      'bg-slate-100 text-slate-600'
+                    }`}>
+                      {row.band}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      {activeView === 'trends' && (
+        <div className="space-y-6">
+          {/* Weekly Production */}
+          <div className={`rounded-2xl border p-4 lg:p-6 ${darkMode ? 'bg-slate-800 border-slate-700' : 'bg-white border-slate-200'}`}>
+            <h3 className={`font-semibold mb-4 ${darkMode ? 'text-white' : 'text-slate-800'}`}>Production vs Target</h3>
+            <div className="h-64">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={productionTrend}>
+                  <CartesianGrid strokeDasharray="3 3" stroke={darkMode ? '#334155' : '#e2e8f0'} />
+                  <XAxis dataKey="date" tick={{ fontSize: 11 }} stroke={darkMode ? '#64748b' : '#94a3b8'} />
+                  <YAxis tick={{ fontSize: 11 }} stroke={darkMode ? '#64748b' : '#94a3b8'} />
+                  <Tooltip contentStyle={{ backgroundColor: darkMode ? '#1e293b' : 'white', border: `1px solid ${darkMode ? '#334155' : '#e2e8f0'}`, borderRadius: '8px' }} />
+                  <Legend />
+                  <Line type="monotone" dataKey="piles" stroke="#3b82f6" strokeWidth={2} name="Piles" dot={false} />
+                  <Line type="monotone" dataKey="modules" stroke="#f97316" strokeWidth={2} name="Modules" dot={false} />
+                  <Line type="monotone" dataKey="inspections" stroke="#10b981" strokeWidth={2} name="Inspections" dot={false} />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+
+          {/* Daily Averages */}
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+            <div className={`rounded-xl p-4 ${darkMode ? 'bg-slate-800' : 'bg-white border border-slate-200'}`}>
+              <p className={`text-sm ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>Avg Daily Piles</p>
+              <p className={`text-2xl font-bold ${darkMode ? 'text-white' : 'text-slate-800'}`}>{avgDailyPiles.toFixed(1)}</p>
+              <p className={`text-xs mt-1 ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>last 14 days</p>
             </div>
             <div className={`rounded-xl p-4 ${darkMode ? 'bg-slate-800' : 'bg-white border border-slate-200'}`}>
               <p className={`text-sm ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>Avg Daily Modules</p>
@@ -3131,6 +5057,308 @@ function AnalyticsDashboard({ project, darkMode }: {
   )
 }
 
+// Canvas equivalents of the heat map's getStatusColor
+const SITE_MAP_COLORS: Record<string, string> = {
+  planned: '#cbd5e1',
+  driven: '#3b82f6',
+  inspected: '#facc15',
+  fail: '#ef4444',
+  accepted: '#22c55e',
+  refused: '#f97316',
+  // Refusal risk overlay
+  risk_high: '#dc2626',
+  risk_elevated: '#fbbf24',
+  risk_low: '#cbd5e1',
+}
+const SITE_MAP_ISSUES = ['fail', 'refused']
+
+function pointInPolygon(x: number, y: number, polygon: [number, number][]) {
+  let inside = false
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const [xi, yi] = polygon[i]
+    const [xj, yj] = polygon[j]
+    if ((yi > y) !== (yj > y) && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) inside = !inside
+  }
+  return inside
+}
+
+// Site Map Component - pannable, zoomable canvas of piles at their surveyed
+// positions. Drawn on a canvas rather than as DOM nodes so that sites with
+// tens of thousands of piles stay responsive.
+function SiteMap({ points, darkMode, selectedPileId, highlighted, onSelect, onLasso }: {
+  points: SiteMapPoint[]
+  darkMode: boolean
+  selectedPileId?: string | null
+  highlighted?: Set<string>
+  onSelect: (pileId: string) => void
+  onLasso?: (pileIds: string[]) => void
+}) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const dragRef = useRef<{ x: number; y: number; moved: boolean } | null>(null)
+  const [width, setWidth] = useState(0)
+  const height = 520
+  // screen = (world - min) * scale + offset, with y flipped so north is up.
+  // Null, or a view of a previous set of piles, means framing the whole site.
+  const [pannedView, setView] = useState<{ extent: object; scale: number; x: number; y: number } | null>(null)
+  const [tool, setTool] = useState<'pan' | 'lasso'>('pan')
+  const [lasso, setLasso] = useState<[number, number][]>([])
+
+  const extent = useMemo(() => {
+    // Plain loop - spreading tens of thousands of values into Math.min overflows the stack
+    let minX = Infinity, maxX = -Infinity, minY = Infinity, maxY = -Infinity
+    points.forEach(p => {
+      minX = Math.min(minX, p.x); maxX = Math.max(maxX, p.x)
+      minY = Math.min(minY, p.y); maxY = Math.max(maxY, p.y)
+    })
+    const spanX = Math.max(maxX - minX, 1)
+    const spanY = Math.max(maxY - minY, 1)
+    // Typical distance between neighbouring piles, for sizing the dots
+    const spacing = Math.sqrt((spanX * spanY) / Math.max(points.length, 1))
+    return { minX, minY, spanX, spanY, spacing }
+  }, [points])
+
+  const blocks = useMemo(() => {
+    const boxes = new Map<string, { minX: number; maxX: number; minY: number; maxY: number }>()
+    points.forEach(p => {
+      if (!p.block) return
+      const box = boxes.get(p.block)
+      if (!box) boxes.set(p.block, { minX: p.x, maxX: p.x, minY: p.y, maxY: p.y })
+      else {
+        box.minX = Math.min(box.minX, p.x); box.maxX = Math.max(box.maxX, p.x)
+        box.minY = Math.min(box.minY, p.y); box.maxY = Math.max(box.maxY, p.y)
+      }
+    })
+    return Array.from(boxes, ([block, box]) => ({ block, ...box }))
+  }, [points])
+
+  const fitScale = width > 0 ? Math.min(width / extent.spanX, height / extent.spanY) * 0.9 : 1
+  const view = pannedView?.extent === extent ? pannedView : {
+    extent,
+    scale: fitScale,
+    x: (width - extent.spanX * fitScale) / 2,
+    y: height - (height - extent.spanY * fitScale) / 2,
+  }
+
+  // Track the container width
+  useEffect(() => {
+    const container = containerRef.current
+    if (!container) return
+    const observer = new ResizeObserver(entries => setWidth(entries[0].contentRect.width))
+    observer.observe(container)
+    return () => observer.disconnect()
+  }, [])
+
+  const toScreen = (p: { x: number; y: number }): [number, number] =>
+    [(p.x - extent.minX) * view.scale + view.x, view.y - (p.y - extent.minY) * view.scale]
+
+  const radius = Math.min(Math.max(extent.spacing * view.scale * 0.35, 1.5), 24)
+
+  // Draw
+  useEffect(() => {
+    const canvas = canvasRef.current
+    const ctx = canvas?.getContext('2d')
+    if (!canvas || !ctx || width === 0) return
+
+    const dpr = window.devicePixelRatio || 1
+    canvas.width = width * dpr
+    canvas.height = height * dpr
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0)
+    ctx.clearRect(0, 0, width, height)
+
+    // Block outlines
+    ctx.setLineDash([6, 4])
+    ctx.lineWidth = 1
+    ctx.strokeStyle = darkMode ? '#475569' : '#94a3b8'
+    ctx.fillStyle = darkMode ? '#94a3b8' : '#64748b'
+    ctx.font = '12px sans-serif'
+    blocks.forEach(box => {
+      const [left, top] = toScreen({ x: box.minX, y: box.maxY })
+      const [right, bottom] = toScreen({ x: box.maxX, y: box.minY })
+      const pad = radius + 6
+      ctx.strokeRect(left - pad, top - pad, right - left + pad * 2, bottom - top + pad * 2)
+      ctx.fillText(`Block ${box.block}`, left - pad, top - pad - 4)
+    })
+    ctx.setLineDash([])
+
+    // Piles, one path per colour. Small dots are drawn as squares, which is
+    // much cheaper and looks the same at that size.
+    const paths = new Map<string, Path2D>()
+    const issues = new Path2D()
+    const marked = new Path2D()
+    points.forEach(p => {
+      const [sx, sy] = toScreen(p)
+      if (sx < -radius || sx > width + radius || sy < -radius || sy > height + radius) return
+      const color = SITE_MAP_COLORS[p.status] || SITE_MAP_COLORS.planned
+      if (!paths.has(color)) paths.set(color, new Path2D())
+      const path = paths.get(color)!
+      if (radius < 3) {
+        path.rect(sx - radius, sy - radius, radius * 2, radius * 2)
+      } else {
+        path.moveTo(sx + radius, sy)
+        path.arc(sx, sy, radius, 0, Math.PI * 2)
+      }
+      if (SITE_MAP_ISSUES.includes(p.status)) {
+        issues.moveTo(sx + radius + 2, sy)
+        issues.arc(sx, sy, radius + 2, 0, Math.PI * 2)
+      }
+      if (highlighted?.has(p.pileId)) {
+        marked.moveTo(sx + radius + 3, sy)
+        marked.arc(sx, sy, radius + 3, 0, Math.PI * 2)
+      }
+    })
+    paths.forEach((path, color) => {
+      ctx.fillStyle = color
+      ctx.fill(path)
+    })
+    ctx.lineWidth = 1.5
+    ctx.strokeStyle = '#dc2626'
+    ctx.stroke(issues)
+    ctx.strokeStyle = '#8b5cf6'
+    ctx.stroke(marked)
+
+    const selected = selectedPileId ? points.find(p => p.pileId === selectedPileId) : undefined
+    if (selected) {
+      const [sx, sy] = toScreen(selected)
+      ctx.lineWidth = 2.5
+      ctx.strokeStyle = darkMode ? '#ffffff' : '#0f172a'
+      ctx.beginPath()
+      ctx.arc(sx, sy, radius + 5, 0, Math.PI * 2)
+      ctx.stroke()
+    }
+
+    if (lasso.length > 1) {
+      ctx.lineWidth = 1.5
+      ctx.strokeStyle = '#8b5cf6'
+      ctx.fillStyle = 'rgba(139, 92, 246, 0.12)'
+      ctx.beginPath()
+      lasso.forEach(([x, y], i) => (i === 0 ? ctx.moveTo(x, y) : ctx.lineTo(x, y)))
+      ctx.closePath()
+      ctx.fill()
+      ctx.stroke()
+    }
+  })
+
+  const zoomAt = (factor: number, sx: number, sy: number) => {
+    const scale = Math.min(Math.max(view.scale * factor, fitScale / 4), fitScale * 400)
+    const applied = scale / view.scale
+    setView({ extent, scale, x: sx - (sx - view.x) * applied, y: sy - (sy - view.y) * applied })
+  }
+
+  // Wheel zoom needs a non-passive listener to stop the page scrolling
+  useEffect(() => {
+    const canvas = canvasRef.current
+    if (!canvas) return
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault()
+      const rect = canvas.getBoundingClientRect()
+      zoomAt(e.deltaY < 0 ? 1.2 : 1 / 1.2, e.clientX - rect.left, e.clientY - rect.top)
+    }
+    canvas.addEventListener('wheel', handleWheel, { passive: false })
+    return () => canvas.removeEventListener('wheel', handleWheel)
+  })
+
+  const localPoint = (e: React.PointerEvent<HTMLCanvasElement>): [number, number] => {
+    const rect = e.currentTarget.getBoundingClientRect()
+    return [e.clientX - rect.left, e.clientY - rect.top]
+  }
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId)
+    const [x, y] = localPoint(e)
+    if (tool === 'lasso') setLasso([[x, y]])
+    else dragRef.current = { x, y, moved: false }
+  }
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const [x, y] = localPoint(e)
+    if (tool === 'lasso') {
+      if (lasso.length === 0) return
+      const [lastX, lastY] = lasso[lasso.length - 1]
+      if (Math.hypot(x - lastX, y - lastY) > 4) setLasso(l => [...l, [x, y]])
+      return
+    }
+    const drag = dragRef.current
+    if (!drag) return
+    const dx = x - drag.x, dy = y - drag.y
+    if (!drag.moved && Math.hypot(dx, dy) < 4) return
+    dragRef.current = { x, y, moved: true }
+    setView({ ...view, x: view.x + dx, y: view.y + dy })
+  }
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (tool === 'lasso') {
+      if (lasso.length > 2 && onLasso) {
+        const inside = points.filter(p => {
+          const [sx, sy] = toScreen(p)
+          return pointInPolygon(sx, sy, lasso)
+        })
+        onLasso(inside.map(p => p.pileId))
+      }
+      setLasso([])
+      setTool('pan')
+      return
+    }
+
+    const drag = dragRef.current
+    dragRef.current = null
+    if (!drag || drag.moved) return
+
+    // A click without a drag picks the nearest pile under the pointer
+    const [x, y] = localPoint(e)
+    let nearest: SiteMapPoint | null = null
+    let best = (radius + 4) ** 2
+    for (const p of points) {
+      const [sx, sy] = toScreen(p)
+      const distance = (sx - x) ** 2 + (sy - y) ** 2
+      if (distance <= best) {
+        best = distance
+        nearest = p
+      }
+    }
+    if (nearest) onSelect(nearest.pileId)
+  }
+
+  const toolButton = (active: boolean) => `p-2 rounded-lg ${
+    active ? 'bg-orange-500 text-white' : darkMode ? 'bg-slate-700 text-slate-300 hover:bg-slate-600' : 'bg-white text-slate-600 hover:bg-slate-100 border border-slate-200'
+  }`
+
+  return (
+    <div ref={containerRef} className="relative">
+      <canvas
+        ref={canvasRef}
+        style={{ width: '100%', height: `${height}px`, touchAction: 'none' }}
+        className={`rounded-xl ${tool === 'lasso' ? 'cursor-crosshair' : 'cursor-grab active:cursor-grabbing'} ${darkMode ? 'bg-slate-900' : 'bg-slate-50'}`}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+      />
+      <div className="absolute top-3 right-3 flex flex-col gap-2">
+        <button onClick={() => setTool('pan')} title="Pan" className={toolButton(tool === 'pan')}>
+          <Hand className="w-4 h-4" />
+        </button>
+        {onLasso && (
+          <button onClick={() => setTool('lasso')} title="Lasso select" className={toolButton(tool === 'lasso')}>
+            <LassoSelect className="w-4 h-4" />
+          </button>
+        )}
+        <button onClick={() => zoomAt(1.5, width / 2, height / 2)} title="Zoom in" className={toolButton(false)}>
+          <ZoomIn className="w-4 h-4" />
+        </button>
+        <button onClick={() => zoomAt(1 / 1.5, width / 2, height / 2)} title="Zoom out" className={toolButton(false)}>
+          <ZoomOut className="w-4 h-4" />
+        </button>
+        <button onClick={() => setView(null)} title="Fit site" className={toolButton(false)}>
+          <Maximize2 className="w-4 h-4" />
+        </button>
+      </div>
+      <p className={`absolute bottom-3 left-3 text-xs ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>
+        {points.length.toLocaleString()} piles • ringed piles failed QC or were refused
+      </p>
+    </div>
+  )
+}
+
 // Reports View Component
 function ReportsView({ project, darkMode, reportType, setReportType, reportDate, setReportDate,
   reportWeekStart, setReportWeekStart, reportMonth, setReportMonth, includeQC, setIncludeQC }: {
@@ -3270,6 +5498,28 @@ function ReportsView({ project, darkMode, reportType, setReportType, reportDate,
   )
 }
 
+// Pile ID Format Input Component - free-form template with presets, a live example and errors
+function PileIdFormatInput({ value, darkMode, compact, onChange }: {
+  value: string; darkMode: boolean; compact?: boolean; onChange: (value: string) => void;
+}) {
+  const errors = validatePileIdFormat(value)
+  return (
+    <div>
+      <input type="text" list="pile-id-format-presets" value={value} onChange={(e) => onChange(e.target.value)} placeholder={DEFAULT_PILE_ID_FORMAT}
+        className={`w-full ${compact ? 'px-3 py-2' : 'px-4 py-2.5'} border rounded-xl font-mono focus:outline-none focus:ring-2 focus:ring-orange-500 ${errors.length > 0 ? 'border-red-500' : darkMode ? 'border-slate-600' : 'border-slate-200'} ${darkMode ? 'bg-slate-700 text-white' : ''}`} />
+      <datalist id="pile-id-format-presets">
+        {PILE_ID_FORMAT_PRESETS.map(preset => <option key={preset} value={preset}>{pileIdExample(preset)}</option>)}
+      </datalist>
+      {errors.length > 0 ? (
+        <PileIdErrors errors={errors} darkMode={darkMode} />
+      ) : (
+        <p className={`text-xs mt-1 ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>e.g. {pileIdExample(value)}</p>
+      )}
+      <p className={`text-xs mt-0.5 ${darkMode ? 'text-slate-500' : 'text-slate-400'}`}>{'{Block} {Row} {Pile} {Inverter} {Tracker}, {Pile:3} pads to 3 digits'}</p>
+    </div>
+  )
+}
+
 // New Project Form Component
 function NewProjectForm({ company, darkMode, onSuccess, onCancel }: {
   company: Company; darkMode: boolean; onSuccess: () => void; onCancel: () => void;
@@ -3285,7 +5535,7 @@ function NewProjectForm({ company, darkMode, onSuccess, onCancel }: {
   const [plannedPilesPerDay, setPlannedPilesPerDay] = useState('')
   const [plannedRackingPerDay, setPlannedRackingPerDay] = useState('')
   const [plannedModulesPerDay, setPlannedModulesPerDay] = useState('')
-  const [pileIdFormat, setPileIdFormat] = useState('{Row}-{Pile}')
+  const [pileIdFormat, setPileIdFormat] = useState(DEFAULT_PILE_ID_FORMAT)
   const [rackingSystemId, setRackingSystemId] = useState('')
   const [loading, setLoading] = useState(false)
 
@@ -3294,6 +5544,10 @@ function NewProjectForm({ company, darkMode, onSuccess, onCancel }: {
       toast.error('Please fill in required fields')
       return
     }
+    if (validatePileIdFormat(pileIdFormat).length > 0) {
+      toast.error('Fix the pile ID format')
+      return
+    }
     setLoading(true)
     try {
       const response = await fetch('/api/projects', {
@@ -3314,7 +5568,10 @@ function NewProjectForm({ company, darkMode, onSuccess, onCancel }: {
         })
       })
       if (response.ok) { onSuccess() }
-      else { toast.error('Failed to create project') }
+      else {
+        const data = await response.json().catch(() => null)
+        toast.error(data?.error || 'Failed to create project')
+      }
     } catch { toast.error('Failed to create project') }
     finally { setLoading(false) }
   }
@@ -3400,12 +5657,7 @@ function NewProjectForm({ company, darkMode, onSuccess, onCancel }: {
         <div className="grid grid-cols-2 gap-4">
           <div>
             <label className={`block text-sm font-medium mb-1 ${darkMode ? 'text-slate-300' : 'text-slate-700'}`}>Pile ID Format</label>
-            <select value={pileIdFormat} onChange={(e) => setPileIdFormat(e.target.value)}
-              className={`w-full px-4 py-2.5 border rounded-xl focus:outline-none focus:ring-2 focus:ring-orange-500 ${darkMode ? 'bg-slate-700 border-slate-600 text-white' : 'border-slate-200'}`}>
-              <option value="{Row}-{Pile}">Row-Pile (e.g., 35-22)</option>
-              <option value="{Block}-{Row}-{Pile}">Block-Row-Pile (e.g., N1-35-22)</option>
-              <option value="{Pile}">Sequential (e.g., P-001)</option>
-            </select>
+            <PileIdFormatInput value={pileIdFormat} darkMode={darkMode} onChange={setPileIdFormat} />
           </div>
           <div>
             <label className={`block text-sm font-medium mb-1 ${darkMode ? 'text-slate-300' : 'text-slate-700'}`}>Racking System</label>
@@ -3431,87 +5683,2039 @@ function NewProjectForm({ company, darkMode, onSuccess, onCancel }: {
   )
 }
 
-// Settings View Component
-function SettingsView({ company, user, darkMode, onUpdate }: {
-  company: Company; user: User | null; darkMode: boolean; onUpdate: () => void;
+// Punch List Component - QC issues by project, category, assignee and age, worked through to verification
+function PunchListView({ company, project, darkMode, canAssign, canCorrect, canVerify, onChanged }: {
+  company: Company; project: Project | null; darkMode: boolean;
+  canAssign: boolean; canCorrect: boolean; canVerify: boolean; onChanged: () => void;
 }) {
+  const [issues, setIssues] = useState<QCIssue[]>([])
+  const [loading, setLoading] = useState(true)
+  const [projectId, setProjectId] = useState(project?.id || '')
+  const [category, setCategory] = useState('')
+  const [pileId, setPileId] = useState('')
+  const [status, setStatus] = useState('open,corrected')
+  const [assignee, setAssignee] = useState('')
+  const [minAgeDays, setMinAgeDays] = useState('')
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+  const [photos, setPhotos] = useState<Photo[]>([])
+  const [notes, setNotes] = useState('')
+  const [reading, setReading] = useState('')
+  const [savingId, setSavingId] = useState<string | null>(null)
+
+  const fetchIssues = useCallback(async () => {
+    const [assignedToType, assignedToId] = assignee.split(':')
+    const params = new URLSearchParams(Object.entries({ projectId, category, pileId, status, assignedToType, assignedToId, minAgeDays })
+      .filter(([, value]) => value) as [string, string][])
+    try {
+      const response = await fetch(`/api/qc-issues?${params}`, { cache: 'no-store' })
+      if (response.ok) {
+        const data = await response.json()
+        setIssues(data.issues)
+      }
+    } catch (error) {
+      console.error('Failed to fetch QC issues:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [projectId, category, pileId, status, assignee, minAgeDays])
+
+  useEffect(() => {
+    fetchIssues()
+  }, [fetchIssues])
+
+  const toggleExpanded = (issueId: string) => {
+    setExpandedId(id => id === issueId ? null : issueId)
+    setPhotos([])
+    setNotes('')
+    setReading('')
+  }
+
+  const updateIssue = async (issue: QCIssue, body: Record<string, unknown>, success: string) => {
+    setSavingId(issue.id)
+    try {
+      const response = await fetch('/api/qc-issues', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id: issue.id, ...body })
+      })
+      const data = await response.json().catch(() => null)
+      if (!response.ok) {
+        toast.error(data?.error || 'Failed to update issue')
+        return
+      }
+      toast.success(success)
+      setExpandedId(null)
+      setPhotos([])
+      setNotes('')
+      setReading('')
+      fetchIssues()
+      onChanged()
+    } catch {
+      toast.error('Failed to update issue')
+    } finally {
+      setSavingId(null)
+    }
+  }
+
+  const assign = (issue: QCIssue, value: string) => {
+    const [assignedToType, assignedToId] = value.split(':')
+    updateIssue(issue, { action: 'assign', assignedToType: assignedToType || null, assignedToId: assignedToId || null },
+      value ? 'Issue reassigned' : 'Assignment cleared')
+  }
+
+  // With a new reading the server grades the re-inspection itself
+  const reinspect = (issue: QCIssue, status: 'pass' | 'fail') => {
+    const items = issue.measurementType && reading !== ''
+      ? [{ pileId: issue.pileId, measurementType: issue.measurementType, measuredValue: parseFloat(reading), unit: issue.unit }]
+      : []
+    updateIssue(issue, { action: 'reinspect', status, notes: notes || null, items },
+      items.length > 0 ? 'Re-inspection saved' : status === 'pass' ? 'Issue verified' : 'Re-inspection failed - issue reopened')
+  }
+
+  const ageDays = (issue: QCIssue) => Math.floor((Date.now() - new Date(issue.openedAt).getTime()) / 86400000)
+  const statusStyles: Record<string, string> = {
+    open: 'bg-red-100 text-red-700',
+    corrected: 'bg-yellow-100 text-yellow-700',
+    verified: 'bg-green-100 text-green-700',
+  }
+  const selectClass = `px-3 py-2 border rounded-lg text-sm ${darkMode ? 'bg-slate-700 border-slate-600 text-white' : 'border-slate-200'}`
+  const assigneeOptions = (
+    <>
+      <optgroup label="Crews">
+        {company.crews.map(crew => <option key={crew.id} value={`crew:${crew.id}`}>{crew.name}</option>)}
+      </optgroup>
+      <optgroup label="Subcontractors">
+        {company.subcontractors.map(sub => <option key={sub.id} value={`subcontractor:${sub.id}`}>{sub.name}</option>)}
+      </optgroup>
+    </>
+  )
+
   return (
     <div className="p-4 lg:p-6 space-y-6">
       <div>
-        <h2 className={`text-2xl font-bold ${darkMode ? 'text-white' : 'text-slate-800'}`}>Settings</h2>
-        <p className={darkMode ? 'text-slate-400' : 'text-slate-600'}>Manage your account and projects</p>
+        <h2 className={`text-2xl font-bold ${darkMode ? 'text-white' : 'text-slate-800'}`}>Punch List</h2>
+        <p className={darkMode ? 'text-slate-400' : 'text-slate-600'}>QC issues from failed inspections, through correction to re-inspection</p>
       </div>
 
-      {/* Company Info */}
-      <div className={`rounded-2xl border p-4 lg:p-6 ${darkMode ? 'bg-slate-800 border-slate-700' : 'bg-white border-slate-200'}`}>
-        <h3 className={`font-semibold mb-4 ${darkMode ? 'text-white' : 'text-slate-800'}`}>Company</h3>
-        <div className="space-y-3">
-          <div className={`flex justify-between items-center p-3 rounded-xl ${darkMode ? 'bg-slate-700' : 'bg-slate-50'}`}>
-            <span className={darkMode ? 'text-slate-400' : 'text-slate-600'}>Name</span>
-            <span className={`font-medium ${darkMode ? 'text-white' : 'text-slate-800'}`}>{company.name}</span>
-          </div>
-          <div className={`flex justify-between items-center p-3 rounded-xl ${darkMode ? 'bg-slate-700' : 'bg-slate-50'}`}>
-            <span className={darkMode ? 'text-slate-400' : 'text-slate-600'}>Subscription</span>
-            <span className="px-2 py-1 bg-orange-100 text-orange-700 rounded-full text-sm font-medium capitalize">{company.subscription}</span>
-          </div>
-          <div className={`flex justify-between items-center p-3 rounded-xl ${darkMode ? 'bg-slate-700' : 'bg-slate-50'}`}>
-            <span className={darkMode ? 'text-slate-400' : 'text-slate-600'}>Projects</span>
-            <span className={`font-medium ${darkMode ? 'text-white' : 'text-slate-800'}`}>{company.projects?.length || 0}</span>
-          </div>
-        </div>
+      {/* Filters */}
+      <div className={`rounded-2xl border p-4 grid grid-cols-2 lg:grid-cols-6 gap-3 ${darkMode ? 'bg-slate-800 border-slate-700' : 'bg-white border-slate-200'}`}>
+        <select value={projectId} onChange={(e) => setProjectId(e.target.value)} className={selectClass}>
+          <option value="">All projects</option>
+          {company.projects.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+        </select>
+        <select value={category} onChange={(e) => setCategory(e.target.value)} className={selectClass}>
+          <option value="">All categories</option>
+          <option value="piles">Piles</option>
+          <option value="racking">Racking</option>
+          <option value="modules">Modules</option>
+        </select>
+        <input type="text" value={pileId} onChange={(e) => setPileId(e.target.value)} placeholder="Pile ID" className={selectClass} />
+        <select value={status} onChange={(e) => setStatus(e.target.value)} className={selectClass}>
+          <option value="open,corrected">Outstanding</option>
+          <option value="open">Open</option>
+          <option value="corrected">Awaiting re-inspection</option>
+          <option value="verified">Verified</option>
+          <option value="">All statuses</option>
+        </select>
+        <select value={assignee} onChange={(e) => setAssignee(e.target.value)} className={selectClass}>
+          <option value="">Any assignee</option>
+          <option value="none">Unassigned</option>
+          {assigneeOptions}
+        </select>
+        <select value={minAgeDays} onChange={(e) => setMinAgeDays(e.target.value)} className={selectClass}>
+          <option value="">Any age</option>
+          <option value="3">Older than 3 days</option>
+          <option value="7">Older than 7 days</option>
+          <option value="14">Older than 14 days</option>
+          <option value="30">Older than 30 days</option>
+        </select>
       </div>
 
-      {/* Racking Systems */}
-      <div className={`rounded-2xl border p-4 lg:p-6 ${darkMode ? 'bg-slate-800 border-slate-700' : 'bg-white border-slate-200'}`}>
-        <div className="flex items-center justify-between mb-4">
-          <h3 className={`font-semibold ${darkMode ? 'text-white' : 'text-slate-800'}`}>Racking Systems</h3>
-          <span className={`text-sm ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>{company.rackingSystems?.length || 0} profiles</span>
+      {loading ? (
+        <div className="flex justify-center py-8">
+          <RefreshCw className={`w-6 h-6 animate-spin ${darkMode ? 'text-slate-400' : 'text-slate-500'}`} />
         </div>
-        <div className="space-y-2">
-          {company.rackingSystems?.map(rs => (
-            <div key={rs.id} className={`p-3 rounded-xl ${darkMode ? 'bg-slate-700' : 'bg-slate-50'}`}>
-              <p className={`font-medium ${darkMode ? 'text-white' : 'text-slate-800'}`}>{rs.name}</p>
-              <p className={`text-sm ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>{rs.manufacturer}</p>
-            </div>
-          ))}
+      ) : issues.length === 0 ? (
+        <div className={`rounded-2xl border p-8 text-center ${darkMode ? 'bg-slate-800 border-slate-700 text-slate-400' : 'bg-white border-slate-200 text-slate-500'}`}>
+          <CheckCircle className="w-10 h-10 mx-auto mb-2 text-green-500" />
+          No issues match these filters
         </div>
-      </div>
-
-      {/* Team */}
-      <div className={`rounded-2xl border p-4 lg:p-6 ${darkMode ? 'bg-slate-800 border-slate-700' : 'bg-white border-slate-200'}`}>
-        <h3 className={`font-semibold mb-4 ${darkMode ? 'text-white' : 'text-slate-800'}`}>Team Members</h3>
-        <div className="space-y-2">
-          {company.users?.map(u => (
-            <div key={u.id} className={`flex items-center justify-between p-3 rounded-xl ${darkMode ? 'bg-slate-700' : 'bg-slate-50'}`}>
-              <div className="flex items-center gap-3">
-                <div className="w-10 h-10 bg-orange-100 rounded-full flex items-center justify-center">
-                  <span className="text-orange-600 font-medium">{u.name.charAt(0)}</span>
+      ) : (
+        <div className="space-y-3">
+          {issues.map(issue => {
+            const age = ageDays(issue)
+            const expanded = expandedId === issue.id
+            return (
+              <div key={issue.id} className={`rounded-2xl border p-4 space-y-3 ${darkMode ? 'bg-slate-800 border-slate-700' : 'bg-white border-slate-200'}`}>
+                <div className="flex items-start justify-between gap-3">
+                  <div className="min-w-0">
+                    <p className={`font-medium ${darkMode ? 'text-white' : 'text-slate-800'}`}>{issue.description}</p>
+                    <p className={`text-xs mt-1 ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>
+                      {[issue.project?.name, issue.category, issue.pileId && `Pile ${issue.pileId}`, issue.inspection?.area].filter(Boolean).join(' • ')}
+                    </p>
+                  </div>
+                  <div className="flex flex-col items-end gap-1 shrink-0">
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-medium capitalize ${statusStyles[issue.status] || 'bg-slate-100 text-slate-700'}`}>{issue.status}</span>
+                    <span className={`text-xs flex items-center gap-1 ${age > 7 && issue.status !== 'verified' ? 'text-red-500 font-medium' : darkMode ? 'text-slate-400' : 'text-slate-500'}`}>
+                      <Clock className="w-3 h-3" /> {age}d
+                    </span>
+                  </div>
                 </div>
-                <div>
-                  <p className={`font-medium ${darkMode ? 'text-white' : 'text-slate-800'}`}>{u.name}</p>
-                  <p className={`text-xs ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>{u.email}</p>
+
+                <div className="flex flex-wrap items-center gap-2">
+                  {canAssign && issue.status !== 'verified' ? (
+                    <select value={issue.assignedToId ? `${issue.assignedToType}:${issue.assignedToId}` : ''} disabled={savingId === issue.id}
+                      onChange={(e) => assign(issue, e.target.value)} className={selectClass}>
+                      <option value="">Unassigned</option>
+                      {assigneeOptions}
+                    </select>
+                  ) : (
+                    <span className={`text-sm ${darkMode ? 'text-slate-300' : 'text-slate-600'}`}>
+                      <Users className="w-4 h-4 inline mr-1" />{issue.assigneeName || 'Unassigned'}
+                    </span>
+                  )}
+                  {issue.correctedAt && (
+                    <span className={`text-xs ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>
+                      Corrected {format(new Date(issue.correctedAt), 'MMM d')}{issue.correctedByName ? ` by ${issue.correctedByName}` : ''}
+                    </span>
+                  )}
+                  {issue.verifiedAt && (
+                    <span className={`text-xs ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>
+                      Verified {format(new Date(issue.verifiedAt), 'MMM d')}{issue.verifiedByName ? ` by ${issue.verifiedByName}` : ''}
+                    </span>
+                  )}
+                  {((canCorrect && issue.status === 'open') || (canVerify && issue.status === 'corrected')) && (
+                    <button onClick={() => toggleExpanded(issue.id)}
+                      className="ml-auto px-3 py-1.5 rounded-lg text-sm font-medium bg-orange-500 text-white hover:bg-orange-600">
+                      {issue.status === 'open' ? 'Mark Corrected' : 'Re-inspect'}
+                    </button>
+                  )}
                 </div>
+
+                {issue.measurementType && issue.deviation != null && (
+                  <div className="flex flex-wrap gap-2 text-xs">
+                    <span className={`px-2 py-1 rounded-lg capitalize ${darkMode ? 'bg-slate-700 text-slate-300' : 'bg-slate-100 text-slate-600'}`}>
+                      {issue.measurementType.replace('_', ' ')}: {issue.measuredValue} {issue.unit}
+                    </span>
+                    <span className="px-2 py-1 rounded-lg bg-red-100 text-red-700">
+                      {issue.deviation > 0 ? '+' : ''}{issue.deviation} {issue.unit} past {issue.limitValue} {issue.unit}
+                    </span>
+                  </div>
+                )}
+                {issue.correctionNotes && (
+                  <p className={`text-sm ${darkMode ? 'text-slate-300' : 'text-slate-600'}`}>{issue.correctionNotes}</p>
+                )}
+                {issue.photos && issue.photos.length > 0 && (
+                  <div className="flex gap-2 overflow-x-auto">
+                    {issue.photos.map(photo => (
+                      <img key={photo.id} src={photo.url} alt={photo.caption || 'Correction'} className="w-20 h-20 object-cover rounded-lg" />
+                    ))}
+                  </div>
+                )}
+
+                {expanded && issue.status === 'open' && (
+                  <div className={`pt-3 border-t space-y-3 ${darkMode ? 'border-slate-700' : 'border-slate-200'}`}>
+                    <PhotoCapture
+                      photos={photos}
+                      onAddPhoto={(photo) => setPhotos(prev => [...prev, photo])}
+                      onRemovePhoto={(photoId) => setPhotos(prev => prev.filter(p => p.id !== photoId))}
+                      context={issue.pileId || issue.description}
+                      darkMode={darkMode}
+                    />
+                    <textarea value={notes} onChange={(e) => setNotes(e.target.value)} rows={2} placeholder="What was fixed"
+                      className={`w-full px-3 py-2 border rounded-lg text-sm ${darkMode ? 'bg-slate-700 border-slate-600 text-white' : 'border-slate-200'}`} />
+                    <button disabled={savingId === issue.id || photos.length === 0}
+                      onClick={() => updateIssue(issue, { action: 'correct', photos: JSON.stringify(photos), correctionNotes: notes || null }, 'Marked corrected - awaiting re-inspection')}
+                      className="w-full py-3 rounded-xl font-bold bg-orange-500 text-white hover:bg-orange-600 disabled:opacity-50">
+                      {photos.length === 0 ? 'Add a photo of the fix' : 'Submit Correction'}
+                    </button>
+                  </div>
+                )}
+
+                {expanded && issue.status === 'corrected' && (
+                  <div className={`pt-3 border-t space-y-3 ${darkMode ? 'border-slate-700' : 'border-slate-200'}`}>
+                    {issue.measurementType && (
+                      <label className={`flex items-center gap-2 text-sm capitalize ${darkMode ? 'text-slate-300' : 'text-slate-600'}`}>
+                        New {issue.measurementType.replace('_', ' ')} reading
+                        <input type="number" step="any" value={reading} onChange={(e) => setReading(e.target.value)}
+                          className={`w-28 px-3 py-2 border rounded-lg text-sm ${darkMode ? 'bg-slate-700 border-slate-600 text-white' : 'border-slate-200'}`} />
+                        {issue.unit}
+                      </label>
+                    )}
+                    <textarea value={notes} onChange={(e) => setNotes(e.target.value)} rows={2} placeholder="Re-inspection notes"
+                      className={`w-full px-3 py-2 border rounded-lg text-sm ${darkMode ? 'bg-slate-700 border-slate-600 text-white' : 'border-slate-200'}`} />
+                    {reading !== '' ? (
+                      <button disabled={savingId === issue.id} onClick={() => reinspect(issue, 'pass')}
+                        className="w-full py-3 rounded-xl font-bold bg-orange-500 text-white hover:bg-orange-600 disabled:opacity-50">
+                        Save Reading - graded against the tolerance profile
+                      </button>
+                    ) : (
+                      <div className="grid grid-cols-2 gap-3">
+                        <button disabled={savingId === issue.id || !!issue.measurementType} onClick={() => reinspect(issue, 'pass')}
+                          className="py-3 rounded-xl font-bold bg-green-500 text-white hover:bg-green-600 disabled:opacity-50">
+                          {issue.measurementType ? 'Enter a reading to verify' : 'Pass - Verify'}
+                        </button>
+                        <button disabled={savingId === issue.id} onClick={() => reinspect(issue, 'fail')}
+                          className="py-3 rounded-xl font-bold bg-red-500 text-white hover:bg-red-600 disabled:opacity-50">
+                          Fail - Reopen
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                )}
               </div>
-              <span className={`px-2 py-1 rounded-full text-xs font-medium capitalize ${
-                u.role === 'admin' ? 'bg-blue-100 text-blue-700' :
-                u.role === 'pm' ? 'bg-green-100 text-green-700' :
-                u.role === 'inspector' ? 'bg-purple-100 text-purple-700' :
-                'bg-slate-100 text-slate-600'
-              }`}>
-                {u.role}
-              </span>
-            </div>
-          ))}
+            )
+          })}
         </div>
-      </div>
+      )}
     </div>
   )
 }
 
-// Edit Project Modal Component
-function EditProjectModal({ project, rackingSystems, darkMode, onClose, onSave }: {
-  project: Project; rackingSystems: RackingSystem[]; darkMode: boolean;
-  onClose: () => void; onSave: (data: any) => void;
+const emptyDrivingLogForm = {
+  pileId: '', rigId: '', driveStart: '', driveEnd: '', targetDepth: '', finalEmbedment: '', notes: '',
+}
+
+// Driving Log Import Component - a pile driver's CSV export, checked before it is saved
+function DrivingLogImport({ project, darkMode, onImported }: {
+  project: Project; darkMode: boolean; onImported: () => void;
+}) {
+  const [file, setFile] = useState<{ name: string; content: string } | null>(null)
+  const [targetDepth, setTargetDepth] = useState('')
+  const [report, setReport] = useState<{ logCount: number; proposedCount: number; errors: { line: number; message: string }[] } | null>(null)
+  const [busy, setBusy] = useState(false)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const send = async (body: Record<string, unknown>) => {
+    const response = await fetch('/api/driving-logs/import', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ projectId: project.id, targetDepth: parseFloat(targetDepth) || null, ...body })
+    })
+    return { ok: response.ok, data: await response.json() }
+  }
+
+  const check = async (content: string) => {
+    setBusy(true)
+    try {
+      const { ok, data } = await send({ content, dryRun: true })
+      if (ok) setReport(data)
+      else toast.error(data.error || 'Failed to read driving logs')
+    } catch {
+      toast.error('Failed to read driving logs')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0]
+    e.target.value = ''
+    if (!selected) return
+
+    const content = await selected.text()
+    setFile({ name: selected.name, content })
+    setReport(null)
+    check(content)
+  }
+
+  const importLogs = async () => {
+    if (!file) return
+    setBusy(true)
+    try {
+      const { ok, data } = await send({ content: file.content })
+      if (ok) {
+        toast.success(`${data.created} drives imported${data.skipped ? `, ${data.skipped} already logged` : ''}${data.proposed ? ` - ${data.proposed} refusals proposed` : ''}`)
+        onImported()
+        setFile(null)
+        setReport(null)
+      } else {
+        if (data.errors) setReport(data)
+        toast.error(data.error || 'Failed to import driving logs')
+      }
+    } catch {
+      toast.error('Failed to import driving logs')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const blocked = !report || report.errors.length > 0 || report.logCount === 0
+
+  return (
+    <div className="space-y-2">
+      <input ref={fileInputRef} type="file" accept=".csv" onChange={handleFile} className="hidden" />
+      <div className="flex gap-2">
+        <input type="number" value={targetDepth} onChange={(e) => setTargetDepth(e.target.value)} onBlur={() => file && check(file.content)}
+          placeholder="Design depth (mm) if not in the file"
+          className={`flex-1 px-3 py-2 border rounded-lg text-sm ${darkMode ? 'bg-slate-700 border-slate-600 text-white' : 'border-slate-200'}`} />
+        <button onClick={() => fileInputRef.current?.click()} disabled={busy}
+          className={`px-4 py-2 rounded-lg text-sm font-medium flex items-center gap-2 disabled:opacity-50 ${darkMode ? 'bg-slate-600 text-slate-200 hover:bg-slate-500' : 'bg-white border border-slate-200 text-slate-600 hover:bg-slate-100'}`}>
+          {busy ? <RefreshCw className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+          {file ? file.name : 'Import CSV'}
+        </button>
+      </div>
+      <p className={`text-xs ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>
+        One row per interval: {DRIVING_LOG_CSV_HEADERS.join(', ')}
+      </p>
+
+      {report && (
+        <div className={`rounded-xl p-3 space-y-2 text-sm ${darkMode ? 'bg-slate-800' : 'bg-white border border-slate-200'}`}>
+          <p className={darkMode ? 'text-white' : 'text-slate-800'}>
+            <strong>{report.logCount}</strong> drives read{report.proposedCount > 0 && <>, <strong>{report.proposedCount}</strong> meet the refusal criterion</>}
+          </p>
+          {report.errors.length > 0 && (
+            <div>
+              <p className="text-red-600 font-medium">{report.errors.length} errors</p>
+              <ul className={`text-xs space-y-0.5 max-h-24 overflow-y-auto ${darkMode ? 'text-slate-300' : 'text-slate-600'}`}>
+                {report.errors.slice(0, 50).map((issue, i) => <li key={i}>Line {issue.line}: {issue.message}</li>)}
+              </ul>
+            </div>
+          )}
+          <button onClick={importLogs} disabled={busy || blocked}
+            className="w-full py-2 rounded-xl text-sm font-medium bg-orange-500 text-white hover:bg-orange-600 disabled:opacity-50">
+            {blocked ? 'Fix the file to import' : `Import ${report.logCount} Drives`}
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
+
+// Driving Log Component - per-pile drives, blow counts and refusals they propose
+function DrivingLogView({ project, darkMode, canLog, canReportRefusal, canDismiss, onChanged }: {
+  project: Project; darkMode: boolean; canLog: boolean; canReportRefusal: boolean; canDismiss: boolean;
+  onChanged: () => void;
+}) {
+  const [logs, setLogs] = useState<PileDrivingLog[]>([])
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [showForm, setShowForm] = useState(false)
+  const [form, setForm] = useState(emptyDrivingLogForm)
+  const [intervals, setIntervals] = useState<{ fromDepth: string; toDepth: string; blows: string }[]>([])
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+  const [reasons, setReasons] = useState<Record<string, string>>({})
+  const blowCount = project.refusalBlowCount ?? 10
+  const blowDepth = project.refusalBlowDepth ?? 25
+  const pileIdFormat = project.pileIdFormat || DEFAULT_PILE_ID_FORMAT
+
+  const fetchLogs = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/driving-logs?projectId=${project.id}`, { cache: 'no-store' })
+      if (response.ok) setLogs((await response.json()).logs)
+    } catch (error) {
+      console.error('Failed to fetch driving logs:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [project.id])
+
+  useEffect(() => {
+    fetchLogs()
+  }, [fetchLogs])
+
+  const refresh = () => {
+    fetchLogs()
+    onChanged()
+  }
+
+  const proposed = logs.filter(log => log.refusalStatus === 'proposed')
+  const inputClass = `w-full px-3 py-2 border rounded-lg text-sm ${darkMode ? 'bg-slate-700 border-slate-600 text-white' : 'border-slate-200'}`
+  const labelClass = `block text-xs mb-1 ${darkMode ? 'text-slate-400' : 'text-slate-500'}`
+  const cardClass = `rounded-2xl border p-4 lg:p-6 ${darkMode ? 'bg-slate-800 border-slate-700' : 'bg-white border-slate-200'}`
+  const pileIdError = form.pileId ? validatePileId(pileIdFormat, form.pileId) : null
+
+  // Each new interval starts where the one above ends
+  const addInterval = () => setIntervals(prev => [...prev, {
+    fromDepth: prev.length > 0 ? prev[prev.length - 1].toDepth : '0',
+    toDepth: '',
+    blows: '',
+  }])
+
+  const saveLog = async () => {
+    setSaving(true)
+    try {
+      const response = await fetch('/api/driving-logs', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...form,
+          projectId: project.id,
+          driveStart: new Date(form.driveStart).toISOString(),
+          driveEnd: new Date(form.driveEnd).toISOString(),
+          finalEmbedment: form.finalEmbedment || null,
+          intervals: intervals.map(interval => ({
+            fromDepth: parseFloat(interval.fromDepth),
+            toDepth: parseFloat(interval.toDepth),
+            blows: parseInt(interval.blows),
+          })),
+        })
+      })
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to save driving log')
+        return
+      }
+      if (data.proposed) toast.warning(`${data.log.pileId} meets the refusal criterion - refusal proposed`)
+      else toast.success(`${data.log.pileId} logged${data.driven ? ' and counted as driven' : ''}`)
+      setForm(emptyDrivingLogForm)
+      setIntervals([])
+      setShowForm(false)
+      refresh()
+    } catch {
+      toast.error('Failed to save driving log')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  // Log the proposed refusal with the drive's depths; the log is closed by it
+  const confirmRefusal = async (log: PileDrivingLog) => {
+    try {
+      const result = await postOrQueue('refusal', '/api/refusals', {
+        pileId: log.pileId,
+        dateDiscovered: log.driveEnd,
+        targetDepth: log.targetDepth,
+        achievedDepth: log.finalEmbedment,
+        refusalReason: reasons[log.id] || 'other',
+        refusalNotes: `From driving log: ${log.totalBlows} blows${log.rigId ? `, rig ${log.rigId}` : ''}`,
+        projectId: project.id,
+        drivingLogId: log.id,
+      })
+      if (result.ok) {
+        toast.success(result.queued ? 'Refusal saved offline - will sync when online' : `Refusal logged for ${log.pileId}`)
+        refresh()
+      } else {
+        toast.error(result.error || 'Failed to log refusal')
+      }
+    } catch {
+      toast.error('Failed to log refusal')
+    }
+  }
+
+  const dismissRefusal = async (log: PileDrivingLog) => {
+    if (!confirm(`Dismiss the proposed refusal for ${log.pileId}? The pile will count as driven at ${log.finalEmbedment}mm.`)) return
+    try {
+      const response = await fetch('/api/driving-logs', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id: log.id, refusalStatus: 'dismissed' })
+      })
+      const data = await response.json().catch(() => ({}))
+      if (response.ok) {
+        toast.success('Proposal dismissed')
+        refresh()
+      } else {
+        toast.error(data.error || 'Failed to dismiss proposal')
+      }
+    } catch {
+      toast.error('Failed to dismiss proposal')
+    }
+  }
+
+  const statusBadge = (log: PileDrivingLog) => {
+    if (log.refusalStatus === 'proposed') return { label: 'Refusal proposed', className: 'bg-yellow-100 text-yellow-700' }
+    if (log.refusalStatus === 'confirmed') return { label: 'Refused', className: 'bg-red-100 text-red-700' }
+    if (log.refusalStatus === 'dismissed') return { label: 'Accepted short', className: 'bg-blue-100 text-blue-700' }
+    if (log.finalEmbedment >= log.targetDepth) return { label: 'Driven', className: 'bg-green-100 text-green-700' }
+    return { label: 'Short', className: darkMode ? 'bg-slate-700 text-slate-300' : 'bg-slate-100 text-slate-600' }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-12">
+        <RefreshCw className={`w-6 h-6 animate-spin ${darkMode ? 'text-slate-400' : 'text-slate-500'}`} />
+      </div>
+    )
+  }
+
+  return (
+    <div className="p-4 lg:p-6 space-y-6">
+      <div>
+        <h2 className={`text-2xl font-bold ${darkMode ? 'text-white' : 'text-slate-800'}`}>Driving Logs</h2>
+        <p className={darkMode ? 'text-slate-400' : 'text-slate-600'}>
+          {project.name} • Refusal at {blowCount}+ blows per {blowDepth}mm short of design depth
+        </p>
+      </div>
+
+      {/* Refusals proposed by the logs */}
+      {proposed.length > 0 && (
+        <div className={`${cardClass} space-y-3`}>
+          <h3 className={`font-semibold flex items-center gap-2 ${darkMode ? 'text-white' : 'text-slate-800'}`}>
+            <AlertTriangle className="w-5 h-5 text-yellow-500" /> Proposed Refusals ({proposed.length})
+          </h3>
+          {proposed.map(log => {
+            const last = log.intervals[log.intervals.length - 1]
+            return (
+              <div key={log.id} className={`p-3 rounded-xl flex flex-col lg:flex-row lg:items-center gap-3 ${darkMode ? 'bg-slate-700/50' : 'bg-yellow-50'}`}>
+                <div className="flex-1">
+                  <p className={`font-medium ${darkMode ? 'text-white' : 'text-slate-800'}`}>{log.pileId}</p>
+                  <p className={`text-xs ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>
+                    {log.finalEmbedment} of {log.targetDepth}mm
+                    {last && ` • last ${last.toDepth - last.fromDepth}mm took ${last.blows} blows`}
+                    {log.rigId && ` • rig ${log.rigId}`} • {format(new Date(log.driveEnd), 'MMM d, HH:mm')}
+                  </p>
+                </div>
+                {canReportRefusal && (
+                  <div className="flex gap-2">
+                    <select value={reasons[log.id] || 'other'} onChange={(e) => setReasons(prev => ({ ...prev, [log.id]: e.target.value }))}
+                      className={`px-2 py-1.5 border rounded-lg text-sm ${darkMode ? 'bg-slate-700 border-slate-600 text-white' : 'border-slate-200'}`}>
+                      {REFUSAL_REASONS.map(r => <option key={r.value} value={r.value}>{r.emoji} {r.label}</option>)}
+                    </select>
+                    <button onClick={() => confirmRefusal(log)}
+                      className="px-3 py-1.5 rounded-lg text-sm font-medium bg-red-500 text-white hover:bg-red-600">
+                      Log Refusal
+                    </button>
+                  </div>
+                )}
+                {canDismiss && (
+                  <button onClick={() => dismissRefusal(log)}
+                    className={`px-3 py-1.5 rounded-lg text-sm font-medium ${darkMode ? 'bg-slate-600 text-slate-200' : 'bg-white border border-slate-200 text-slate-600'}`}>
+                    Dismiss
+                  </button>
+                )}
+              </div>
+            )
+          })}
+        </div>
+      )}
+
+      {/* Manual entry and import */}
+      {canLog && (
+        <div className={`${cardClass} space-y-4`}>
+          <div className="flex items-center justify-between">
+            <h3 className={`font-semibold ${darkMode ? 'text-white' : 'text-slate-800'}`}>Record Drives</h3>
+            {!showForm && (
+              <button onClick={() => setShowForm(true)}
+                className="px-3 py-2 rounded-lg text-sm font-medium bg-orange-500 text-white hover:bg-orange-600 flex items-center gap-1">
+                <Plus className="w-4 h-4" /> Log Drive
+              </button>
+            )}
+          </div>
+
+          {showForm && (
+            <div className={`p-4 rounded-xl space-y-3 ${darkMode ? 'bg-slate-700/50' : 'bg-slate-50'}`}>
+              <div className="grid grid-cols-2 lg:grid-cols-3 gap-3">
+                <div>
+                  <label className={labelClass}>Pile</label>
+                  <input type="text" value={form.pileId} placeholder={pileIdExample(pileIdFormat)}
+                    onChange={(e) => setForm(prev => ({ ...prev, pileId: e.target.value }))} className={inputClass} />
+                  {pileIdError && <p className="text-xs text-red-500 mt-1">{pileIdError}</p>}
+                </div>
+                {([
+                  ['rigId', 'Rig / hammer', 'text'],
+                  ['driveStart', 'Drive start', 'datetime-local'],
+                  ['driveEnd', 'Drive end', 'datetime-local'],
+                  ['targetDepth', 'Design depth (mm)', 'number'],
+                  ['finalEmbedment', 'Final embedment (mm)', 'number'],
+                ] as const).map(([field, label, type]) => (
+                  <div key={field}>
+                    <label className={labelClass}>{label}</label>
+                    <input type={type} value={form[field]}
+                      onChange={(e) => setForm(prev => ({ ...prev, [field]: e.target.value }))} className={inputClass} />
+                  </div>
+                ))}
+              </div>
+
+              <div className="space-y-2">
+                <label className={labelClass}>Blow counts (depth from surface, mm)</label>
+                {intervals.map((interval, index) => (
+                  <div key={index} className="grid grid-cols-12 gap-2 items-center">
+                    <input type="number" value={interval.fromDepth} placeholder="From" className={`${inputClass} col-span-4`}
+                      onChange={(e) => setIntervals(prev => prev.map((i, n) => n === index ? { ...i, fromDepth: e.target.value } : i))} />
+                    <input type="number" value={interval.toDepth} placeholder="To" className={`${inputClass} col-span-4`}
+                      onChange={(e) => setIntervals(prev => prev.map((i, n) => n === index ? { ...i, toDepth: e.target.value } : i))} />
+                    <input type="number" value={interval.blows} placeholder="Blows" className={`${inputClass} col-span-3`}
+                      onChange={(e) => setIntervals(prev => prev.map((i, n) => n === index ? { ...i, blows: e.target.value } : i))} />
+                    <button onClick={() => setIntervals(prev => prev.filter((_, n) => n !== index))} className="col-span-1 text-red-500">
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+                <button onClick={addInterval} className={`text-sm font-medium ${darkMode ? 'text-orange-400' : 'text-orange-600'}`}>+ Add interval</button>
+              </div>
+
+              <textarea value={form.notes} onChange={(e) => setForm(prev => ({ ...prev, notes: e.target.value }))}
+                rows={2} placeholder="Notes" className={inputClass} />
+              <div className="flex gap-2">
+                <button onClick={() => setShowForm(false)}
+                  className={`flex-1 py-2 rounded-xl font-medium ${darkMode ? 'bg-slate-700 text-slate-300' : 'bg-white border border-slate-200 text-slate-600'}`}>
+                  Cancel
+                </button>
+                <button onClick={saveLog} disabled={saving || !form.pileId || !!pileIdError || !form.driveStart || !form.driveEnd || !form.targetDepth}
+                  className="flex-1 py-2 rounded-xl font-bold bg-orange-500 text-white hover:bg-orange-600 disabled:opacity-50">
+                  {saving ? 'Saving...' : 'Save Drive'}
+                </button>
+              </div>
+            </div>
+          )}
+
+          <DrivingLogImport project={project} darkMode={darkMode} onImported={refresh} />
+        </div>
+      )}
+
+      {/* Log list */}
+      <div className={`${cardClass} space-y-3`}>
+        <h3 className={`font-semibold ${darkMode ? 'text-white' : 'text-slate-800'}`}>Drives ({logs.length})</h3>
+        {logs.length === 0 ? (
+          <p className={`text-center py-6 ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>No drives logged</p>
+        ) : (
+          <div className="space-y-2">
+            {logs.map(log => {
+              const badge = statusBadge(log)
+              const minutes = Math.round((new Date(log.driveEnd).getTime() - new Date(log.driveStart).getTime()) / 60000)
+              return (
+                <div key={log.id} className={`rounded-xl ${darkMode ? 'bg-slate-700/50' : 'bg-slate-50'}`}>
+                  <button onClick={() => setExpandedId(expandedId === log.id ? null : log.id)}
+                    className="w-full p-3 flex items-center gap-3 text-left">
+                    <div className="flex-1 min-w-0">
+                      <p className={`font-medium ${darkMode ? 'text-white' : 'text-slate-800'}`}>{log.pileId}</p>
+                      <p className={`text-xs ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>
+                        {format(new Date(log.driveStart), 'MMM d, HH:mm')} • {minutes} min{log.rigId && ` • rig ${log.rigId}`}
+                        {' • '}{log.finalEmbedment}/{log.targetDepth}mm • {log.totalBlows} blows • {log.penetrationRate} mm/min
+                      </p>
+                    </div>
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-medium shrink-0 ${badge.className}`}>{badge.label}</span>
+                    <ChevronDown className={`w-4 h-4 shrink-0 transition-transform ${expandedId === log.id ? 'rotate-180' : ''} ${darkMode ? 'text-slate-400' : 'text-slate-500'}`} />
+                  </button>
+                  {expandedId === log.id && (
+                    <div className="px-3 pb-3 space-y-1">
+                      {log.intervals.length === 0 ? (
+                        <p className={`text-sm ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>No blow counts recorded</p>
+                      ) : log.intervals.map((interval, index) => {
+                        const rate = blowsPer(interval, blowDepth)
+                        return (
+                          <div key={interval.id || index} className={`flex items-center gap-3 px-3 py-1.5 rounded-lg text-sm ${
+                            rate >= blowCount ? 'bg-red-100 text-red-700' : darkMode ? 'bg-slate-700 text-slate-300' : 'bg-white text-slate-600'
+                          }`}>
+                            <span className="w-32 shrink-0">{interval.fromDepth}-{interval.toDepth}mm</span>
+                            <span className="w-20">{interval.blows} blows</span>
+                            <span className="text-xs opacity-75">{Math.round(rate * 10) / 10} per {blowDepth}mm</span>
+                          </div>
+                        )
+                      })}
+                      {log.notes && <p className={`text-xs pt-1 ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>{log.notes}</p>}
+                    </div>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+const emptyBoringForm = {
+  id: '', name: '', easting: '', northing: '', nearPileId: '', totalDepth: '', refusalDepth: '',
+  refusalMaterial: '', groundwaterDepth: '', drilledAt: '', notes: '',
+}
+const emptyLoadTestForm = {
+  pileId: '', testType: 'axial_compression', designLoad: '', testLoad: '', displacement: '',
+  allowableDisplacement: '', testedAt: '', notes: '',
+}
+
+// Stratigraphy of a boring, top down, marking the layer a depth falls in
+function StrataColumn({ strata, markDepth, darkMode }: {
+  strata: BoringStratum[]; markDepth?: number | null; darkMode: boolean;
+}) {
+  const marked = markDepth != null ? stratumAt(strata, markDepth) : null
+  if (strata.length === 0) {
+    return <p className={`text-sm ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>No strata logged</p>
+  }
+  return (
+    <div className="space-y-1">
+      {strata.map((layer, index) => (
+        <div key={layer.id || index} className={`flex items-center gap-3 px-3 py-1.5 rounded-lg text-sm ${
+          layer === marked ? 'bg-orange-100 text-orange-800 font-medium' :
+          darkMode ? 'bg-slate-700 text-slate-300' : 'bg-slate-50 text-slate-600'
+        }`}>
+          <span className="w-28 shrink-0">{layer.topDepth}-{layer.bottomDepth}mm</span>
+          <span className="capitalize">{layer.material.replace('_', ' ')}</span>
+          {layer.description && <span className="text-xs opacity-75 truncate">{layer.description}</span>}
+          {layer === marked && <span className="ml-auto text-xs shrink-0">← {markDepth}mm</span>}
+        </div>
+      ))}
+    </div>
+  )
+}
+
+// Geotech Component - boring logs, their strata and pile load tests
+function GeotechView({ project, darkMode, canManage, canTest }: {
+  project: Project; darkMode: boolean; canManage: boolean; canTest: boolean;
+}) {
+  const [borings, setBorings] = useState<BoringLog[]>([])
+  const [loadTests, setLoadTests] = useState<PileLoadTest[]>([])
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [showBoringForm, setShowBoringForm] = useState(false)
+  const [boringForm, setBoringForm] = useState(emptyBoringForm)
+  const [strata, setStrata] = useState<{ topDepth: string; bottomDepth: string; material: string; description: string }[]>([])
+  const [showTestForm, setShowTestForm] = useState(false)
+  const [testForm, setTestForm] = useState(emptyLoadTestForm)
+
+  const fetchGeotech = useCallback(async () => {
+    try {
+      const [boringResponse, testResponse] = await Promise.all([
+        fetch(`/api/borings?projectId=${project.id}`, { cache: 'no-store' }),
+        fetch(`/api/load-tests?projectId=${project.id}`, { cache: 'no-store' }),
+      ])
+      if (boringResponse.ok) setBorings((await boringResponse.json()).borings)
+      if (testResponse.ok) setLoadTests((await testResponse.json()).loadTests)
+    } catch (error) {
+      console.error('Failed to fetch geotech data:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [project.id])
+
+  useEffect(() => {
+    fetchGeotech()
+  }, [fetchGeotech])
+
+  const inputClass = `w-full px-3 py-2 border rounded-lg text-sm ${darkMode ? 'bg-slate-700 border-slate-600 text-white' : 'border-slate-200'}`
+  const labelClass = `block text-xs mb-1 ${darkMode ? 'text-slate-400' : 'text-slate-500'}`
+  const cardClass = `rounded-2xl border p-4 lg:p-6 ${darkMode ? 'bg-slate-800 border-slate-700' : 'bg-white border-slate-200'}`
+
+  const editBoring = (boring: BoringLog | null) => {
+    setBoringForm(boring ? {
+      id: boring.id,
+      name: boring.name,
+      easting: boring.easting?.toString() ?? '',
+      northing: boring.northing?.toString() ?? '',
+      nearPileId: boring.nearPileId ?? '',
+      totalDepth: String(boring.totalDepth),
+      refusalDepth: boring.refusalDepth?.toString() ?? '',
+      refusalMaterial: boring.refusalMaterial ?? '',
+      groundwaterDepth: boring.groundwaterDepth?.toString() ?? '',
+      drilledAt: boring.drilledAt ? boring.drilledAt.slice(0, 10) : '',
+      notes: boring.notes ?? '',
+    } : emptyBoringForm)
+    setStrata(boring ? boring.strata.map(layer => ({
+      topDepth: String(layer.topDepth),
+      bottomDepth: String(layer.bottomDepth),
+      material: layer.material,
+      description: layer.description ?? '',
+    })) : [])
+    setShowBoringForm(true)
+  }
+
+  // Each new layer starts where the one above ends
+  const addStratum = () => setStrata(prev => [...prev, {
+    topDepth: prev.length > 0 ? prev[prev.length - 1].bottomDepth : '0',
+    bottomDepth: '',
+    material: 'clay',
+    description: '',
+  }])
+
+  const saveBoring = async () => {
+    setSaving(true)
+    try {
+      const { id, ...fields } = boringForm
+      const response = await fetch('/api/borings', {
+        method: id ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...fields,
+          id: id || undefined,
+          projectId: project.id,
+          strata: strata.map(layer => ({
+            topDepth: parseFloat(layer.topDepth),
+            bottomDepth: parseFloat(layer.bottomDepth),
+            material: layer.material,
+            description: layer.description || null,
+          })),
+        })
+      })
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to save boring')
+        return
+      }
+      toast.success(`Boring ${data.boring.name} saved`)
+      setShowBoringForm(false)
+      fetchGeotech()
+    } catch {
+      toast.error('Failed to save boring')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const deleteBoring = async (boring: BoringLog) => {
+    if (!confirm(`Delete boring ${boring.name}? Its refusals and load tests will be linked to the next nearest boring.`)) return
+    try {
+      const response = await fetch(`/api/borings?id=${boring.id}`, { method: 'DELETE' })
+      if (response.ok) {
+        toast.success('Boring deleted')
+        fetchGeotech()
+      } else {
+        toast.error('Failed to delete boring')
+      }
+    } catch {
+      toast.error('Failed to delete boring')
+    }
+  }
+
+  const saveLoadTest = async () => {
+    setSaving(true)
+    try {
+      const response = await fetch('/api/load-tests', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...testForm, projectId: project.id })
+      })
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to save load test')
+        return
+      }
+      toast[data.loadTest.result === 'pass' ? 'success' : 'error'](`${data.loadTest.pileId}: load test ${data.loadTest.result === 'pass' ? 'passed' : 'failed'}`)
+      setTestForm(emptyLoadTestForm)
+      setShowTestForm(false)
+      fetchGeotech()
+    } catch {
+      toast.error('Failed to save load test')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const deleteLoadTest = async (loadTest: PileLoadTest) => {
+    if (!confirm(`Delete the ${loadTest.testType.replace('_', ' ')} test on ${loadTest.pileId}?`)) return
+    try {
+      const response = await fetch(`/api/load-tests?id=${loadTest.id}`, { method: 'DELETE' })
+      if (response.ok) {
+        toast.success('Load test deleted')
+        fetchGeotech()
+      } else {
+        toast.error('Failed to delete load test')
+      }
+    } catch {
+      toast.error('Failed to delete load test')
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-12">
+        <RefreshCw className={`w-6 h-6 animate-spin ${darkMode ? 'text-slate-400' : 'text-slate-500'}`} />
+      </div>
+    )
+  }
+
+  return (
+    <div className="p-4 lg:p-6 space-y-6">
+      <div>
+        <h2 className={`text-2xl font-bold ${darkMode ? 'text-white' : 'text-slate-800'}`}>Geotech</h2>
+        <p className={darkMode ? 'text-slate-400' : 'text-slate-600'}>{project.name}</p>
+      </div>
+
+      {/* Boring logs */}
+      <div className={`${cardClass} space-y-4`}>
+        <div className="flex items-center justify-between">
+          <h3 className={`font-semibold ${darkMode ? 'text-white' : 'text-slate-800'}`}>Boring Logs</h3>
+          {canManage && !showBoringForm && (
+            <button onClick={() => editBoring(null)}
+              className="px-3 py-2 rounded-lg text-sm font-medium bg-orange-500 text-white hover:bg-orange-600 flex items-center gap-1">
+              <Plus className="w-4 h-4" /> Add Boring
+            </button>
+          )}
+        </div>
+
+        {showBoringForm && (
+          <div className={`p-4 rounded-xl space-y-3 ${darkMode ? 'bg-slate-700/50' : 'bg-slate-50'}`}>
+            <div className="grid grid-cols-2 lg:grid-cols-4 gap-3">
+              {([
+                ['name', 'Name', 'text', 'B-12'],
+                ['easting', 'Easting', 'number', ''],
+                ['northing', 'Northing', 'number', ''],
+                ['nearPileId', 'Or beside pile', 'text', pileIdExample(project.pileIdFormat || DEFAULT_PILE_ID_FORMAT)],
+                ['totalDepth', 'Total depth (mm)', 'number', ''],
+                ['refusalDepth', 'Depth to refusal (mm)', 'number', ''],
+                ['refusalMaterial', 'Refusal material', 'text', 'bedrock'],
+                ['groundwaterDepth', 'Groundwater (mm)', 'number', ''],
+                ['drilledAt', 'Drilled', 'date', ''],
+              ] as const).map(([field, label, type, placeholder]) => (
+                <div key={field}>
+                  <label className={labelClass}>{label}</label>
+                  <input type={type} value={boringForm[field]} placeholder={placeholder}
+                    onChange={(e) => setBoringForm(prev => ({ ...prev, [field]: e.target.value }))} className={inputClass} />
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-2">
+              <label className={labelClass}>Strata (depth from surface, mm)</label>
+              {strata.map((layer, index) => (
+                <div key={index} className="grid grid-cols-12 gap-2 items-center">
+                  <input type="number" value={layer.topDepth} placeholder="Top" className={`${inputClass} col-span-2`}
+                    onChange={(e) => setStrata(prev => prev.map((l, i) => i === index ? { ...l, topDepth: e.target.value } : l))} />
+                  <input type="number" value={layer.bottomDepth} placeholder="Bottom" className={`${inputClass} col-span-2`}
+                    onChange={(e) => setStrata(prev => prev.map((l, i) => i === index ? { ...l, bottomDepth: e.target.value } : l))} />
+                  <select value={layer.material} className={`${inputClass} col-span-3 capitalize`}
+                    onChange={(e) => setStrata(prev => prev.map((l, i) => i === index ? { ...l, material: e.target.value } : l))}>
+                    {STRATUM_MATERIALS.map(material => <option key={material} value={material}>{material.replace('_', ' ')}</option>)}
+                  </select>
+                  <input type="text" value={layer.description} placeholder="Description" className={`${inputClass} col-span-4`}
+                    onChange={(e) => setStrata(prev => prev.map((l, i) => i === index ? { ...l, description: e.target.value } : l))} />
+                  <button onClick={() => setStrata(prev => prev.filter((_, i) => i !== index))} className="col-span-1 text-red-500">
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+              <button onClick={addStratum} className={`text-sm font-medium ${darkMode ? 'text-orange-400' : 'text-orange-600'}`}>+ Add layer</button>
+            </div>
+
+            <textarea value={boringForm.notes} onChange={(e) => setBoringForm(prev => ({ ...prev, notes: e.target.value }))}
+              rows={2} placeholder="Notes" className={inputClass} />
+            <div className="flex gap-2">
+              <button onClick={() => setShowBoringForm(false)}
+                className={`flex-1 py-2 rounded-xl font-medium ${darkMode ? 'bg-slate-700 text-slate-300' : 'bg-white border border-slate-200 text-slate-600'}`}>
+                Cancel
+              </button>
+              <button onClick={saveBoring} disabled={saving || !boringForm.name || !boringForm.totalDepth}
+                className="flex-1 py-2 rounded-xl font-bold bg-orange-500 text-white hover:bg-orange-600 disabled:opacity-50">
+                {saving ? 'Saving...' : 'Save Boring'}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {borings.length === 0 ? (
+          <p className={`text-center py-6 ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>No borings logged</p>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+            {borings.map(boring => {
+              const reasons = (boring.refusals || []).reduce((acc, r) => {
+                acc[r.refusalReason] = (acc[r.refusalReason] || 0) + 1
+                return acc
+              }, {} as Record<string, number>)
+              const failedTests = (boring.loadTests || []).filter(test => test.result === 'fail').length
+              return (
+                <div key={boring.id} className={`p-4 rounded-xl space-y-3 ${darkMode ? 'bg-slate-700/50' : 'bg-slate-50'}`}>
+                  <div className="flex items-start justify-between gap-2">
+                    <div>
+                      <p className={`font-semibold ${darkMode ? 'text-white' : 'text-slate-800'}`}>{boring.name}</p>
+                      <p className={`text-xs ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>
+                        {[
+                          boring.easting != null && boring.northing != null ? `E ${boring.easting}, N ${boring.northing}` : null,
+                          boring.nearPileId ? `beside ${boring.nearPileId}` : null,
+                          `${boring.totalDepth}mm deep`,
+                          boring.drilledAt ? format(new Date(boring.drilledAt), 'MMM d, yyyy') : null,
+                        ].filter(Boolean).join(' • ')}
+                      </p>
+                    </div>
+                    {canManage && (
+                      <div className="flex gap-1 shrink-0">
+                        <button onClick={() => editBoring(boring)} className={darkMode ? 'text-slate-400' : 'text-slate-500'}><Edit className="w-4 h-4" /></button>
+                        <button onClick={() => deleteBoring(boring)} className="text-red-500"><Trash2 className="w-4 h-4" /></button>
+                      </div>
+                    )}
+                  </div>
+                  <div className="flex flex-wrap gap-2 text-xs">
+                    {boring.refusalDepth != null && (
+                      <span className="px-2 py-1 rounded-lg bg-orange-100 text-orange-700">
+                        Refusal material at {boring.refusalDepth}mm{boring.refusalMaterial ? ` (${boring.refusalMaterial})` : ''}
+                      </span>
+                    )}
+                    {boring.groundwaterDepth != null && (
+                      <span className="px-2 py-1 rounded-lg bg-blue-100 text-blue-700">Groundwater at {boring.groundwaterDepth}mm</span>
+                    )}
+                  </div>
+                  <StrataColumn strata={boring.strata} markDepth={boring.refusalDepth} darkMode={darkMode} />
+                  <p className={`text-xs ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>
+                    {(boring.refusals || []).length} nearby refusals
+                    {Object.keys(reasons).length > 0 && ` (${Object.entries(reasons).map(([reason, count]) => `${count} ${reason.replace('_', ' ')}`).join(', ')})`}
+                    {' • '}{(boring.loadTests || []).length} load tests{failedTests > 0 && `, ${failedTests} failed`}
+                  </p>
+                </div>
+              )
+            })}
+          </div>
+        )}
+      </div>
+
+      {/* Load tests */}
+      <div className={`${cardClass} space-y-4`}>
+        <div className="flex items-center justify-between">
+          <h3 className={`font-semibold ${darkMode ? 'text-white' : 'text-slate-800'}`}>Pile Load Tests</h3>
+          {canTest && !showTestForm && (
+            <button onClick={() => setShowTestForm(true)}
+              className="px-3 py-2 rounded-lg text-sm font-medium bg-orange-500 text-white hover:bg-orange-600 flex items-center gap-1">
+              <Plus className="w-4 h-4" /> Record Test
+            </button>
+          )}
+        </div>
+
+        {showTestForm && (
+          <div className={`p-4 rounded-xl space-y-3 ${darkMode ? 'bg-slate-700/50' : 'bg-slate-50'}`}>
+            <div className="grid grid-cols-2 lg:grid-cols-4 gap-3">
+              <div>
+                <label className={labelClass}>Pile</label>
+                <input type="text" value={testForm.pileId} placeholder={pileIdExample(project.pileIdFormat || DEFAULT_PILE_ID_FORMAT)}
+                  onChange={(e) => setTestForm(prev => ({ ...prev, pileId: e.target.value }))} className={inputClass} />
+              </div>
+              <div>
+                <label className={labelClass}>Test</label>
+                <select value={testForm.testType} onChange={(e) => setTestForm(prev => ({ ...prev, testType: e.target.value }))} className={`${inputClass} capitalize`}>
+                  {LOAD_TEST_TYPES.map(type => <option key={type} value={type}>{type.replace('_', ' ')}</option>)}
+                </select>
+              </div>
+              {([
+                ['designLoad', 'Design load (kN)'],
+                ['testLoad', 'Load held (kN)'],
+                ['displacement', 'Displacement (mm)'],
+                ['allowableDisplacement', 'Allowable (mm)'],
+              ] as const).map(([field, label]) => (
+                <div key={field}>
+                  <label className={labelClass}>{label}</label>
+                  <input type="number" step="any" value={testForm[field]}
+                    onChange={(e) => setTestForm(prev => ({ ...prev, [field]: e.target.value }))} className={inputClass} />
+                </div>
+              ))}
+              <div>
+                <label className={labelClass}>Tested</label>
+                <input type="date" value={testForm.testedAt} onChange={(e) => setTestForm(prev => ({ ...prev, testedAt: e.target.value }))} className={inputClass} />
+              </div>
+            </div>
+            <textarea value={testForm.notes} onChange={(e) => setTestForm(prev => ({ ...prev, notes: e.target.value }))}
+              rows={2} placeholder="Notes" className={inputClass} />
+            <div className="flex gap-2">
+              <button onClick={() => setShowTestForm(false)}
+                className={`flex-1 py-2 rounded-xl font-medium ${darkMode ? 'bg-slate-700 text-slate-300' : 'bg-white border border-slate-200 text-slate-600'}`}>
+                Cancel
+              </button>
+              <button onClick={saveLoadTest} disabled={saving || !testForm.pileId || !testForm.testedAt}
+                className="flex-1 py-2 rounded-xl font-bold bg-orange-500 text-white hover:bg-orange-600 disabled:opacity-50">
+                {saving ? 'Saving...' : 'Save Test'}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {loadTests.length === 0 ? (
+          <p className={`text-center py-6 ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>No load tests recorded</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className={darkMode ? 'text-slate-400' : 'text-slate-500'}>
+                  <th className="text-left py-2 pr-4 font-medium">Pile</th>
+                  <th className="text-left py-2 pr-4 font-medium">Test</th>
+                  <th className="text-left py-2 pr-4 font-medium">Load held / design</th>
+                  <th className="text-left py-2 pr-4 font-medium">Displacement / allowable</th>
+                  <th className="text-left py-2 pr-4 font-medium">Boring</th>
+                  <th className="text-left py-2 pr-4 font-medium">Date</th>
+                  <th className="text-left py-2 font-medium">Result</th>
+                  {canManage && <th />}
+                </tr>
+              </thead>
+              <tbody>
+                {loadTests.map(test => (
+                  <tr key={test.id} className={`border-t ${darkMode ? 'border-slate-700 text-slate-300' : 'border-slate-100 text-slate-700'}`}>
+                    <td className="py-2 pr-4 font-medium">{test.pileId}</td>
+                    <td className="py-2 pr-4 capitalize">{test.testType.replace('_', ' ')}</td>
+                    <td className="py-2 pr-4">{test.testLoad} / {test.designLoad} kN</td>
+                    <td className="py-2 pr-4">{test.displacement} / {test.allowableDisplacement} mm</td>
+                    <td className="py-2 pr-4">{test.boring?.name || '—'}</td>
+                    <td className="py-2 pr-4">{format(new Date(test.testedAt), 'MMM d, yyyy')}</td>
+                    <td className="py-2">
+                      <span className={`px-2 py-0.5 rounded-full text-xs font-medium capitalize ${test.result === 'pass' ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'}`}>
+                        {test.result}
+                      </span>
+                    </td>
+                    {canManage && (
+                      <td className="py-2 text-right">
+                        <button onClick={() => deleteLoadTest(test)} className="text-red-500"><Trash2 className="w-4 h-4" /></button>
+                      </td>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+// Project Team Component - PMs assign people to a project
+function ProjectTeamView({ project, users, darkMode }: {
+  project: Project; users: User[]; darkMode: boolean;
+}) {
+  const [assignedIds, setAssignedIds] = useState<string[]>([])
+  const [loading, setLoading] = useState(true)
+  const [savingId, setSavingId] = useState<string | null>(null)
+
+  const fetchAssignments = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/assignments?projectId=${project.id}`, { cache: 'no-store' })
+      if (response.ok) {
+        const data = await response.json()
+        setAssignedIds(data.assignments.map((a: { userId: string }) => a.userId))
+      }
+    } catch (error) {
+      console.error('Failed to fetch assignments:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [project.id])
+
+  useEffect(() => {
+    fetchAssignments()
+  }, [fetchAssignments])
+
+  const toggleAssignment = async (member: User) => {
+    const assigned = assignedIds.includes(member.id)
+    setSavingId(member.id)
+    try {
+      const response = assigned
+        ? await fetch(`/api/assignments?projectId=${project.id}&userId=${member.id}`, { method: 'DELETE' })
+        : await fetch('/api/assignments', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ projectId: project.id, userId: member.id })
+          })
+      if (response.ok) {
+        setAssignedIds(ids => assigned ? ids.filter(id => id !== member.id) : [...ids, member.id])
+        toast.success(assigned ? `${member.name} removed from project` : `${member.name} assigned to project`)
+      } else {
+        toast.error('Failed to update assignment')
+      }
+    } catch {
+      toast.error('Failed to update assignment')
+    } finally {
+      setSavingId(null)
+    }
+  }
+
+  return (
+    <div className="p-4 lg:p-6 space-y-6">
+      <div>
+        <h2 className={`text-2xl font-bold ${darkMode ? 'text-white' : 'text-slate-800'}`}>Project Team</h2>
+        <p className={darkMode ? 'text-slate-400' : 'text-slate-600'}>{project.name}</p>
+      </div>
+
+      <div className={`rounded-2xl border p-4 lg:p-6 ${darkMode ? 'bg-slate-800 border-slate-700' : 'bg-white border-slate-200'}`}>
+        <p className={`text-sm mb-4 ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>
+          Installers, inspectors and engineers only see projects they are assigned to. Admins, PMs and executives see every project.
+        </p>
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <RefreshCw className={`w-6 h-6 animate-spin ${darkMode ? 'text-slate-400' : 'text-slate-500'}`} />
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {users.map(member => {
+              const assigned = assignedIds.includes(member.id)
+              return (
+                <div key={member.id} className={`flex items-center justify-between p-3 rounded-xl ${darkMode ? 'bg-slate-700' : 'bg-slate-50'}`}>
+                  <div className="flex items-center gap-3">
+                    <div className="w-10 h-10 bg-orange-100 rounded-full flex items-center justify-center">
+                      <span className="text-orange-600 font-medium">{member.name.charAt(0)}</span>
+                    </div>
+                    <div>
+                      <p className={`font-medium ${darkMode ? 'text-white' : 'text-slate-800'}`}>{member.name}</p>
+                      <p className={`text-xs capitalize ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>{member.role}</p>
+                    </div>
+                  </div>
+                  <button
+                    onClick={() => toggleAssignment(member)}
+                    disabled={savingId === member.id}
+                    className={`px-3 py-1.5 rounded-lg text-sm font-medium flex items-center gap-1 disabled:opacity-50 ${
+                      assigned ? 'bg-green-100 text-green-700 hover:bg-green-200' :
+                      darkMode ? 'bg-slate-600 text-slate-200 hover:bg-slate-500' : 'bg-white border border-slate-200 text-slate-600 hover:bg-slate-100'
+                    }`}
+                  >
+                    {assigned ? <><Check className="w-4 h-4" /> Assigned</> : <><Plus className="w-4 h-4" /> Assign</>}
+                  </button>
+                </div>
+              )
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+// Conflict Review Component - PMs decide between server and device versions
+function ConflictReviewView({ darkMode, onResolved }: {
+  darkMode: boolean; onResolved: () => void;
+}) {
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([])
+  const [loading, setLoading] = useState(true)
+  const [resolvingId, setResolvingId] = useState<string | null>(null)
+  // Per conflict, which side each field is taken from when merging
+  const [choices, setChoices] = useState<Record<string, Record<string, 'server' | 'device'>>>({})
+
+  const entityLabels: Record<SyncEntity, string> = { production: 'Production', inspection: 'QC Inspection', refusal: 'Refusal' }
+
+  const fetchConflicts = useCallback(async () => {
+    try {
+      const response = await fetch('/api/conflicts', { cache: 'no-store' })
+      if (response.ok) {
+        const data = await response.json()
+        setConflicts(data.conflicts)
+      }
+    } catch (error) {
+      console.error('Failed to fetch conflicts:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchConflicts()
+  }, [fetchConflicts])
+
+  const formatValue = (value: unknown) => {
+    if (value === null || value === undefined || value === '') return '—'
+    if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}T/.test(value)) return format(new Date(value), 'MMM d, yyyy')
+    return String(value)
+  }
+
+  const changedFields = (conflict: SyncConflict) =>
+    Object.keys(conflict.deviceVersion).filter(field =>
+      formatValue(conflict.deviceVersion[field]) !== formatValue(conflict.serverVersion?.[field]))
+
+  const choiceFor = (conflict: SyncConflict, field: string) => choices[conflict.id]?.[field] || 'server'
+
+  const resolve = async (conflict: SyncConflict, resolution: 'server' | 'device' | 'merge') => {
+    const fields = resolution === 'merge'
+      ? Object.fromEntries(changedFields(conflict)
+          .filter(field => choiceFor(conflict, field) === 'device')
+          .map(field => [field, conflict.deviceVersion[field]]))
+      : undefined
+
+    setResolvingId(conflict.id)
+    try {
+      const response = await fetch('/api/conflicts', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id: conflict.id, resolution, fields })
+      })
+      if (response.ok) {
+        setConflicts(list => list.filter(c => c.id !== conflict.id))
+        toast.success('Conflict resolved')
+        onResolved()
+      } else {
+        const data = await response.json().catch(() => ({}))
+        toast.error(data.error || 'Failed to resolve conflict')
+      }
+    } catch {
+      toast.error('Failed to resolve conflict')
+    } finally {
+      setResolvingId(null)
+    }
+  }
+
+  return (
+    <div className="p-4 lg:p-6 space-y-6">
+      <div>
+        <h2 className={`text-2xl font-bold ${darkMode ? 'text-white' : 'text-slate-800'}`}>Sync Conflicts</h2>
+        <p className={darkMode ? 'text-slate-400' : 'text-slate-600'}>
+          Offline changes made against an out-of-date record. Nothing is overwritten until you choose.
+        </p>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-8">
+          <RefreshCw className={`w-6 h-6 animate-spin ${darkMode ? 'text-slate-400' : 'text-slate-500'}`} />
+        </div>
+      ) : conflicts.length === 0 ? (
+        <div className={`rounded-2xl border p-8 text-center ${darkMode ? 'bg-slate-800 border-slate-700 text-slate-400' : 'bg-white border-slate-200 text-slate-500'}`}>
+          <CheckCircle className="w-8 h-8 mx-auto mb-2 text-green-500" />
+          No conflicts to review
+        </div>
+      ) : (
+        conflicts.map(conflict => {
+          const fields = changedFields(conflict)
+          return (
+            <div key={conflict.id} className={`rounded-2xl border p-4 lg:p-6 space-y-4 ${darkMode ? 'bg-slate-800 border-slate-700' : 'bg-white border-slate-200'}`}>
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <p className={`font-semibold ${darkMode ? 'text-white' : 'text-slate-800'}`}>
+                    {entityLabels[conflict.entity]} {conflict.action === 'delete' ? 'deletion' : 'edit'}
+                  </p>
+                  <p className={`text-xs ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>
+                    {conflict.submittedBy} • {format(new Date(conflict.createdAt), 'MMM d, h:mm a')}
+                  </p>
+                </div>
+                <span className="text-xs px-2 py-0.5 bg-yellow-100 text-yellow-700 rounded-full whitespace-nowrap">
+                  Rev {conflict.baseRevision} → {conflict.serverVersion ? `Rev ${conflict.serverVersion.revision}` : 'deleted'}
+                </span>
+              </div>
+              {conflict.reason && (
+                <p className={`text-sm ${darkMode ? 'text-slate-300' : 'text-slate-600'}`}>{conflict.reason}</p>
+              )}
+
+              {conflict.action === 'update' && conflict.serverVersion && (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className={darkMode ? 'text-slate-400' : 'text-slate-500'}>
+                        <th className="text-left py-2 pr-4 font-medium">Field</th>
+                        <th className="text-left py-2 pr-4 font-medium">Server</th>
+                        <th className="text-left py-2 font-medium">Device</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {fields.map(field => {
+                        const choice = choiceFor(conflict, field)
+                        const cell = (side: 'server' | 'device', value: unknown) => (
+                          <td className="py-1 pr-4">
+                            <button
+                              onClick={() => setChoices(prev => ({ ...prev, [conflict.id]: { ...prev[conflict.id], [field]: side } }))}
+                              className={`w-full text-left px-2 py-1 rounded-lg ${
+                                choice === side ? 'bg-orange-100 text-orange-700 font-medium' :
+                                darkMode ? 'text-slate-300 hover:bg-slate-700' : 'text-slate-700 hover:bg-slate-100'
+                              }`}
+                            >
+                              {formatValue(value)}
+                            </button>
+                          </td>
+                        )
+                        return (
+                          <tr key={field} className={`border-t ${darkMode ? 'border-slate-700' : 'border-slate-100'}`}>
+                            <td className={`py-1 pr-4 ${darkMode ? 'text-slate-300' : 'text-slate-600'}`}>{field}</td>
+                            {cell('server', conflict.serverVersion?.[field])}
+                            {cell('device', conflict.deviceVersion[field])}
+                          </tr>
+                        )
+                      })}
+                    </tbody>
+                  </table>
+                  {fields.length === 0 && (
+                    <p className={`text-sm ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>The device values already match the server.</p>
+                  )}
+                </div>
+              )}
+
+              <div className="flex flex-wrap gap-2">
+                <button onClick={() => resolve(conflict, 'server')} disabled={resolvingId === conflict.id}
+                  className={`px-4 py-2 rounded-xl text-sm font-medium disabled:opacity-50 ${darkMode ? 'bg-slate-700 text-slate-200 hover:bg-slate-600' : 'bg-slate-100 text-slate-700 hover:bg-slate-200'}`}>
+                  Keep server
+                </button>
+                {conflict.serverVersion && (
+                  <button onClick={() => resolve(conflict, 'device')} disabled={resolvingId === conflict.id}
+                    className="px-4 py-2 rounded-xl text-sm font-medium bg-orange-100 text-orange-700 hover:bg-orange-200 disabled:opacity-50">
+                    {conflict.action === 'delete' ? 'Delete record' : 'Use device'}
+                  </button>
+                )}
+                {conflict.action === 'update' && conflict.entity !== 'refusal' && conflict.serverVersion && fields.length > 1 && (
+                  <button onClick={() => resolve(conflict, 'merge')} disabled={resolvingId === conflict.id}
+                    className="px-4 py-2 rounded-xl text-sm font-medium bg-orange-500 text-white hover:bg-orange-600 disabled:opacity-50">
+                    Apply merge
+                  </button>
+                )}
+              </div>
+            </div>
+          )
+        })
+      )}
+    </div>
+  )
+}
+
+// Settings View Component
+function SettingsView({ company, user, darkMode, onUpdate }: {
+  company: Company; user: User | null; darkMode: boolean; onUpdate: () => void;
+}) {
+  const canManageRacking = can(user?.role, 'racking:manage')
+  // null: closed, 'new': creating, otherwise the system being edited
+  const [editingRacking, setEditingRacking] = useState<RackingSystem | 'new' | null>(null)
+  const [importingLibrary, setImportingLibrary] = useState(false)
+
+  return (
+    <div className="p-4 lg:p-6 space-y-6">
+      <div>
+        <h2 className={`text-2xl font-bold ${darkMode ? 'text-white' : 'text-slate-800'}`}>Settings</h2>
+        <p className={darkMode ? 'text-slate-400' : 'text-slate-600'}>Manage your account and projects</p>
+      </div>
+
+      {/* Company Info */}
+      <div className={`rounded-2xl border p-4 lg:p-6 ${darkMode ? 'bg-slate-800 border-slate-700' : 'bg-white border-slate-200'}`}>
+        <h3 className={`font-semibold mb-4 ${darkMode ? 'text-white' : 'text-slate-800'}`}>Company</h3>
+        <div className="space-y-3">
+          <div className={`flex justify-between items-center p-3 rounded-xl ${darkMode ? 'bg-slate-700' : 'bg-slate-50'}`}>
+            <span className={darkMode ? 'text-slate-400' : 'text-slate-600'}>Name</span>
+            <span className={`font-medium ${darkMode ? 'text-white' : 'text-slate-800'}`}>{company.name}</span>
+          </div>
+          <div className={`flex justify-between items-center p-3 rounded-xl ${darkMode ? 'bg-slate-700' : 'bg-slate-50'}`}>
+            <span className={darkMode ? 'text-slate-400' : 'text-slate-600'}>Subscription</span>
+            <span className="px-2 py-1 bg-orange-100 text-orange-700 rounded-full text-sm font-medium capitalize">{company.subscription}</span>
+          </div>
+          <div className={`flex justify-between items-center p-3 rounded-xl ${darkMode ? 'bg-slate-700' : 'bg-slate-50'}`}>
+            <span className={darkMode ? 'text-slate-400' : 'text-slate-600'}>Projects</span>
+            <span className={`font-medium ${darkMode ? 'text-white' : 'text-slate-800'}`}>{company.projects?.length || 0}</span>
+          </div>
+        </div>
+      </div>
+
+      {/* Racking Systems */}
+      <div className={`rounded-2xl border p-4 lg:p-6 ${darkMode ? 'bg-slate-800 border-slate-700' : 'bg-white border-slate-200'}`}>
+        <div className="flex items-center justify-between mb-4">
+          <h3 className={`font-semibold ${darkMode ? 'text-white' : 'text-slate-800'}`}>Racking Systems</h3>
+          <div className="flex items-center gap-3">
+            <span className={`text-sm ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>{company.rackingSystems?.length || 0} profiles</span>
+            {(company.rackingSystems?.length || 0) > 0 && (
+              <button onClick={() => downloadToleranceLibrary()} title="Export all"
+                className={`p-1.5 rounded-lg ${darkMode ? 'bg-slate-700 text-slate-300 hover:bg-slate-600' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`}>
+                <Download className="w-4 h-4" />
+              </button>
+            )}
+            {canManageRacking && (
+              <button onClick={() => setImportingLibrary(true)} title="Import library"
+                className={`p-1.5 rounded-lg ${darkMode ? 'bg-slate-700 text-slate-300 hover:bg-slate-600' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`}>
+                <Upload className="w-4 h-4" />
+              </button>
+            )}
+            {canManageRacking && (
+              <button onClick={() => setEditingRacking('new')}
+                className="flex items-center gap-1 px-3 py-1.5 bg-orange-500 text-white rounded-lg text-sm font-medium hover:bg-orange-600">
+                <Plus className="w-4 h-4" />
+                New
+              </button>
+            )}
+          </div>
+        </div>
+        <div className="space-y-2">
+          {company.rackingSystems?.map(rs => (
+            <button key={rs.id} onClick={() => setEditingRacking(rs)}
+              className={`w-full flex items-center justify-between p-3 rounded-xl text-left ${darkMode ? 'bg-slate-700 hover:bg-slate-600' : 'bg-slate-50 hover:bg-slate-100'}`}>
+              <div>
+                <p className={`font-medium ${darkMode ? 'text-white' : 'text-slate-800'}`}>{rs.name}</p>
+                <p className={`text-sm ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>{rs.manufacturer}</p>
+              </div>
+              <span className={`text-xs ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>rev {rs.revision || 1}</span>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {editingRacking && (
+        <RackingSystemEditor
+          key={editingRacking === 'new' ? 'new' : editingRacking.id}
+          rackingSystem={editingRacking === 'new' ? null : editingRacking}
+          darkMode={darkMode}
+          canManage={canManageRacking}
+          onClose={() => setEditingRacking(null)}
+          onSaved={() => { setEditingRacking(null); onUpdate() }}
+        />
+      )}
+
+      {importingLibrary && (
+        <ToleranceLibraryImport
+          darkMode={darkMode}
+          onClose={() => setImportingLibrary(false)}
+          onImported={() => { setImportingLibrary(false); onUpdate() }}
+        />
+      )}
+
+      {/* Team */}
+      <div className={`rounded-2xl border p-4 lg:p-6 ${darkMode ? 'bg-slate-800 border-slate-700' : 'bg-white border-slate-200'}`}>
+        <h3 className={`font-semibold mb-4 ${darkMode ? 'text-white' : 'text-slate-800'}`}>Team Members</h3>
+        <div className="space-y-2">
+          {company.users?.map(u => (
+            <div key={u.id} className={`flex items-center justify-between p-3 rounded-xl ${darkMode ? 'bg-slate-700' : 'bg-slate-50'}`}>
+              <div className="flex items-center gap-3">
+                <div className="w-10 h-10 bg-orange-100 rounded-full flex items-center justify-center">
+                  <span className="text-orange-600 font-medium">{u.name.charAt(0)}</span>
+                </div>
+                <div>
+                  <p className={`font-medium ${darkMode ? 'text-white' : 'text-slate-800'}`}>{u.name}</p>
+                  <p className={`text-xs ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>{u.email}</p>
+                </div>
+              </div>
+              <span className={`px-2 py-1 rounded-full text-xs font-medium capitalize ${
+                u.role === 'admin' ? 'bg-blue-100 text-blue-700' :
+                u.role === 'pm' ? 'bg-green-100 text-green-700' :
+                u.role === 'inspector' ? 'bg-purple-100 text-purple-700' :
+                u.role === 'engineer' ? 'bg-yellow-100 text-yellow-700' :
+                'bg-slate-100 text-slate-600'
+              }`}>
+                {u.role}
+              </span>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+// Download racking systems as a tolerance library file - one system, or all of them
+async function downloadToleranceLibrary(rackingSystem?: RackingSystem) {
+  try {
+    const response = await fetch(`/api/racking-systems/export${rackingSystem ? `?id=${rackingSystem.id}` : ''}`)
+    if (!response.ok) throw new Error('Export failed')
+    const blob = await response.blob()
+    const url = window.URL.createObjectURL(blob)
+    const a = document.createElement('a')
+    a.href = url
+    a.download = rackingSystem ? `${rackingSystem.manufacturer}_${rackingSystem.name}_tolerances.json` : 'tolerance_library.json'
+    a.click()
+    window.URL.revokeObjectURL(url)
+  } catch {
+    toast.error('Failed to export tolerances')
+  }
+}
+
+// Racking System Editor Component - tolerance profiles per pile type. Every
+// tolerance change is saved as a new revision; earlier inspections keep theirs.
+function RackingSystemEditor({ rackingSystem, darkMode, canManage, onClose, onSaved }: {
+  rackingSystem: RackingSystem | null; darkMode: boolean; canManage: boolean;
+  onClose: () => void; onSaved: () => void;
+}) {
+  const profileValues = (raw?: string) => {
+    try {
+      const profile = raw ? JSON.parse(raw) : {}
+      return Object.fromEntries(TOLERANCE_FIELDS.map(({ key }) => [key, profile[key] != null ? String(profile[key]) : '']))
+    } catch {
+      return {}
+    }
+  }
+
+  const [name, setName] = useState(rackingSystem?.name || '')
+  const [manufacturer, setManufacturer] = useState(rackingSystem?.manufacturer || '')
+  const [version, setVersion] = useState(rackingSystem?.version || '')
+  const [pileType, setPileType] = useState<'interior' | 'exterior' | 'motor'>('interior')
+  const [profiles, setProfiles] = useState<Record<string, Record<string, string>>>(() => ({
+    interior: profileValues(rackingSystem?.interiorTolerances),
+    exterior: profileValues(rackingSystem?.exteriorTolerances),
+    motor: profileValues(rackingSystem?.motorTolerances),
+  }))
+  const [revisions, setRevisions] = useState<RackingSystemRevision[]>([])
+  const [saving, setSaving] = useState(false)
+  const [confirmDelete, setConfirmDelete] = useState(false)
+
+  useEffect(() => {
+    if (!rackingSystem) return
+    fetch(`/api/racking-systems?id=${rackingSystem.id}`, { cache: 'no-store' })
+      .then(response => response.ok ? response.json() : null)
+      .then(data => data && setRevisions(data.rackingSystem.revisions))
+      .catch(error => console.error('Failed to fetch revisions:', error))
+  }, [rackingSystem])
+
+  const setValue = (key: string, value: string) => {
+    setProfiles(current => ({ ...current, [pileType]: { ...current[pileType], [key]: value } }))
+  }
+
+  // Blank fields are left out of the profile
+  const toProfile = (values: Record<string, string>) => Object.fromEntries(
+    Object.entries(values).filter(([, value]) => value.trim() !== '').map(([key, value]) => [key, parseFloat(value)])
+  )
+
+  const save = async () => {
+    setSaving(true)
+    try {
+      const response = await fetch('/api/racking-systems', {
+        method: rackingSystem ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          id: rackingSystem?.id,
+          name, manufacturer, version: version || null,
+          interiorTolerances: toProfile(profiles.interior),
+          exteriorTolerances: toProfile(profiles.exterior),
+          motorTolerances: toProfile(profiles.motor),
+        })
+      })
+      const data = await response.json()
+      if (response.ok) {
+        toast.success(data.newRevision ? `Saved as revision ${data.rackingSystem.revision}` : 'Racking system saved')
+        onSaved()
+      } else {
+        toast.error(data.error || 'Failed to save racking system')
+      }
+    } catch {
+      toast.error('Failed to save racking system')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const remove = async () => {
+    if (!rackingSystem) return
+    const response = await fetch(`/api/racking-systems?id=${rackingSystem.id}`, { method: 'DELETE' })
+    const data = await response.json()
+    if (response.ok) {
+      toast.success('Racking system deleted')
+      onSaved()
+    } else {
+      toast.error(data.error || 'Failed to delete racking system')
+      setConfirmDelete(false)
+    }
+  }
+
+  const inputClass = `w-full px-4 py-2.5 border rounded-xl focus:outline-none focus:ring-2 focus:ring-orange-500 disabled:opacity-60 ${darkMode ? 'bg-slate-700 border-slate-600 text-white' : 'border-slate-200'}`
+  const labelClass = `block text-sm font-medium mb-1 ${darkMode ? 'text-slate-300' : 'text-slate-700'}`
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
+      <div className={`w-full max-w-lg max-h-[90vh] overflow-y-auto rounded-2xl p-6 ${darkMode ? 'bg-slate-800' : 'bg-white'}`}>
+        <div className="flex items-center justify-between mb-4">
+          <h3 className={`text-lg font-semibold ${darkMode ? 'text-white' : 'text-slate-800'}`}>
+            {rackingSystem ? rackingSystem.name : 'New Racking System'}
+            {rackingSystem?.revision && (
+              <span className={`ml-2 text-sm font-normal ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>rev {rackingSystem.revision}</span>
+            )}
+          </h3>
+          <div className="flex items-center gap-3">
+            {rackingSystem && (
+              <button onClick={() => downloadToleranceLibrary(rackingSystem)} title="Export tolerances"
+                className={darkMode ? 'text-slate-400 hover:text-white' : 'text-slate-500 hover:text-slate-800'}>
+                <Download className="w-5 h-5" />
+              </button>
+            )}
+            <button onClick={onClose} className={darkMode ? 'text-slate-400' : 'text-slate-500'}>
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className={labelClass}>Name</label>
+              <input type="text" value={name} onChange={(e) => setName(e.target.value)} disabled={!canManage}
+                placeholder="NEXTracker 2.1" className={inputClass} />
+            </div>
+            <div>
+              <label className={labelClass}>Manufacturer</label>
+              <input type="text" value={manufacturer} onChange={(e) => setManufacturer(e.target.value)} disabled={!canManage}
+                placeholder="NEXTracker" className={inputClass} />
+            </div>
+          </div>
+          <div>
+            <label className={labelClass}>Version</label>
+            <input type="text" value={version} onChange={(e) => setVersion(e.target.value)} disabled={!canManage}
+              placeholder="2.1" className={inputClass} />
+          </div>
+
+          {/* Tolerance profiles */}
+          <div className={`pt-4 border-t ${darkMode ? 'border-slate-700' : 'border-slate-200'}`}>
+            <h4 className={`text-sm font-semibold mb-3 ${darkMode ? 'text-white' : 'text-slate-800'}`}>Tolerances</h4>
+            <div className={`flex rounded-xl p-1 mb-3 ${darkMode ? 'bg-slate-700' : 'bg-slate-100'}`}>
+              {(['interior', 'exterior', 'motor'] as const).map(type => (
+                <button key={type} onClick={() => setPileType(type)}
+                  className={`flex-1 py-1.5 rounded-lg text-sm font-medium capitalize ${
+                    pileType === type ? 'bg-orange-500 text-white' : darkMode ? 'text-slate-300' : 'text-slate-600'
+                  }`}>
+                  {type}
+                </button>
+              ))}
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              {TOLERANCE_FIELDS.map(({ key, label, unit }) => (
+                <div key={key}>
+                  <label className={`block text-xs font-medium mb-1 ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>{label} ({unit})</label>
+                  <input type="number" min="0" step="any" value={profiles[pileType][key] ?? ''} disabled={!canManage}
+                    onChange={(e) => setValue(key, e.target.value)} className={inputClass} />
+                </div>
+              ))}
+            </div>
+            <p className={`text-xs mt-2 ${darkMode ? 'text-slate-500' : 'text-slate-400'}`}>
+              Plumb and twist limits apply either way (±). Changing a tolerance creates a new revision; past inspections are not re-graded.
+            </p>
+          </div>
+
+          {/* Revision history */}
+          {revisions.length > 0 && (
+            <div className={`pt-4 border-t ${darkMode ? 'border-slate-700' : 'border-slate-200'}`}>
+              <h4 className={`text-sm font-semibold mb-2 ${darkMode ? 'text-white' : 'text-slate-800'}`}>Revisions</h4>
+              <div className="space-y-1">
+                {revisions.map(rev => (
+                  <div key={rev.id} className={`flex items-center justify-between text-sm p-2 rounded-lg ${darkMode ? 'bg-slate-700' : 'bg-slate-50'}`}>
+                    <span className={darkMode ? 'text-slate-300' : 'text-slate-700'}>
+                      Revision {rev.revision}
+                      {rev.revision === rackingSystem?.revision && <span className="ml-2 text-xs text-green-500">current</span>}
+                    </span>
+                    <span className={darkMode ? 'text-slate-400' : 'text-slate-500'}>
+                      {rev._count?.inspections || 0} inspections • {format(new Date(rev.createdAt), 'MMM d, yyyy')}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        {canManage && (
+          <div className="flex gap-3 mt-6">
+            {rackingSystem && (
+              <button onClick={confirmDelete ? remove : () => setConfirmDelete(true)}
+                className={`py-2.5 px-4 rounded-xl font-medium ${confirmDelete ? 'bg-red-600 text-white' : darkMode ? 'bg-slate-700 text-red-400' : 'bg-red-50 text-red-600'}`}>
+                {confirmDelete ? 'Confirm Delete' : <Trash2 className="w-5 h-5" />}
+              </button>
+            )}
+            <button onClick={onClose} className={`flex-1 py-2.5 rounded-xl font-medium ${darkMode ? 'bg-slate-700 text-slate-300' : 'bg-slate-100 text-slate-600'}`}>
+              Cancel
+            </button>
+            <button onClick={save} disabled={saving || !name.trim() || !manufacturer.trim()}
+              className="flex-1 py-2.5 bg-gradient-to-r from-orange-500 to-orange-600 text-white rounded-xl font-medium disabled:opacity-50">
+              {saving ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+// Tolerance Library Import Component - shows what a library file would change before applying it
+function ToleranceLibraryImport({ darkMode, onClose, onImported }: {
+  darkMode: boolean; onClose: () => void; onImported: () => void;
+}) {
+  const [file, setFile] = useState<{ name: string; content: string } | null>(null)
+  const [report, setReport] = useState<{
+    errors: string[]
+    systems: { name: string; manufacturer: string; action: 'create' | 'update' | 'unchanged'; errors: string[]
+      changes: { field: string; current: string | number | null; incoming: string | number | null }[] }[]
+  } | null>(null)
+  const [busy, setBusy] = useState(false)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const send = async (body: Record<string, unknown>) => {
+    const response = await fetch('/api/racking-systems/import', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    })
+    return { ok: response.ok, data: await response.json() }
+  }
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0]
+    e.target.value = ''
+    if (!selected) return
+
+    const content = await selected.text()
+    setFile({ name: selected.name, content })
+    setReport(null)
+    setBusy(true)
+    try {
+      const { ok, data } = await send({ content, dryRun: true })
+      if (ok) setReport(data)
+      else toast.error(data.error || 'Failed to read library')
+    } catch {
+      toast.error('Failed to read library')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const importLibrary = async () => {
+    if (!file) return
+    setBusy(true)
+    try {
+      const { ok, data } = await send({ content: file.content })
+      if (ok) {
+        toast.success(`Library imported: ${data.created} new, ${data.updated} updated`)
+        onImported()
+      } else {
+        if (data.systems) setReport(data)
+        toast.error(data.error || 'Failed to import library')
+      }
+    } catch {
+      toast.error('Failed to import library')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const blocked = !report || report.errors.length > 0 || report.systems.some(system => system.errors.length > 0)
+    || report.systems.every(system => system.action === 'unchanged')
+  const formatValue = (value: string | number | null) => value === null ? '—' : String(value)
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
+      <div className={`w-full max-w-lg max-h-[90vh] overflow-y-auto rounded-2xl p-6 ${darkMode ? 'bg-slate-800' : 'bg-white'}`}>
+        <div className="flex items-center justify-between mb-4">
+          <h3 className={`text-lg font-semibold ${darkMode ? 'text-white' : 'text-slate-800'}`}>Import Tolerance Library</h3>
+          <button onClick={onClose} className={darkMode ? 'text-slate-400' : 'text-slate-500'}>
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <input ref={fileInputRef} type="file" accept=".json" onChange={handleFile} className="hidden" />
+        <button onClick={() => fileInputRef.current?.click()} disabled={busy}
+          className={`w-full py-2.5 rounded-xl text-sm font-medium flex items-center justify-center gap-2 disabled:opacity-50 ${darkMode ? 'bg-slate-700 text-slate-200 hover:bg-slate-600' : 'bg-slate-50 border border-slate-200 text-slate-600 hover:bg-slate-100'}`}>
+          {busy ? <RefreshCw className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+          {file ? file.name : 'Choose Library File (.json)'}
+        </button>
+
+        {report && (
+          <div className="mt-4 space-y-3">
+            {report.errors.map(error => (
+              <p key={error} className="text-sm text-red-600">{error}</p>
+            ))}
+            {report.systems.map((system, i) => (
+              <div key={i} className={`rounded-xl p-3 text-sm ${darkMode ? 'bg-slate-700' : 'bg-slate-50'}`}>
+                <div className="flex items-center justify-between mb-1">
+                  <span className={`font-medium ${darkMode ? 'text-white' : 'text-slate-800'}`}>{system.manufacturer} {system.name}</span>
+                  <span className={`px-2 py-0.5 rounded-full text-xs font-medium capitalize ${
+                    system.action === 'create' ? 'bg-green-100 text-green-700' :
+                    system.action === 'update' ? 'bg-blue-100 text-blue-700' :
+                    'bg-slate-200 text-slate-600'
+                  }`}>
+                    {system.action === 'create' ? 'new' : system.action}
+                  </span>
+                </div>
+                {system.errors.map(error => (
+                  <p key={error} className="text-xs text-red-600">{error}</p>
+                ))}
+                {system.changes.length > 0 && (
+                  <table className={`w-full text-xs ${darkMode ? 'text-slate-300' : 'text-slate-600'}`}>
+                    <tbody>
+                      {system.changes.map(change => (
+                        <tr key={change.field}>
+                          <td className="py-0.5 font-mono">{change.field}</td>
+                          <td className="py-0.5 text-right text-red-500 line-through">{system.action === 'update' ? formatValue(change.current) : ''}</td>
+                          <td className="py-0.5 text-right text-green-600">{formatValue(change.incoming)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex gap-3 mt-6">
+          <button onClick={onClose} className={`flex-1 py-2.5 rounded-xl font-medium ${darkMode ? 'bg-slate-700 text-slate-300' : 'bg-slate-100 text-slate-600'}`}>
+            Cancel
+          </button>
+          <button onClick={importLibrary} disabled={busy || blocked}
+            className="flex-1 py-2.5 bg-gradient-to-r from-orange-500 to-orange-600 text-white rounded-xl font-medium disabled:opacity-50">
+            Import
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+// Pile Layout Import Component - CSV or GeoJSON pile plan, checked before it is written
+function PileLayoutImport({ project, darkMode }: { project: Project; darkMode: boolean }) {
+  const [file, setFile] = useState<{ name: string; format: 'csv' | 'geojson'; content: string } | null>(null)
+  const [report, setReport] = useState<{
+    pileCount: number; errors: { line: number; message: string }[]; duplicates: string[]; gaps: string[]; warnings: string[]
+  } | null>(null)
+  const [busy, setBusy] = useState(false)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const send = async (body: Record<string, unknown>) => {
+    const response = await fetch('/api/piles/import', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ projectId: project.id, ...body })
+    })
+    return { ok: response.ok, data: await response.json() }
+  }
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0]
+    e.target.value = ''
+    if (!selected) return
+
+    const format = selected.name.toLowerCase().endsWith('.csv') ? 'csv' : 'geojson'
+    const content = await selected.text()
+    setFile({ name: selected.name, format, content })
+    setReport(null)
+    setBusy(true)
+    try {
+      const { ok, data } = await send({ format, content, dryRun: true })
+      if (ok) setReport(data)
+      else toast.error(data.error || 'Failed to read layout')
+    } catch {
+      toast.error('Failed to read layout')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const importLayout = async () => {
+    if (!file) return
+    setBusy(true)
+    try {
+      const { ok, data } = await send({ format: file.format, content: file.content })
+      if (ok) {
+        toast.success(`Layout imported: ${data.created} new, ${data.updated} updated`)
+        data.warnings.forEach((warning: string) => toast.warning(warning))
+        setFile(null)
+        setReport(null)
+      } else {
+        if (data.errors) setReport(data)
+        toast.error(data.error || 'Failed to import layout')
+      }
+    } catch {
+      toast.error('Failed to import layout')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const blocked = !report || report.errors.length > 0 || report.duplicates.length > 0 || report.pileCount === 0
+  const listClass = `text-xs space-y-0.5 max-h-24 overflow-y-auto ${darkMode ? 'text-slate-300' : 'text-slate-600'}`
+
+  return (
+    <div className="space-y-2">
+      <input ref={fileInputRef} type="file" accept=".csv,.geojson,.json" onChange={handleFile} className="hidden" />
+      <button onClick={() => fileInputRef.current?.click()} disabled={busy}
+        className={`w-full py-2 rounded-xl text-sm font-medium flex items-center justify-center gap-2 disabled:opacity-50 ${darkMode ? 'bg-slate-600 text-slate-200 hover:bg-slate-500' : 'bg-white border border-slate-200 text-slate-600 hover:bg-slate-100'}`}>
+        {busy ? <RefreshCw className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+        {file ? file.name : 'Import Layout (CSV or GeoJSON)'}
+      </button>
+
+      {report && (
+        <div className={`rounded-xl p-3 space-y-2 text-sm ${darkMode ? 'bg-slate-800' : 'bg-white border border-slate-200'}`}>
+          <p className={darkMode ? 'text-white' : 'text-slate-800'}>
+            <strong>{report.pileCount}</strong> piles read
+          </p>
+          {report.errors.length > 0 && (
+            <div>
+              <p className="text-red-600 font-medium">{report.errors.length} errors</p>
+              <ul className={listClass}>
+                {report.errors.slice(0, 50).map((issue, i) => <li key={i}>Line {issue.line}: {issue.message}</li>)}
+              </ul>
+            </div>
+          )}
+          {report.duplicates.length > 0 && (
+            <div>
+              <p className="text-red-600 font-medium">{report.duplicates.length} duplicate pile IDs</p>
+              <p className={listClass}>{report.duplicates.slice(0, 50).join(', ')}</p>
+            </div>
+          )}
+          {report.gaps.length > 0 && (
+            <div>
+              <p className="text-yellow-600 font-medium">{report.gaps.length} gaps</p>
+              <ul className={listClass}>
+                {report.gaps.slice(0, 50).map(gap => <li key={gap}>{gap}</li>)}
+              </ul>
+            </div>
+          )}
+          {report.warnings.map(warning => (
+            <p key={warning} className="text-xs text-yellow-600">{warning}</p>
+          ))}
+          <button onClick={importLayout} disabled={busy || blocked}
+            className="w-full py-2 rounded-xl text-sm font-medium bg-orange-500 text-white hover:bg-orange-600 disabled:opacity-50">
+            {blocked ? 'Fix the file to import' : `Import ${report.pileCount} Piles`}
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
+
+// Edit Project Modal Component
+function EditProjectModal({ project, rackingSystems, darkMode, onClose, onSave }: {
+  project: Project; rackingSystems: RackingSystem[]; darkMode: boolean;
+  onClose: () => void; onSave: (data: any) => void;
 }) {
   const [name, setName] = useState(project.name)
   const [location, setLocation] = useState(project.location)
@@ -3523,8 +7727,47 @@ function EditProjectModal({ project, rackingSystems, darkMode, onClose, onSave }
   const [plannedPilesPerDay, setPlannedPilesPerDay] = useState(String(project.plannedPilesPerDay))
   const [plannedRackingPerDay, setPlannedRackingPerDay] = useState(String(project.plannedRackingPerDay))
   const [plannedModulesPerDay, setPlannedModulesPerDay] = useState(String(project.plannedModulesPerDay))
-  const [pileIdFormat, setPileIdFormat] = useState(project.pileIdFormat || '{Row}-{Pile}')
+  const [pileIdFormat, setPileIdFormat] = useState(project.pileIdFormat || DEFAULT_PILE_ID_FORMAT)
   const [rackingSystemId, setRackingSystemId] = useState(project.rackingSystemId || '')
+  const [refusalBlowCount, setRefusalBlowCount] = useState(String(project.refusalBlowCount ?? 10))
+  const [refusalBlowDepth, setRefusalBlowDepth] = useState(String(project.refusalBlowDepth ?? 25))
+  
+  // Pile registry layout
+  const [layoutBlocks, setLayoutBlocks] = useState('')
+  const [layoutRows, setLayoutRows] = useState('')
+  const [layoutPilesPerRow, setLayoutPilesPerRow] = useState('')
+  const [layoutMotorPile, setLayoutMotorPile] = useState('')
+  const [generating, setGenerating] = useState(false)
+  const savedFormat = project.pileIdFormat || DEFAULT_PILE_ID_FORMAT
+  const savedTokens = compilePileIdFormat(savedFormat).tokens
+
+  const generatePiles = async () => {
+    setGenerating(true)
+    try {
+      const response = await fetch('/api/piles', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          projectId: project.id,
+          blocks: layoutBlocks.split(',').map(b => b.trim()).filter(Boolean),
+          rows: parseInt(layoutRows),
+          pilesPerRow: parseInt(layoutPilesPerRow),
+          motorPile: parseInt(layoutMotorPile) || null,
+        })
+      })
+      const data = await response.json()
+      if (response.ok) {
+        toast.success(`${data.created} piles added to the registry${data.skipped ? `, ${data.skipped} already existed` : ''}`)
+        data.warnings.forEach((warning: string) => toast.warning(warning))
+      } else {
+        toast.error(data.error || 'Failed to generate piles')
+      }
+    } catch {
+      toast.error('Failed to generate piles')
+    } finally {
+      setGenerating(false)
+    }
+  }
 
   return (
     <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
@@ -3601,12 +7844,7 @@ function EditProjectModal({ project, rackingSystems, darkMode, onClose, onSave }
           <div className="grid grid-cols-2 gap-3">
             <div>
               <label className={`block text-sm font-medium mb-1 ${darkMode ? 'text-slate-300' : 'text-slate-700'}`}>Pile ID Format</label>
-              <select value={pileIdFormat} onChange={(e) => setPileIdFormat(e.target.value)}
-                className={`w-full px-3 py-2 border rounded-xl focus:outline-none focus:ring-2 focus:ring-orange-500 ${darkMode ? 'bg-slate-700 border-slate-600 text-white' : 'border-slate-200'}`}>
-                <option value="{Row}-{Pile}">Row-Pile</option>
-                <option value="{Block}-{Row}-{Pile}">Block-Row-Pile</option>
-                <option value="{Pile}">Sequential</option>
-              </select>
+              <PileIdFormatInput value={pileIdFormat} darkMode={darkMode} compact onChange={setPileIdFormat} />
             </div>
             <div>
               <label className={`block text-sm font-medium mb-1 ${darkMode ? 'text-slate-300' : 'text-slate-700'}`}>Racking System</label>
@@ -3617,6 +7855,54 @@ function EditProjectModal({ project, rackingSystems, darkMode, onClose, onSave }
               </select>
             </div>
           </div>
+
+          <div>
+            <label className={`block text-sm font-medium mb-1 ${darkMode ? 'text-slate-300' : 'text-slate-700'}`}>Refusal Criterion</label>
+            <div className="flex items-center gap-2">
+              <input type="number" value={refusalBlowCount} onChange={(e) => setRefusalBlowCount(e.target.value)}
+                className={`w-24 px-3 py-2 border rounded-xl focus:outline-none focus:ring-2 focus:ring-orange-500 ${darkMode ? 'bg-slate-700 border-slate-600 text-white' : 'border-slate-200'}`} />
+              <span className={`text-sm ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>blows or more per</span>
+              <input type="number" value={refusalBlowDepth} onChange={(e) => setRefusalBlowDepth(e.target.value)}
+                className={`w-24 px-3 py-2 border rounded-xl focus:outline-none focus:ring-2 focus:ring-orange-500 ${darkMode ? 'bg-slate-700 border-slate-600 text-white' : 'border-slate-200'}`} />
+              <span className={`text-sm ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>mm</span>
+            </div>
+            <p className={`text-xs mt-1 ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>A driving log that stops short of design depth on this many blows proposes a refusal</p>
+          </div>
+
+          {/* Pile Registry */}
+          <div className={`rounded-xl p-4 space-y-3 ${darkMode ? 'bg-slate-700/50' : 'bg-slate-50'}`}>
+            <div>
+              <p className={`text-sm font-medium ${darkMode ? 'text-slate-200' : 'text-slate-700'}`}>Pile Registry</p>
+              <p className={`text-xs ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>
+                Creates one pile per position using the saved ID format ({savedFormat}). Existing piles are kept.
+              </p>
+            </div>
+            {(savedTokens.includes('Block') || savedTokens.includes('Inverter')) && (
+              <input type="text" value={layoutBlocks} onChange={(e) => setLayoutBlocks(e.target.value)} placeholder="Blocks, e.g. N1, N2, S1"
+                className={`w-full px-3 py-2 border rounded-xl focus:outline-none focus:ring-2 focus:ring-orange-500 ${darkMode ? 'bg-slate-700 border-slate-600 text-white' : 'border-slate-200'}`} />
+            )}
+            <div className="grid grid-cols-3 gap-3">
+              {[
+                { label: 'Rows', value: layoutRows, setter: setLayoutRows },
+                { label: 'Piles/Row', value: layoutPilesPerRow, setter: setLayoutPilesPerRow },
+                { label: 'Motor Pile #', value: layoutMotorPile, setter: setLayoutMotorPile },
+              ].map(({ label, value, setter }) => (
+                <div key={label}>
+                  <label className={`block text-xs font-medium mb-1 ${darkMode ? 'text-slate-300' : 'text-slate-700'}`}>{label}</label>
+                  <input type="number" value={value} onChange={(e) => setter(e.target.value)}
+                    className={`w-full px-3 py-2 border rounded-xl focus:outline-none focus:ring-2 focus:ring-orange-500 ${darkMode ? 'bg-slate-700 border-slate-600 text-white' : 'border-slate-200'}`} />
+                </div>
+              ))}
+            </div>
+            <button onClick={generatePiles} disabled={generating || !layoutRows || !layoutPilesPerRow || pileIdFormat !== savedFormat}
+              className="w-full py-2 rounded-xl text-sm font-medium bg-orange-100 text-orange-700 hover:bg-orange-200 disabled:opacity-50 flex items-center justify-center gap-2">
+              {generating ? <RefreshCw className="w-4 h-4 animate-spin" /> : <Grid3X3 className="w-4 h-4" />}
+              {pileIdFormat !== savedFormat ? 'Save the new ID format first' : 'Generate Piles'}
+            </button>
+            {pileIdFormat === savedFormat && (
+              <PileLayoutImport project={project} darkMode={darkMode} />
+            )}
+          </div>
         </div>
 
         <div className="flex gap-3 mt-6">
@@ -3632,8 +7918,10 @@ function EditProjectModal({ project, rackingSystems, darkMode, onClose, onSave }
             plannedPilesPerDay: parseFloat(plannedPilesPerDay) || 0,
             plannedRackingPerDay: parseFloat(plannedRackingPerDay) || 0,
             plannedModulesPerDay: parseFloat(plannedModulesPerDay) || 0,
-            pileIdFormat, rackingSystemId: rackingSystemId || null
-          })} className="flex-1 py-2.5 bg-gradient-to-r from-orange-500 to-orange-600 text-white rounded-xl font-medium">
+            pileIdFormat, rackingSystemId: rackingSystemId || null,
+            refusalBlowCount: parseInt(refusalBlowCount) || 10,
+            refusalBlowDepth: parseFloat(refusalBlowDepth) || 25,
+          })} disabled={validatePileIdFormat(pileIdFormat).length > 0} className="flex-1 py-2.5 disabled:opacity-50 bg-gradient-to-r from-orange-500 to-orange-600 text-white rounded-xl font-medium">
             Save Changes
           </button>
         </div>
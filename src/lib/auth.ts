@@ -0,0 +1,170 @@
+// Authentication utilities: password hashing and cookie-backed sessions
+
+import { randomBytes, scrypt, timingSafeEqual, createHash } from 'crypto';
+import type { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+
+export const SESSION_COOKIE = 'solartrack_session';
+
+const SESSION_TTL_DAYS = 30;
+const RESET_TOKEN_TTL_MINUTES = 60;
+const SCRYPT_KEYLEN = 64;
+
+// Fields safe to send to the client - never include the password hash
+export const publicUserSelect = {
+  id: true,
+  email: true,
+  name: true,
+  role: true,
+  companyId: true,
+  isActive: true,
+  createdAt: true,
+  updatedAt: true,
+};
+
+export interface SessionUser {
+  id: string;
+  email: string;
+  name: string;
+  role: string;
+  companyId: string;
+}
+
+function scryptAsync(password: string, salt: string): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, SCRYPT_KEYLEN, (err, derivedKey) => {
+      if (err) reject(err);
+      else resolve(derivedKey);
+    });
+  });
+}
+
+export function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+function generateToken(): string {
+  return randomBytes(32).toString('base64url');
+}
+
+// Stored format: scrypt$<salt>$<hash>
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString('hex');
+  const hash = await scryptAsync(password, salt);
+  return `scrypt$${salt}$${hash.toString('hex')}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, salt, hash] = stored.split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+
+  const expected = Buffer.from(hash, 'hex');
+  const actual = await scryptAsync(password, salt);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+export async function createSession(userId: string, userAgent?: string | null) {
+  const token = generateToken();
+  const expiresAt = new Date(Date.now() + SESSION_TTL_DAYS * 24 * 60 * 60 * 1000);
+
+  await db.session.create({
+    data: {
+      tokenHash: hashToken(token),
+      userId,
+      userAgent: userAgent || null,
+      expiresAt,
+    }
+  });
+
+  return { token, expiresAt };
+}
+
+export function setSessionCookie(response: NextResponse, token: string, expiresAt: Date) {
+  response.cookies.set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    expires: expiresAt,
+  });
+}
+
+export function clearSessionCookie(response: NextResponse) {
+  response.cookies.set(SESSION_COOKIE, '', {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge: 0,
+  });
+}
+
+export async function destroySession(request: NextRequest) {
+  const token = request.cookies.get(SESSION_COOKIE)?.value;
+  if (!token) return;
+  await db.session.deleteMany({ where: { tokenHash: hashToken(token) } });
+}
+
+// Resolve the calling user from the session cookie. Returns null when the
+// cookie is missing, expired or belongs to a deactivated user.
+export async function getCurrentUser(request: NextRequest): Promise<SessionUser | null> {
+  const token = request.cookies.get(SESSION_COOKIE)?.value;
+  if (!token) return null;
+
+  const session = await db.session.findUnique({
+    where: { tokenHash: hashToken(token) },
+    include: { user: { select: { ...publicUserSelect } } }
+  });
+
+  if (!session) return null;
+
+  if (session.expiresAt < new Date()) {
+    await db.session.delete({ where: { id: session.id } });
+    return null;
+  }
+
+  if (!session.user.isActive) return null;
+
+  return {
+    id: session.user.id,
+    email: session.user.email,
+    name: session.user.name,
+    role: session.user.role,
+    companyId: session.user.companyId,
+  };
+}
+
+export async function createPasswordResetToken(userId: string) {
+  const token = generateToken();
+
+  // Only the latest reset link should work
+  await db.passwordResetToken.deleteMany({ where: { userId, usedAt: null } });
+  await db.passwordResetToken.create({
+    data: {
+      tokenHash: hashToken(token),
+      userId,
+      expiresAt: new Date(Date.now() + RESET_TOKEN_TTL_MINUTES * 60 * 1000),
+    }
+  });
+
+  return token;
+}
+
+// Consume a reset token and set the new password. All existing sessions are
+// revoked so a leaked session cannot outlive the reset.
+export async function resetPassword(token: string, newPassword: string): Promise<boolean> {
+  const record = await db.passwordResetToken.findUnique({
+    where: { tokenHash: hashToken(token) }
+  });
+
+  if (!record || record.usedAt || record.expiresAt < new Date()) return false;
+
+  const password = await hashPassword(newPassword);
+  await db.$transaction([
+    db.user.update({ where: { id: record.userId }, data: { password } }),
+    db.passwordResetToken.update({ where: { id: record.id }, data: { usedAt: new Date() } }),
+    db.session.deleteMany({ where: { userId: record.userId } }),
+  ]);
+
+  return true;
+}
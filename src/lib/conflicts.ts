@@ -0,0 +1,117 @@
+// Versioned updates for records that can be edited offline. Every update bumps
+// `revision`; an edit made against an older revision is stored as a conflict
+// (a SyncQueue row with status "conflict") for a PM to resolve.
+
+import type { TenantDb } from '@/lib/db';
+import type { SessionUser } from '@/lib/auth';
+import { projectScope } from '@/lib/project-access';
+import { inspectionStatus } from '@/lib/tolerances';
+
+export type VersionedEntity = 'production' | 'inspection' | 'refusal';
+
+// Fields a device edit or a conflict resolution may change
+export const EDITABLE_FIELDS: Record<VersionedEntity, string[]> = {
+  production: ['date', 'piles', 'rackingTables', 'modules', 'notes', 'crewId', 'subcontractorId'],
+  inspection: ['status', 'notes'],
+  // Refusal edits are remediation steps, applied by transitionRefusal
+  refusal: ['status', 'remediationMethod', 'remediationDate', 'redriveDepth'],
+};
+
+const DATE_FIELDS = ['date', 'remediationDate'];
+
+const DELEGATES: Record<VersionedEntity, string> = {
+  production: 'productionEntry',
+  inspection: 'qCInspection',
+  refusal: 'pileRefusal',
+};
+
+export function isVersionedEntity(entity: unknown): entity is VersionedEntity {
+  return typeof entity === 'string' && entity in DELEGATES;
+}
+
+export function recordDelegate(db: TenantDb, entity: VersionedEntity) {
+  return (db as any)[DELEGATES[entity]];
+}
+
+// Keep only editable fields that are present, converting dates
+function pickEditable(entity: VersionedEntity, source: Record<string, unknown>) {
+  const fields: Record<string, unknown> = {};
+  for (const field of EDITABLE_FIELDS[entity]) {
+    if (source[field] === undefined) continue;
+    const value = source[field];
+    fields[field] = DATE_FIELDS.includes(field) && value ? new Date(value as string) : value;
+  }
+  return fields;
+}
+
+// Editable fields of `source` as they would be written. An inspection's status
+// is graded from its measured items, so an edit only sets it on one without any.
+export async function editableFields(db: TenantDb, entity: VersionedEntity, id: string, source: Record<string, unknown>) {
+  const fields = pickEditable(entity, source);
+  if (entity === 'inspection' && fields.status !== undefined) {
+    const items = await db.qCInspectionItem.findMany({ where: { inspectionId: id }, select: { passed: true } });
+    fields.status = inspectionStatus(items, fields.status as string);
+  }
+  return fields;
+}
+
+// Update only if the record is still at `baseRevision`. Returns false when
+// someone else changed (or deleted) it first.
+export async function updateAtRevision(
+  db: TenantDb,
+  entity: VersionedEntity,
+  id: string,
+  baseRevision: number,
+  fields: Record<string, unknown>,
+  scope: Record<string, unknown> = {}
+) {
+  const { count } = await recordDelegate(db, entity).updateMany({
+    where: { id, revision: baseRevision, ...scope },
+    data: { ...await editableFields(db, entity, id, fields), revision: { increment: 1 } }
+  });
+  return count > 0;
+}
+
+export async function deleteAtRevision(
+  db: TenantDb,
+  entity: VersionedEntity,
+  id: string,
+  baseRevision: number,
+  scope: Record<string, unknown> = {}
+) {
+  const { count } = await recordDelegate(db, entity).deleteMany({
+    where: { id, revision: baseRevision, ...scope }
+  });
+  return count > 0;
+}
+
+export async function recordConflict(db: TenantDb, user: SessionUser, conflict: {
+  entity: VersionedEntity;
+  action: 'update' | 'delete';
+  recordId: string;
+  baseRevision: number;
+  payload: Record<string, unknown>;
+  deviceId: string;
+}) {
+  const delegate = recordDelegate(db, conflict.entity);
+  const current = await delegate.findFirst({ where: { id: conflict.recordId, project: projectScope(user) } });
+  // A record in a project the user isn't on is not theirs to file a conflict against
+  if (!current && await delegate.count({ where: { id: conflict.recordId } }) > 0) return null;
+
+  return db.syncQueue.create({
+    data: {
+      action: conflict.action,
+      entity: conflict.entity,
+      payload: JSON.stringify(conflict.payload),
+      deviceId: conflict.deviceId || 'unknown',
+      companyId: user.companyId,
+      status: 'conflict',
+      error: current
+        ? `Changed on the server (revision ${current.revision}) after this device read revision ${conflict.baseRevision}`
+        : 'Deleted on the server',
+      recordId: conflict.recordId,
+      baseRevision: conflict.baseRevision,
+      userId: user.id,
+    }
+  });
+}
@@ -0,0 +1,57 @@
+// Minimal CSV reader for field data imports. Handles quoted fields, escaped
+// quotes ("") and CRLF line endings; blank lines are skipped.
+
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      if (row.some(value => value.trim() !== '')) rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  row.push(field);
+  if (row.some(value => value.trim() !== '')) rows.push(row);
+
+  return rows;
+}
+
+// Rows as objects keyed by normalised header names ("Pile ID" -> "pileid")
+export function parseCsvRecords(text: string): { headers: string[]; records: Record<string, string>[] } {
+  const [header = [], ...rows] = parseCsv(text);
+  const headers = header.map(normaliseHeader);
+
+  return {
+    headers,
+    records: rows.map(values => Object.fromEntries(headers.map((name, i) => [name, (values[i] ?? '').trim()]))),
+  };
+}
+
+export function normaliseHeader(name: string) {
+  return name.trim().toLowerCase().replace(/[^a-z0-9]/g, '');
+}
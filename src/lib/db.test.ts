@@ -0,0 +1,167 @@
+/// <reference types="bun-types" />
+
+import { describe, expect, mock, test } from 'bun:test'
+
+// The generated client isn't needed: tenantQuery is exercised directly, with
+// references looked up in the in-memory records below
+mock.module('@prisma/client', () => ({
+  PrismaClient: class {
+    $extends() {
+      return this
+    }
+    $transaction(fn: (tx: unknown) => unknown) {
+      return fn(transaction)
+    }
+  },
+}))
+
+const { TENANT_FILTERS, TENANT_REFERENCES, TenantAccessError, tenantQuery, tenantTransaction } = await import('./db')
+
+const OWN = 'co-a'
+const OTHER = 'co-b'
+
+// Record IDs name their company and model, e.g. "co-b:Pile"
+const recordId = (companyId: string, model: string) => `${companyId}:${model}`
+const ownerOf = (filter: unknown) => JSON.stringify(filter).match(/co-[a-z]/)?.[0]
+
+function idsIn(where: any): string[] {
+  const id = where?.id
+  return typeof id === 'string' ? [id] : id?.in ?? []
+}
+
+// Counts records by id, and by id within a tenant filter
+const lookup = new Proxy({}, {
+  get: () => ({
+    count: async ({ where }: { where: any }) => {
+      if (!where.AND) return idsIn(where).length
+      const [ids, filter] = where.AND
+      return idsIn(ids).filter(id => id.startsWith(`${ownerOf(filter)}:`)).length
+    },
+  }),
+}) as any
+
+// Stands in for the client an interactive transaction hands its callback.
+// Calls return the arguments they were sent; counts are recorded.
+const transactionCounts: string[] = []
+const transaction = new Proxy({}, {
+  get: (_, model: string) => new Proxy({}, {
+    get: (_, operation: string) => async (args: any) => {
+      if (operation !== 'count') return args
+      transactionCounts.push(model)
+      return lookup[model].count(args)
+    },
+  }),
+}) as any
+
+async function run(model: string, operation: string, args: any) {
+  let sent: any = null
+  await tenantQuery(OWN, lookup)({
+    model,
+    operation,
+    args,
+    query: async (scoped) => {
+      sent = scoped
+      return null
+    },
+  })
+  return sent
+}
+
+const MODELS = Object.keys(TENANT_FILTERS)
+const COMPANY_OWNED = MODELS.filter(model => JSON.stringify(TENANT_FILTERS[model](OWN)) === JSON.stringify({ companyId: OWN }))
+const REFERENCES = Object.entries(TENANT_REFERENCES).flatMap(([model, fields]) =>
+  Object.entries(fields).map(([field, target]) => ({ model, field, target })))
+
+describe('tenantDb reads and writes', () => {
+  for (const model of MODELS) {
+    for (const operation of ['findFirst', 'findMany', 'count', 'update', 'updateMany', 'delete', 'deleteMany']) {
+      test(`${model}.${operation} only reaches the caller's company`, async () => {
+        const sent = await run(model, operation, { where: { id: 'x' }, data: {} })
+        expect(sent.where.id).toBe('x')
+        expect(sent.where.AND.at(-1)).toEqual(TENANT_FILTERS[model](OWN))
+      })
+    }
+  }
+
+  test('models outside the tenant map pass through unchanged', async () => {
+    const args = { where: { id: 'x' } }
+    expect(await run('Session', 'findMany', args)).toBe(args)
+  })
+})
+
+describe('tenantDb references', () => {
+  for (const { model, field, target } of REFERENCES) {
+    test(`${model}.${field} cannot point at another company's ${target}`, async () => {
+      await expect(run(model, 'create', { data: { [field]: recordId(OTHER, target) } })).rejects.toBeInstanceOf(TenantAccessError)
+      await expect(run(model, 'update', { where: { id: 'x' }, data: { [field]: recordId(OTHER, target) } })).rejects.toBeInstanceOf(TenantAccessError)
+      await expect(run(model, 'createMany', {
+        data: [{ [field]: recordId(OWN, target) }, { [field]: recordId(OTHER, target) }],
+      })).rejects.toBeInstanceOf(TenantAccessError)
+    })
+
+    test(`${model}.${field} may point at the caller's ${target}`, async () => {
+      const sent = await run(model, 'create', { data: { [field]: recordId(OWN, target) } })
+      expect(sent.data[field]).toBe(recordId(OWN, target))
+    })
+  }
+
+  for (const model of COMPANY_OWNED) {
+    test(`${model} is stamped with the caller's company and can't be moved`, async () => {
+      expect((await run(model, 'create', { data: {} })).data.companyId).toBe(OWN)
+      await expect(run(model, 'create', { data: { companyId: OTHER } })).rejects.toBeInstanceOf(TenantAccessError)
+      await expect(run(model, 'update', { where: { id: 'x' }, data: { companyId: OTHER } })).rejects.toBeInstanceOf(TenantAccessError)
+    })
+  }
+})
+
+describe('tenantDb nested connects', () => {
+  test("connects to the caller's records", async () => {
+    const sent = await run('QCInspection', 'update', { where: { id: 'x' }, data: { piles: { connect: [{ id: recordId(OWN, 'Pile') }] } } })
+    expect(sent.data.piles.connect).toEqual([{ id: recordId(OWN, 'Pile') }])
+  })
+
+  test("refuses to connect, set or connectOrCreate another company's records", async () => {
+    const foreign = { id: recordId(OTHER, 'Pile') }
+    for (const piles of [
+      { connect: [{ id: recordId(OWN, 'Pile') }, foreign] },
+      { set: [foreign] },
+      { connectOrCreate: [{ where: foreign, create: {} }] },
+    ]) {
+      await expect(run('QCInspection', 'update', { where: { id: 'x' }, data: { piles } })).rejects.toBeInstanceOf(TenantAccessError)
+    }
+  })
+
+  test('checks what a connectOrCreate would create', async () => {
+    await expect(run('Pile', 'update', {
+      where: { id: 'x' },
+      data: { inspections: { connectOrCreate: [{ where: { id: 'new' }, create: { projectId: recordId(OTHER, 'Project') } }] } },
+    })).rejects.toBeInstanceOf(TenantAccessError)
+  })
+
+  test('refuses connects by anything but id, or through unchecked relations', async () => {
+    await expect(run('QCInspection', 'update', { where: { id: 'x' }, data: { piles: { connect: { projectId_pileId: { projectId: 'p', pileId: '1-1' } } } } }))
+      .rejects.toBeInstanceOf(TenantAccessError)
+    await expect(run('Project', 'update', { where: { id: 'x' }, data: { userAssignments: { connect: { id: recordId(OWN, 'UserProjectAssignment') } } } }))
+      .rejects.toBeInstanceOf(TenantAccessError)
+  })
+
+  test('a plain column set is not a connect', async () => {
+    const sent = await run('QCInspection', 'update', { where: { id: 'x' }, data: { status: { set: 'pass' } } })
+    expect(sent.data.status).toEqual({ set: 'pass' })
+  })
+})
+
+describe('tenantTransaction', () => {
+  test('scopes calls on the transaction client', async () => {
+    const sent: any = await tenantTransaction(OWN, tx => tx.pile.findMany({ where: { id: 'x' } }))
+    expect(sent.where.AND.at(-1)).toEqual(TENANT_FILTERS.Pile(OWN))
+  })
+
+  test('checks references inside the transaction', async () => {
+    transactionCounts.length = 0
+    await expect(tenantTransaction(OWN, tx => tx.refusalPhoto.create({
+      data: { refusalId: recordId(OWN, 'PileRefusal'), transitionId: recordId(OTHER, 'RefusalTransition') },
+    }))).rejects.toBeInstanceOf(TenantAccessError)
+    expect(transactionCounts).toEqual(['pileRefusal', 'refusalTransition'])
+  })
+})
@@ -22,3 +22,262 @@ if (process.env.NODE_ENV === 'production') {
     globalForPrisma.prisma = db
   }
 }
+
+// Tenant scoping
+//
+// Every model hangs off Company, either directly (companyId) or through a
+// parent record. tenantDb(companyId) returns a client whose queries are
+// filtered to that company, and whose writes refuse to point at records
+// owned by another company.
+
+type WhereFilter = Record<string, unknown>
+
+const viaProject = (companyId: string): WhereFilter => ({ project: { companyId } })
+
+export const TENANT_FILTERS: Record<string, (companyId: string) => WhereFilter> = {
+  Company: (companyId) => ({ id: companyId }),
+  User: (companyId) => ({ companyId }),
+  Project: (companyId) => ({ companyId }),
+  Subcontractor: (companyId) => ({ companyId }),
+  Crew: (companyId) => ({ companyId }),
+  RackingSystem: (companyId) => ({ companyId }),
+  RackingSystemRevision: (companyId) => ({ rackingSystem: { companyId } }),
+  QCToleranceTemplate: (companyId) => ({ companyId }),
+  SyncQueue: (companyId) => ({ companyId }),
+  ReportConfig: (companyId) => ({ companyId }),
+  UserProjectAssignment: viaProject,
+  ProductionEntry: viaProject,
+  PileRefusal: viaProject,
+  QCInspection: viaProject,
+  QCIssue: viaProject,
+  Pile: viaProject,
+  SamplingPlan: viaProject,
+  BoringLog: viaProject,
+  PileLoadTest: viaProject,
+  PileDrivingLog: viaProject,
+  SamplingLot: (companyId) => ({ plan: viaProject(companyId) }),
+  ProductionPhoto: (companyId) => ({ productionEntry: viaProject(companyId) }),
+  RefusalPhoto: (companyId) => ({ refusal: viaProject(companyId) }),
+  RefusalTransition: (companyId) => ({ refusal: viaProject(companyId) }),
+  RefusalApproval: (companyId) => ({ refusal: viaProject(companyId) }),
+  QCInspectionItem: (companyId) => ({ inspection: viaProject(companyId) }),
+  InspectionPhoto: (companyId) => ({ inspection: viaProject(companyId) }),
+  QCIssuePhoto: (companyId) => ({ issue: viaProject(companyId) }),
+  BoringStratum: (companyId) => ({ boring: viaProject(companyId) }),
+  PileDrivingInterval: (companyId) => ({ log: viaProject(companyId) }),
+}
+
+// Foreign keys a write may set, and the model they must belong to
+export const TENANT_REFERENCES: Record<string, Record<string, string>> = {
+  User: {},
+  Project: { rackingSystemId: 'RackingSystem' },
+  UserProjectAssignment: { userId: 'User', projectId: 'Project' },
+  ProductionEntry: { projectId: 'Project', userId: 'User', crewId: 'Crew', subcontractorId: 'Subcontractor' },
+  PileRefusal: { projectId: 'Project', reportedBy: 'User', pileRecordId: 'Pile', replacementRecordId: 'Pile', boringId: 'BoringLog' },
+  RackingSystemRevision: { rackingSystemId: 'RackingSystem' },
+  QCInspection: { projectId: 'Project', userId: 'User', toleranceRevisionId: 'RackingSystemRevision' },
+  QCIssue: { projectId: 'Project', inspectionId: 'QCInspection', inspectionItemId: 'QCInspectionItem' },
+  Pile: { projectId: 'Project', productionEntryId: 'ProductionEntry' },
+  SamplingPlan: { projectId: 'Project' },
+  SamplingLot: { planId: 'SamplingPlan' },
+  BoringLog: { projectId: 'Project' },
+  BoringStratum: { boringId: 'BoringLog' },
+  PileLoadTest: { projectId: 'Project', pileRecordId: 'Pile', boringId: 'BoringLog' },
+  PileDrivingLog: { projectId: 'Project', pileRecordId: 'Pile', refusalId: 'PileRefusal', productionEntryId: 'ProductionEntry' },
+  PileDrivingInterval: { logId: 'PileDrivingLog' },
+  ProductionPhoto: { productionEntryId: 'ProductionEntry' },
+  RefusalPhoto: { refusalId: 'PileRefusal', transitionId: 'RefusalTransition' },
+  RefusalTransition: { refusalId: 'PileRefusal' },
+  RefusalApproval: { refusalId: 'PileRefusal' },
+  QCInspectionItem: { inspectionId: 'QCInspection' },
+  InspectionPhoto: { inspectionId: 'QCInspection' },
+  QCIssuePhoto: { issueId: 'QCIssue' },
+}
+
+const asList = (value: unknown): any[] => value === undefined || value === null ? [] : Array.isArray(value) ? value : [value]
+
+// Relations a nested connect, connectOrCreate or set may go through, and the
+// model they reach. Nested connects through any other relation are refused.
+const TENANT_RELATIONS: Record<string, Record<string, string>> = {
+  QCInspection: { piles: 'Pile' },
+  Pile: { inspections: 'QCInspection' },
+}
+
+// `{ set: value }` also updates plain columns; only a set of records is a relation write
+const isNestedConnect = (value: WhereFilter) => 'connect' in value || 'connectOrCreate' in value
+  || ('set' in value && asList(value.set).some(item => item && typeof item === 'object' && !(item instanceof Date)))
+
+// Models owned directly through a companyId column
+const COMPANY_OWNED = ['User', 'Project', 'Subcontractor', 'Crew', 'RackingSystem', 'QCToleranceTemplate', 'SyncQueue', 'ReportConfig']
+
+const READ_OPERATIONS = [
+  'findUnique', 'findUniqueOrThrow', 'findFirst', 'findFirstOrThrow', 'findMany',
+  'count', 'aggregate', 'groupBy',
+]
+const WRITE_OPERATIONS = ['update', 'updateMany', 'updateManyAndReturn', 'delete', 'deleteMany', 'upsert']
+const CREATE_OPERATIONS = ['create', 'createMany', 'createManyAndReturn', 'upsert']
+
+export class TenantAccessError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'TenantAccessError'
+  }
+}
+
+// True for records that are missing or belong to another tenant - callers
+// should answer 404 for both so IDs from other companies are not revealed
+export function isNotFoundError(error: unknown) {
+  if (error instanceof TenantAccessError) return true
+  return (error as { code?: string } | null)?.code === 'P2025'
+}
+
+function delegateName(model: string) {
+  return model.charAt(0).toLowerCase() + model.slice(1)
+}
+
+function scopeWhere(where: WhereFilter | undefined, filter: WhereFilter): WhereFilter {
+  if (!where) return filter
+  const and = where.AND === undefined ? [] : Array.isArray(where.AND) ? where.AND : [where.AND]
+  return { ...where, AND: [...and, filter] }
+}
+
+// Client used to look up the records a write refers to
+type ReferenceLookup = Record<string, { count(args: { where: WhereFilter }): Promise<number> }>
+
+async function assertReferences(lookup: ReferenceLookup, model: string, data: unknown, companyId: string) {
+  const references = TENANT_REFERENCES[model] ?? {}
+  if (!data) return
+
+  // Bulk writes usually repeat the same parent; check each one once
+  const checked = new Set<string>()
+
+  for (const row of asList(data) as WhereFilter[]) {
+    for (const [field, target] of Object.entries(references)) {
+      const value = row[field]
+      if (typeof value !== 'string' || checked.has(`${field}:${value}`)) continue
+      checked.add(`${field}:${value}`)
+
+      const count = await lookup[delegateName(target)].count({
+        where: { AND: [{ id: value }, TENANT_FILTERS[target](companyId)] }
+      })
+      if (count === 0) {
+        throw new TenantAccessError(`${model}.${field} refers to a ${target} outside this company`)
+      }
+    }
+    await assertNestedConnects(lookup, model, row, companyId)
+  }
+}
+
+// Nested connects link existing records by id, so each id must belong to the
+// company too. A connectOrCreate that creates is checked like any create.
+async function assertNestedConnects(lookup: ReferenceLookup, model: string, row: WhereFilter, companyId: string) {
+  for (const [field, value] of Object.entries(row)) {
+    if (!value || typeof value !== 'object' || !isNestedConnect(value as WhereFilter)) continue
+    const nested = value as WhereFilter
+    const target = TENANT_RELATIONS[model]?.[field]
+    if (!target) {
+      throw new TenantAccessError(`${model}.${field} cannot be connected through the tenant client`)
+    }
+
+    const wheres = [...asList(nested.connect), ...asList(nested.set), ...asList(nested.connectOrCreate).map(item => item?.where)]
+    const ids = [...new Set(wheres.map(where => where?.id))]
+    if (ids.some(id => typeof id !== 'string')) {
+      throw new TenantAccessError(`${model}.${field} must be connected by id`)
+    }
+    if (ids.length > 0) {
+      const delegate = lookup[delegateName(target)]
+      const [existing, owned] = await Promise.all([
+        delegate.count({ where: { id: { in: ids } } }),
+        delegate.count({ where: { AND: [{ id: { in: ids } }, TENANT_FILTERS[target](companyId)] } }),
+      ])
+      if (owned < existing) {
+        throw new TenantAccessError(`${model}.${field} connects a ${target} outside this company`)
+      }
+    }
+
+    for (const item of asList(nested.connectOrCreate)) {
+      await assertReferences(lookup, target, item?.create, companyId)
+    }
+  }
+}
+
+function withCompanyId(model: string, data: unknown, companyId: string) {
+  if (!COMPANY_OWNED.includes(model) || !data) return data
+  const stamp = (row: WhereFilter) => {
+    if (row.companyId !== undefined && row.companyId !== companyId) {
+      throw new TenantAccessError(`${model} cannot be written to another company`)
+    }
+    return { ...row, companyId }
+  }
+  return Array.isArray(data) ? data.map(stamp) : stamp(data as WhereFilter)
+}
+
+// Query hook behind tenantDb. `lookup` is the client references are checked
+// against; it is the unscoped client outside of tests.
+export function tenantQuery(companyId: string, lookup: ReferenceLookup = db as any) {
+  return async function ({ model, operation, args, query }: {
+    model: string; operation: string; args: any; query: (args: any) => Promise<unknown>
+  }) {
+    const filter = TENANT_FILTERS[model]?.(companyId)
+    if (!filter) return query(args)
+
+    const scoped = { ...args }
+
+    if (READ_OPERATIONS.includes(operation) || WRITE_OPERATIONS.includes(operation)) {
+      scoped.where = scopeWhere(args.where, filter)
+    }
+
+    if (CREATE_OPERATIONS.includes(operation)) {
+      const key = operation === 'upsert' ? 'create' : 'data'
+      scoped[key] = withCompanyId(model, args[key], companyId)
+      await assertReferences(lookup, model, scoped[key], companyId)
+    }
+
+    if (operation.startsWith('update') || operation === 'upsert') {
+      const key = operation === 'upsert' ? 'update' : 'data'
+      if (COMPANY_OWNED.includes(model) && args[key]?.companyId !== undefined && args[key].companyId !== companyId) {
+        throw new TenantAccessError(`${model} cannot be moved to another company`)
+      }
+      await assertReferences(lookup, model, args[key], companyId)
+    }
+
+    return query(scoped)
+  }
+}
+
+export function tenantDb(companyId: string) {
+  return db.$extends({
+    name: 'tenant',
+    query: {
+      $allModels: {
+        $allOperations: tenantQuery(companyId),
+      },
+    },
+  })
+}
+
+export type TenantDb = ReturnType<typeof tenantDb>
+
+// Run `fn` in one interactive transaction with tenantDb's scoping. An extended
+// client would check references outside the transaction, where records it has
+// created aren't visible yet, so each call on the transaction goes through
+// tenantQuery here with the transaction as the lookup.
+export function tenantTransaction<R>(companyId: string, fn: (tx: TenantDb) => Promise<R>): Promise<R> {
+  return db.$transaction((tx: any) => fn(scopedTransaction(companyId, tx)))
+}
+
+function scopedTransaction(companyId: string, tx: any): TenantDb {
+  const hook = tenantQuery(companyId, tx)
+  return new Proxy(tx, {
+    get(client, property) {
+      const delegate = client[property]
+      if (typeof property !== 'string' || property.startsWith('$') || !delegate) return delegate
+      const model = property.charAt(0).toUpperCase() + property.slice(1)
+      return new Proxy(delegate, {
+        get: (methods, operation) => typeof operation === 'string' && typeof methods[operation] === 'function'
+          ? (args: any = {}) => hook({ model, operation, args, query: scoped => methods[operation](scoped) })
+          : methods[operation],
+      })
+    },
+  })
+}
@@ -0,0 +1,106 @@
+/// <reference types="bun-types" />
+
+import { describe, expect, test } from 'bun:test'
+import { blowsPer, meetsRefusalCriterion, parseDrivingLogCsv } from './driving-logs'
+
+const FORMAT = '{Row}-{Pile}'
+const CRITERION = { blows: 10, depth: 25 }
+const HEADER = 'pile_id,drive_start,drive_end,rig_id,target_depth,from_depth,to_depth,blows'
+
+const csv = (...rows: string[]) => [HEADER, ...rows].join('\n')
+
+describe('meetsRefusalCriterion', () => {
+  const shortOf = (blows: number) => ({
+    targetDepth: 3000,
+    finalEmbedment: 2500,
+    intervals: [{ fromDepth: 2400, toDepth: 2500, blows }, { fromDepth: 0, toDepth: 2400, blows: 60 }],
+  })
+
+  test('scales the deepest interval to the criterion depth', () => {
+    expect(blowsPer({ fromDepth: 2400, toDepth: 2500, blows: 40 }, 25)).toBe(10)
+    // 40 blows over 100 mm is 10 per 25 mm
+    expect(meetsRefusalCriterion(shortOf(40), CRITERION)).toBe(true)
+    expect(meetsRefusalCriterion(shortOf(39), CRITERION)).toBe(false)
+  })
+
+  test('a pile at design depth or without blow counts has not refused', () => {
+    expect(meetsRefusalCriterion({ ...shortOf(80), finalEmbedment: 3000 }, CRITERION)).toBe(false)
+    expect(meetsRefusalCriterion({ ...shortOf(80), intervals: [] }, CRITERION)).toBe(false)
+  })
+})
+
+describe('parseDrivingLogCsv', () => {
+  test('stitches rows of one drive into its intervals', () => {
+    const { logs, errors } = parseDrivingLogCsv(csv(
+      '1-1,2026-03-02T08:00:00Z,2026-03-02T08:10:00Z,R1,3000,,1000,20',
+      '1-1,2026-03-02T08:00:00Z,2026-03-02T08:10:00Z,R1,3000,,2000,30',
+      '1-1,2026-03-02T08:00:00Z,2026-03-02T08:10:00Z,R1,3000,,3000,50',
+      '1-2,2026-03-02T08:15:00Z,2026-03-02T08:35:00Z,R1,3000,0,1000,20',
+      '1-2,2026-03-02T08:15:00Z,2026-03-02T08:35:00Z,R1,3000,1000,2400,60',
+      '1-2,2026-03-02T08:15:00Z,2026-03-02T08:35:00Z,R1,3000,2400,2500,45',
+    ), FORMAT)
+    expect(errors).toEqual([])
+    expect(logs).toHaveLength(2)
+
+    const [driven, refused] = logs
+    expect(driven).toMatchObject({ pileId: '1-1', rigId: 'R1', targetDepth: 3000, finalEmbedment: 3000, totalBlows: 100, penetrationRate: 300 })
+    expect(driven.intervals).toEqual([
+      { fromDepth: 0, toDepth: 1000, blows: 20 },
+      { fromDepth: 1000, toDepth: 2000, blows: 30 },
+      { fromDepth: 2000, toDepth: 3000, blows: 50 },
+    ])
+    expect(meetsRefusalCriterion(driven, CRITERION)).toBe(false)
+
+    expect(refused).toMatchObject({ pileId: '1-2', finalEmbedment: 2500, totalBlows: 125, penetrationRate: 125 })
+    expect(meetsRefusalCriterion(refused, CRITERION)).toBe(true)
+  })
+
+  test('drives of the same pile are told apart by their start time', () => {
+    const { logs } = parseDrivingLogCsv(csv(
+      '1-1,2026-03-02T08:00:00Z,2026-03-02T08:10:00Z,R1,3000,,2500,100',
+      '1-1,2026-03-03T08:00:00Z,2026-03-03T08:10:00Z,R1,3000,,3000,60',
+    ), FORMAT)
+    expect(logs.map(log => log.finalEmbedment)).toEqual([2500, 3000])
+  })
+
+  test('the same drive written two ways is reported once', () => {
+    const { logs, errors } = parseDrivingLogCsv(csv(
+      '1-1,2026-03-02T08:00:00Z,2026-03-02T08:10:00Z,R1,3000,,3000,60',
+      '1-1,2026-03-02T08:00:00.000Z,2026-03-02T08:10:00Z,R1,3000,,3000,60',
+    ), FORMAT)
+    expect(logs).toHaveLength(1)
+    expect(errors).toEqual([{ line: 3, message: '1-1: the same drive appears twice' }])
+  })
+
+  test('reports errors on the line of the drive, with its pile ID', () => {
+    const { logs, errors } = parseDrivingLogCsv(csv(
+      '1-1,2026-03-02T08:00:00Z,2026-03-02T08:10:00Z,R1,3000,,3000,60',
+      '1-2,2026-03-02T08:15:00Z,2026-03-02T08:35:00Z,R1,3000,0,1000,20',
+      '1-2,2026-03-02T08:15:00Z,2026-03-02T08:35:00Z,R1,3000,800,1500,20',
+      'X9,2026-03-02T09:00:00Z,2026-03-02T08:00:00Z,R1,3000,,3000,60',
+    ), FORMAT)
+    expect(logs.map(log => log.pileId)).toEqual(['1-1'])
+    expect(errors).toEqual([
+      { line: 3, message: '1-2: Interval 2: overlaps the interval above' },
+      { line: 5, message: 'X9 does not match {Row}-{Pile} (e.g. 35-22)' },
+      { line: 5, message: 'X9: driveEnd cannot be before driveStart' },
+    ])
+  })
+
+  test('the design depth comes from the file or the default', () => {
+    const file = [
+      'pile,start,end,to,blows',
+      '1-1,2026-03-02T08:00:00Z,2026-03-02T08:10:00Z,3000,60',
+    ].join('\n')
+    expect(parseDrivingLogCsv(file, FORMAT).errors).toEqual([
+      { line: 1, message: 'CSV has no design depth column - give a target depth for the whole file' },
+    ])
+    expect(parseDrivingLogCsv(file, FORMAT, { targetDepth: 2800 }).logs[0].targetDepth).toBe(2800)
+  })
+
+  test('requires the pile and drive time columns', () => {
+    expect(parseDrivingLogCsv('pile_id,blows\n1-1,20', FORMAT).errors).toEqual([
+      { line: 1, message: 'CSV needs driveStart, driveEnd columns' },
+    ])
+  })
+})
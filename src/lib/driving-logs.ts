@@ -0,0 +1,323 @@
+// Pile driving logs. A log is one drive of one pile: start and end, the rig
+// or hammer, blows per depth interval and the final embedment. Logs are keyed
+// in or imported from a pile driver's CSV export (one row per interval).
+// A log that stops short of design depth while its last interval meets the
+// project's refusal criterion proposes a refusal; a pile that reaches design
+// depth is driven and counted in the day's production.
+// Depths are in mm from the ground surface, like pile depths.
+
+import type { TenantDb } from '@/lib/db';
+import { parseCsvRecords } from '@/lib/csv';
+import { validatePileId } from '@/lib/pile-ids';
+import { linkProductionPiles } from '@/lib/piles';
+
+export type DrivingLogRefusalStatus = 'proposed' | 'confirmed' | 'dismissed';
+
+// Blows per `depth` mm of penetration at or above which a pile has refused
+export interface RefusalCriterion {
+  blows: number;
+  depth: number;
+}
+
+export interface DrivingInterval {
+  fromDepth: number;
+  toDepth: number;
+  blows: number;
+}
+
+export interface DrivingLogFields {
+  pileId: string;
+  driveStart: Date;
+  driveEnd: Date;
+  rigId: string | null;
+  targetDepth: number;
+  finalEmbedment: number;
+  totalBlows: number;
+  penetrationRate: number; // mm/min
+  notes: string | null;
+  intervals: DrivingInterval[];
+}
+
+// `line` is the CSV line of the log's first interval
+export interface DrivingLogIssue {
+  line: number;
+  message: string;
+}
+
+// Accepted CSV column names, after normaliseHeader
+const FIELD_ALIASES: Record<string, string[]> = {
+  pileId: ['pileid', 'pile', 'id', 'name', 'tag'],
+  driveStart: ['drivestart', 'start', 'starttime', 'started'],
+  driveEnd: ['driveend', 'end', 'endtime', 'finished'],
+  rigId: ['rigid', 'rig', 'hammer', 'hammerid', 'machine'],
+  targetDepth: ['targetdepth', 'designdepth', 'target'],
+  finalEmbedment: ['finalembedment', 'embedment', 'finaldepth'],
+  fromDepth: ['fromdepth', 'depthfrom', 'from', 'top'],
+  toDepth: ['todepth', 'depthto', 'to', 'depth', 'bottom'],
+  blows: ['blows', 'blowcount', 'count'],
+  notes: ['notes', 'note', 'comments'],
+};
+
+export function projectRefusalCriterion(project: { refusalBlowCount: number; refusalBlowDepth: number }): RefusalCriterion {
+  return { blows: project.refusalBlowCount, depth: project.refusalBlowDepth };
+}
+
+export function validateRefusalCriterion(blows: unknown, depth: unknown): string[] {
+  const errors: string[] = [];
+  if (!Number.isInteger(blows) || (blows as number) <= 0) errors.push('refusalBlowCount must be a whole number of blows above 0');
+  if (typeof depth !== 'number' || !Number.isFinite(depth) || depth <= 0) errors.push('refusalBlowDepth must be more than 0 mm');
+  return errors;
+}
+
+export function validateDrivingLog(data: Record<string, any>, format: string) {
+  const errors: string[] = [];
+  const pileId = String(data.pileId ?? '').trim();
+  const driveStart = data.driveStart ? new Date(data.driveStart) : null;
+  const driveEnd = data.driveEnd ? new Date(data.driveEnd) : null;
+  const targetDepth = Number(data.targetDepth);
+
+  const pileError = validatePileId(format, pileId);
+  if (pileError) errors.push(pileError);
+  if (!driveStart || isNaN(driveStart.getTime())) errors.push('driveStart is required');
+  if (!driveEnd || isNaN(driveEnd.getTime())) errors.push('driveEnd is required');
+  else if (driveStart && driveEnd < driveStart) errors.push('driveEnd cannot be before driveStart');
+  if (!Number.isFinite(targetDepth) || targetDepth <= 0) errors.push('targetDepth must be more than 0 mm');
+
+  const intervals: DrivingInterval[] = (Array.isArray(data.intervals) ? data.intervals : [])
+    .map((interval: any) => ({
+      fromDepth: Number(interval?.fromDepth),
+      toDepth: Number(interval?.toDepth),
+      blows: Number(interval?.blows),
+    }))
+    .sort((a: DrivingInterval, b: DrivingInterval) => a.fromDepth - b.fromDepth);
+  intervals.forEach((interval, index) => {
+    const label = `Interval ${index + 1}`;
+    if (!Number.isFinite(interval.fromDepth) || !Number.isFinite(interval.toDepth) || interval.fromDepth < 0 || interval.toDepth <= interval.fromDepth) {
+      errors.push(`${label}: toDepth must be below fromDepth`);
+    }
+    if (!Number.isInteger(interval.blows) || interval.blows < 0) errors.push(`${label}: blows must be a whole number`);
+    if (index > 0 && interval.fromDepth < intervals[index - 1].toDepth) errors.push(`${label}: overlaps the interval above`);
+  });
+
+  // Without an embedment the deepest interval is as far as the pile went
+  const deepest = intervals.length > 0 ? intervals[intervals.length - 1].toDepth : null;
+  const finalEmbedment = data.finalEmbedment === null || data.finalEmbedment === undefined || data.finalEmbedment === ''
+    ? deepest
+    : Number(data.finalEmbedment);
+  if (finalEmbedment === null || !Number.isFinite(finalEmbedment) || finalEmbedment <= 0) {
+    errors.push('finalEmbedment must be more than 0 mm');
+  } else if (deepest !== null && deepest > finalEmbedment) {
+    errors.push('Blow count intervals go deeper than the final embedment');
+  }
+
+  const minutes = driveStart && driveEnd ? (driveEnd.getTime() - driveStart.getTime()) / 60000 : 0;
+  return {
+    fields: {
+      pileId,
+      driveStart: driveStart as Date,
+      driveEnd: driveEnd as Date,
+      rigId: String(data.rigId ?? '').trim() || null,
+      targetDepth,
+      finalEmbedment: finalEmbedment as number,
+      totalBlows: intervals.reduce((sum, interval) => sum + interval.blows, 0),
+      penetrationRate: minutes > 0 ? Math.round((finalEmbedment ?? 0) / minutes * 10) / 10 : 0,
+      notes: data.notes || null,
+      intervals,
+    } as DrivingLogFields,
+    errors,
+  };
+}
+
+// Blows in an interval scaled to the criterion's depth
+export function blowsPer(interval: DrivingInterval, depth: number) {
+  return interval.blows / (interval.toDepth - interval.fromDepth) * depth;
+}
+
+// True when the pile stopped short of design depth on blows that meet the
+// criterion. A log without blow counts can't show refusal.
+export function meetsRefusalCriterion(log: Pick<DrivingLogFields, 'targetDepth' | 'finalEmbedment' | 'intervals'>, criterion: RefusalCriterion) {
+  if (log.finalEmbedment >= log.targetDepth || log.intervals.length === 0) return false;
+  const last = log.intervals.reduce((deepest, interval) => interval.toDepth > deepest.toDepth ? interval : deepest);
+  return blowsPer(last, criterion.depth) >= criterion.blows;
+}
+
+function pickFields(record: Record<string, string>) {
+  const picked: Record<string, string> = {};
+  for (const [field, aliases] of Object.entries(FIELD_ALIASES)) {
+    const alias = aliases.find(name => record[name] !== undefined && record[name] !== '');
+    if (alias) picked[field] = record[alias];
+  }
+  return picked;
+}
+
+// Read a pile driver export. Rows of the same pile and start time are the
+// intervals of one drive; a row without fromDepth starts where the previous
+// interval ended. `targetDepth` fills in for files without a design depth.
+export function parseDrivingLogCsv(content: string, format: string, defaults: { targetDepth?: number | null } = {}) {
+  const { headers, records } = parseCsvRecords(content);
+  const missing = ['pileId', 'driveStart', 'driveEnd'].filter(field => !FIELD_ALIASES[field].some(name => headers.includes(name)));
+  if (missing.length > 0) {
+    return { logs: [], errors: [{ line: 1, message: `CSV needs ${missing.join(', ')} columns` }] as DrivingLogIssue[] };
+  }
+  if (!FIELD_ALIASES.targetDepth.some(name => headers.includes(name)) && !defaults.targetDepth) {
+    return { logs: [], errors: [{ line: 1, message: 'CSV has no design depth column - give a target depth for the whole file' }] as DrivingLogIssue[] };
+  }
+
+  const drives = new Map<string, { line: number; fields: Record<string, string>; intervals: Record<string, any>[] }>();
+  records.forEach((record, index) => {
+    const fields = pickFields(record);
+    const key = `${fields.pileId ?? ''}|${fields.driveStart ?? ''}`;
+    if (!drives.has(key)) drives.set(key, { line: index + 2, fields, intervals: [] });
+    const drive = drives.get(key)!;
+    if (fields.toDepth !== undefined || fields.blows !== undefined) {
+      const previous = drive.intervals[drive.intervals.length - 1];
+      drive.intervals.push({
+        fromDepth: fields.fromDepth ?? previous?.toDepth ?? 0,
+        toDepth: fields.toDepth,
+        blows: fields.blows,
+      });
+    }
+  });
+
+  const logs: DrivingLogFields[] = [];
+  const errors: DrivingLogIssue[] = [];
+  const seen = new Set<string>();
+  drives.forEach(({ line, fields, intervals }) => {
+    const result = validateDrivingLog({
+      ...fields,
+      targetDepth: fields.targetDepth ?? defaults.targetDepth,
+      intervals,
+    }, format);
+    if (result.errors.length > 0) {
+      errors.push(...result.errors.map(message => ({
+        line,
+        message: fields.pileId && !message.includes(fields.pileId) ? `${fields.pileId}: ${message}` : message,
+      })));
+      return;
+    }
+    // Rows are grouped by the start time as written, so catch two spellings of one drive
+    const key = `${result.fields.pileId}|${result.fields.driveStart.toISOString()}`;
+    if (seen.has(key)) {
+      errors.push({ line, message: `${result.fields.pileId}: the same drive appears twice` });
+      return;
+    }
+    seen.add(key);
+    logs.push(result.fields);
+  });
+
+  return { logs, errors };
+}
+
+// Columns of a minimal export, shown as a hint on the import
+export const DRIVING_LOG_CSV_HEADERS = ['pile_id', 'drive_start', 'drive_end', 'rig_id', 'target_depth', 'from_depth', 'to_depth', 'blows'];
+
+// Piles that are in the ground: driven to design depth, or short of it with
+// the proposed refusal dismissed
+function countsAsDriven(log: { finalEmbedment: number; targetDepth: number; refusalStatus: string | null }) {
+  return log.finalEmbedment >= log.targetDepth || log.refusalStatus === 'dismissed';
+}
+
+// Count newly driven piles in a production entry per day and logger, and mark
+// their registry piles driven. A pile is only counted once however many times
+// it is driven.
+export async function recordDrivenPiles(db: TenantDb, projectId: string, logs: any[]) {
+  const driven = logs.filter(log => countsAsDriven(log) && !log.productionEntryId);
+  if (driven.length === 0) return 0;
+
+  const counted = await db.pileDrivingLog.findMany({
+    where: { projectId, pileId: { in: driven.map(log => log.pileId) }, productionEntryId: { not: null } },
+    select: { pileId: true },
+  });
+  const countedPiles = new Set(counted.map((log: { pileId: string }) => log.pileId));
+
+  const byDay = new Map<string, any[]>();
+  for (const log of driven) {
+    if (countedPiles.has(log.pileId)) continue;
+    countedPiles.add(log.pileId);
+    const key = `${new Date(log.driveEnd).toISOString().slice(0, 10)}|${log.userId}`;
+    if (!byDay.has(key)) byDay.set(key, []);
+    byDay.get(key)!.push(log);
+  }
+
+  let total = 0;
+  for (const [key, dayLogs] of byDay) {
+    const [day, userId] = key.split('|');
+    const date = new Date(day);
+    const existing = await db.productionEntry.findFirst({ where: { projectId, userId, date, source: 'driving_log' } });
+    const entry = existing
+      ? await db.productionEntry.update({ where: { id: existing.id }, data: { piles: { increment: dayLogs.length }, revision: { increment: 1 } } })
+      : await db.productionEntry.create({
+          data: { date, piles: dayLogs.length, notes: 'Driving logs', source: 'driving_log', projectId, userId },
+        });
+    await db.pileDrivingLog.updateMany({ where: { id: { in: dayLogs.map(log => log.id) } }, data: { productionEntryId: entry.id } });
+    await linkProductionPiles(db, entry, dayLogs.map(log => log.pileId));
+    total += dayLogs.length;
+  }
+  return total;
+}
+
+// Save checked logs, skipping drives already on record. Logs that meet the
+// criterion are proposed as refusals; the rest feed production.
+export async function saveDrivingLogs(
+  db: TenantDb,
+  projectId: string,
+  userId: string,
+  logs: DrivingLogFields[],
+  criterion: RefusalCriterion,
+  source: 'manual' | 'import'
+) {
+  const existing = await db.pileDrivingLog.findMany({
+    where: { projectId, pileId: { in: [...new Set(logs.map(log => log.pileId))] } },
+    select: { pileId: true, driveStart: true },
+  });
+  const known = new Set(existing.map((log: any) => `${log.pileId}|${new Date(log.driveStart).toISOString()}`));
+  const registry = await db.pile.findMany({
+    where: { projectId, pileId: { in: logs.map(log => log.pileId) } },
+    select: { id: true, pileId: true },
+  });
+  const pileRecords = new Map<string, string>(registry.map((pile: any) => [pile.pileId, pile.id]));
+
+  const created: any[] = [];
+  const skipped: string[] = [];
+  for (const { intervals, ...fields } of logs) {
+    if (known.has(`${fields.pileId}|${fields.driveStart.toISOString()}`)) {
+      skipped.push(fields.pileId);
+      continue;
+    }
+    created.push(await db.pileDrivingLog.create({
+      data: {
+        ...fields,
+        source,
+        refusalStatus: meetsRefusalCriterion({ ...fields, intervals }, criterion) ? 'proposed' : null,
+        pileRecordId: pileRecords.get(fields.pileId) ?? null,
+        projectId,
+        userId,
+        intervals: { create: intervals },
+      },
+    }));
+  }
+
+  const driven = await recordDrivenPiles(db, projectId, created);
+  return {
+    logs: created,
+    skipped,
+    proposed: created.filter(log => log.refusalStatus === 'proposed').length,
+    driven,
+  };
+}
+
+// A refusal logged from a proposal closes it
+export async function confirmProposedRefusal(db: TenantDb, drivingLogId: string, refusal: { id: string; projectId: string; pileId: string }) {
+  await db.pileDrivingLog.updateMany({
+    where: { id: drivingLogId, projectId: refusal.projectId, pileId: refusal.pileId, refusalStatus: 'proposed' },
+    data: { refusalStatus: 'confirmed', refusalId: refusal.id },
+  });
+}
+
+// Turn down a proposed refusal; the pile then counts as driven
+export async function dismissProposedRefusal(db: TenantDb, log: any) {
+  if (log.refusalStatus !== 'proposed') return { log: null, errors: [`Only proposed refusals can be dismissed (this log is ${log.refusalStatus ?? 'not a refusal'})`] };
+  const updated = await db.pileDrivingLog.update({ where: { id: log.id }, data: { refusalStatus: 'dismissed' } });
+  await recordDrivenPiles(db, log.projectId, [updated]);
+  return { log: updated, errors: [] };
+}
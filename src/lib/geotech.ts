@@ -0,0 +1,229 @@
+// Geotechnical site data: boring logs with their strata, and pile load tests.
+// Refusals and load tests are linked to the nearest boring so the ground at a
+// pile can be read next to what happened when it was driven or tested.
+// Depths are in mm from the ground surface, like pile depths.
+
+import type { TenantDb } from '@/lib/db';
+import { parsePileId, validatePileId } from '@/lib/pile-ids';
+import { projectPileIdFormat } from '@/lib/piles';
+
+export type LoadTestType = 'axial_compression' | 'axial_tension' | 'lateral';
+
+export const STRATUM_MATERIALS = [
+  'topsoil', 'fill', 'clay', 'silt', 'sand', 'gravel', 'cobble', 'boulders', 'weathered_rock', 'bedrock',
+];
+export const LOAD_TEST_TYPES: LoadTestType[] = ['axial_compression', 'axial_tension', 'lateral'];
+
+export interface StratumInput {
+  topDepth: number;
+  bottomDepth: number;
+  material: string;
+  description: string | null;
+}
+
+const optionalNumber = (value: unknown) => value === null || value === undefined || value === '' ? null : Number(value);
+
+export function validateBoring(data: Record<string, any>, format: string) {
+  const errors: string[] = [];
+  const name = String(data.name ?? '').trim();
+  const easting = optionalNumber(data.easting);
+  const northing = optionalNumber(data.northing);
+  const nearPileId = String(data.nearPileId ?? '').trim() || null;
+  const totalDepth = Number(data.totalDepth);
+  const refusalDepth = optionalNumber(data.refusalDepth);
+  const groundwaterDepth = optionalNumber(data.groundwaterDepth);
+  const drilledAt = data.drilledAt ? new Date(data.drilledAt) : null;
+
+  if (!name) errors.push('name is required');
+  if ((easting === null) !== (northing === null)) errors.push('easting and northing must be given together');
+  if ((easting !== null && !Number.isFinite(easting)) || (northing !== null && !Number.isFinite(northing))) errors.push('easting and northing must be numbers');
+  if (nearPileId) {
+    const error = validatePileId(format, nearPileId);
+    if (error) errors.push(`nearPileId: ${error}`);
+  }
+  if (easting === null && !nearPileId) errors.push('Locate the boring by easting/northing or by the pile it is next to');
+  if (!Number.isFinite(totalDepth) || totalDepth <= 0) errors.push('totalDepth must be more than 0 mm');
+  if (refusalDepth !== null && (!Number.isFinite(refusalDepth) || refusalDepth < 0 || refusalDepth > totalDepth)) {
+    errors.push('refusalDepth must be between 0 and the total depth');
+  }
+  if (groundwaterDepth !== null && (!Number.isFinite(groundwaterDepth) || groundwaterDepth < 0)) errors.push('groundwaterDepth must be 0 mm or more');
+  if (drilledAt && isNaN(drilledAt.getTime())) errors.push('drilledAt is not a valid date');
+
+  const strata: StratumInput[] = (Array.isArray(data.strata) ? data.strata : [])
+    .map((layer: any) => ({
+      topDepth: Number(layer?.topDepth),
+      bottomDepth: Number(layer?.bottomDepth),
+      material: layer?.material,
+      description: layer?.description || null,
+    }))
+    .sort((a: StratumInput, b: StratumInput) => a.topDepth - b.topDepth);
+  strata.forEach((layer, index) => {
+    const label = `Stratum ${index + 1}`;
+    if (!Number.isFinite(layer.topDepth) || !Number.isFinite(layer.bottomDepth) || layer.topDepth < 0 || layer.bottomDepth <= layer.topDepth) {
+      errors.push(`${label}: bottomDepth must be below topDepth`);
+    } else if (layer.bottomDepth > totalDepth) {
+      errors.push(`${label}: extends below the boring's total depth`);
+    }
+    if (!STRATUM_MATERIALS.includes(layer.material)) errors.push(`${label}: material must be one of ${STRATUM_MATERIALS.join(', ')}`);
+    if (index > 0 && layer.topDepth < strata[index - 1].bottomDepth) errors.push(`${label}: overlaps the layer above`);
+  });
+
+  return {
+    fields: {
+      name,
+      easting,
+      northing,
+      nearPileId,
+      totalDepth,
+      refusalDepth,
+      refusalMaterial: String(data.refusalMaterial ?? '').trim() || null,
+      groundwaterDepth,
+      drilledAt,
+      notes: data.notes || null,
+    },
+    strata,
+    errors,
+  };
+}
+
+// A test passes when the pile held at least its design load without moving
+// more than the allowable displacement
+export function validateLoadTest(data: Record<string, any>, format: string) {
+  const errors: string[] = [];
+  const pileId = String(data.pileId ?? '').trim();
+  const designLoad = Number(data.designLoad);
+  const testLoad = Number(data.testLoad);
+  const displacement = Number(data.displacement);
+  const allowableDisplacement = Number(data.allowableDisplacement);
+  const testedAt = data.testedAt ? new Date(data.testedAt) : null;
+
+  const pileError = validatePileId(format, pileId);
+  if (pileError) errors.push(pileError);
+  if (!LOAD_TEST_TYPES.includes(data.testType)) errors.push(`testType must be one of ${LOAD_TEST_TYPES.join(', ')}`);
+  if (!Number.isFinite(designLoad) || designLoad <= 0) errors.push('designLoad must be more than 0 kN');
+  if (!Number.isFinite(testLoad) || testLoad < 0) errors.push('testLoad must be 0 kN or more');
+  if (!Number.isFinite(displacement) || displacement < 0) errors.push('displacement must be 0 mm or more');
+  if (!Number.isFinite(allowableDisplacement) || allowableDisplacement <= 0) errors.push('allowableDisplacement must be more than 0 mm');
+  if (!testedAt || isNaN(testedAt.getTime())) errors.push('testedAt is required');
+
+  return {
+    fields: {
+      pileId,
+      testType: data.testType as LoadTestType,
+      designLoad,
+      testLoad,
+      displacement,
+      allowableDisplacement,
+      result: testLoad >= designLoad && displacement <= allowableDisplacement ? 'pass' : 'fail',
+      testedAt: testedAt as Date,
+      notes: data.notes || null,
+    },
+    errors,
+  };
+}
+
+interface Position {
+  x: number | null;
+  y: number | null;
+  group: string;
+  row: number | null;
+  pile: number | null;
+}
+
+// Surveyed position from the registry where there is one, and the pile's
+// place in the row/pile grid either way
+async function pilePositions(db: TenantDb, projectId: string, format: string, pileIds: string[]) {
+  const registry = await db.pile.findMany({
+    where: { projectId, pileId: { in: [...new Set(pileIds)] } },
+    select: { pileId: true, block: true, row: true, pileNumber: true, easting: true, northing: true },
+  });
+  const positions = new Map<string, Position>();
+  for (const pile of registry) {
+    positions.set(pile.pileId, { x: pile.easting, y: pile.northing, group: pile.block ?? '', row: pile.row, pile: pile.pileNumber });
+  }
+  for (const pileId of pileIds) {
+    if (positions.has(pileId)) continue;
+    const parsed = parsePileId(format, pileId);
+    if (!parsed) continue;
+    const group = parsed.block ?? parsed.inverter;
+    positions.set(pileId, { x: null, y: null, group: group === null ? '' : String(group), row: parsed.row ?? parsed.tracker, pile: parsed.pile });
+  }
+  return positions;
+}
+
+async function boringPositions(db: TenantDb, projectId: string, format: string) {
+  const borings = await db.boringLog.findMany({ where: { projectId }, select: { id: true, easting: true, northing: true, nearPileId: true } });
+  const near = await pilePositions(db, projectId, format, borings.map((b: any) => b.nearPileId).filter(Boolean));
+  return borings.map((boring: any) => {
+    const pile = boring.nearPileId ? near.get(boring.nearPileId) : undefined;
+    return {
+      id: boring.id as string,
+      position: {
+        x: boring.easting ?? pile?.x ?? null,
+        y: boring.northing ?? pile?.y ?? null,
+        group: pile?.group ?? '',
+        row: pile?.row ?? null,
+        pile: pile?.pile ?? null,
+      } as Position,
+    };
+  });
+}
+
+// Closest boring by surveyed distance, or by rows and piles within the same
+// block when either side has no coordinates
+function nearest(borings: { id: string; position: Position }[], target: Position | undefined): string | null {
+  if (!target) return null;
+  let best: { id: string; distance: number } | null = null;
+
+  if (target.x !== null && target.y !== null) {
+    for (const { id, position } of borings) {
+      if (position.x === null || position.y === null) continue;
+      const distance = Math.hypot(position.x - target.x, position.y - target.y);
+      if (!best || distance < best.distance) best = { id, distance };
+    }
+    if (best) return best.id;
+  }
+
+  if (target.row === null || target.pile === null) return null;
+  for (const { id, position } of borings) {
+    if (position.row === null || position.pile === null || position.group !== target.group) continue;
+    const distance = Math.hypot(position.row - target.row, position.pile - target.pile);
+    if (!best || distance < best.distance) best = { id, distance };
+  }
+  return best?.id ?? null;
+}
+
+// Link a new refusal or load test to its nearest boring
+export async function linkNearestBoring(db: TenantDb, model: 'pileRefusal' | 'pileLoadTest', record: { id: string; projectId: string; pileId: string }) {
+  const format = await projectPileIdFormat(db, record.projectId);
+  const borings = await boringPositions(db, record.projectId, format);
+  if (borings.length === 0) return null;
+
+  const positions = await pilePositions(db, record.projectId, format, [record.pileId]);
+  const boringId = nearest(borings, positions.get(record.pileId));
+  if (boringId) await (db as any)[model].update({ where: { id: record.id }, data: { boringId } });
+  return boringId;
+}
+
+// Re-link every refusal and load test of the project after its borings change
+export async function relinkBorings(db: TenantDb, projectId: string) {
+  const format = await projectPileIdFormat(db, projectId);
+  const borings = await boringPositions(db, projectId, format);
+  const [refusals, loadTests] = await Promise.all([
+    db.pileRefusal.findMany({ where: { projectId }, select: { id: true, pileId: true, boringId: true } }),
+    db.pileLoadTest.findMany({ where: { projectId }, select: { id: true, pileId: true, boringId: true } }),
+  ]);
+  const positions = await pilePositions(db, projectId, format, [...refusals, ...loadTests].map((r: any) => r.pileId));
+
+  for (const [model, records] of [['pileRefusal', refusals], ['pileLoadTest', loadTests]] as const) {
+    for (const record of records) {
+      const boringId = nearest(borings, positions.get(record.pileId));
+      if (boringId !== record.boringId) await (db as any)[model].update({ where: { id: record.id }, data: { boringId } });
+    }
+  }
+}
+
+// The layer a depth falls in, if the boring logged it
+export function stratumAt<T extends { topDepth: number; bottomDepth: number }>(strata: T[], depth: number): T | null {
+  return strata.find(layer => depth >= layer.topDepth && depth < layer.bottomDepth) ?? null;
+}
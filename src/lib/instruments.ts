@@ -0,0 +1,290 @@
+// Measuring instrument input for QC readings. Digital levels and tapes stream
+// text lines over Web Serial or a Bluetooth LE UART, or dump a CSV log; every
+// source is turned into InstrumentReadings that the inspection form maps onto
+// a pile and measurement type.
+
+import { parseCsvRecords, normaliseHeader } from '@/lib/csv';
+import { MEASUREMENTS, type MeasurementType } from '@/lib/tolerances';
+
+export interface InstrumentReading {
+  measurementType: MeasurementType | null; // null when the instrument doesn't say
+  value: number;                           // In the measurement's stored unit when the type is known
+  unit: string | null;
+  pileId: string | null;                   // Only logs carry a pile
+  source: string;
+}
+
+export type ReadingListener = (reading: InstrumentReading) => void;
+
+export interface InstrumentDriver {
+  id: string;
+  label: string;
+  supported(): boolean;
+  // Resolves once connected; readings arrive on `onReading` until disconnect
+  connect(onReading: ReadingListener, onDisconnect: () => void): Promise<void>;
+  disconnect(): Promise<void>;
+}
+
+// Line prefixes that name the axis / quantity, after normaliseHeader
+const TYPE_ALIASES: Record<MeasurementType, string[]> = {
+  ns_plumb: ['nsplumb', 'ns', 'plumbns', 'pitch', 'x'],
+  ew_plumb: ['ewplumb', 'ew', 'plumbew', 'roll', 'y'],
+  twist: ['twist', 'yaw', 'z'],
+  embed_depth: ['embeddepth', 'embed', 'depth', 'reveal'],
+  spacing: ['spacing', 'space', 'distance', 'dist', 'tape'],
+};
+
+const UNIT_ALIASES: Record<string, string> = { degrees: 'deg', degree: 'deg', '"': 'in', inch: 'in', inches: 'in', "'": 'ft', feet: 'ft' };
+const KNOWN_UNITS = Array.from(new Set(Object.values(MEASUREMENTS).flatMap(spec => Object.keys(spec.units))));
+
+export function measurementTypeFor(name: string): MeasurementType | null {
+  const key = normaliseHeader(name);
+  const match = (Object.keys(TYPE_ALIASES) as MeasurementType[]).find(type => TYPE_ALIASES[type].includes(key));
+  return match ?? null;
+}
+
+// Log headers may carry their unit, e.g. "NS Plumb (deg)" or "Spacing mm"
+function headerMeasurement(header: string): { type: MeasurementType; unit: string | null } | null {
+  const type = measurementTypeFor(header);
+  if (type) return { type, unit: null };
+  for (const unit of KNOWN_UNITS) {
+    const unitType = header.endsWith(unit) ? measurementTypeFor(header.slice(0, -unit.length)) : null;
+    if (unitType) return { type: unitType, unit };
+  }
+  return null;
+}
+
+// Convert to the measurement's stored unit. A reading without a unit is
+// taken to be in the stored unit already; an unknown unit is an error.
+function toStoredUnit(type: MeasurementType | null, value: number, unit: string | null): { value: number; error?: string } {
+  if (!type || !unit) return { value };
+  const spec = MEASUREMENTS[type];
+  const factor = spec.units[UNIT_ALIASES[unit] ?? unit];
+  if (factor === undefined) return { value, error: `unit "${unit}" is not valid for ${type}` };
+  return { value: Math.round(value * factor * 1000) / 1000 };
+}
+
+// One reading per line, e.g. "NS:+0.42deg", "TWIST = -1.1 °", "TAPE 5182mm"
+// or a bare "0.42". Returns null for lines that hold no reading.
+export function parseReadingLine(line: string, source: string): InstrumentReading | null {
+  const match = line.trim().match(/^(?:([a-z_ ]+?)\s*[:=,\s]\s*)?([+-]?\d+(?:\.\d+)?)\s*([a-z°"']*)$/i);
+  if (!match) return null;
+
+  const measurementType = match[1] ? measurementTypeFor(match[1]) : null;
+  if (match[1] && !measurementType) return null;
+
+  const unit = match[3] ? match[3].toLowerCase() : null;
+  const { value, error } = toStoredUnit(measurementType, parseFloat(match[2]), unit);
+  if (error) return null;
+
+  return { measurementType, value, unit: measurementType ? MEASUREMENTS[measurementType].unit : unit, pileId: null, source };
+}
+
+// The value of a reading as `type`, for readings that didn't name their
+// measurement. Null when the reading's unit doesn't fit the type.
+export function readingValueAs(reading: InstrumentReading, type: MeasurementType): number | null {
+  if (reading.measurementType) return reading.measurementType === type ? reading.value : null;
+  const { value, error } = toStoredUnit(type, reading.value, reading.unit);
+  return error ? null : value;
+}
+
+// Split a text stream into lines and hand each reading on
+function lineReader(source: string, onReading: ReadingListener) {
+  let buffer = '';
+  return (chunk: string) => {
+    buffer += chunk;
+    const lines = buffer.split(/\r?\n|\r/);
+    buffer = lines.pop() ?? '';
+    for (const line of lines) {
+      const reading = parseReadingLine(line, source);
+      if (reading) onReading(reading);
+    }
+  };
+}
+
+const SERIAL_BAUD_RATE = 9600;
+
+export class SerialDriver implements InstrumentDriver {
+  id = 'serial';
+  label = 'USB / Serial';
+  private port: any = null;
+  private reader: any = null;
+
+  supported() {
+    return typeof navigator !== 'undefined' && 'serial' in navigator;
+  }
+
+  async connect(onReading: ReadingListener, onDisconnect: () => void) {
+    this.port = await (navigator as any).serial.requestPort();
+    await this.port.open({ baudRate: SERIAL_BAUD_RATE });
+    const decoder = new TextDecoder();
+    const push = lineReader(this.label, onReading);
+    this.reader = this.port.readable.getReader();
+
+    // Read until the port closes or disconnect() cancels the reader
+    (async () => {
+      try {
+        for (;;) {
+          const { value, done } = await this.reader.read();
+          if (done) break;
+          push(decoder.decode(value, { stream: true }));
+        }
+      } catch {
+        // Device unplugged
+      } finally {
+        await this.disconnect();
+        onDisconnect();
+      }
+    })();
+  }
+
+  async disconnect() {
+    const { port, reader } = this;
+    this.port = null;
+    this.reader = null;
+    try {
+      await reader?.cancel();
+      reader?.releaseLock();
+      await port?.close();
+    } catch {
+      // Already closed
+    }
+  }
+}
+
+// Nordic UART service, which most Bluetooth levels and tapes expose
+const UART_SERVICE = '6e400001-b5a3-f393-e0a9-e50e24dcca9e';
+const UART_TX_CHARACTERISTIC = '6e400003-b5a3-f393-e0a9-e50e24dcca9e';
+
+export class BluetoothDriver implements InstrumentDriver {
+  id = 'bluetooth';
+  label = 'Bluetooth';
+  private device: any = null;
+
+  supported() {
+    return typeof navigator !== 'undefined' && 'bluetooth' in navigator;
+  }
+
+  async connect(onReading: ReadingListener, onDisconnect: () => void) {
+    this.device = await (navigator as any).bluetooth.requestDevice({
+      filters: [{ services: [UART_SERVICE] }],
+    });
+    this.device.addEventListener('gattserverdisconnected', () => {
+      this.device = null;
+      onDisconnect();
+    });
+
+    const server = await this.device.gatt.connect();
+    const service = await server.getPrimaryService(UART_SERVICE);
+    const characteristic = await service.getCharacteristic(UART_TX_CHARACTERISTIC);
+    const decoder = new TextDecoder();
+    const push = lineReader(this.device.name || this.label, onReading);
+    characteristic.addEventListener('characteristicvaluechanged', (event: any) => {
+      push(decoder.decode(event.target.value));
+    });
+    await characteristic.startNotifications();
+  }
+
+  async disconnect() {
+    this.device?.gatt?.disconnect();
+  }
+}
+
+const SIMULATED_INTERVAL_MS = 2500;
+
+// Emits plausible plumb and twist lines so the flow can be tried without
+// hardware. Roughly one reading in six is out of a typical ±2° tolerance.
+export class SimulatedDriver implements InstrumentDriver {
+  id = 'simulated';
+  label = 'Simulated level';
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private next = 0;
+
+  supported() {
+    return true;
+  }
+
+  async connect(onReading: ReadingListener) {
+    const push = lineReader(this.label, onReading);
+    const axes = ['NS', 'EW', 'TWIST'];
+    this.timer = setInterval(() => {
+      const spread = Math.random() < 1 / 6 ? 3 : 1.5;
+      const value = ((Math.random() * 2 - 1) * spread).toFixed(2);
+      push(`${axes[this.next++ % axes.length]}:${value}deg\n`);
+    }, SIMULATED_INTERVAL_MS);
+  }
+
+  async disconnect() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+}
+
+export function createInstrumentDrivers(): InstrumentDriver[] {
+  return [new SerialDriver(), new BluetoothDriver(), new SimulatedDriver()];
+}
+
+// Accepted log columns, after normaliseHeader
+const LOG_COLUMNS = {
+  pileId: ['pileid', 'pile', 'id', 'tag', 'point'],
+  type: ['measurementtype', 'measurement', 'type', 'axis', 'channel'],
+  value: ['value', 'reading', 'measuredvalue'],
+  unit: ['unit', 'units'],
+};
+
+// A log dumped by an instrument: either one reading per row (type, value,
+// unit) or one pile per row with a column for each measurement type.
+export function parseInstrumentLog(content: string, source: string): { readings: InstrumentReading[]; errors: string[] } {
+  const { headers, records } = parseCsvRecords(content);
+  const column = (aliases: string[]) => aliases.find(alias => headers.includes(alias)) ?? null;
+  const pileColumn = column(LOG_COLUMNS.pileId);
+  const typeColumn = column(LOG_COLUMNS.type);
+  const valueColumn = column(LOG_COLUMNS.value);
+  const unitColumn = column(LOG_COLUMNS.unit);
+  const typeColumns = headers
+    .filter(header => header !== pileColumn && header !== typeColumn)
+    .flatMap(header => {
+      const measurement = headerMeasurement(header);
+      return measurement ? [{ header, ...measurement }] : [];
+    });
+
+  const readings: InstrumentReading[] = [];
+  const errors: string[] = [];
+  if (!(typeColumn && valueColumn) && typeColumns.length === 0) {
+    return { readings, errors: ['No measurement columns found (expected type and value, or one column per measurement)'] };
+  }
+
+  const add = (line: number, pileId: string | null, type: MeasurementType | null, raw: string, unit: string | null) => {
+    if (raw === '') return;
+    const value = Number(raw);
+    if (!Number.isFinite(value)) {
+      errors.push(`Line ${line}: "${raw}" is not a number`);
+      return;
+    }
+    const converted = toStoredUnit(type, value, unit);
+    if (converted.error) {
+      errors.push(`Line ${line}: ${converted.error}`);
+      return;
+    }
+    readings.push({ measurementType: type, value: converted.value, unit: type ? MEASUREMENTS[type].unit : unit, pileId, source });
+  };
+
+  records.forEach((record, index) => {
+    const line = index + 2; // Header is line 1
+    const pileId = pileColumn ? record[pileColumn] || null : null;
+    const unit = unitColumn ? record[unitColumn].toLowerCase() || null : null;
+
+    if (typeColumn && valueColumn) {
+      const type = measurementTypeFor(record[typeColumn]);
+      if (!type) {
+        errors.push(`Line ${line}: unknown measurement "${record[typeColumn]}"`);
+        return;
+      }
+      add(line, pileId, type, record[valueColumn], unit);
+    } else {
+      for (const column of typeColumns) add(line, pileId, column.type, record[column.header], column.unit ?? unit);
+    }
+  });
+
+  return { readings, errors };
+}
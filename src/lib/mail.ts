@@ -0,0 +1,32 @@
+// Local mail stand-in. Messages are printed to the server console and
+// appended to mail.log instead of being delivered.
+
+import { appendFile } from 'fs/promises';
+import path from 'path';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+const MAIL_LOG = path.join(process.cwd(), 'mail.log');
+
+export async function sendMail(message: MailMessage): Promise<void> {
+  const entry = [
+    `--- ${new Date().toISOString()} ---`,
+    `To: ${message.to}`,
+    `Subject: ${message.subject}`,
+    '',
+    message.text,
+    '',
+  ].join('\n');
+
+  console.log('[Mail]', entry);
+
+  try {
+    await appendFile(MAIL_LOG, entry + '\n');
+  } catch (error) {
+    console.error('[Mail] Failed to write mail.log:', error);
+  }
+}
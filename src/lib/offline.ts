@@ -1,7 +1,37 @@
 // Offline storage utilities for PWA
 
 const DB_NAME = 'SolarConstructionDB';
-const DB_VERSION = 1;
+const DB_VERSION = 2;
+
+export type SyncEntity = 'production' | 'inspection' | 'refusal';
+
+// create: new record; update/delete: change to a server record, carrying
+// `id` and the `baseRevision` it was read at
+export type SyncAction = 'create' | 'update' | 'delete';
+
+// pending: waiting for (re)delivery, synced: accepted by the server,
+// failed: rejected for good or out of retries - needs the user's attention
+export type SyncItemStatus = 'pending' | 'synced' | 'failed';
+
+export interface SyncQueueItem {
+  id: number;
+  action: SyncAction;
+  entity: SyncEntity;
+  payload: any;
+  status: SyncItemStatus;
+  attempts: number;
+  nextAttemptAt: string;
+  lastError?: string;
+  createdAt: string;
+  syncedAt?: string;
+}
+
+// Local copy of each queued record, by entity
+const ENTITY_STORES: Record<SyncEntity, string> = {
+  production: 'productionEntries',
+  inspection: 'inspections',
+  refusal: 'refusals',
+};
 
 // IndexedDB wrapper for offline data
 export class OfflineStorage {
@@ -36,6 +66,13 @@ export class OfflineStorage {
           store.createIndex('syncStatus', 'syncStatus', { unique: false });
         }
 
+        // Refusals store
+        if (!db.objectStoreNames.contains('refusals')) {
+          const store = db.createObjectStore('refusals', { keyPath: 'localId' });
+          store.createIndex('projectId', 'projectId', { unique: false });
+          store.createIndex('syncStatus', 'syncStatus', { unique: false });
+        }
+
         // Sync queue store
         if (!db.objectStoreNames.contains('syncQueue')) {
           const store = db.createObjectStore('syncQueue', { keyPath: 'id', autoIncrement: true });
@@ -45,25 +82,28 @@ export class OfflineStorage {
     });
   }
 
-  async saveProductionEntry(entry: any): Promise<string> {
+  // Store a record locally and queue it for upload in one transaction
+  async enqueue(entity: SyncEntity, record: any, action: SyncAction = 'create'): Promise<string> {
     if (!this.db) await this.init();
     
-    const localId = `local_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-    const entryWithId = { ...entry, localId, syncStatus: 'pending' };
+    const localId = record.localId || `local_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const recordWithId = { ...record, localId, syncStatus: 'pending' };
+    const storeName = ENTITY_STORES[entity];
 
     return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction(['productionEntries', 'syncQueue'], 'readwrite');
+      const transaction = this.db!.transaction([storeName, 'syncQueue'], 'readwrite');
       
-      const entryStore = transaction.objectStore('productionEntries');
-      entryStore.add(entryWithId);
-
-      const queueStore = transaction.objectStore('syncQueue');
-      queueStore.add({
-        action: 'create',
-        entity: 'production',
-        payload: entryWithId,
+      transaction.objectStore(storeName).put(recordWithId);
+
+      const now = new Date().toISOString();
+      transaction.objectStore('syncQueue').add({
+        action,
+        entity,
+        payload: recordWithId,
         status: 'pending',
-        createdAt: new Date().toISOString()
+        attempts: 0,
+        nextAttemptAt: now,
+        createdAt: now
       });
 
       transaction.oncomplete = () => resolve(localId);
@@ -71,61 +111,113 @@ export class OfflineStorage {
     });
   }
 
+  async saveProductionEntry(entry: any): Promise<string> {
+    return this.enqueue('production', entry);
+  }
+
   async saveInspection(inspection: any): Promise<string> {
-    if (!this.db) await this.init();
-    
-    const localId = `local_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-    const inspectionWithId = { ...inspection, localId, syncStatus: 'pending' };
+    return this.enqueue('inspection', inspection);
+  }
 
-    return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction(['inspections', 'syncQueue'], 'readwrite');
-      
-      const inspectionStore = transaction.objectStore('inspections');
-      inspectionStore.add(inspectionWithId);
-
-      const queueStore = transaction.objectStore('syncQueue');
-      queueStore.add({
-        action: 'create',
-        entity: 'inspection',
-        payload: inspectionWithId,
-        status: 'pending',
-        createdAt: new Date().toISOString()
-      });
+  async saveRefusal(refusal: any): Promise<string> {
+    return this.enqueue('refusal', refusal);
+  }
 
-      transaction.oncomplete = () => resolve(localId);
-      transaction.onerror = () => reject(transaction.error);
-    });
+  async getPendingSyncItems(): Promise<SyncQueueItem[]> {
+    return this.getItemsByStatus('pending');
+  }
+
+  async getFailedSyncItems(): Promise<SyncQueueItem[]> {
+    return this.getItemsByStatus('failed');
   }
 
-  async getPendingSyncItems(): Promise<any[]> {
+  private async getItemsByStatus(status: SyncItemStatus): Promise<SyncQueueItem[]> {
     if (!this.db) await this.init();
 
     return new Promise((resolve, reject) => {
       const transaction = this.db!.transaction('syncQueue', 'readonly');
       const store = transaction.objectStore('syncQueue');
       const index = store.index('status');
-      const request = index.getAll('pending');
+      const request = index.getAll(status);
 
       request.onsuccess = () => resolve(request.result);
       request.onerror = () => reject(request.error);
     });
   }
 
-  async markSynced(itemId: number): Promise<void> {
+  // Read-modify-write a queue item and keep the local record's syncStatus in step
+  private async updateItem(itemId: number, update: (item: SyncQueueItem) => void): Promise<void> {
     if (!this.db) await this.init();
 
     return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction('syncQueue', 'readwrite');
+      const transaction = this.db!.transaction(['syncQueue', ...Object.values(ENTITY_STORES)], 'readwrite');
       const store = transaction.objectStore('syncQueue');
       
       const getRequest = store.get(itemId);
       getRequest.onsuccess = () => {
-        const item = getRequest.result;
-        if (item) {
-          item.status = 'synced';
-          item.syncedAt = new Date().toISOString();
-          store.put(item);
-        }
+        const item: SyncQueueItem | undefined = getRequest.result;
+        if (!item) return;
+
+        update(item);
+        store.put(item);
+
+        const recordStore = transaction.objectStore(ENTITY_STORES[item.entity]);
+        const recordRequest = recordStore.get(item.payload.localId);
+        recordRequest.onsuccess = () => {
+          if (recordRequest.result) {
+            recordStore.put({ ...recordRequest.result, syncStatus: item.status });
+          }
+        };
+      };
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  async markSynced(itemId: number): Promise<void> {
+    return this.updateItem(itemId, item => {
+      item.status = 'synced';
+      item.syncedAt = new Date().toISOString();
+      item.lastError = undefined;
+    });
+  }
+
+  // Record a failed delivery. Pending items are retried after `retryAt`;
+  // passing null marks the item failed until the user retries it.
+  async markAttemptFailed(itemId: number, error: string, retryAt: Date | null): Promise<void> {
+    return this.updateItem(itemId, item => {
+      item.attempts = (item.attempts || 0) + 1;
+      item.lastError = error;
+      if (retryAt) {
+        item.nextAttemptAt = retryAt.toISOString();
+      } else {
+        item.status = 'failed';
+      }
+    });
+  }
+
+  async retryItem(itemId: number): Promise<void> {
+    return this.updateItem(itemId, item => {
+      item.status = 'pending';
+      item.attempts = 0;
+      item.nextAttemptAt = new Date().toISOString();
+    });
+  }
+
+  async discardItem(itemId: number): Promise<void> {
+    if (!this.db) await this.init();
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['syncQueue', ...Object.values(ENTITY_STORES)], 'readwrite');
+      const store = transaction.objectStore('syncQueue');
+
+      const getRequest = store.get(itemId);
+      getRequest.onsuccess = () => {
+        const item: SyncQueueItem | undefined = getRequest.result;
+        if (!item) return;
+        store.delete(itemId);
+        transaction.objectStore(ENTITY_STORES[item.entity]).delete(item.payload.localId);
       };
 
       transaction.oncomplete = () => resolve();
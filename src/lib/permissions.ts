@@ -0,0 +1,76 @@
+// Role-based permission matrix shared by the API routes and the UI
+
+export type Role = 'admin' | 'pm' | 'installer' | 'inspector' | 'engineer' | 'executive';
+
+export type Permission =
+  | 'company:update'
+  | 'project:create'
+  | 'project:update'
+  | 'project:delete'
+  | 'project:view-all'
+  | 'project:assign'
+  | 'production:create'
+  | 'production:update'
+  | 'production:delete'
+  | 'driving-log:create'
+  | 'inspection:create'
+  | 'inspection:update'
+  | 'qc-issue:assign'
+  | 'qc-issue:correct'
+  | 'qc-issue:verify'
+  | 'refusal:create'
+  | 'refusal:update'
+  | 'refusal:approve'
+  | 'refusal:engineer-approve'
+  | 'geotech:manage'
+  | 'load-test:create'
+  | 'conflict:resolve'
+  | 'racking:manage'
+  | 'user:manage';
+
+const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  admin: [
+    'company:update',
+    'project:create', 'project:update', 'project:delete', 'project:view-all', 'project:assign',
+    'production:create', 'production:update', 'production:delete', 'driving-log:create',
+    'inspection:create', 'inspection:update',
+    'qc-issue:assign', 'qc-issue:correct',
+    'refusal:create', 'refusal:update', 'refusal:approve',
+    'geotech:manage', 'load-test:create',
+    'conflict:resolve',
+    'racking:manage',
+    'user:manage',
+  ],
+  pm: [
+    'project:create', 'project:update', 'project:view-all', 'project:assign',
+    'production:create', 'production:update', 'production:delete', 'driving-log:create',
+    'inspection:create', 'inspection:update',
+    'qc-issue:assign', 'qc-issue:correct',
+    'refusal:create', 'refusal:update', 'refusal:approve',
+    'geotech:manage', 'load-test:create',
+    'conflict:resolve',
+    'racking:manage',
+  ],
+  installer: [
+    'production:create', 'production:update', 'driving-log:create',
+    'qc-issue:correct',
+    'refusal:create', 'refusal:update',
+  ],
+  // Only an inspector's re-inspection can verify a QC issue
+  inspector: [
+    'inspection:create', 'inspection:update',
+    'qc-issue:verify',
+    'refusal:create',
+    'load-test:create',
+  ],
+  // Geotechnical / structural engineers sign off refusal remediation plans
+  // and keep the site's geotech data
+  engineer: ['refusal:engineer-approve', 'geotech:manage', 'load-test:create'],
+  // Executives see everything but change nothing
+  executive: ['project:view-all'],
+};
+
+export function can(role: string | null | undefined, permission: Permission): boolean {
+  if (!role || !(role in ROLE_PERMISSIONS)) return false;
+  return ROLE_PERMISSIONS[role as Role].includes(permission);
+}
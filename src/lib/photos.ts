@@ -0,0 +1,28 @@
+// Photo payload helpers. The UI sends captured photos as a JSON string of
+// { dataUrl, context } objects; these are stored as photo rows.
+
+export interface PhotoInput {
+  dataUrl?: string;
+  url?: string;
+  context?: string;
+  caption?: string;
+}
+
+export function parsePhotos(raw: unknown): { url: string; caption: string | null }[] {
+  let photos: unknown = raw;
+  if (typeof raw === 'string') {
+    try {
+      photos = JSON.parse(raw);
+    } catch {
+      return [];
+    }
+  }
+  if (!Array.isArray(photos)) return [];
+
+  return (photos as PhotoInput[])
+    .map(photo => ({
+      url: photo.dataUrl || photo.url || '',
+      caption: photo.caption || photo.context || null,
+    }))
+    .filter(photo => photo.url);
+}
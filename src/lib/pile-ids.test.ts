@@ -0,0 +1,129 @@
+/// <reference types="bun-types" />
+
+import { describe, expect, test } from 'bun:test'
+import {
+  compilePileIdFormat, formatPileId, invalidPileIds, parsePileId, pileIdExample, replacedPileId, replacementPileId,
+  validatePileId, validatePileIdFormat,
+} from './pile-ids'
+
+const TRACKER_FORMAT = 'INV{Inverter:2}-T{Tracker:3}-{Pile:2}'
+
+describe('compilePileIdFormat', () => {
+  test('accepts the presets and fixed-width tokens side by side', () => {
+    for (const format of ['{Row}-{Pile}', '{Block}-{Row}-{Pile}', '{Pile:4}', TRACKER_FORMAT, '{Row:2}{Pile}']) {
+      expect(compilePileIdFormat(format).errors).toEqual([])
+    }
+    expect(compilePileIdFormat('{Block}-{Row}-{Pile}').tokens).toEqual(['Block', 'Row', 'Pile'])
+  })
+
+  test('token names are not case sensitive', () => {
+    expect(compilePileIdFormat('{row}-{PILE}').tokens).toEqual(['Row', 'Pile'])
+  })
+
+  for (const [format, error] of [
+    ['{Row}-{Pole}', 'Unknown token {Pole} (use {Block}, {Row}, {Pile}, {Inverter}, {Tracker})'],
+    ['{Row}', 'The format must contain {Pile}'],
+    ['{Pile}-{Pile}', '{Pile} appears more than once'],
+    ['{Block:2}-{Pile}', '{Block} is not a number and cannot be zero-padded'],
+    ['{Pile:7}', '{Pile} can be padded to at most 6 digits'],
+    ['{Row}{Pile}', '{Row} and {Pile} need a separator between them'],
+    ['{Block}{Pile:2}', '{Block} and {Pile} need a separator between them'],
+    ['{Row}-{Pile', 'Unmatched { or } in the format'],
+  ]) {
+    test(`rejects ${format}`, () => {
+      const compiled = compilePileIdFormat(format)
+      expect(compiled.errors).toContain(error)
+      expect(compiled.pattern).toBeNull()
+    })
+  }
+
+  test('a blank format is required', () => {
+    expect(validatePileIdFormat('  ')).toEqual(['Pile ID format is required'])
+  })
+})
+
+describe('formatPileId', () => {
+  test('fills in tokens and zero-pads to their width', () => {
+    expect(formatPileId('{Row}-{Pile}', { row: 35, pile: 22 })).toBe('35-22')
+    expect(formatPileId(TRACKER_FORMAT, { inverter: 3, tracker: 12, pile: 5 })).toBe('INV03-T012-05')
+    expect(formatPileId('{Pile:4}', { pile: 12345 })).toBe('12345')
+  })
+
+  test('a missing block falls back to the default block', () => {
+    expect(formatPileId('{Block}-{Row}-{Pile}', { row: 1, pile: 1 })).toBe('A-1-1')
+  })
+
+  test('examples use every token', () => {
+    expect(pileIdExample('{Block}-{Row}-{Pile}')).toBe('N1-35-22')
+    expect(pileIdExample(TRACKER_FORMAT)).toBe('INV03-T012-22')
+  })
+})
+
+describe('parsePileId', () => {
+  test('splits an ID into its components', () => {
+    expect(parsePileId('{Block}-{Row}-{Pile}', 'N1-35-22')).toEqual({ block: 'N1', row: 35, pile: 22, inverter: null, tracker: null })
+    expect(parsePileId(TRACKER_FORMAT, 'INV03-T012-05')).toEqual({ block: null, row: null, pile: 5, inverter: 3, tracker: 12 })
+  })
+
+  test('splits fixed-width tokens with no separator', () => {
+    expect(parsePileId('{Row:2}{Pile}', '05012')).toMatchObject({ row: 5, pile: 12 })
+  })
+
+  test('reads IDs without padding, in any case and with surrounding spaces', () => {
+    expect(parsePileId(TRACKER_FORMAT, ' inv3-t12-5 ')).toMatchObject({ inverter: 3, tracker: 12, pile: 5 })
+  })
+
+  test('gives a replacement the components of the pile it replaces', () => {
+    expect(parsePileId('{Row}-{Pile}', '35-22R2')).toEqual(parsePileId('{Row}-{Pile}', '35-22'))
+  })
+
+  test('returns null for IDs that do not follow the format', () => {
+    expect(parsePileId('{Row}-{Pile}', '35-')).toBeNull()
+    expect(parsePileId('{Row}-{Pile}', 'A-22')).toBeNull()
+    expect(parsePileId('{Row}-{Pile}', '35-22X')).toBeNull()
+  })
+})
+
+describe('replacement pile IDs', () => {
+  test('take an R suffix, numbered from the second replacement', () => {
+    expect(replacementPileId('35-22')).toBe('35-22R')
+    expect(replacementPileId('35-22', 2)).toBe('35-22R2')
+  })
+
+  test('lead back to the pile they replace', () => {
+    expect(replacedPileId('{Row}-{Pile}', '35-22R')).toEqual({ pileId: '35-22', sequence: 1 })
+    expect(replacedPileId('{Row}-{Pile}', '35-22R2')).toEqual({ pileId: '35-22', sequence: 2 })
+    expect(replacedPileId('{Block}-{Row}-{Pile}', 'N1-35-22R')).toEqual({ pileId: 'N1-35-22', sequence: 1 })
+  })
+
+  test('plain IDs and IDs that replace nothing valid are not replacements', () => {
+    expect(replacedPileId('{Row}-{Pile}', '35-22')).toBeNull()
+    expect(replacedPileId('{Row}-{Pile}', 'XR')).toBeNull()
+    expect(replacedPileId('{Row}-{Pile', '35-22R')).toBeNull()
+  })
+})
+
+describe('validatePileId', () => {
+  test('accepts IDs written exactly as the format builds them', () => {
+    expect(validatePileId('{Row}-{Pile}', '35-22')).toBeNull()
+    expect(validatePileId(TRACKER_FORMAT, 'INV03-T012-05')).toBeNull()
+    expect(validatePileId('{Row}-{Pile}', '35-22R')).toBeNull()
+    expect(validatePileId('{Row}-{Pile}', '35-22R3')).toBeNull()
+  })
+
+  test('asks for the padded, canonical spelling', () => {
+    expect(validatePileId(TRACKER_FORMAT, 'INV3-T12-5')).toBe('Write INV3-T12-5 as INV03-T012-05')
+    expect(validatePileId('{Row}-{Pile}', '35-22r')).toBe('Write 35-22r as 35-22R')
+    expect(validatePileId('{Row}-{Pile}', '35-22R1')).toBe('Write 35-22R1 as 35-22R')
+  })
+
+  test('rejects blank IDs, IDs off the format and invalid formats', () => {
+    expect(validatePileId('{Row}-{Pile}', ' ')).toBe('Pile ID is required')
+    expect(validatePileId('{Row}-{Pile}', 'abc')).toBe('abc does not match {Row}-{Pile} (e.g. 35-22)')
+    expect(validatePileId('{Row}', '35')).toBe("The project's pile ID format is invalid: The format must contain {Pile}")
+  })
+
+  test('invalidPileIds lists only the failures', () => {
+    expect(invalidPileIds('{Row}-{Pile}', ['35-22', 'abc', '35-22R'])).toEqual(['abc does not match {Row}-{Pile} (e.g. 35-22)'])
+  })
+})
@@ -0,0 +1,185 @@
+// Pile ID formats. A project's pileIdFormat is a template of tokens and
+// literal separators, e.g. "{Block}-{Row}-{Pile}" or "INV{Inverter:2}.T{Tracker:3}-{Pile:2}".
+// A ":N" suffix zero-pads the number to N digits. The same compiled format is
+// used to build IDs in the field forms, to parse them back into components
+// and to check IDs typed by hand or sent to the API.
+// A pile driven beside a refused one to replace it takes the refused pile's ID
+// with an R suffix: 35-22R, then 35-22R2 if the replacement is replaced too.
+
+export type PileIdToken = 'Block' | 'Row' | 'Pile' | 'Inverter' | 'Tracker';
+
+export const PILE_ID_TOKENS: PileIdToken[] = ['Block', 'Row', 'Pile', 'Inverter', 'Tracker'];
+export const DEFAULT_PILE_ID_FORMAT = '{Row}-{Pile}';
+export const DEFAULT_BLOCK = 'A';
+export const PILE_ID_FORMAT_PRESETS = [
+  '{Row}-{Pile}',
+  '{Block}-{Row}-{Pile}',
+  '{Pile:4}',
+  'INV{Inverter:2}-T{Tracker:3}-{Pile:2}',
+];
+
+const MAX_PAD = 6;
+
+export const REPLACEMENT_SUFFIX = 'R';
+
+export interface PileIdComponents {
+  block?: string | null;
+  row?: number | null;
+  pile?: number | null;
+  inverter?: number | null;
+  tracker?: number | null;
+}
+
+type Part = string | { token: PileIdToken; width: number };
+
+export interface CompiledPileIdFormat {
+  format: string;
+  parts: Part[];
+  tokens: PileIdToken[];
+  errors: string[];
+  pattern: RegExp | null;
+}
+
+const componentKey = (token: PileIdToken) => token.toLowerCase() as keyof PileIdComponents;
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const cache = new Map<string, CompiledPileIdFormat>();
+
+export function compilePileIdFormat(format: string): CompiledPileIdFormat {
+  const cached = cache.get(format);
+  if (cached) return cached;
+
+  const parts: Part[] = [];
+  const errors: string[] = [];
+  const tokens: PileIdToken[] = [];
+  const tokenPattern = /\{([A-Za-z]+)(?::(\d+))?\}/g;
+  let last = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = tokenPattern.exec(format))) {
+    if (match.index > last) parts.push(format.slice(last, match.index));
+    last = tokenPattern.lastIndex;
+
+    const token = PILE_ID_TOKENS.find(name => name.toLowerCase() === match![1].toLowerCase());
+    const width = match[2] ? parseInt(match[2]) : 0;
+    if (!token) {
+      errors.push(`Unknown token {${match[1]}} (use ${PILE_ID_TOKENS.map(name => `{${name}}`).join(', ')})`);
+      continue;
+    }
+    if (tokens.includes(token)) errors.push(`{${token}} appears more than once`);
+    if (token === 'Block' && width > 0) errors.push('{Block} is not a number and cannot be zero-padded');
+    if (width > MAX_PAD) errors.push(`{${token}} can be padded to at most ${MAX_PAD} digits`);
+    tokens.push(token);
+    parts.push({ token, width });
+  }
+  if (last < format.length) parts.push(format.slice(last));
+
+  if (/[{}]/.test(parts.filter((part): part is string => typeof part === 'string').join(''))) {
+    errors.push('Unmatched { or } in the format');
+  }
+  if (!tokens.includes('Pile')) errors.push('The format must contain {Pile}');
+
+  // Two tokens side by side can only be told apart when the first has a fixed width
+  parts.forEach((part, index) => {
+    const next = parts[index + 1];
+    if (typeof part !== 'string' && next && typeof next !== 'string' && (part.width === 0 || part.token === 'Block')) {
+      errors.push(`{${part.token}} and {${next.token}} need a separator between them`);
+    }
+  });
+
+  let pattern: RegExp | null = null;
+  if (errors.length === 0) {
+    const source = parts.map((part, index) => {
+      if (typeof part === 'string') return escapeRegExp(part);
+      if (part.token === 'Block') return '([A-Za-z0-9]+?)';
+      const next = parts[index + 1];
+      return next && typeof next !== 'string' ? `(\\d{${part.width}})` : '(\\d+)';
+    }).join('');
+    pattern = new RegExp(`^${source}$`, 'i');
+  }
+
+  const compiled = { format, parts, tokens, errors, pattern };
+  cache.set(format, compiled);
+  return compiled;
+}
+
+export function validatePileIdFormat(format: string): string[] {
+  if (!format.trim()) return ['Pile ID format is required'];
+  return compilePileIdFormat(format).errors;
+}
+
+export function formatPileId(format: string, components: PileIdComponents): string {
+  return compilePileIdFormat(format).parts.map(part => {
+    if (typeof part === 'string') return part;
+    const value = components[componentKey(part.token)];
+    if (part.token === 'Block') return value ? String(value) : DEFAULT_BLOCK;
+    return value === null || value === undefined ? '' : String(value).padStart(part.width, '0');
+  }).join('');
+}
+
+export function replacementPileId(pileId: string, sequence = 1): string {
+  return `${pileId}${REPLACEMENT_SUFFIX}${sequence > 1 ? sequence : ''}`;
+}
+
+// The pile a replacement ID was derived from and which replacement it is, or
+// null when the ID is not a replacement
+export function replacedPileId(format: string, pileId: string): { pileId: string; sequence: number } | null {
+  const trimmed = pileId.trim();
+  const pattern = compilePileIdFormat(format).pattern;
+  if (!pattern || pattern.test(trimmed)) return null;
+  const match = new RegExp(`^(.+?)${REPLACEMENT_SUFFIX}(\\d*)$`, 'i').exec(trimmed);
+  if (!match || !pattern.test(match[1])) return null;
+  return { pileId: match[1], sequence: match[2] ? parseInt(match[2], 10) : 1 };
+}
+
+// Split a pile ID back into its components, or null when it doesn't follow
+// the format. A replacement has the components of the pile it replaces.
+// Padding is not required here; see validatePileId.
+export function parsePileId(format: string, pileId: string): Required<PileIdComponents> | null {
+  const compiled = compilePileIdFormat(format);
+  const match = compiled.pattern?.exec(pileId.trim());
+  if (!match) {
+    const replaced = replacedPileId(format, pileId);
+    return replaced ? parsePileId(format, replaced.pileId) : null;
+  }
+
+  const components: Required<PileIdComponents> = { block: null, row: null, pile: null, inverter: null, tracker: null };
+  compiled.tokens.forEach((token, index) => {
+    const raw = match[index + 1];
+    if (token === 'Block') components.block = raw;
+    else components[componentKey(token) as 'row'] = parseInt(raw, 10);
+  });
+  return components;
+}
+
+// Error message for an ID typed by hand, or null when it is valid. IDs must be
+// written exactly as the format would build them.
+export function validatePileId(format: string, pileId: string): string | null {
+  const trimmed = pileId.trim();
+  if (!trimmed) return 'Pile ID is required';
+  const compiled = compilePileIdFormat(format);
+  if (compiled.errors.length > 0) return `The project's pile ID format is invalid: ${compiled.errors[0]}`;
+
+  const replaced = replacedPileId(format, trimmed);
+  if (replaced) {
+    const error = validatePileId(format, replaced.pileId);
+    if (error) return error;
+    const canonical = replacementPileId(replaced.pileId, replaced.sequence);
+    return canonical === trimmed ? null : `Write ${trimmed} as ${canonical}`;
+  }
+
+  const components = parsePileId(format, trimmed);
+  if (!components) return `${trimmed} does not match ${format} (e.g. ${pileIdExample(format)})`;
+  const canonical = formatPileId(format, components);
+  if (canonical !== trimmed) return `Write ${trimmed} as ${canonical}`;
+  return null;
+}
+
+// The IDs that fail validatePileId, with their messages
+export function invalidPileIds(format: string, pileIds: string[]): string[] {
+  return pileIds.map(pileId => validatePileId(format, pileId)).filter((error): error is string => error !== null);
+}
+
+export function pileIdExample(format: string): string {
+  return formatPileId(format, { block: 'N1', row: 35, pile: 22, inverter: 3, tracker: 12 });
+}
@@ -0,0 +1,223 @@
+// Pile plan import. A layout arrives as CSV (pile ID, block, row, pile number,
+// type, easting, northing) or as a GeoJSON FeatureCollection of points, and is
+// checked against the project's pileIdFormat and totalPiles before it is
+// written to the pile registry.
+
+import type { TenantDb } from '@/lib/db';
+import { parseCsvRecords, normaliseHeader } from '@/lib/csv';
+import { parsePileId, validatePileId } from '@/lib/pile-ids';
+import type { PileType, PlannedPile } from '@/lib/piles';
+
+export type LayoutFormat = 'csv' | 'geojson';
+
+export interface LayoutPile extends PlannedPile {
+  easting: number | null;
+  northing: number | null;
+}
+
+// `line` is the CSV line or the 1-based GeoJSON feature number
+export interface LayoutIssue {
+  line: number;
+  message: string;
+}
+
+export interface LayoutReport {
+  piles: LayoutPile[];
+  errors: LayoutIssue[];
+  duplicates: string[];
+  gaps: string[];
+  warnings: string[];
+}
+
+const PILE_TYPES: PileType[] = ['interior', 'exterior', 'motor'];
+
+// Accepted column / property names, after normaliseHeader
+const FIELD_ALIASES: Record<string, string[]> = {
+  pileId: ['pileid', 'id', 'name', 'tag'],
+  block: ['block'],
+  row: ['row', 'rownumber'],
+  pileNumber: ['pilenumber', 'pileno', 'pilenum', 'pile', 'number'],
+  pileType: ['piletype', 'type'],
+  easting: ['easting', 'east', 'x'],
+  northing: ['northing', 'north', 'y'],
+};
+
+type RawPile = Partial<Record<keyof typeof FIELD_ALIASES, string>>;
+
+function pickFields(source: Record<string, unknown>): RawPile {
+  const normalised = Object.fromEntries(Object.entries(source).map(([key, value]) => [normaliseHeader(key), value]));
+  const raw: RawPile = {};
+  for (const [field, aliases] of Object.entries(FIELD_ALIASES)) {
+    const alias = aliases.find(name => normalised[name] !== undefined && normalised[name] !== null && normalised[name] !== '');
+    if (alias) raw[field] = String(normalised[alias]).trim();
+  }
+  return raw;
+}
+
+function readCsv(content: string): { raw: RawPile[]; errors: LayoutIssue[] } {
+  const { headers, records } = parseCsvRecords(content);
+  if (!FIELD_ALIASES.pileId.some(name => headers.includes(name))) {
+    return { raw: [], errors: [{ line: 1, message: 'CSV needs a pile ID column (pile_id, id or name)' }] };
+  }
+  return { raw: records.map(pickFields), errors: [] };
+}
+
+function readGeoJson(content: string): { raw: RawPile[]; errors: LayoutIssue[] } {
+  let collection: any;
+  try {
+    collection = JSON.parse(content);
+  } catch {
+    return { raw: [], errors: [{ line: 1, message: 'File is not valid JSON' }] };
+  }
+  if (collection?.type !== 'FeatureCollection' || !Array.isArray(collection.features)) {
+    return { raw: [], errors: [{ line: 1, message: 'Expected a GeoJSON FeatureCollection' }] };
+  }
+
+  const raw: RawPile[] = [];
+  const errors: LayoutIssue[] = [];
+  collection.features.forEach((feature: any, index: number) => {
+    const fields = pickFields(feature?.properties || {});
+    if (feature?.geometry?.type === 'Point' && Array.isArray(feature.geometry.coordinates)) {
+      const [x, y] = feature.geometry.coordinates;
+      fields.easting = String(x);
+      fields.northing = String(y);
+    } else {
+      errors.push({ line: index + 1, message: `Feature ${fields.pileId || index + 1} is not a Point` });
+    }
+    raw.push(fields);
+  });
+  return { raw, errors };
+}
+
+// Missing numbers in 1..max, as "4-6, 9"
+function missingRanges(numbers: number[]): string | null {
+  const present = new Set(numbers);
+  const max = Math.max(...numbers);
+  const ranges: string[] = [];
+  for (let n = 1; n <= max; n++) {
+    if (present.has(n)) continue;
+    let end = n;
+    while (end + 1 <= max && !present.has(end + 1)) end++;
+    ranges.push(end === n ? String(n) : `${n}-${end}`);
+    n = end;
+  }
+  return ranges.length > 0 ? ranges.join(', ') : null;
+}
+
+function findGaps(piles: LayoutPile[]): string[] {
+  const rowsByBlock = new Map<string, Map<number, number[]>>();
+  for (const pile of piles) {
+    const block = pile.block || '';
+    if (!rowsByBlock.has(block)) rowsByBlock.set(block, new Map());
+    const rows = rowsByBlock.get(block)!;
+    if (!rows.has(pile.row)) rows.set(pile.row, []);
+    rows.get(pile.row)!.push(pile.pileNumber);
+  }
+
+  const gaps: string[] = [];
+  rowsByBlock.forEach((rows, block) => {
+    const prefix = block ? `Block ${block} ` : '';
+    const missingRows = missingRanges(Array.from(rows.keys()));
+    if (missingRows) gaps.push(`${prefix}rows ${missingRows} missing`);
+
+    Array.from(rows.entries())
+      .sort(([a], [b]) => a - b)
+      .forEach(([row, numbers]) => {
+        const missing = missingRanges(numbers);
+        if (missing) gaps.push(`${prefix}row ${row}: piles ${missing} missing`);
+      });
+  });
+  return gaps;
+}
+
+export function validateLayout(
+  format: LayoutFormat,
+  content: string,
+  project: { pileIdFormat: string; totalPiles: number }
+): LayoutReport {
+  const { raw, errors } = format === 'geojson' ? readGeoJson(content) : readCsv(content);
+  // CSV line 1 is the header
+  const lineOf = (index: number) => format === 'csv' ? index + 2 : index + 1;
+
+  const piles: LayoutPile[] = [];
+  const seen = new Set<string>();
+  const duplicates = new Set<string>();
+
+  raw.forEach((fields, index) => {
+    const line = lineOf(index);
+    const fail = (message: string) => errors.push({ line, message });
+
+    if (!fields.pileId) return fail('Missing pile ID');
+    const pileId = fields.pileId;
+
+    const error = validatePileId(project.pileIdFormat, pileId);
+    if (error) return fail(error);
+    const parsed = parsePileId(project.pileIdFormat, pileId)!;
+
+    const row = fields.row !== undefined ? parseInt(fields.row) : parsed.row ?? parsed.tracker ?? 1;
+    const pileNumber = fields.pileNumber !== undefined ? parseInt(fields.pileNumber) : parsed.pile!;
+    const block = fields.block ?? parsed.block;
+
+    if (!Number.isInteger(row) || !Number.isInteger(pileNumber)) return fail(`${pileId}: row and pile number must be whole numbers`);
+    if (parsed.row !== null && parsed.row !== row) return fail(`${pileId}: row ${row} does not match the pile ID`);
+    if (parsed.row !== null && parsed.pile !== pileNumber) return fail(`${pileId}: pile number ${pileNumber} does not match the pile ID`);
+    if (parsed.block !== null && block !== parsed.block) return fail(`${pileId}: block ${block} does not match the pile ID`);
+
+    const pileType = (fields.pileType?.toLowerCase() || 'interior') as PileType;
+    if (!PILE_TYPES.includes(pileType)) return fail(`${pileId}: unknown pile type "${fields.pileType}"`);
+
+    const easting = fields.easting !== undefined ? parseFloat(fields.easting) : null;
+    const northing = fields.northing !== undefined ? parseFloat(fields.northing) : null;
+    if ((easting === null) !== (northing === null) || Number.isNaN(easting) || Number.isNaN(northing)) {
+      return fail(`${pileId}: easting and northing must both be numbers`);
+    }
+
+    if (seen.has(pileId)) {
+      duplicates.add(pileId);
+      return;
+    }
+    seen.add(pileId);
+
+    piles.push({ pileId, block: block || null, row, pileNumber, pileType, easting, northing });
+  });
+
+  const warnings: string[] = [];
+  if (project.totalPiles > 0 && piles.length !== project.totalPiles) {
+    warnings.push(`Layout has ${piles.length} piles but the project plans ${project.totalPiles}`);
+  }
+  const unplaced = piles.filter(pile => pile.easting === null).length;
+  if (unplaced > 0 && unplaced < piles.length) {
+    warnings.push(`${unplaced} piles have no coordinates and won't appear on the site plan`);
+  }
+
+  return { piles, errors, duplicates: Array.from(duplicates), gaps: piles.length > 0 ? findGaps(piles) : [], warnings };
+}
+
+// Write a validated layout: new piles are created, existing ones get their
+// position and type updated. Lifecycle state is never touched.
+export async function applyLayout(db: TenantDb, projectId: string, piles: LayoutPile[]) {
+  const existing = await db.pile.findMany({ where: { projectId } });
+  const byPileId = new Map<string, any>(existing.map((pile: any) => [pile.pileId, pile]));
+
+  const fresh = piles.filter(pile => !byPileId.has(pile.pileId));
+  if (fresh.length > 0) {
+    await db.pile.createMany({ data: fresh.map(pile => ({ ...pile, projectId })) });
+  }
+
+  let updated = 0;
+  for (const pile of piles) {
+    const current = byPileId.get(pile.pileId);
+    if (!current) continue;
+    const changed = (['block', 'row', 'pileNumber', 'pileType', 'easting', 'northing'] as const)
+      .some(field => current[field] !== pile[field]);
+    if (!changed) continue;
+
+    await db.pile.update({
+      where: { id: current.id },
+      data: { block: pile.block, row: pile.row, pileNumber: pile.pileNumber, pileType: pile.pileType, easting: pile.easting, northing: pile.northing }
+    });
+    updated++;
+  }
+
+  return { created: fresh.length, updated, notInLayout: existing.length - (piles.length - fresh.length) };
+}
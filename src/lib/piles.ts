@@ -0,0 +1,247 @@
+// Per-pile as-built registry. Piles are generated from the project's
+// pileIdFormat and move planned → driven → inspected → accepted, or to
+// refused when they can't be driven to design depth. Production entries,
+// inspections and refusals link to piles by their formatted ID. A refused
+// pile can be replaced by a new one driven at an offset from it.
+
+import type { TenantDb } from '@/lib/db';
+import { DEFAULT_BLOCK, DEFAULT_PILE_ID_FORMAT, formatPileId, invalidPileIds, parsePileId, replacedPileId, replacementPileId, validatePileId } from '@/lib/pile-ids';
+
+export type PileStatus = 'planned' | 'driven' | 'inspected' | 'accepted' | 'refused';
+export type PileType = 'interior' | 'exterior' | 'motor';
+export type OffsetDirection = 'N' | 'NE' | 'E' | 'SE' | 'S' | 'SW' | 'W' | 'NW';
+
+export const PILE_STATUSES: PileStatus[] = ['planned', 'driven', 'inspected', 'accepted', 'refused'];
+export const OFFSET_DIRECTIONS: OffsetDirection[] = ['N', 'NE', 'E', 'SE', 'S', 'SW', 'W', 'NW'];
+
+export interface PileLayout {
+  blocks?: string[];        // Used when the format contains {Block}
+  rows: number;             // Rows per block
+  pilesPerRow: number;
+  motorPile?: number | null; // Pile number of the drive motor pile in each row
+}
+
+export interface PlannedPile {
+  pileId: string;
+  block: string | null;
+  row: number;
+  pileNumber: number;
+  pileType: PileType;
+}
+
+// Every pile of a layout. Ends of a row are exterior piles; formats without
+// {Row} or {Tracker} number piles sequentially across the whole site.
+// {Inverter} counts the blocks and {Tracker} the rows.
+export function planPiles(format: string, layout: PileLayout): PlannedPile[] {
+  const usesBlocks = /\{(Block|Inverter)/.test(format);
+  const sequential = !/\{(Row|Tracker)/.test(format);
+  const blocks = usesBlocks ? (layout.blocks?.length ? layout.blocks : [DEFAULT_BLOCK]) : [null];
+
+  const piles: PlannedPile[] = [];
+  let sequence = 0;
+
+  for (const [blockIndex, block] of blocks.entries()) {
+    for (let row = 1; row <= layout.rows; row++) {
+      for (let pile = 1; pile <= layout.pilesPerRow; pile++) {
+        sequence++;
+        const pileType: PileType = pile === layout.motorPile ? 'motor'
+          : pile === 1 || pile === layout.pilesPerRow ? 'exterior'
+          : 'interior';
+
+        piles.push({
+          pileId: formatPileId(format, { block, inverter: blockIndex + 1, row, tracker: row, pile: sequential ? sequence : pile }),
+          block,
+          row,
+          pileNumber: pile,
+          pileType,
+        });
+      }
+    }
+  }
+
+  return piles;
+}
+
+// Pile IDs arrive as a JSON string (as stored on QCInspection.pileIds) or an array
+export function parsePileIds(raw: unknown): string[] {
+  let ids: unknown = raw;
+  if (typeof raw === 'string') {
+    try {
+      ids = JSON.parse(raw);
+    } catch {
+      return [];
+    }
+  }
+  if (!Array.isArray(ids)) return [];
+  return [...new Set(ids.filter((id): id is string => typeof id === 'string' && id.trim() !== '').map(id => id.trim()))];
+}
+
+export async function projectPileIdFormat(db: TenantDb, projectId: string): Promise<string> {
+  const project = await db.project.findFirst({ where: { id: projectId }, select: { pileIdFormat: true } });
+  return project?.pileIdFormat || DEFAULT_PILE_ID_FORMAT;
+}
+
+// Reasons the pile IDs sent with a record don't fit the project's format
+export async function checkPileIds(db: TenantDb, projectId: string, rawPileIds: unknown): Promise<string[]> {
+  const pileIds = parsePileIds(rawPileIds);
+  if (pileIds.length === 0) return [];
+  return invalidPileIds(await projectPileIdFormat(db, projectId), pileIds);
+}
+
+// Block, row and pile number of a refusal, read from its pile ID rather than
+// trusted from the client. {Inverter} and {Tracker} stand in for a missing
+// {Block} and {Row}.
+export async function refusalPileFields(db: TenantDb, projectId: string, pileId: unknown) {
+  const format = await projectPileIdFormat(db, projectId);
+  const error = validatePileId(format, typeof pileId === 'string' ? pileId : '');
+  if (error) return { fields: null, error };
+
+  const parsed = parsePileId(format, pileId as string)!;
+  const block = parsed.block ?? parsed.inverter;
+  const row = parsed.row ?? parsed.tracker;
+  return {
+    fields: {
+      pileId: (pileId as string).trim(),
+      block: block === null ? null : String(block),
+      row: row === null ? null : String(row),
+      pileNumber: String(parsed.pile),
+    },
+    error: null,
+  };
+}
+
+// Add any layout piles the project doesn't have yet
+export async function createPiles(db: TenantDb, projectId: string, planned: PlannedPile[]) {
+  const existing = await db.pile.findMany({ where: { projectId }, select: { pileId: true } });
+  const known = new Set(existing.map((pile: { pileId: string }) => pile.pileId));
+  const fresh = planned.filter(pile => !known.has(pile.pileId));
+
+  if (fresh.length > 0) {
+    await db.pile.createMany({ data: fresh.map(pile => ({ ...pile, projectId })) });
+  }
+  return { created: fresh.length, skipped: planned.length - fresh.length };
+}
+
+// Layout piles in the registry, checked against the project's planned total
+// but never written over it. Replacement piles stand in for refused ones
+// rather than adding to it.
+export async function registryPileCount(db: TenantDb, project: { id: string; totalPiles: number }) {
+  const registryPiles = await db.pile.count({ where: { projectId: project.id, offsetDistance: null } });
+  const warnings = project.totalPiles > 0 && registryPiles !== project.totalPiles
+    ? [`Registry has ${registryPiles} piles but the project plans ${project.totalPiles}`]
+    : [];
+  return { registryPiles, warnings };
+}
+
+// Planned piles listed on a production entry become driven by it
+export async function linkProductionPiles(db: TenantDb, entry: { id: string; projectId: string; date: Date }, rawPileIds: unknown) {
+  const pileIds = parsePileIds(rawPileIds);
+  if (pileIds.length === 0) return 0;
+
+  const { count } = await db.pile.updateMany({
+    where: { projectId: entry.projectId, pileId: { in: pileIds }, status: 'planned' },
+    data: { status: 'driven', drivenAt: entry.date, productionEntryId: entry.id }
+  });
+  return count;
+}
+
+// Link an inspection to the piles it covers and apply its result. A pass
+// accepts the pile; anything else leaves it inspected. Refused piles stay
+// refused whatever the result: only a verified remediation clears a refusal.
+export async function linkInspectionPiles(db: TenantDb, inspection: { id: string; projectId: string; pileIds: string | null; status: string; date: Date }) {
+  const pileIds = parsePileIds(inspection.pileIds);
+  if (pileIds.length === 0) return 0;
+
+  const piles = await db.pile.findMany({
+    where: { projectId: inspection.projectId, pileId: { in: pileIds } },
+    select: { id: true, status: true }
+  });
+  if (piles.length === 0) return 0;
+
+  const status: PileStatus = inspection.status === 'pass' ? 'accepted' : 'inspected';
+  const updatable = piles
+    .filter((pile: { status: string }) => pile.status !== 'refused')
+    .map((pile: { id: string }) => pile.id);
+
+  if (updatable.length > 0) {
+    await db.pile.updateMany({ where: { id: { in: updatable } }, data: { status, inspectedAt: inspection.date } });
+  }
+  await db.qCInspection.update({
+    where: { id: inspection.id },
+    data: { piles: { connect: piles.map((pile: { id: string }) => ({ id: pile.id })) } }
+  });
+  return piles.length;
+}
+
+// Mark the refusal's pile refused and link the two
+export async function linkRefusalPile(db: TenantDb, refusal: { id: string; projectId: string; pileId: string }) {
+  const pile = await db.pile.findFirst({ where: { projectId: refusal.projectId, pileId: refusal.pileId }, select: { id: true } });
+  if (!pile) return null;
+
+  await db.pile.update({ where: { id: pile.id }, data: { status: 'refused' } });
+  await db.pileRefusal.update({ where: { id: refusal.id }, data: { pileRecordId: pile.id } });
+  return pile.id;
+}
+
+// A refusal whose remediation has been verified gives its pile back as
+// accepted - or its replacement, when one was driven beside it. The refused
+// pile itself stays refused then.
+export async function acceptRemediatedPile(db: TenantDb, refusalId: string) {
+  const refusal = await db.pileRefusal.findFirst({ where: { id: refusalId }, select: { status: true, pileRecordId: true, replacementRecordId: true } });
+  const pileId = refusal?.replacementRecordId ?? refusal?.pileRecordId;
+  if (refusal?.status !== 'verified' || !pileId) return;
+  await db.pile.update({ where: { id: pileId }, data: { status: 'accepted' } });
+}
+
+// The next replacement ID no registry pile has taken yet: 35-22R, 35-22R2, ...
+// A refused replacement is replaced under the original pile's ID.
+export async function nextReplacementPileId(db: TenantDb, projectId: string, pileId: string) {
+  const format = await projectPileIdFormat(db, projectId);
+  const replaced = replacedPileId(format, pileId);
+  const base = replaced?.pileId ?? pileId;
+  const taken = await db.pile.findMany({ where: { projectId, pileId: { startsWith: base } }, select: { pileId: true } });
+  const known = new Set(taken.map((pile: { pileId: string }) => pile.pileId));
+
+  let sequence = (replaced?.sequence ?? 0) + 1;
+  while (known.has(replacementPileId(base, sequence))) sequence++;
+  return replacementPileId(base, sequence);
+}
+
+// Easting/northing of a point `distance` mm from (x, y), in the project grid's metres
+function offsetPosition(x: number, y: number, distance: number, direction: OffsetDirection) {
+  const bearing = OFFSET_DIRECTIONS.indexOf(direction) * Math.PI / 4;
+  const metres = distance / 1000;
+  return { easting: x + metres * Math.sin(bearing), northing: y + metres * Math.cos(bearing) };
+}
+
+// Add a replacement for a refused registry pile, driven at an offset from it.
+// It takes the original's place in the layout and type, gets its own status
+// and inspections, and the refusal links to it.
+export async function createReplacementPile(
+  db: TenantDb,
+  refusal: { id: string; pileRecordId: string },
+  replacement: { pileId: string; offsetDistance: number; offsetDirection: OffsetDirection; drivenAt: Date }
+) {
+  const original = await db.pile.findFirstOrThrow({ where: { id: refusal.pileRecordId } });
+  const position = original.easting !== null && original.northing !== null
+    ? offsetPosition(original.easting, original.northing, replacement.offsetDistance, replacement.offsetDirection)
+    : { easting: null, northing: null };
+
+  const pile = await db.pile.create({
+    data: {
+      pileId: replacement.pileId,
+      block: original.block,
+      row: original.row,
+      pileNumber: original.pileNumber,
+      pileType: original.pileType,
+      ...position,
+      offsetDistance: replacement.offsetDistance,
+      offsetDirection: replacement.offsetDirection,
+      status: 'driven',
+      drivenAt: replacement.drivenAt,
+      projectId: original.projectId,
+    },
+  });
+  await db.pileRefusal.update({ where: { id: refusal.id }, data: { replacementRecordId: pile.id } });
+  return pile;
+}
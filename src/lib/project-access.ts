@@ -0,0 +1,28 @@
+// Project-level access: admins, PMs and executives see every project in their
+// company, field roles only see projects they are assigned to
+
+import { TenantAccessError, type TenantDb } from '@/lib/db';
+import { can } from '@/lib/permissions';
+import type { SessionUser } from '@/lib/auth';
+
+// Prisma `where` for the projects a user may see
+export function projectScope(user: SessionUser) {
+  if (can(user.role, 'project:view-all')) return {};
+  return { userAssignments: { some: { userId: user.id } } };
+}
+
+export async function canAccessProject(db: TenantDb, user: SessionUser, projectId: string | null | undefined) {
+  if (!projectId) return false;
+  const count = await db.project.count({
+    where: { id: projectId, ...projectScope(user) }
+  });
+  return count > 0;
+}
+
+// Throws when the user is not allowed to post to the project. Callers map this
+// to a 404 through isNotFoundError.
+export async function assertProjectAccess(db: TenantDb, user: SessionUser, projectId: string | null | undefined) {
+  if (!(await canAccessProject(db, user, projectId))) {
+    throw new TenantAccessError(`Project ${projectId} is not accessible to user ${user.id}`);
+  }
+}
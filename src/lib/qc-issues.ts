@@ -0,0 +1,288 @@
+// QC issue (punch list) workflow. Failed inspections open issues; a PM
+// assigns each one to a crew or subcontractor, the field marks it corrected
+// with photo evidence, and only a passing re-inspection verifies it. A failed
+// re-inspection sends the issue back to open.
+
+import type { TenantDb } from '@/lib/db';
+import { parsePhotos } from '@/lib/photos';
+import { linkInspectionPiles, parsePileIds } from '@/lib/piles';
+import { evaluateInspection, inspectionStatus } from '@/lib/tolerances';
+import { refreshSamplingPlan } from '@/lib/sampling';
+
+export type IssueStatus = 'open' | 'corrected' | 'verified';
+export type AssigneeType = 'crew' | 'subcontractor';
+
+export const ISSUE_STATUSES: IssueStatus[] = ['open', 'corrected', 'verified'];
+export const ASSIGNEE_TYPES: AssigneeType[] = ['crew', 'subcontractor'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Prisma `where` for the punch list filters: projectId, category, pileId,
+// status (comma-separated), assignedToType (crew, subcontractor or none),
+// assignedToId, and minAgeDays / maxAgeDays since the issue was opened
+export function issueFilters(params: URLSearchParams, now = new Date()): { where: Record<string, unknown>; errors: string[] } {
+  const where: Record<string, unknown> = {};
+  const errors: string[] = [];
+
+  const projectId = params.get('projectId');
+  if (projectId) where.projectId = projectId;
+
+  const category = params.get('category');
+  if (category) where.category = category;
+
+  const pileId = params.get('pileId');
+  if (pileId) where.pileId = pileId.trim();
+
+  const statuses = (params.get('status') || '').split(',').map(s => s.trim()).filter(Boolean);
+  const unknownStatus = statuses.find(status => !ISSUE_STATUSES.includes(status as IssueStatus));
+  if (unknownStatus) errors.push(`status must be one of ${ISSUE_STATUSES.join(', ')}`);
+  else if (statuses.length > 0) where.status = { in: statuses };
+
+  const assignedToType = params.get('assignedToType');
+  if (assignedToType === 'none') {
+    where.assignedToId = null;
+  } else if (assignedToType) {
+    if (!ASSIGNEE_TYPES.includes(assignedToType as AssigneeType)) errors.push(`assignedToType must be one of ${ASSIGNEE_TYPES.join(', ')} or none`);
+    where.assignedToType = assignedToType;
+    const assignedToId = params.get('assignedToId');
+    if (assignedToId) where.assignedToId = assignedToId;
+  }
+
+  const openedAt: Record<string, Date> = {};
+  for (const [param, bound] of [['minAgeDays', 'lte'], ['maxAgeDays', 'gte']] as const) {
+    const raw = params.get(param);
+    if (raw === null || raw === '') continue;
+    const days = Number(raw);
+    if (!Number.isFinite(days) || days < 0) {
+      errors.push(`${param} must be a number of days of zero or more`);
+      continue;
+    }
+    openedAt[bound] = new Date(now.getTime() - days * DAY_MS);
+  }
+  if (Object.keys(openedAt).length > 0) where.openedAt = openedAt;
+
+  return { where, errors };
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// What went wrong with one failed measurement, and by how much
+function measurementIssue(item: any, pileId: string | null) {
+  const over = item.measuredValue > item.maxValue;
+  const limitValue = over ? item.maxValue : item.minValue;
+  const deviation = round(item.measuredValue - limitValue);
+  const name = item.measurementType.replace('_', ' ');
+  const limit = item.minValue === -item.maxValue
+    ? `the ±${round(item.maxValue)} ${item.unit} limit`
+    : `the ${over ? 'maximum' : 'minimum'} of ${round(limitValue)} ${item.unit}`;
+  return {
+    pileId,
+    description: `${pileId ? `${pileId}: ` : ''}${name} ${round(item.measuredValue)} ${item.unit} is ${Math.abs(deviation)} ${item.unit} ${over ? 'over' : 'under'} ${limit}`,
+    inspectionItemId: item.id,
+    measurementType: item.measurementType,
+    measuredValue: item.measuredValue,
+    limitValue,
+    deviation,
+    unit: item.unit,
+  };
+}
+
+// Open punch list items for a failed inspection: one per failed measurement
+// when it was measured, otherwise one per pile it covered (or one for the
+// area when it named no piles). A pile that already has an outstanding issue
+// for the same measurement has that issue brought up to date - and reopened
+// if it had been marked corrected - instead of getting a duplicate.
+export async function openInspectionIssues(
+  db: TenantDb,
+  inspection: { id: string; projectId: string; category: string; area: string | null; pileIds: string | null; status: string },
+  options: { description?: string | null; assignedToType?: string | null; assignedToId?: string | null } = {}
+) {
+  if (inspection.status !== 'fail') return 0;
+
+  const items = await db.qCInspectionItem.findMany({ where: { inspectionId: inspection.id } });
+  const pileIds = parsePileIds(inspection.pileIds);
+  const summary = options.description || `${inspection.category} inspection failed${inspection.area ? ` in ${inspection.area}` : ''}`;
+  const drafts = items.length > 0
+    ? items.filter((item: any) => !item.passed).map((item: any) => measurementIssue(item, item.pileId || (pileIds.length === 1 ? pileIds[0] : null)))
+    : pileIds.length > 0
+      ? pileIds.map(pileId => ({ pileId, description: `${pileId}: ${summary}` }))
+      : [{ pileId: null, description: summary }];
+
+  const assignment = ASSIGNEE_TYPES.includes(options.assignedToType as AssigneeType) && options.assignedToId
+    ? { assignedToType: options.assignedToType, assignedToId: options.assignedToId, assignedAt: new Date() }
+    : {};
+
+  for (const draft of drafts) {
+    const fields = { measurementType: null, measuredValue: null, limitValue: null, deviation: null, unit: null, inspectionItemId: null, ...draft };
+    const outstanding = draft.pileId
+      ? await db.qCIssue.findFirst({
+          where: {
+            projectId: inspection.projectId,
+            category: inspection.category,
+            pileId: draft.pileId,
+            measurementType: fields.measurementType,
+            status: { in: ['open', 'corrected'] },
+          }
+        })
+      : null;
+
+    if (outstanding) {
+      await db.qCIssue.update({
+        where: { id: outstanding.id },
+        data: { ...fields, inspectionId: inspection.id, status: 'open', correctedAt: null, correctedById: null },
+      });
+    } else {
+      await db.qCIssue.create({
+        data: { ...fields, ...assignment, status: 'open', category: inspection.category, projectId: inspection.projectId, inspectionId: inspection.id },
+      });
+    }
+  }
+  return drafts.length;
+}
+
+// Crew / subcontractor and user names for a page of issues
+export async function issueNames(db: TenantDb, issues: any[]) {
+  const ids = (type: AssigneeType) => [...new Set(issues.filter(i => i.assignedToType === type).map(i => i.assignedToId))];
+  const userIds = [...new Set(issues.flatMap(i => [i.correctedById, i.verifiedById]).filter(Boolean))] as string[];
+
+  const [crews, subcontractors, users] = await Promise.all([
+    db.crew.findMany({ where: { id: { in: ids('crew') } }, select: { id: true, name: true } }),
+    db.subcontractor.findMany({ where: { id: { in: ids('subcontractor') } }, select: { id: true, name: true } }),
+    db.user.findMany({ where: { id: { in: userIds } }, select: { id: true, name: true } }),
+  ]);
+  const assignees = new Map<string, string>([
+    ...crews.map((c: any) => [`crew:${c.id}`, c.name] as [string, string]),
+    ...subcontractors.map((s: any) => [`subcontractor:${s.id}`, s.name] as [string, string]),
+  ]);
+  const userNames = new Map<string, string>(users.map((u: any) => [u.id, u.name]));
+
+  return issues.map(issue => ({
+    ...issue,
+    assigneeName: issue.assignedToId ? assignees.get(`${issue.assignedToType}:${issue.assignedToId}`) ?? null : null,
+    correctedByName: issue.correctedById ? userNames.get(issue.correctedById) ?? null : null,
+    verifiedByName: issue.verifiedById ? userNames.get(issue.verifiedById) ?? null : null,
+  }));
+}
+
+// Reassign to a crew or subcontractor, or clear the assignment with a null type
+export async function assignIssue(db: TenantDb, issue: any, data: Record<string, any>) {
+  if (issue.status === 'verified') return { issue: null, errors: ['A verified issue cannot be reassigned'] };
+
+  if (!data.assignedToType) {
+    const updated = await db.qCIssue.update({
+      where: { id: issue.id },
+      data: { assignedToType: null, assignedToId: null, assignedAt: null },
+    });
+    return { issue: updated, errors: [] };
+  }
+
+  if (!ASSIGNEE_TYPES.includes(data.assignedToType)) {
+    return { issue: null, errors: [`assignedToType must be one of ${ASSIGNEE_TYPES.join(', ')}`] };
+  }
+  const delegate = data.assignedToType === 'crew' ? db.crew : db.subcontractor;
+  const assignee = data.assignedToId ? await (delegate as any).findFirst({ where: { id: data.assignedToId } }) : null;
+  if (!assignee) return { issue: null, errors: [`No ${data.assignedToType} with that ID`] };
+
+  const updated = await db.qCIssue.update({
+    where: { id: issue.id },
+    data: { assignedToType: data.assignedToType, assignedToId: assignee.id, assignedAt: new Date() },
+  });
+  return { issue: updated, errors: [] };
+}
+
+// Mark an open issue corrected. At least one photo of the fix is required.
+export async function correctIssue(db: TenantDb, issue: any, userId: string, data: Record<string, any>) {
+  const errors: string[] = [];
+  const photos = parsePhotos(data.photos);
+  if (issue.status !== 'open') errors.push(`Only open issues can be marked corrected (this one is ${issue.status})`);
+  if (photos.length === 0) errors.push('Add at least one photo of the correction');
+  if (errors.length > 0) return { issue: null, errors };
+
+  const updated = await db.qCIssue.update({
+    where: { id: issue.id },
+    data: {
+      status: 'corrected',
+      correctedAt: new Date(),
+      correctedById: userId,
+      correctionNotes: data.correctionNotes || null,
+      photos: { create: photos },
+    },
+  });
+  return { issue: updated, errors: [] };
+}
+
+// Re-inspect a corrected issue. The re-inspection is recorded as an
+// inspection of its own over the issue's pile (or the original inspection's
+// piles); a pass verifies the issue and a fail reopens it. Measurements
+// without a pile are taken to be of the issue's pile.
+export async function reinspectIssue(db: TenantDb, issue: any, userId: string, data: Record<string, any>) {
+  const errors: string[] = [];
+  if (issue.status !== 'corrected') errors.push(`Only corrected issues can be re-inspected (this one is ${issue.status})`);
+  if (issue.correctedById === userId) errors.push('The re-inspection must be done by someone other than whoever corrected the issue');
+  if (!['pass', 'fail'].includes(data.status)) errors.push('status must be pass or fail');
+  if (errors.length > 0) return { issue: null, inspection: null, errors };
+
+  const original = issue.inspectionId
+    ? await db.qCInspection.findFirst({ where: { id: issue.inspectionId }, select: { area: true, pileIds: true, pileType: true } })
+    : null;
+  const pileType = original?.pileType || 'interior';
+  const rawItems = Array.isArray(data.items) ? data.items.map((item: any) => ({ ...item, pileId: item?.pileId || issue.pileId })) : [];
+  const evaluation = await evaluateInspection(db, issue.projectId, pileType, rawItems);
+  if (evaluation.errors.length > 0) return { issue: null, inspection: null, errors: evaluation.errors };
+
+  const pileIds = issue.pileId ? [issue.pileId] : parsePileIds(original?.pileIds);
+  const status = inspectionStatus(evaluation.items, data.status);
+  // A measurement issue is only verified by a passing reading of the same measurement
+  const remeasuredOk = evaluation.items.some(item => item.measurementType === issue.measurementType && item.passed
+    && (!issue.pileId || item.pileId === issue.pileId));
+  if (issue.measurementType && status === 'pass' && !remeasuredOk) {
+    return { issue: null, inspection: null, errors: [`Re-measure ${issue.measurementType} to verify this issue`] };
+  }
+
+  const inspection = await db.qCInspection.create({
+    data: {
+      date: new Date(),
+      category: issue.category,
+      scope: 'individual',
+      area: original?.area,
+      pileIds: pileIds.length > 0 ? JSON.stringify(pileIds) : null,
+      pileType,
+      toleranceRevisionId: evaluation.toleranceRevisionId,
+      status,
+      notes: data.notes || `Re-inspection of QC issue: ${issue.description}`,
+      projectId: issue.projectId,
+      userId,
+      syncStatus: 'synced',
+      items: { create: evaluation.items },
+      photos: { create: parsePhotos(data.photos) },
+    },
+  });
+  await linkInspectionPiles(db, inspection);
+  await refreshSamplingPlan(db, inspection.projectId, inspection.category);
+
+  // A failed re-measurement replaces the reading on the issue
+  const remeasured = issue.measurementType
+    ? (await db.qCInspectionItem.findMany({ where: { inspectionId: inspection.id, measurementType: issue.measurementType, passed: false } }))[0]
+    : null;
+
+  const updated = await db.qCIssue.update({
+    where: { id: issue.id },
+    data: status === 'pass'
+      ? { status: 'verified', verifiedAt: new Date(), verifiedById: userId, verificationInspectionId: inspection.id }
+      : {
+          ...(remeasured ? measurementIssue(remeasured, issue.pileId) : {}),
+          status: 'open', correctedAt: null, correctedById: null, verificationInspectionId: inspection.id,
+        },
+  });
+
+  // The pile is only accepted once it has no outstanding issues left
+  if (status === 'pass' && issue.pileId) {
+    const outstanding = await db.qCIssue.count({
+      where: { projectId: issue.projectId, pileId: issue.pileId, status: { in: ['open', 'corrected'] } }
+    });
+    if (outstanding > 0) {
+      await db.pile.updateMany({ where: { projectId: issue.projectId, pileId: issue.pileId, status: 'accepted' }, data: { status: 'inspected' } });
+    }
+  }
+  return { issue: updated, inspection, errors: [] };
+}
@@ -0,0 +1,61 @@
+// Racking system writes. Tolerance profiles are versioned: every change to a
+// profile stores a new RackingSystemRevision, and inspections keep pointing at
+// the revision they were graded against.
+
+import type { TenantDb } from '@/lib/db';
+import { PROFILE_FIELDS, type ProfileField } from '@/lib/tolerances';
+
+export const PROFILE_FIELD_NAMES = Object.values(PROFILE_FIELDS);
+
+export interface RackingSystemDetails {
+  name?: string;
+  manufacturer?: string;
+  version?: string | null;
+  description?: string | null;
+}
+
+type Profiles = Partial<Record<ProfileField, string | null>>;
+
+// `profiles` must already be validated (see validateProfiles)
+export async function createRackingSystem(db: TenantDb, companyId: string, userId: string, details: RackingSystemDetails, profiles: Profiles) {
+  return db.rackingSystem.create({
+    data: {
+      name: details.name!.trim(),
+      manufacturer: details.manufacturer!.trim(),
+      version: details.version || null,
+      description: details.description || null,
+      ...profiles,
+      revision: 1,
+      companyId,
+      revisions: { create: { revision: 1, ...profiles, createdById: userId } },
+    }
+  });
+}
+
+// Profiles left out of `profiles` keep their current value. Details are only
+// changed when given.
+export async function updateRackingSystem(db: TenantDb, userId: string, current: any, details: RackingSystemDetails, profiles: Profiles) {
+  const next = { ...Object.fromEntries(PROFILE_FIELD_NAMES.map(field => [field, current[field] ?? null])), ...profiles };
+  const newRevision = PROFILE_FIELD_NAMES.some(field => next[field] !== (current[field] ?? null));
+  const revision = newRevision ? current.revision + 1 : current.revision;
+
+  if (newRevision) {
+    await db.rackingSystemRevision.create({
+      data: { rackingSystemId: current.id, revision, ...next, createdById: userId }
+    });
+  }
+
+  const rackingSystem = await db.rackingSystem.update({
+    where: { id: current.id },
+    data: {
+      name: details.name?.trim() || undefined,
+      manufacturer: details.manufacturer?.trim() || undefined,
+      version: details.version,
+      description: details.description,
+      ...next,
+      revision,
+    }
+  });
+
+  return { rackingSystem, newRevision };
+}
@@ -0,0 +1,256 @@
+// Refusal remediation workflow. A refusal moves open → remediation_planned →
+// extracted → reinstalled → verified one recorded step at a time, and each
+// step needs its own dated evidence. A planned remediation can't go ahead
+// until an engineer approves it. A pile that can't go back in its own hole is
+// reinstalled as a replacement pile driven at an offset.
+
+import { tenantTransaction, type TenantDb } from '@/lib/db';
+import type { Permission } from '@/lib/permissions';
+import { parsePhotos } from '@/lib/photos';
+import { validatePileId } from '@/lib/pile-ids';
+import {
+  OFFSET_DIRECTIONS, acceptRemediatedPile, createReplacementPile, nextReplacementPileId, projectPileIdFormat, type OffsetDirection,
+} from '@/lib/piles';
+
+export type RefusalStatus = 'open' | 'remediation_planned' | 'extracted' | 'reinstalled' | 'verified';
+export type ApprovalDecision = 'approved' | 'rejected';
+
+export const REFUSAL_STATUSES: RefusalStatus[] = ['open', 'remediation_planned', 'extracted', 'reinstalled', 'verified'];
+export const APPROVAL_DECISIONS: ApprovalDecision[] = ['approved', 'rejected'];
+
+export interface RefusalTransitionRule {
+  from: RefusalStatus;
+  to: RefusalStatus;
+  label: string;
+  permission: Permission;
+  method?: boolean;       // Needs the remediation method
+  photos?: boolean;       // Needs at least one photo
+  redriveDepth?: boolean; // Needs the depth reached on re-drive
+  notes?: boolean;        // Needs a reason
+  offset?: boolean;       // May be a replacement pile driven beside the original
+}
+
+export const REFUSAL_TRANSITIONS: RefusalTransitionRule[] = [
+  { from: 'open', to: 'remediation_planned', label: 'Plan Remediation', permission: 'refusal:approve', method: true },
+  { from: 'remediation_planned', to: 'open', label: 'Withdraw Plan', permission: 'refusal:approve', notes: true },
+  { from: 'remediation_planned', to: 'extracted', label: 'Extracted', permission: 'refusal:update', photos: true },
+  { from: 'extracted', to: 'reinstalled', label: 'Reinstalled', permission: 'refusal:update', photos: true, redriveDepth: true, offset: true },
+  { from: 'reinstalled', to: 'extracted', label: 'Pulled Again', permission: 'refusal:update', photos: true, notes: true },
+  { from: 'reinstalled', to: 'verified', label: 'Verified OK', permission: 'refusal:approve', photos: true },
+];
+
+export function refusalTransition(from: string, to: unknown): RefusalTransitionRule | null {
+  return REFUSAL_TRANSITIONS.find(rule => rule.from === from && rule.to === to) ?? null;
+}
+
+export function nextTransitions(status: string): RefusalTransitionRule[] {
+  return REFUSAL_TRANSITIONS.filter(rule => rule.from === status);
+}
+
+const day = (date: Date | string | number) => new Date(date).toISOString().slice(0, 10);
+const blank = (value: unknown) => value === null || value === undefined || value === '';
+
+// A reinstallation is at an offset when it says how far from the original
+const offsetRequested = (rule: RefusalTransitionRule, data: Record<string, any>) => !!rule.offset && !blank(data.offsetDistance);
+
+// The engineer's latest decision since the refusal last entered
+// remediation_planned, or null when there isn't one yet
+async function currentApproval(db: TenantDb, refusalId: string) {
+  const planned = await db.refusalTransition.findFirst({
+    where: { refusalId, toStatus: 'remediation_planned' },
+    orderBy: { createdAt: 'desc' },
+  });
+  return db.refusalApproval.findFirst({
+    where: { refusalId, ...(planned ? { createdAt: { gte: planned.createdAt } } : {}) },
+    orderBy: { createdAt: 'desc' },
+  });
+}
+
+// Check a requested step against the workflow. `data.status` is the status to
+// move to and `data.remediationDate` the day the work was done.
+export async function checkRefusalTransition(db: TenantDb, refusal: any, data: Record<string, any>) {
+  const errors: string[] = [];
+  const rule = refusalTransition(refusal.status, data.status);
+  if (!rule) {
+    const next = nextTransitions(refusal.status).map(step => step.to);
+    return {
+      rule: null,
+      errors: [`A ${refusal.status} refusal can't move to ${data.status}${next.length > 0 ? ` (next: ${next.join(' or ')})` : ''}`],
+    };
+  }
+
+  const effectiveDate = data.remediationDate ? new Date(data.remediationDate) : null;
+  const latest = await db.refusalTransition.findFirst({ where: { refusalId: refusal.id }, orderBy: { createdAt: 'desc' } });
+  if (!effectiveDate || isNaN(effectiveDate.getTime())) {
+    errors.push('remediationDate is required - the date the work was done');
+  } else if (day(effectiveDate) > day(Date.now() + 24 * 60 * 60 * 1000)) {
+    // Field dates are local calendar days, which can run a day ahead of the server's
+    errors.push('remediationDate cannot be in the future');
+  } else if (day(effectiveDate) < day(refusal.dateDiscovered)) {
+    errors.push('remediationDate cannot be before the refusal was found');
+  } else if (latest && day(effectiveDate) < day(latest.effectiveDate)) {
+    errors.push(`remediationDate cannot be before the previous step (${day(latest.effectiveDate)})`);
+  }
+
+  if (rule.method && !String(data.remediationMethod ?? '').trim()) errors.push('remediationMethod is required');
+  if (rule.notes && !String(data.notes ?? '').trim()) errors.push('notes are required to explain this step');
+  if (rule.photos && parsePhotos(data.photos).length === 0) errors.push('Add at least one photo of the work');
+
+  if (rule.redriveDepth) {
+    const depth = Number(data.redriveDepth);
+    if (data.redriveDepth === null || data.redriveDepth === undefined || data.redriveDepth === '' || !Number.isFinite(depth) || depth <= 0) {
+      errors.push('redriveDepth is required - the depth reached on re-drive, in mm');
+    }
+  }
+
+  if (offsetRequested(rule, data)) {
+    const distance = Number(data.offsetDistance);
+    if (!Number.isFinite(distance) || distance <= 0) errors.push('offsetDistance must be more than 0 mm');
+    if (!OFFSET_DIRECTIONS.includes(data.offsetDirection)) errors.push(`offsetDirection must be one of ${OFFSET_DIRECTIONS.join(', ')}`);
+    if (!refusal.pileRecordId) {
+      errors.push(`${refusal.pileId} is not in the pile registry, so no replacement pile can be added for it`);
+    } else if (!blank(data.replacementPileId)) {
+      const replacementPileId = String(data.replacementPileId).trim();
+      const error = validatePileId(await projectPileIdFormat(db, refusal.projectId), replacementPileId);
+      if (error) errors.push(`replacementPileId: ${error}`);
+      else if (await db.pile.findFirst({ where: { projectId: refusal.projectId, pileId: replacementPileId }, select: { id: true } })) {
+        errors.push(`${replacementPileId} is already in the pile registry`);
+      }
+    }
+  }
+
+  if (rule.from === 'remediation_planned' && rule.to === 'extracted') {
+    const approval = await currentApproval(db, refusal.id);
+    if (!approval) errors.push('An engineer must approve the remediation plan before the pile is extracted');
+    else if (approval.decision !== 'approved') errors.push(`The engineer rejected the remediation plan${approval.notes ? `: ${approval.notes}` : ''}`);
+  }
+
+  if (rule.to === 'verified' && (refusal.redriveDepth ?? 0) < refusal.targetDepth) {
+    errors.push(`The pile was re-driven to ${refusal.redriveDepth ?? 0}mm, short of the ${refusal.targetDepth}mm design depth`);
+  }
+
+  return { rule, errors };
+}
+
+// Apply a step at the refusal's current revision and record it in the
+// history. `conflict` is set when someone else changed the refusal first.
+// The step, its evidence and the pile changes are written together or not at all.
+export function transitionRefusal(companyId: string, refusal: any, userId: string, data: Record<string, any>) {
+  return tenantTransaction(companyId, db => applyRefusalTransition(db, refusal, userId, data));
+}
+
+async function applyRefusalTransition(db: TenantDb, refusal: any, userId: string, data: Record<string, any>) {
+  const { rule, errors } = await checkRefusalTransition(db, refusal, data);
+  if (!rule || errors.length > 0) return { refusal: null, conflict: false, errors };
+
+  const effectiveDate = new Date(data.remediationDate);
+  const remediationMethod = rule.method ? String(data.remediationMethod).trim() : null;
+  const redriveDepth = rule.redriveDepth ? Number(data.redriveDepth) : null;
+  const offset = offsetRequested(rule, data)
+    ? { offsetDistance: Number(data.offsetDistance), offsetDirection: data.offsetDirection as OffsetDirection }
+    : null;
+
+  const { count } = await db.pileRefusal.updateMany({
+    where: { id: refusal.id, revision: refusal.revision },
+    data: {
+      revision: { increment: 1 },
+      status: rule.to,
+      remediationDate: effectiveDate,
+      ...(remediationMethod ? { remediationMethod } : {}),
+      ...(rule.redriveDepth || rule.to === 'extracted' ? { redriveDepth } : {}),
+      // A withdrawn plan needs a new method and a fresh approval
+      ...(rule.to === 'open' ? { remediationMethod: null, remediationDate: null, engineerApproval: null } : {}),
+    },
+  });
+  if (count === 0) return { refusal: null, conflict: true, errors: ['Refusal was changed by someone else'] };
+
+  // Each offset reinstallation is a new pile. Otherwise the current
+  // replacement, if there is one, is the pile being pulled or re-driven.
+  let replacementPileId: string | null = null;
+  if (offset) {
+    const pileId = String(data.replacementPileId ?? '').trim() || await nextReplacementPileId(db, refusal.projectId, refusal.pileId);
+    const replacement = await createReplacementPile(db, refusal, { pileId, ...offset, drivenAt: effectiveDate });
+    replacementPileId = replacement.pileId;
+  } else if (refusal.replacementRecordId && (rule.to === 'reinstalled' || (rule.from === 'reinstalled' && rule.to === 'extracted'))) {
+    await db.pile.update({
+      where: { id: refusal.replacementRecordId },
+      data: rule.to === 'reinstalled' ? { status: 'driven', drivenAt: effectiveDate } : { status: 'refused' },
+    });
+  }
+
+  const transition = await db.refusalTransition.create({
+    data: {
+      fromStatus: rule.from,
+      toStatus: rule.to,
+      effectiveDate,
+      notes: data.notes || null,
+      remediationMethod,
+      redriveDepth,
+      replacementPileId,
+      offsetDistance: offset?.offsetDistance ?? null,
+      offsetDirection: offset?.offsetDirection ?? null,
+      refusalId: refusal.id,
+      userId,
+    },
+  });
+  const photos = parsePhotos(data.photos);
+  if (photos.length > 0) {
+    await db.refusalPhoto.createMany({
+      data: photos.map(photo => ({ ...photo, refusalId: refusal.id, transitionId: transition.id })),
+    });
+  }
+  await acceptRemediatedPile(db, refusal.id);
+
+  return { refusal: await db.pileRefusal.findFirst({ where: { id: refusal.id } }), conflict: false, errors: [] };
+}
+
+// Record an engineer's decision on the current remediation plan. Approving
+// may amend the method; it becomes the refusal's method of record.
+export async function approveRemediation(companyId: string, refusal: any, engineer: { id: string; name: string }, data: Record<string, any>) {
+  const errors: string[] = [];
+  if (refusal.status !== 'remediation_planned') errors.push(`Only planned remediations can be approved (this refusal is ${refusal.status})`);
+  if (!APPROVAL_DECISIONS.includes(data.decision)) errors.push(`decision must be one of ${APPROVAL_DECISIONS.join(', ')}`);
+  if (data.decision === 'rejected' && !String(data.notes ?? '').trim()) errors.push('notes are required when rejecting a plan');
+  if (errors.length > 0) return { approval: null, refusal: null, errors };
+
+  const remediationMethod = String(data.remediationMethod ?? '').trim() || refusal.remediationMethod;
+  const reference = String(data.reference ?? '').trim() || null;
+  return tenantTransaction(companyId, async db => {
+    const approval = await db.refusalApproval.create({
+      data: {
+        decision: data.decision,
+        remediationMethod,
+        reference,
+        notes: data.notes || null,
+        refusalId: refusal.id,
+        engineerId: engineer.id,
+      },
+    });
+
+    const updated = await db.pileRefusal.update({
+      where: { id: refusal.id },
+      data: {
+        revision: { increment: 1 },
+        remediationMethod,
+        engineerApproval: data.decision === 'approved' ? [engineer.name, reference].filter(Boolean).join(' - ') : null,
+      },
+    });
+    return { approval, refusal: updated, errors: [] as string[] };
+  });
+}
+
+// Steps and engineer decisions, oldest first, with the names of who made them
+export async function refusalHistory(db: TenantDb, refusalId: string) {
+  const [transitions, approvals] = await Promise.all([
+    db.refusalTransition.findMany({ where: { refusalId }, orderBy: { createdAt: 'asc' }, include: { photos: true } }),
+    db.refusalApproval.findMany({ where: { refusalId }, orderBy: { createdAt: 'asc' } }),
+  ]);
+  const userIds = [...new Set([...transitions.map((t: any) => t.userId), ...approvals.map((a: any) => a.engineerId)])] as string[];
+  const users = await db.user.findMany({ where: { id: { in: userIds } }, select: { id: true, name: true } });
+  const userNames = new Map<string, string>(users.map((u: any) => [u.id, u.name]));
+
+  return {
+    transitions: transitions.map((t: any) => ({ ...t, userName: userNames.get(t.userId) ?? null })),
+    approvals: approvals.map((a: any) => ({ ...a, engineerName: userNames.get(a.engineerId) ?? null })),
+  };
+}
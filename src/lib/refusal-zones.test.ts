@@ -0,0 +1,136 @@
+/// <reference types="bun-types" />
+
+import { describe, expect, test } from 'bun:test'
+import { refusalZones, riskBand, type ZonePile, type ZoneRefusal } from './refusal-zones'
+
+const pileAt = (row: number, pileNumber: number, status: string, block: string | null = null, spacing?: number): ZonePile => ({
+  pileId: `${block ? `${block}-` : ''}${row}-${pileNumber}`,
+  block,
+  row,
+  pileNumber,
+  x: spacing ? pileNumber * spacing : null,
+  y: spacing ? row * spacing : null,
+  status,
+})
+
+const refusalOf = (pileId: string, achievedDepth = 2000, refusalReason = 'rock'): ZoneRefusal => ({
+  pileId, targetDepth: 3000, achievedDepth, refusalReason,
+})
+
+// Rows 1-5 driven and rows 6-20 planned, ten piles a row. A 2x2 patch of
+// refusals at rows 2-3, piles 2-3, and one on its own at row 5, pile 9.
+const PATCH = ['2-2', '2-3', '3-2', '3-3']
+function site(spacing?: number) {
+  const refused = new Set([...PATCH, '5-9'])
+  const piles: ZonePile[] = []
+  for (let row = 1; row <= 20; row++) {
+    for (let pile = 1; pile <= 10; pile++) {
+      const status = row > 5 ? 'planned' : refused.has(`${row}-${pile}`) ? 'refused' : 'driven'
+      piles.push(pileAt(row, pile, status, null, spacing))
+    }
+  }
+  const refusals = [
+    refusalOf('2-2', 2500), refusalOf('2-3', 2000), refusalOf('3-2', 1500, 'obstruction'), refusalOf('3-3', 2000), refusalOf('5-9'),
+  ]
+  return { piles, refusals }
+}
+
+const noLocation = () => null
+
+describe('refusal clusters', () => {
+  test('groups neighbouring refusals and leaves isolated ones out', () => {
+    const { piles, refusals } = site()
+    const zones = refusalZones(piles, refusals, noLocation)
+    expect(zones.mode).toBe('grid')
+    expect(zones.clusters).toEqual([{
+      id: 1,
+      pileIds: PATCH,
+      blocks: [],
+      rows: [2, 3],
+      piles: [2, 3],
+      avgShortfall: 1000,
+      maxShortfall: 1500,
+      reason: 'rock',
+    }])
+  })
+
+  test('clusters surveyed piles by their spacing', () => {
+    const { piles, refusals } = site(5)
+    const zones = refusalZones(piles, refusals, noLocation)
+    expect(zones.mode).toBe('coordinates')
+    expect(zones.clusters.map(cluster => cluster.pileIds)).toEqual([PATCH])
+  })
+
+  test('places refusals missing from the registry by their pile ID in grid mode only', () => {
+    const refusals = ['1-1', '1-2', '2-1'].map(pileId => refusalOf(pileId))
+    const locate = (pileId: string) => {
+      const [row, pileNumber] = pileId.split('-').map(Number)
+      return { block: null, row, pileNumber }
+    }
+    expect(refusalZones([], refusals, locate).clusters[0].pileIds).toEqual(['1-1', '1-2', '2-1'])
+
+    const surveyed = [pileAt(9, 9, 'driven', null, 5)]
+    expect(refusalZones(surveyed, refusals, locate).clusters).toEqual([])
+  })
+
+  test('grid positions in different blocks are not neighbours', () => {
+    const piles = [pileAt(1, 1, 'refused', 'A'), pileAt(1, 2, 'refused', 'A'), pileAt(1, 3, 'refused', 'B')]
+    expect(refusalZones(piles, piles.map(pile => refusalOf(pile.pileId)), noLocation).clusters).toEqual([])
+  })
+})
+
+describe('refusal risk', () => {
+  test('the base rate is the share of driven piles that refused', () => {
+    const { piles, refusals } = site()
+    expect(refusalZones(piles, refusals, noLocation).baseRate).toBeCloseTo(5 / 50)
+  })
+
+  test('undriven piles are weighted by the distance to driven ones', () => {
+    // Refused one pile away, driven fine two piles away, base rate 1/2:
+    // (1/2 · 1/36 + 1) / (1/36 + 1 + 1/4)
+    const piles = [pileAt(1, 1, 'refused'), pileAt(1, 2, 'planned'), pileAt(1, 4, 'driven')]
+    const zones = refusalZones(piles, [refusalOf('1-1')], noLocation)
+    expect(zones.pileRisk.get('1-2')).toBeCloseTo(73 / 92)
+  })
+
+  test('piles with no driven neighbours take the base rate', () => {
+    const { piles, refusals } = site()
+    const zones = refusalZones(piles, refusals, noLocation)
+    expect(zones.pileRisk.get('20-1')).toBeCloseTo(zones.baseRate)
+    expect(zones.pileRisk.get('6-9')!).toBeGreaterThan(zones.pileRisk.get('6-5')!)
+  })
+
+  test('rows are ranked by their riskiest undriven pile', () => {
+    const { piles, refusals } = site()
+    const { rows, pileRisk, baseRate } = refusalZones(piles, refusals, noLocation)
+    expect(rows).toHaveLength(15)
+    rows.slice(1).forEach((row, index) => expect(row.maxRisk).toBeLessThanOrEqual(rows[index].maxRisk))
+
+    for (const row of rows) {
+      const risks = row.undrivenPileIds.map(pileId => pileRisk.get(pileId)!)
+      expect(risks).toHaveLength(10)
+      expect(row.maxRisk).toBe(Math.max(...risks))
+      expect(row.expectedRefusals).toBeCloseTo(risks.reduce((sum, risk) => sum + risk, 0))
+      expect(row.risk).toBeCloseTo(row.expectedRefusals / 10)
+      expect(row.band).toBe(riskBand(row.maxRisk, baseRate))
+    }
+    expect(rows.at(-1)!.band).toBe('low')
+  })
+
+  test('a site with no refusals has no risk', () => {
+    const piles = [pileAt(1, 1, 'driven'), pileAt(1, 2, 'planned')]
+    const zones = refusalZones(piles, [], noLocation)
+    expect(zones.baseRate).toBe(0)
+    expect(zones.pileRisk.get('1-2')).toBe(0)
+    expect(zones.rows[0].band).toBe('low')
+  })
+})
+
+describe('riskBand', () => {
+  test('bands risk against the base rate', () => {
+    expect(riskBand(0.75, 0.25)).toBe('high')
+    expect(riskBand(0.375, 0.25)).toBe('elevated')
+    expect(riskBand(0.37, 0.25)).toBe('low')
+    expect(riskBand(0.5, 0)).toBe('low')
+  })
+})
@@ -0,0 +1,258 @@
+// Where refusals happen. Refused piles are grouped into spatial clusters
+// (DBSCAN over surveyed coordinates, or over the row/pile grid when the
+// project has none), and the refusal rate of driven piles is interpolated
+// (inverse distance weighting) onto undriven piles to predict which rows are
+// likely to refuse.
+
+import { DEFAULT_BLOCK } from '@/lib/pile-ids';
+
+export interface ZonePile {
+  pileId: string;
+  block: string | null;
+  row: number;
+  pileNumber: number;
+  x: number | null; // easting
+  y: number | null; // northing
+  status: string;   // Registry status: planned, driven, inspected, accepted, refused
+}
+
+export interface ZoneRefusal {
+  pileId: string;
+  targetDepth: number;
+  achievedDepth: number;
+  refusalReason: string;
+}
+
+export interface RefusalCluster {
+  id: number;
+  pileIds: string[];
+  blocks: string[];
+  rows: [number, number];
+  piles: [number, number];
+  avgShortfall: number; // mm, targetDepth - achievedDepth
+  maxShortfall: number;
+  reason: string;       // Most common refusal reason
+}
+
+export type RiskBand = 'high' | 'elevated' | 'low';
+
+export interface RowRisk {
+  block: string | null;
+  row: number;
+  undrivenPileIds: string[];
+  risk: number;             // Mean predicted refusal probability of the row's undriven piles
+  maxRisk: number;
+  expectedRefusals: number; // Sum of the probabilities
+  band: RiskBand;           // From the riskiest pile, so a hot spot at one end of a long row still shows
+}
+
+export interface RefusalZones {
+  mode: 'coordinates' | 'grid';
+  clusters: RefusalCluster[];
+  baseRate: number;                  // Share of driven piles that refused
+  pileRisk: Map<string, number>;     // Undriven pile ID → predicted refusal probability
+  rows: RowRisk[];                   // Rows with undriven piles, riskiest first
+}
+
+// Neighbour distance and interpolation radius, in pile spacings
+const CLUSTER_RADIUS = 2.5;
+const RISK_RADIUS = 6;
+const MIN_CLUSTER_SIZE = 3;
+
+// Risk bands relative to the project's own refusal rate
+export const RISK_BAND_RATIOS: Record<Exclude<RiskBand, 'low'>, number> = { high: 3, elevated: 1.5 };
+
+interface Point {
+  pileId: string;
+  block: string | null;
+  row: number;
+  pileNumber: number;
+  x: number;
+  y: number;
+  // Grid positions of different blocks overlap, so grid mode never looks across blocks
+  group: string;
+}
+
+export function riskBand(risk: number, baseRate: number): RiskBand {
+  if (baseRate <= 0 || risk <= 0) return 'low';
+  if (risk >= baseRate * RISK_BAND_RATIOS.high) return 'high';
+  if (risk >= baseRate * RISK_BAND_RATIOS.elevated) return 'elevated';
+  return 'low';
+}
+
+// Buckets points into square cells so neighbour searches only visit nearby cells
+function spatialIndex(points: Point[], cellSize: number) {
+  const cells = new Map<string, Point[]>();
+  const key = (group: string, cx: number, cy: number) => `${group}|${cx}|${cy}`;
+  for (const point of points) {
+    const k = key(point.group, Math.floor(point.x / cellSize), Math.floor(point.y / cellSize));
+    if (!cells.has(k)) cells.set(k, []);
+    cells.get(k)!.push(point);
+  }
+
+  return (center: Point, radius: number, visit: (point: Point, distance: number) => void) => {
+    const reach = Math.ceil(radius / cellSize);
+    const cx = Math.floor(center.x / cellSize);
+    const cy = Math.floor(center.y / cellSize);
+    for (let dx = -reach; dx <= reach; dx++) {
+      for (let dy = -reach; dy <= reach; dy++) {
+        for (const point of cells.get(key(center.group, cx + dx, cy + dy)) ?? []) {
+          const distance = Math.hypot(point.x - center.x, point.y - center.y);
+          if (distance <= radius) visit(point, distance);
+        }
+      }
+    }
+  };
+}
+
+// Typical distance between neighbouring piles
+function pileSpacing(points: Point[]) {
+  let minX = Infinity, maxX = -Infinity, minY = Infinity, maxY = -Infinity;
+  for (const p of points) {
+    minX = Math.min(minX, p.x); maxX = Math.max(maxX, p.x);
+    minY = Math.min(minY, p.y); maxY = Math.max(maxY, p.y);
+  }
+  const area = Math.max(maxX - minX, 1) * Math.max(maxY - minY, 1);
+  return Math.sqrt(area / Math.max(points.length, 1));
+}
+
+function clusterRefusals(points: Point[], refusals: Map<string, ZoneRefusal[]>, radius: number): RefusalCluster[] {
+  const near = spatialIndex(points, radius);
+  const labels = new Map<string, number>(); // pileId → cluster, or -1 for noise
+  const clusters: Point[][] = [];
+
+  for (const point of points) {
+    if (labels.has(point.pileId)) continue;
+    const neighbours: Point[] = [];
+    near(point, radius, other => neighbours.push(other));
+    if (neighbours.length < MIN_CLUSTER_SIZE) {
+      labels.set(point.pileId, -1);
+      continue;
+    }
+
+    const id = clusters.length;
+    const members: Point[] = [];
+    clusters.push(members);
+    const queue = [...neighbours];
+    while (queue.length > 0) {
+      const next = queue.pop()!;
+      const label = labels.get(next.pileId);
+      if (label !== undefined && label !== -1) continue;
+      labels.set(next.pileId, id);
+      members.push(next);
+      if (label === -1) continue; // Border point - reachable, but doesn't extend the cluster
+
+      const reach: Point[] = [];
+      near(next, radius, other => reach.push(other));
+      if (reach.length >= MIN_CLUSTER_SIZE) queue.push(...reach.filter(other => labels.get(other.pileId) === undefined || labels.get(other.pileId) === -1));
+    }
+  }
+
+  return clusters
+    .map(members => {
+      const memberRefusals = members.flatMap(point => refusals.get(point.pileId) ?? []);
+      const shortfalls = memberRefusals.map(refusal => refusal.targetDepth - refusal.achievedDepth);
+      const reasons = new Map<string, number>();
+      memberRefusals.forEach(refusal => reasons.set(refusal.refusalReason, (reasons.get(refusal.refusalReason) ?? 0) + 1));
+      return {
+        id: 0,
+        pileIds: members.map(point => point.pileId).sort((a, b) => a.localeCompare(b, undefined, { numeric: true })),
+        blocks: [...new Set(members.map(point => point.block).filter((block): block is string => !!block))].sort(),
+        rows: [Math.min(...members.map(point => point.row)), Math.max(...members.map(point => point.row))] as [number, number],
+        piles: [Math.min(...members.map(point => point.pileNumber)), Math.max(...members.map(point => point.pileNumber))] as [number, number],
+        avgShortfall: Math.round(shortfalls.reduce((sum, value) => sum + value, 0) / Math.max(shortfalls.length, 1)),
+        maxShortfall: Math.max(...shortfalls, 0),
+        reason: [...reasons.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] ?? 'other',
+      };
+    })
+    .sort((a, b) => b.pileIds.length - a.pileIds.length || b.avgShortfall - a.avgShortfall)
+    .map((cluster, index) => ({ ...cluster, id: index + 1 }));
+}
+
+// Clusters and risk for a project. `piles` is the registry (empty when the
+// project has none); refused piles missing from it are placed by `locate`,
+// usually the project's pile ID format.
+export function refusalZones(
+  piles: ZonePile[],
+  refusals: ZoneRefusal[],
+  locate: (pileId: string) => { block: string | null; row: number; pileNumber: number } | null
+): RefusalZones {
+  const byPile = new Map<string, ZoneRefusal[]>();
+  refusals.forEach(refusal => {
+    if (!byPile.has(refusal.pileId)) byPile.set(refusal.pileId, []);
+    byPile.get(refusal.pileId)!.push(refusal);
+  });
+
+  const mode = piles.length > 0 && piles.every(pile => pile.x != null && pile.y != null) ? 'coordinates' : 'grid';
+  const toPoint = (pile: { pileId: string; block: string | null; row: number; pileNumber: number; x?: number | null; y?: number | null }): Point => ({
+    pileId: pile.pileId,
+    block: pile.block,
+    row: pile.row,
+    pileNumber: pile.pileNumber,
+    x: mode === 'coordinates' ? pile.x! : pile.pileNumber,
+    y: mode === 'coordinates' ? pile.y! : pile.row,
+    group: mode === 'coordinates' ? '' : pile.block ?? DEFAULT_BLOCK,
+  });
+
+  const registry = new Map(piles.map(pile => [pile.pileId, pile]));
+  const points = piles.map(toPoint);
+  const spacing = mode === 'coordinates' ? pileSpacing(points) : 1;
+
+  const refusedPoints: Point[] = [];
+  byPile.forEach((_, pileId) => {
+    const pile = registry.get(pileId);
+    if (pile) {
+      if (mode === 'grid' || (pile.x != null && pile.y != null)) refusedPoints.push(toPoint(pile));
+      return;
+    }
+    if (mode === 'coordinates') return; // No surveyed position to place it at
+    const located = locate(pileId);
+    if (located) refusedPoints.push(toPoint({ pileId, ...located }));
+  });
+  const clusters = clusterRefusals(refusedPoints, byPile, CLUSTER_RADIUS * spacing);
+
+  // Driven piles are the observations: 1 where the pile refused, 0 otherwise
+  const observed = points.filter(point => registry.get(point.pileId)!.status !== 'planned');
+  const undriven = points.filter(point => registry.get(point.pileId)!.status === 'planned');
+  const refused = (point: Point) => byPile.has(point.pileId) || registry.get(point.pileId)!.status === 'refused';
+  const baseRate = observed.length > 0 ? observed.filter(refused).length / observed.length : 0;
+
+  // The project's rate counts as one observation at the edge of the radius,
+  // so piles with few driven neighbours lean towards it
+  const radius = RISK_RADIUS * spacing;
+  const priorWeight = 1 / (radius * radius);
+  const near = spatialIndex(observed, radius);
+  const pileRisk = new Map<string, number>();
+  for (const point of undriven) {
+    let weighted = baseRate * priorWeight;
+    let total = priorWeight;
+    near(point, radius, (other, distance) => {
+      const weight = 1 / Math.max(distance * distance, spacing * spacing / 4);
+      weighted += weight * (refused(other) ? 1 : 0);
+      total += weight;
+    });
+    pileRisk.set(point.pileId, weighted / total);
+  }
+
+  const rowMap = new Map<string, RowRisk>();
+  for (const point of undriven) {
+    const key = `${point.block ?? ''}|${point.row}`;
+    const risk = pileRisk.get(point.pileId)!;
+    const row = rowMap.get(key);
+    if (!row) {
+      rowMap.set(key, { block: point.block, row: point.row, undrivenPileIds: [point.pileId], risk, maxRisk: risk, expectedRefusals: 0, band: 'low' });
+    } else {
+      row.risk += risk;
+      row.maxRisk = Math.max(row.maxRisk, risk);
+      row.undrivenPileIds.push(point.pileId);
+    }
+  }
+  const rows = Array.from(rowMap.values())
+    .map(row => {
+      const risk = row.risk / row.undrivenPileIds.length;
+      return { ...row, risk, expectedRefusals: row.risk, band: riskBand(row.maxRisk, baseRate) };
+    })
+    .sort((a, b) => b.maxRisk - a.maxRisk || b.expectedRefusals - a.expectedRefusals);
+
+  return { mode, clusters, baseRate, pileRisk, rows };
+}
@@ -0,0 +1,95 @@
+/// <reference types="bun-types" />
+
+import { describe, expect, test } from 'bun:test'
+import { ansiLotPlan, lotPlan, type InspectionLevel, type SamplingPlanSettings } from './sampling'
+
+// Z1.4 Table I. Each AQL is picked so its Table II-A column has an acceptance
+// number on the code letter's own row, leaving the letter unmoved by arrows.
+const CODE_LETTERS: [number, InspectionLevel, number, string][] = [
+  [8, 'II', 6.5, 'A'],
+  [9, 'II', 4.0, 'B'],
+  [15, 'I', 6.5, 'A'],
+  [16, 'III', 1.5, 'D'],
+  [50, 'II', 1.5, 'D'],
+  [51, 'I', 2.5, 'C'],
+  [150, 'II', 0.65, 'F'],
+  [280, 'III', 1.0, 'H'],
+  [500, 'II', 1.0, 'H'],
+  [1200, 'II', 0.65, 'J'],
+  [3200, 'I', 1.0, 'H'],
+  [10000, 'II', 0.65, 'L'],
+  [35000, 'III', 0.65, 'N'],
+  [500000, 'II', 0.65, 'P'],
+  [500001, 'III', 0.65, 'R'],
+]
+
+// Z1.4 Table II-A on code letter K (lot of 1000 at level III)
+const ACCEPT_NUMBERS: [number, number][] = [
+  [0.65, 2],
+  [1.0, 3],
+  [1.5, 5],
+  [2.5, 7],
+  [4.0, 10],
+  [6.5, 14],
+]
+
+const percentagePlan = (percentage: number, acceptNumber = 0): SamplingPlanSettings => ({
+  category: 'piles', method: 'percentage', inspectionLevel: null, aql: null, percentage, acceptNumber,
+})
+
+describe('ansiLotPlan', () => {
+  for (const [lotSize, level, aql, letter] of CODE_LETTERS) {
+    test(`a lot of ${lotSize} at level ${level} uses code letter ${letter}`, () => {
+      expect(ansiLotPlan(lotSize, level, aql).codeLetter).toBe(letter)
+    })
+  }
+
+  for (const [aql, acceptNumber] of ACCEPT_NUMBERS) {
+    test(`AQL ${aql} on code letter K samples 125 and accepts ${acceptNumber}`, () => {
+      expect(ansiLotPlan(1000, 'III', aql)).toEqual({ sampleSize: 125, acceptNumber, codeLetter: 'K' })
+    })
+  }
+
+  test('an up arrow uses the plan on the row above', () => {
+    // Code letter D, AQL 2.5
+    expect(ansiLotPlan(50, 'II', 2.5)).toEqual({ sampleSize: 5, acceptNumber: 0, codeLetter: 'C' })
+  })
+
+  test('a down arrow uses the plan on the row below', () => {
+    // Code letter E, AQL 2.5
+    expect(ansiLotPlan(90, 'II', 2.5)).toEqual({ sampleSize: 20, acceptNumber: 1, codeLetter: 'F' })
+  })
+
+  test('letters above the first acceptance number move down to it', () => {
+    // Code letter D, AQL 0.65
+    expect(ansiLotPlan(50, 'II', 0.65)).toEqual({ sampleSize: 20, acceptNumber: 0, codeLetter: 'F' })
+  })
+
+  test('letters past Ac 21 move up to it', () => {
+    // Code letter R, AQL 6.5
+    expect(ansiLotPlan(500001, 'III', 6.5)).toEqual({ sampleSize: 200, acceptNumber: 21, codeLetter: 'L' })
+    // Code letter P, AQL 4.0
+    expect(ansiLotPlan(150001, 'II', 4.0)).toEqual({ sampleSize: 315, acceptNumber: 21, codeLetter: 'M' })
+  })
+
+  test('a sample larger than the lot inspects the whole lot', () => {
+    // Code letter A, moved down to F by AQL 0.65
+    expect(ansiLotPlan(8, 'II', 0.65)).toEqual({ sampleSize: 8, acceptNumber: 0, codeLetter: 'F' })
+  })
+})
+
+describe('lotPlan', () => {
+  test('ANSI plans default to level II and AQL 2.5', () => {
+    const settings: SamplingPlanSettings = { ...percentagePlan(0), method: 'ansi_z14', percentage: null, acceptNumber: null }
+    expect(lotPlan(settings, 1000)).toEqual(ansiLotPlan(1000, 'II', 2.5))
+  })
+
+  test('percentage plans round the sample up and keep their acceptance number', () => {
+    expect(lotPlan(percentagePlan(10, 2), 95)).toEqual({ sampleSize: 10, acceptNumber: 2, codeLetter: null })
+  })
+
+  test('percentage plans sample at least one pile and at most the lot', () => {
+    expect(lotPlan(percentagePlan(0.1), 50).sampleSize).toBe(1)
+    expect(lotPlan(percentagePlan(100), 50).sampleSize).toBe(50)
+  })
+})
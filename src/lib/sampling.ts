@@ -0,0 +1,285 @@
+// Statistical sampling for percentage-scope inspections. A plan treats each
+// block of the pile registry as a lot and draws a random sample from it,
+// either by ANSI/ASQ Z1.4 (single sampling, normal inspection) or as a fixed
+// percentage. A lot whose sample has more failures than the acceptance number
+// escalates to 100% inspection of the block.
+
+import type { TenantDb } from '@/lib/db';
+import { parsePileIds } from '@/lib/piles';
+
+export type SamplingMethod = 'ansi_z14' | 'percentage';
+export type InspectionLevel = 'I' | 'II' | 'III';
+export type LotStatus = 'sampling' | 'accepted' | 'escalated';
+
+export const SAMPLING_METHODS: SamplingMethod[] = ['ansi_z14', 'percentage'];
+export const INSPECTION_LEVELS: InspectionLevel[] = ['I', 'II', 'III'];
+export const AQL_VALUES = [0.65, 1.0, 1.5, 2.5, 4.0, 6.5];
+
+// Z1.4 Table I: upper lot size of each band, and the sample size code letter
+// (as an index into SAMPLE_SIZES) per general inspection level
+const LOT_SIZE_BANDS = [8, 15, 25, 50, 90, 150, 280, 500, 1200, 3200, 10000, 35000, 150000, 500000, Infinity];
+const CODE_LETTERS: Record<InspectionLevel, number[]> = {
+  I: [0, 0, 1, 2, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12],
+  II: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14],
+  III: [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15],
+};
+const CODE_LETTER_NAMES = 'ABCDEFGHJKLMNPQR';
+const SAMPLE_SIZES = [2, 3, 5, 8, 13, 20, 32, 50, 80, 125, 200, 315, 500, 800, 1250, 2000];
+
+// Z1.4 Table II-A runs diagonally: each AQL column starts at Ac 0 on this
+// code letter, then has an up arrow, a down arrow, and Ac 1, 2, 3, 5, ... 21
+// on the following rows.
+const AQL_FIRST_ROW: Record<string, number> = { '0.65': 5, '1': 4, '1.5': 3, '2.5': 2, '4': 1, '6.5': 0 };
+const ACCEPT_NUMBERS = [1, 2, 3, 5, 7, 10, 14, 21];
+
+export interface SamplingPlanSettings {
+  category: string;
+  method: SamplingMethod;
+  inspectionLevel: InspectionLevel | null;
+  aql: number | null;
+  percentage: number | null;
+  acceptNumber: number | null;
+}
+
+export interface LotPlan {
+  sampleSize: number;
+  acceptNumber: number;
+  codeLetter: string | null;
+}
+
+export interface LotCoverage {
+  id: string;
+  block: string;
+  lotSize: number;
+  sampleSize: number;
+  acceptNumber: number;
+  status: LotStatus;
+  failures: number;
+  required: number;     // Sample size, or the whole lot once escalated
+  inspected: number;    // Required piles inspected since the lot was drawn
+  remainingPileIds: string[];
+}
+
+export function ansiLotPlan(lotSize: number, level: InspectionLevel, aql: number): LotPlan {
+  const band = LOT_SIZE_BANDS.findIndex(limit => lotSize <= limit);
+  const letter = CODE_LETTERS[level][band];
+  const first = AQL_FIRST_ROW[String(aql)];
+
+  let offset = Math.max(letter - first, 0);
+  if (offset === 1) offset = 0; // Up arrow
+  else if (offset === 2) offset = 3; // Down arrow
+  offset = Math.min(offset, ACCEPT_NUMBERS.length + 2); // Up arrow past Ac 21
+
+  return {
+    // The plan can ask for more than the lot holds; then every pile is inspected
+    sampleSize: Math.min(SAMPLE_SIZES[first + offset], lotSize),
+    acceptNumber: offset === 0 ? 0 : ACCEPT_NUMBERS[offset - 3],
+    codeLetter: CODE_LETTER_NAMES[first + offset],
+  };
+}
+
+export function lotPlan(settings: SamplingPlanSettings, lotSize: number): LotPlan {
+  if (settings.method === 'ansi_z14') {
+    return ansiLotPlan(lotSize, settings.inspectionLevel ?? 'II', settings.aql ?? 2.5);
+  }
+  return {
+    sampleSize: Math.min(Math.max(Math.ceil(lotSize * (settings.percentage ?? 0) / 100), 1), lotSize),
+    acceptNumber: settings.acceptNumber ?? 0,
+    codeLetter: null,
+  };
+}
+
+export function validateSamplingPlan(data: Record<string, any>): { settings: SamplingPlanSettings; errors: string[] } {
+  const errors: string[] = [];
+  const method = data.method as SamplingMethod;
+  if (!['piles', 'racking', 'modules'].includes(data.category)) errors.push('category must be piles, racking or modules');
+  if (!SAMPLING_METHODS.includes(method)) errors.push(`method must be one of ${SAMPLING_METHODS.join(', ')}`);
+
+  const settings: SamplingPlanSettings = {
+    category: data.category,
+    method,
+    inspectionLevel: null,
+    aql: null,
+    percentage: null,
+    acceptNumber: null,
+  };
+
+  if (method === 'ansi_z14') {
+    const aql = Number(data.aql);
+    if (!INSPECTION_LEVELS.includes(data.inspectionLevel)) errors.push(`inspectionLevel must be one of ${INSPECTION_LEVELS.join(', ')}`);
+    if (!AQL_VALUES.includes(aql)) errors.push(`aql must be one of ${AQL_VALUES.join(', ')}`);
+    settings.inspectionLevel = data.inspectionLevel;
+    settings.aql = aql;
+  } else if (method === 'percentage') {
+    const percentage = Number(data.percentage);
+    const acceptNumber = Number(data.acceptNumber ?? 0);
+    if (!Number.isFinite(percentage) || percentage <= 0 || percentage > 100) errors.push('percentage must be more than 0 and at most 100');
+    if (!Number.isInteger(acceptNumber) || acceptNumber < 0) errors.push('acceptNumber must be a whole number of zero or more');
+    settings.percentage = percentage;
+    settings.acceptNumber = acceptNumber;
+  }
+
+  return { settings, errors };
+}
+
+// Partial Fisher-Yates shuffle
+function drawSample<T>(items: T[], size: number): T[] {
+  const pool = [...items];
+  for (let i = 0; i < size; i++) {
+    const j = i + Math.floor(Math.random() * (pool.length - i));
+    [pool[i], pool[j]] = [pool[j], pool[i]];
+  }
+  return pool.slice(0, size);
+}
+
+async function lotPiles(db: TenantDb, projectId: string) {
+  const piles = await db.pile.findMany({ where: { projectId }, select: { pileId: true, block: true } });
+  const lots = new Map<string, string[]>();
+  for (const pile of piles as { pileId: string; block: string | null }[]) {
+    const block = pile.block ?? '';
+    if (!lots.has(block)) lots.set(block, []);
+    lots.get(block)!.push(pile.pileId);
+  }
+  return lots;
+}
+
+// Save the plan and draw a fresh sample for every block. Earlier lots and
+// their escalations are replaced, so piles added to the registry later are
+// picked up by saving the plan again.
+export async function saveSamplingPlan(db: TenantDb, projectId: string, userId: string, settings: SamplingPlanSettings) {
+  const lots = await lotPiles(db, projectId);
+  if (lots.size === 0) return { plan: null, errors: ['The project has no piles in its registry to sample'] };
+
+  const { category, ...fields } = settings;
+  const existing = await db.samplingPlan.findFirst({ where: { projectId, category } });
+  const plan = existing
+    ? await db.samplingPlan.update({ where: { id: existing.id }, data: { ...fields, createdById: userId } })
+    : await db.samplingPlan.create({ data: { projectId, category, ...fields, createdById: userId } });
+
+  await db.samplingLot.deleteMany({ where: { planId: plan.id } });
+  await db.samplingLot.createMany({
+    data: Array.from(lots.entries()).map(([block, pileIds]) => {
+      const { sampleSize, acceptNumber } = lotPlan(settings, pileIds.length);
+      return {
+        planId: plan.id,
+        block,
+        lotSize: pileIds.length,
+        sampleSize,
+        acceptNumber,
+        sampledPileIds: JSON.stringify(drawSample(pileIds, sampleSize)),
+      };
+    }),
+  });
+
+  return { plan, errors: [] };
+}
+
+// Result per pile from the category's inspections since `since`. Measured
+// inspections fail only the piles with an out-of-tolerance item; a failure
+// stands even if the pile passes a later inspection.
+async function pileResults(db: TenantDb, projectId: string, category: string, since: Date) {
+  const inspections = await db.qCInspection.findMany({
+    where: { projectId, category, createdAt: { gte: since } },
+    select: { pileIds: true, status: true, items: { select: { pileId: true, passed: true } } },
+  });
+
+  const results = new Map<string, 'pass' | 'fail'>();
+  for (const inspection of inspections) {
+    const measured = inspection.items.some((item: { pileId: string | null }) => item.pileId);
+    for (const pileId of parsePileIds(inspection.pileIds)) {
+      const failed = measured
+        ? inspection.items.some((item: { pileId: string | null; passed: boolean }) => item.pileId === pileId && !item.passed)
+        : inspection.status === 'fail';
+      if (failed) results.set(pileId, 'fail');
+      else if (!results.has(pileId)) results.set(pileId, 'pass');
+    }
+  }
+  return results;
+}
+
+// The category's inspections since the plan's lots were drawn
+async function sampleResults(db: TenantDb, plan: any) {
+  const lots: any[] = await db.samplingLot.findMany({ where: { planId: plan.id }, orderBy: { block: 'asc' } });
+  if (lots.length === 0) return { lots, results: new Map<string, 'pass' | 'fail'>() };
+
+  const since = new Date(Math.min(...lots.map((lot: any) => new Date(lot.createdAt).getTime())));
+  return { lots, results: await pileResults(db, plan.projectId, plan.category, since) };
+}
+
+function sampleFailures(lot: any, results: Map<string, 'pass' | 'fail'>) {
+  const sample = parsePileIds(lot.sampledPileIds);
+  return { sample, failures: sample.filter(pileId => results.get(pileId) === 'fail').length };
+}
+
+async function lotCoverage(db: TenantDb, plan: any, lots: any[], results: Map<string, 'pass' | 'fail'>): Promise<LotCoverage[]> {
+  let blocks: Map<string, string[]> | null = null;
+
+  const coverage: LotCoverage[] = [];
+  for (const lot of lots) {
+    const { sample, failures } = sampleFailures(lot, results);
+    if (lot.status === 'escalated' && !blocks) blocks = await lotPiles(db, plan.projectId);
+    const required = lot.status === 'escalated' ? blocks!.get(lot.block) ?? sample : sample;
+    const remainingPileIds = required.filter(pileId => !results.has(pileId));
+    coverage.push({
+      id: lot.id,
+      block: lot.block,
+      lotSize: lot.lotSize,
+      sampleSize: lot.sampleSize,
+      acceptNumber: lot.acceptNumber,
+      status: lot.status,
+      failures,
+      required: required.length,
+      inspected: required.length - remainingPileIds.length,
+      remainingPileIds,
+    });
+  }
+  return coverage;
+}
+
+// Each lot's coverage at its recorded status, without changing anything.
+// Lots only move on when inspections are saved; see evaluateSamplingPlan.
+export async function samplingCoverage(db: TenantDb, plan: any): Promise<LotCoverage[]> {
+  const { lots, results } = await sampleResults(db, plan);
+  return lotCoverage(db, plan, lots, results);
+}
+
+// Move lots on and return their coverage: a sample with too many failures
+// escalates the block (and opens a QC issue), a fully inspected sample within
+// the acceptance number accepts it. Each change is claimed against the lot's
+// current status, so concurrent evaluations open one issue per escalation.
+export async function evaluateSamplingPlan(db: TenantDb, plan: any): Promise<LotCoverage[]> {
+  const { lots, results } = await sampleResults(db, plan);
+
+  for (const lot of lots) {
+    const { sample, failures } = sampleFailures(lot, results);
+    if (lot.status !== 'escalated' && failures > lot.acceptNumber) {
+      const { count } = await db.samplingLot.updateMany({
+        where: { id: lot.id, status: { not: 'escalated' } },
+        data: { status: 'escalated', escalatedAt: new Date() },
+      });
+      if (count > 0) {
+        await db.qCIssue.create({
+          data: {
+            status: 'open',
+            description: `${lot.block ? `Block ${lot.block}` : 'Lot'} escalated to 100% ${plan.category} inspection: ${failures} failures in a sample of ${lot.sampleSize} (accept ${lot.acceptNumber})`,
+            category: plan.category,
+            projectId: plan.projectId,
+          }
+        });
+      }
+      lot.status = 'escalated';
+    } else if (lot.status === 'sampling' && sample.every(pileId => results.has(pileId))) {
+      await db.samplingLot.updateMany({ where: { id: lot.id, status: 'sampling' }, data: { status: 'accepted' } });
+      lot.status = 'accepted';
+    }
+  }
+
+  return lotCoverage(db, plan, lots, results);
+}
+
+// Apply a new inspection's results to the category's plan, if there is one
+export async function refreshSamplingPlan(db: TenantDb, projectId: string, category: string) {
+  const plan = await db.samplingPlan.findFirst({ where: { projectId, category } });
+  if (!plan) return null;
+  return evaluateSamplingPlan(db, plan);
+}
@@ -0,0 +1,65 @@
+// Registration and messaging for public/sw.js
+
+const SW_URL = '/sw.js';
+const SYNC_TAG = 'sync-queue';
+
+type SyncCapableRegistration = ServiceWorkerRegistration & {
+  sync?: { register(tag: string): Promise<void> };
+};
+
+export async function registerServiceWorker(): Promise<ServiceWorkerRegistration | null> {
+  // Dev builds serve unhashed assets that must not be cached
+  if (typeof navigator === 'undefined' || !('serviceWorker' in navigator) || process.env.NODE_ENV !== 'production') {
+    return null;
+  }
+
+  try {
+    const registration = await navigator.serviceWorker.register(SW_URL);
+    navigator.serviceWorker.ready.then(cacheLoadedAssets);
+    return registration;
+  } catch (error) {
+    console.error('Service worker registration failed:', error);
+    return null;
+  }
+}
+
+// The worker precaches what the shell HTML references; hand it the chunks this
+// page has loaded since, so screens opened online also open offline
+function cacheLoadedAssets(registration: ServiceWorkerRegistration): void {
+  const urls = performance.getEntriesByType('resource')
+    .map(entry => new URL(entry.name))
+    .filter(url => url.origin === location.origin && url.pathname.startsWith('/_next/static/'))
+    .map(url => url.pathname + url.search);
+  registration.active?.postMessage({ type: 'cache-assets', urls });
+}
+
+// Ask the browser to wake the service worker when a connection returns, even
+// if the app has been closed by then. Not every browser supports it; the
+// in-page replayer covers the rest.
+export async function requestBackgroundSync(): Promise<void> {
+  if (typeof navigator === 'undefined' || !('serviceWorker' in navigator)) return;
+
+  try {
+    const registration = await navigator.serviceWorker.getRegistration();
+    await (registration as SyncCapableRegistration | undefined)?.sync?.register(SYNC_TAG);
+  } catch (error) {
+    console.error('Background sync registration failed:', error);
+  }
+}
+
+// Listen for the service worker handing a background sync to this window
+export function onServiceWorkerFlush(callback: () => void): () => void {
+  if (typeof navigator === 'undefined' || !('serviceWorker' in navigator)) return () => {};
+
+  const handleMessage = (event: MessageEvent) => {
+    if (event.data?.type === 'flush-sync-queue') callback();
+  };
+  navigator.serviceWorker.addEventListener('message', handleMessage);
+  return () => navigator.serviceWorker.removeEventListener('message', handleMessage);
+}
+
+// Drop cached API payloads, e.g. on sign-out
+export function clearOfflineData(): void {
+  if (typeof navigator === 'undefined' || !('serviceWorker' in navigator)) return;
+  navigator.serviceWorker.controller?.postMessage({ type: 'clear-data' });
+}
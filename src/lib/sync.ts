@@ -0,0 +1,197 @@
+// Background replayer for the offline queue. Pending items are posted to
+// /api/sync in batches; transient failures back off exponentially and items
+// the server rejects for good are parked as failed for the user to review.
+
+import { offlineStorage, isOnline, addNetworkListeners, type SyncAction, type SyncEntity, type SyncQueueItem } from '@/lib/offline';
+import { onServiceWorkerFlush, requestBackgroundSync } from '@/lib/service-worker';
+
+const SYNC_INTERVAL_MS = 30 * 1000;
+const BASE_BACKOFF_MS = 5 * 1000;
+const MAX_BACKOFF_MS = 10 * 60 * 1000;
+const MAX_ATTEMPTS = 8;
+const BATCH_SIZE = 20;
+const DEVICE_ID_KEY = 'deviceId';
+
+export interface SyncSnapshot {
+  pending: number;
+  failed: SyncQueueItem[];
+  conflicts: number; // Edits sent for review this session
+  syncing: boolean;
+  lastSyncedAt: string | null;
+}
+
+interface SyncResult {
+  localId: string;
+  success: boolean;
+  duplicate?: boolean;
+  conflict?: boolean;
+  error?: string;
+  retryable?: boolean;
+}
+
+type Listener = (snapshot: SyncSnapshot) => void;
+
+// Stable per-browser id so the server can de-duplicate replays
+export function getDeviceId(): string {
+  let deviceId = localStorage.getItem(DEVICE_ID_KEY);
+  if (!deviceId) {
+    deviceId = `device_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    localStorage.setItem(DEVICE_ID_KEY, deviceId);
+  }
+  return deviceId;
+}
+
+export function backoffDelay(attempts: number): number {
+  const delay = Math.min(BASE_BACKOFF_MS * 2 ** attempts, MAX_BACKOFF_MS);
+  // Jitter so a fleet of devices coming back online doesn't retry in lockstep
+  return delay / 2 + Math.random() * (delay / 2);
+}
+
+export class SyncReplayer {
+  private listeners = new Set<Listener>();
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private removeNetworkListeners: (() => void) | null = null;
+  private removeFlushListener: (() => void) | null = null;
+  private snapshot: SyncSnapshot = { pending: 0, failed: [], conflicts: 0, syncing: false, lastSyncedAt: null };
+  private flushing: Promise<number> | null = null;
+
+  start() {
+    if (this.timer) return;
+    this.timer = setInterval(() => { this.flush(); }, SYNC_INTERVAL_MS);
+    this.removeNetworkListeners = addNetworkListeners(() => { this.flush(); }, () => {});
+    this.removeFlushListener = onServiceWorkerFlush(() => { this.flush(); });
+    this.refresh();
+    this.flush();
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    this.removeNetworkListeners?.();
+    this.removeNetworkListeners = null;
+    this.removeFlushListener?.();
+    this.removeFlushListener = null;
+  }
+
+  subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    listener(this.snapshot);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  async queue(entity: SyncEntity, record: Record<string, unknown>, action: SyncAction = 'create'): Promise<string> {
+    const localId = await offlineStorage.enqueue(entity, { ...record, deviceId: getDeviceId() }, action);
+    await this.refresh();
+    requestBackgroundSync();
+    return localId;
+  }
+
+  async retry(itemId: number) {
+    await offlineStorage.retryItem(itemId);
+    await this.refresh();
+    this.flush();
+  }
+
+  async discard(itemId: number) {
+    await offlineStorage.discardItem(itemId);
+    await this.refresh();
+  }
+
+  async refresh() {
+    const [pending, failed] = await Promise.all([
+      offlineStorage.getPendingSyncItems(),
+      offlineStorage.getFailedSyncItems(),
+    ]);
+    this.emit({ pending: pending.length, failed });
+  }
+
+  // Replay due items. Resolves with the number of items the server accepted.
+  flush(): Promise<number> {
+    if (!this.flushing) {
+      this.flushing = this.replay().finally(() => { this.flushing = null; });
+    }
+    return this.flushing;
+  }
+
+  private async replay(): Promise<number> {
+    if (!isOnline()) return 0;
+
+    const now = Date.now();
+    const due = (await offlineStorage.getPendingSyncItems())
+      .filter(item => !item.nextAttemptAt || new Date(item.nextAttemptAt).getTime() <= now)
+      .slice(0, BATCH_SIZE);
+    if (due.length === 0) return 0;
+
+    this.emit({ syncing: true });
+    let synced = 0;
+
+    try {
+      let response: Response;
+      try {
+        response = await fetch('/api/sync', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            deviceId: getDeviceId(),
+            items: due.map(item => ({
+              localId: item.payload.localId,
+              entity: item.entity,
+              action: item.action,
+              payload: item.payload,
+            })),
+          }),
+        });
+      } catch (error) {
+        await this.backOff(due, error instanceof Error ? error.message : 'Network error');
+        return 0;
+      }
+
+      if (!response.ok) {
+        // Session expired or server trouble - nothing was applied, try later
+        await this.backOff(due, response.status === 401 ? 'Signed out - sign in to sync' : `Server error (${response.status})`);
+        return 0;
+      }
+
+      const { results } = await response.json() as { results: SyncResult[] };
+      const byLocalId = new Map(results.map(result => [result.localId, result]));
+
+      for (const item of due) {
+        const result = byLocalId.get(item.payload.localId);
+        if (result?.success) {
+          await offlineStorage.markSynced(item.id);
+          synced++;
+        } else if (result?.conflict) {
+          // The server kept our version for PM review - nothing left to send
+          await offlineStorage.markSynced(item.id);
+          this.emit({ conflicts: this.snapshot.conflicts + 1 });
+        } else if (result && result.retryable === false) {
+          await offlineStorage.markAttemptFailed(item.id, result.error || 'Rejected by server', null);
+        } else {
+          await this.backOff([item], result?.error || 'No result returned');
+        }
+      }
+
+      await offlineStorage.clearSyncedItems();
+      if (synced > 0) this.emit({ lastSyncedAt: new Date().toISOString() });
+      return synced;
+    } finally {
+      this.emit({ syncing: false });
+      await this.refresh();
+    }
+  }
+
+  private async backOff(items: SyncQueueItem[], error: string) {
+    for (const item of items) {
+      const attempts = (item.attempts || 0) + 1;
+      const retryAt = attempts >= MAX_ATTEMPTS ? null : new Date(Date.now() + backoffDelay(attempts));
+      await offlineStorage.markAttemptFailed(item.id, error, retryAt);
+    }
+  }
+
+  private emit(update: Partial<SyncSnapshot>) {
+    this.snapshot = { ...this.snapshot, ...update };
+    this.listeners.forEach(listener => listener(this.snapshot));
+  }
+}
+
+export const syncReplayer = new SyncReplayer();
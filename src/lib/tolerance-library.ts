@@ -0,0 +1,153 @@
+// Portable tolerance library files. A library holds racking systems with their
+// interior/exterior/motor profiles so that manufacturer tolerances can be
+// shared between companies instead of re-entered by hand.
+
+import type { TenantDb } from '@/lib/db';
+import type { PileType } from '@/lib/piles';
+import { PROFILE_FIELDS, parseToleranceProfile, validateToleranceProfile, type ProfileField, type ToleranceProfile } from '@/lib/tolerances';
+
+export const LIBRARY_FORMAT = 'tolerance-library';
+export const LIBRARY_VERSION = 1;
+
+export interface LibrarySystem {
+  name: string;
+  manufacturer: string;
+  version: string | null;
+  description: string | null;
+  revision: number; // Revision in the exporting company; informational only
+  tolerances: Partial<Record<PileType, ToleranceProfile>>;
+}
+
+export interface ToleranceLibrary {
+  format: typeof LIBRARY_FORMAT;
+  version: typeof LIBRARY_VERSION;
+  exportedAt: string;
+  systems: LibrarySystem[];
+}
+
+export interface FieldChange {
+  field: string; // "version" or "<pileType>.<toleranceKey>"
+  current: string | number | null;
+  incoming: string | number | null;
+}
+
+export interface ImportPlan {
+  name: string;
+  manufacturer: string;
+  action: 'create' | 'update' | 'unchanged';
+  existingId: string | null;
+  changes: FieldChange[];
+  errors: string[];
+  details: { name: string; manufacturer: string; version: string | null; description: string | null };
+  profiles: Partial<Record<ProfileField, string | null>>;
+}
+
+const PILE_TYPES = Object.keys(PROFILE_FIELDS) as PileType[];
+
+export function exportLibrary(systems: any[]): ToleranceLibrary {
+  return {
+    format: LIBRARY_FORMAT,
+    version: LIBRARY_VERSION,
+    exportedAt: new Date().toISOString(),
+    systems: systems.map(system => ({
+      name: system.name,
+      manufacturer: system.manufacturer,
+      version: system.version ?? null,
+      description: system.description ?? null,
+      revision: system.revision,
+      tolerances: Object.fromEntries(PILE_TYPES
+        .map(pileType => [pileType, parseToleranceProfile(system[PROFILE_FIELDS[pileType]])])
+        .filter(([, profile]) => profile !== null)),
+    })),
+  };
+}
+
+const matchKey = (manufacturer: string, name: string) => `${manufacturer.trim().toLowerCase()}|${name.trim().toLowerCase()}`;
+
+function diffProfiles(current: any, profiles: Partial<Record<ProfileField, string | null>>): FieldChange[] {
+  const changes: FieldChange[] = [];
+  for (const pileType of PILE_TYPES) {
+    const field = PROFILE_FIELDS[pileType];
+    const before: ToleranceProfile = parseToleranceProfile(current?.[field]) ?? {};
+    const after: ToleranceProfile = parseToleranceProfile(profiles[field]) ?? {};
+    const keys = Array.from(new Set([...Object.keys(before), ...Object.keys(after)])) as (keyof ToleranceProfile)[];
+    for (const key of keys) {
+      if (before[key] !== after[key]) {
+        changes.push({ field: `${pileType}.${key}`, current: before[key] ?? null, incoming: after[key] ?? null });
+      }
+    }
+  }
+  return changes;
+}
+
+// Validate a library file and work out what importing it would do to the
+// company's racking systems. Systems match on manufacturer and name.
+export async function planLibraryImport(db: TenantDb, content: string): Promise<{ plans: ImportPlan[]; errors: string[] }> {
+  let library: any;
+  try {
+    library = JSON.parse(content);
+  } catch {
+    return { plans: [], errors: ['File is not valid JSON'] };
+  }
+  if (library?.format !== LIBRARY_FORMAT || !Array.isArray(library.systems)) {
+    return { plans: [], errors: ['Not a tolerance library file'] };
+  }
+  if (library.version !== LIBRARY_VERSION) {
+    return { plans: [], errors: [`Unsupported library version ${library.version}`] };
+  }
+
+  const existing = await db.rackingSystem.findMany();
+  const byKey = new Map<string, any>(existing.map((system: any) => [matchKey(system.manufacturer, system.name), system]));
+  const seen = new Set<string>();
+
+  const plans = library.systems.map((system: any, index: number): ImportPlan => {
+    const name = typeof system?.name === 'string' ? system.name.trim() : '';
+    const manufacturer = typeof system?.manufacturer === 'string' ? system.manufacturer.trim() : '';
+    const details = {
+      name,
+      manufacturer,
+      version: system?.version != null ? String(system.version) : null,
+      description: system?.description != null ? String(system.description) : null,
+    };
+    const errors: string[] = [];
+    if (!name || !manufacturer) errors.push(`System ${index + 1}: name and manufacturer are required`);
+
+    const key = matchKey(manufacturer, name);
+    if (seen.has(key)) errors.push(`${manufacturer} ${name} appears more than once`);
+    seen.add(key);
+
+    const tolerances = system?.tolerances ?? {};
+    const profiles: ImportPlan['profiles'] = {};
+    for (const pileType of Object.keys(tolerances)) {
+      if (!PILE_TYPES.includes(pileType as PileType)) errors.push(`Unknown pile type "${pileType}"`);
+    }
+    for (const pileType of PILE_TYPES) {
+      const result = validateToleranceProfile(tolerances[pileType] ?? null);
+      profiles[PROFILE_FIELDS[pileType]] = result.json;
+      errors.push(...result.errors.map(error => `${pileType} profile: ${error}`));
+    }
+
+    const current = byKey.get(key) ?? null;
+    const changes = diffProfiles(current, profiles);
+    if (current) {
+      for (const field of ['version', 'description'] as const) {
+        if ((current[field] ?? null) !== details[field]) {
+          changes.unshift({ field, current: current[field] ?? null, incoming: details[field] });
+        }
+      }
+    }
+
+    return {
+      name,
+      manufacturer,
+      action: !current ? 'create' : changes.length > 0 ? 'update' : 'unchanged',
+      existingId: current?.id ?? null,
+      changes,
+      errors,
+      details,
+      profiles,
+    };
+  });
+
+  return { plans, errors: [] };
+}
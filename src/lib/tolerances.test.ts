@@ -0,0 +1,107 @@
+/// <reference types="bun-types" />
+
+import { describe, expect, test } from 'bun:test'
+import { evaluateMeasurements, inspectionStatus, validateToleranceProfile, type ToleranceProfile } from './tolerances'
+
+const PROFILE: ToleranceProfile = { embedDepthMin: 1500, embedDepthMax: 1800, nsPlumbMax: 1, ewPlumbMax: 1, twistMax: 2 }
+
+const evaluate = (item: Record<string, unknown>, profile: ToleranceProfile | null = PROFILE) =>
+  evaluateMeasurements(profile, [{ pileId: '1-1', ...item }])
+
+const passed = (item: Record<string, unknown>) => {
+  const { items, errors } = evaluate(item)
+  expect(errors).toEqual([])
+  return items[0].passed
+}
+
+describe('evaluateMeasurements grading', () => {
+  test('limits are inclusive', () => {
+    expect(passed({ measurementType: 'embed_depth', measuredValue: 1500, unit: 'mm' })).toBe(true)
+    expect(passed({ measurementType: 'embed_depth', measuredValue: 1800, unit: 'mm' })).toBe(true)
+    expect(passed({ measurementType: 'embed_depth', measuredValue: 1499.9, unit: 'mm' })).toBe(false)
+    expect(passed({ measurementType: 'embed_depth', measuredValue: 1800.1, unit: 'mm' })).toBe(false)
+  })
+
+  test('a limit without a minimum applies both ways', () => {
+    expect(passed({ measurementType: 'ns_plumb', measuredValue: -1, unit: 'deg' })).toBe(true)
+    expect(passed({ measurementType: 'ns_plumb', measuredValue: 1, unit: 'deg' })).toBe(true)
+    expect(passed({ measurementType: 'ns_plumb', measuredValue: -1.01, unit: 'deg' })).toBe(false)
+    expect(passed({ measurementType: 'twist', measuredValue: 2.5, unit: '°' })).toBe(false)
+  })
+
+  test('items record the limits they were graded against', () => {
+    expect(evaluate({ measurementType: 'ew_plumb', measuredValue: '0.5', unit: 'deg', notes: 'north face' }).items).toEqual([{
+      pileId: '1-1', measurementType: 'ew_plumb', measuredValue: 0.5, minValue: -1, maxValue: 1, unit: 'deg', passed: true, notes: 'north face',
+    }])
+  })
+})
+
+describe('evaluateMeasurements units', () => {
+  test('lengths are converted to mm before grading', () => {
+    for (const [value, unit, mm] of [[150, 'cm', 1500], [1.8, 'm', 1800], [60, 'in', 1524], [5, 'ft', 1524]] as const) {
+      const { items } = evaluate({ measurementType: 'embed_depth', measuredValue: value, unit })
+      expect(items[0].measuredValue).toBeCloseTo(mm)
+      expect(items[0].unit).toBe('mm')
+    }
+    expect(passed({ measurementType: 'embed_depth', measuredValue: 5.8, unit: 'ft' })).toBe(true)
+    expect(passed({ measurementType: 'embed_depth', measuredValue: 4.9, unit: 'ft' })).toBe(false)
+  })
+
+  test('units outside the measurement type are rejected', () => {
+    for (const item of [
+      { measurementType: 'embed_depth', measuredValue: 1600, unit: 'deg' },
+      { measurementType: 'ns_plumb', measuredValue: 1, unit: 'mm' },
+      { measurementType: 'embed_depth', measuredValue: 1600, unit: 'yd' },
+      { measurementType: 'embed_depth', measuredValue: 1600, unit: 'toString' },
+      { measurementType: 'embed_depth', measuredValue: 1600 },
+    ]) {
+      const { items, errors } = evaluate(item)
+      expect(items).toEqual([])
+      expect(errors[0]).toStartWith('Measurement 1: unit')
+    }
+  })
+})
+
+describe('evaluateMeasurements errors', () => {
+  test('rejects unknown types, missing values and missing limits', () => {
+    expect(evaluate({ measurementType: 'height', measuredValue: 1, unit: 'mm' }).errors).toEqual(['Measurement 1: unknown measurement type "height"'])
+    expect(evaluate({ measurementType: 'embed_depth', measuredValue: '', unit: 'mm' }).errors).toEqual(['Measurement 1: embed_depth value must be a number'])
+    expect(evaluate({ measurementType: 'embed_depth', measuredValue: 'deep', unit: 'mm' }).errors).toEqual(['Measurement 1: embed_depth value must be a number'])
+    expect(evaluate({ measurementType: 'spacing', measuredValue: 2000, unit: 'mm' }).errors).toEqual(['Measurement 1: the tolerance profile has no limits for spacing'])
+  })
+
+  test('measurements need a profile to be graded against', () => {
+    expect(evaluate({ measurementType: 'embed_depth', measuredValue: 1600, unit: 'mm' }, null).errors)
+      .toEqual(['The project has no racking system tolerance profile for this pile type'])
+  })
+
+  test('no measurements is not an error', () => {
+    expect(evaluateMeasurements(null, [])).toEqual({ items: [], errors: [] })
+  })
+})
+
+describe('inspectionStatus', () => {
+  test('measured inspections pass only when every item does', () => {
+    expect(inspectionStatus([{ passed: true }, { passed: true }], 'fail')).toBe('pass')
+    expect(inspectionStatus([{ passed: true }, { passed: false }], 'pass')).toBe('fail')
+  })
+
+  test("visual inspections keep the inspector's call", () => {
+    expect(inspectionStatus([], 'fail')).toBe('fail')
+    expect(inspectionStatus([], undefined)).toBe('pass')
+  })
+})
+
+describe('validateToleranceProfile', () => {
+  test('normalises field order and drops empty fields', () => {
+    expect(validateToleranceProfile({ twistMax: 2, embedDepthMin: 1500, spacingMax: null })).toEqual({
+      json: '{"embedDepthMin":1500,"twistMax":2}', errors: [],
+    })
+  })
+
+  test('rejects unknown fields, negative limits and inverted ranges', () => {
+    expect(validateToleranceProfile({ depth: 1 }).errors).toEqual(['unknown field "depth"'])
+    expect(validateToleranceProfile({ twistMax: -1 }).errors).toEqual(['twistMax must be a number of zero or more'])
+    expect(validateToleranceProfile({ embedDepthMin: 1800, embedDepthMax: 1500 }).errors).toEqual(['embedDepthMin is greater than embedDepthMax'])
+  })
+})
@@ -0,0 +1,224 @@
+// QC tolerance evaluation. Measurements are checked on the server against the
+// project's racking system profile for the inspection's pile type, so a pass
+// or fail never depends on what the client claims.
+
+import type { TenantDb } from '@/lib/db';
+import type { PileType } from '@/lib/piles';
+
+// Stored as JSON on RackingSystem.{interior,exterior,motor}Tolerances. Lengths
+// are in mm, angles in degrees.
+export interface ToleranceProfile {
+  embedDepthMin?: number;
+  embedDepthMax?: number;
+  nsPlumbMax?: number;
+  ewPlumbMax?: number;
+  twistMax?: number;
+  spacingMin?: number;
+  spacingMax?: number;
+}
+
+const PROFILE_KEYS: (keyof ToleranceProfile)[] = [
+  'embedDepthMin', 'embedDepthMax', 'nsPlumbMax', 'ewPlumbMax', 'twistMax', 'spacingMin', 'spacingMax',
+];
+const PROFILE_RANGES: [keyof ToleranceProfile, keyof ToleranceProfile][] = [
+  ['embedDepthMin', 'embedDepthMax'],
+  ['spacingMin', 'spacingMax'],
+];
+
+export type MeasurementType = 'embed_depth' | 'ns_plumb' | 'ew_plumb' | 'twist' | 'spacing';
+
+interface MeasurementSpec {
+  unit: string;                   // Unit values are stored in
+  units: Record<string, number>;  // Accepted units and their factor to `unit`
+  min?: keyof ToleranceProfile;
+  max: keyof ToleranceProfile;    // Without `min` the limit applies both ways (±max)
+}
+
+const LENGTH_UNITS = { mm: 1, cm: 10, m: 1000, in: 25.4, ft: 304.8 };
+const ANGLE_UNITS = { deg: 1, '°': 1 };
+
+export const MEASUREMENTS: Record<MeasurementType, MeasurementSpec> = {
+  embed_depth: { unit: 'mm', units: LENGTH_UNITS, min: 'embedDepthMin', max: 'embedDepthMax' },
+  ns_plumb: { unit: 'deg', units: ANGLE_UNITS, max: 'nsPlumbMax' },
+  ew_plumb: { unit: 'deg', units: ANGLE_UNITS, max: 'ewPlumbMax' },
+  twist: { unit: 'deg', units: ANGLE_UNITS, max: 'twistMax' },
+  spacing: { unit: 'mm', units: LENGTH_UNITS, min: 'spacingMin', max: 'spacingMax' },
+};
+
+export interface EvaluatedItem {
+  pileId: string | null;
+  measurementType: MeasurementType;
+  measuredValue: number;
+  minValue: number;
+  maxValue: number;
+  unit: string;
+  passed: boolean;
+  notes: string | null;
+}
+
+export interface Evaluation {
+  items: EvaluatedItem[];
+  errors: string[];
+  toleranceRevisionId?: string | null;
+}
+
+export type ProfileField = 'interiorTolerances' | 'exteriorTolerances' | 'motorTolerances';
+
+export const PROFILE_FIELDS: Record<PileType, ProfileField> = {
+  interior: 'interiorTolerances',
+  exterior: 'exteriorTolerances',
+  motor: 'motorTolerances',
+};
+
+function hasOwn(object: object, key: unknown) {
+  return typeof key === 'string' && Object.prototype.hasOwnProperty.call(object, key);
+}
+
+export function parseToleranceProfile(raw: string | null | undefined): ToleranceProfile | null {
+  if (!raw) return null;
+  try {
+    const parsed = JSON.parse(raw);
+    return parsed && typeof parsed === 'object' ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+// Check a profile against the schema. Empty input means "no profile"; the
+// result is re-serialised so equal profiles compare equal as strings.
+export function validateToleranceProfile(raw: unknown): { json: string | null; errors: string[] } {
+  if (raw === null || raw === undefined || raw === '') return { json: null, errors: [] };
+
+  let profile: unknown = raw;
+  if (typeof raw === 'string') {
+    try {
+      profile = JSON.parse(raw);
+    } catch {
+      return { json: null, errors: ['is not valid JSON'] };
+    }
+  }
+  if (!profile || typeof profile !== 'object' || Array.isArray(profile)) {
+    return { json: null, errors: ['must be an object'] };
+  }
+
+  const errors: string[] = [];
+  const clean: ToleranceProfile = {};
+  for (const [key, value] of Object.entries(profile)) {
+    if (!PROFILE_KEYS.includes(key as keyof ToleranceProfile)) {
+      errors.push(`unknown field "${key}"`);
+    } else if (value === null || value === '') {
+      continue;
+    } else if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+      errors.push(`${key} must be a number of zero or more`);
+    } else {
+      clean[key as keyof ToleranceProfile] = value;
+    }
+  }
+  for (const [min, max] of PROFILE_RANGES) {
+    if (clean[min] !== undefined && clean[max] !== undefined && clean[min]! > clean[max]!) {
+      errors.push(`${min} is greater than ${max}`);
+    }
+  }
+
+  if (errors.length > 0 || Object.keys(clean).length === 0) return { json: null, errors };
+  // Fixed key order
+  return { json: JSON.stringify(Object.fromEntries(PROFILE_KEYS.filter(key => key in clean).map(key => [key, clean[key]]))), errors };
+}
+
+// Validate the profiles present on a racking system payload. Fields that are
+// left out are not returned, so an update keeps their current value.
+export function validateProfiles(data: Record<string, unknown>) {
+  const profiles: Partial<Record<ProfileField, string | null>> = {};
+  const errors: string[] = [];
+  for (const [pileType, field] of Object.entries(PROFILE_FIELDS)) {
+    if (data[field] === undefined) continue;
+    const result = validateToleranceProfile(data[field]);
+    profiles[field] = result.json;
+    errors.push(...result.errors.map(error => `${pileType} profile: ${error}`));
+  }
+  return { profiles, errors };
+}
+
+// The tolerance profile that applies to a pile type on a project, taken from
+// the racking system's current revision. The profile is null when the project
+// has no racking system or the system has no profile for the pile type.
+export async function loadToleranceProfile(db: TenantDb, projectId: string, pileType: string) {
+  const project = await db.project.findFirst({ where: { id: projectId }, include: { rackingSystem: true } });
+  const system = project?.rackingSystem;
+  if (!system) return { profile: null, revisionId: null };
+
+  const revision = await db.rackingSystemRevision.findFirst({ where: { rackingSystemId: system.id, revision: system.revision } });
+  const field = PROFILE_FIELDS[pileType as PileType] ?? PROFILE_FIELDS.interior;
+  return {
+    profile: parseToleranceProfile(revision ? revision[field] : system[field]),
+    revisionId: (revision?.id as string | undefined) ?? null,
+  };
+}
+
+// Convert each measurement to its stored unit and check it against the
+// profile. Any error rejects the whole inspection.
+export function evaluateMeasurements(profile: ToleranceProfile | null, rawItems: unknown): Evaluation {
+  const items: EvaluatedItem[] = [];
+  const errors: string[] = [];
+  if (!Array.isArray(rawItems) || rawItems.length === 0) return { items, errors };
+
+  if (!profile) {
+    return { items, errors: ['The project has no racking system tolerance profile for this pile type'] };
+  }
+
+  rawItems.forEach((raw: any, index) => {
+    const label = `Measurement ${index + 1}`;
+    const type = raw?.measurementType as MeasurementType;
+    const spec = hasOwn(MEASUREMENTS, type) ? MEASUREMENTS[type] : undefined;
+    if (!spec) {
+      errors.push(`${label}: unknown measurement type "${raw?.measurementType}"`);
+      return;
+    }
+
+    const factor = hasOwn(spec.units, raw.unit) ? spec.units[raw.unit] : undefined;
+    if (factor === undefined) {
+      errors.push(`${label}: unit "${raw.unit}" is not valid for ${type} (use ${Object.keys(spec.units).join(', ')})`);
+      return;
+    }
+
+    const value = Number(raw.measuredValue);
+    if (raw.measuredValue === null || raw.measuredValue === '' || !Number.isFinite(value)) {
+      errors.push(`${label}: ${type} value must be a number`);
+      return;
+    }
+
+    const max = profile[spec.max];
+    const min = spec.min ? profile[spec.min] : max === undefined ? undefined : -max;
+    if (typeof min !== 'number' || typeof max !== 'number') {
+      errors.push(`${label}: the tolerance profile has no limits for ${type}`);
+      return;
+    }
+
+    const measuredValue = value * factor;
+    items.push({
+      pileId: raw.pileId || null,
+      measurementType: type,
+      measuredValue,
+      minValue: min,
+      maxValue: max,
+      unit: spec.unit,
+      passed: measuredValue >= min && measuredValue <= max,
+      notes: raw.notes || null,
+    });
+  });
+
+  return { items, errors };
+}
+
+export async function evaluateInspection(db: TenantDb, projectId: string, pileType: string, rawItems: unknown): Promise<Evaluation> {
+  if (!Array.isArray(rawItems) || rawItems.length === 0) return { items: [], errors: [], toleranceRevisionId: null };
+  const { profile, revisionId } = await loadToleranceProfile(db, projectId, pileType);
+  return { ...evaluateMeasurements(profile, rawItems), toleranceRevisionId: revisionId };
+}
+
+// Measured inspections pass only when every item is in tolerance. Visual
+// inspections without measurements keep the inspector's call.
+export function inspectionStatus(items: Pick<EvaluatedItem, 'passed'>[], reported: string | undefined) {
+  if (items.length > 0) return items.every(item => item.passed) ? 'pass' : 'fail';
+  return reported || 'pass';
+}